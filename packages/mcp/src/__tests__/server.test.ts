@@ -0,0 +1,249 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PassThrough } from 'stream';
+import { ZendFiClient } from '@zendfi/sdk';
+import { ZendFiMcpServer, parseScopes, resolveScopes, serveStdio } from '../index.js';
+
+function createClient(routes: Record<string, unknown> = {}) {
+  const request = vi.fn(async (req: { url: string }) => {
+    const path = new URL(req.url).pathname;
+    const body = routes[path];
+    return body === undefined
+      ? { status: 404, statusText: 'Not Found', headers: {}, body: '{"error":"Not found"}' }
+      : { status: 200, statusText: 'OK', headers: {}, body: JSON.stringify(body) };
+  });
+  const client = new ZendFiClient({
+    apiKey: 'zfi_test_abc123',
+    logLevel: 'silent',
+    transport: { request },
+  });
+  return { client, request };
+}
+
+async function call(server: ZendFiMcpServer, method: string, params?: Record<string, unknown>) {
+  return server.handle({ jsonrpc: '2.0', id: 1, method, params });
+}
+
+interface ToolsList {
+  tools: Array<{ name: string; inputSchema: unknown; annotations: { readOnlyHint: boolean } }>;
+}
+
+interface ToolCall {
+  content: Array<{ type: 'text'; text: string }>;
+  isError?: boolean;
+}
+
+interface ResourcesList {
+  resources: Array<{ uri: string; name: string }>;
+}
+
+interface ResourceTemplatesList {
+  resourceTemplates: Array<{ uriTemplate: string; name: string }>;
+}
+
+interface ResourceRead {
+  contents: Array<{ uri: string; mimeType: string; text: string }>;
+}
+
+/**
+ * Call a method that must succeed and return its result
+ */
+async function result<T>(
+  server: ZendFiMcpServer,
+  method: string,
+  params?: Record<string, unknown>
+): Promise<T> {
+  const response = await call(server, method, params);
+  if (!response || !('result' in response)) {
+    throw new Error(`${method} failed: ${JSON.stringify(response)}`);
+  }
+  return response.result as T;
+}
+
+describe('ZendFi MCP Server', () => {
+  it('should negotiate the protocol version on initialize', async () => {
+    const { client } = createClient();
+    const server = new ZendFiMcpServer({ client, scopes: ['full'] });
+
+    const response = await call(server, 'initialize', { protocolVersion: '2025-03-26' });
+
+    expect(response).toMatchObject({
+      id: 1,
+      result: {
+        protocolVersion: '2025-03-26',
+        capabilities: { tools: {}, resources: {} },
+        serverInfo: { name: 'zendfi' },
+      },
+    });
+    await expect(
+      server.handle({ jsonrpc: '2.0', method: 'notifications/initialized' })
+    ).resolves.toBeUndefined();
+  });
+
+  it('should only list read tools for a read_only key', async () => {
+    const { client } = createClient();
+    const readOnly = new ZendFiMcpServer({ client, scopes: ['read_only'] });
+    const escrow = new ZendFiMcpServer({ client, scopes: ['manage_escrow'] });
+
+    const names = async (server: ZendFiMcpServer) => {
+      const { tools } = await result<ToolsList>(server, 'tools/list');
+      return tools.map((tool) => tool.name);
+    };
+
+    const readOnlyTools = await names(readOnly);
+    expect(readOnlyTools).toContain('get_payment');
+    expect(readOnlyTools).toContain('get_agent_analytics');
+    expect(readOnlyTools).not.toContain('create_payment');
+    expect(readOnlyTools).not.toContain('approve_escrow');
+
+    const escrowTools = await names(escrow);
+    expect(escrowTools).toContain('approve_escrow');
+    expect(escrowTools).not.toContain('create_payment');
+    expect(escrowTools).not.toContain('get_agent_analytics');
+  });
+
+  it('should describe tool arguments with JSON Schema', async () => {
+    const { client } = createClient();
+    const server = new ZendFiMcpServer({ client, scopes: ['full'] });
+
+    const { tools } = await result<ToolsList>(server, 'tools/list');
+    const tool = tools.find((t) => t.name === 'get_escrow');
+
+    expect(tool).toMatchObject({
+      inputSchema: {
+        type: 'object',
+        properties: { escrow_id: { type: 'string', description: 'Escrow ID' } },
+        required: ['escrow_id'],
+      },
+      annotations: { readOnlyHint: true },
+    });
+  });
+
+  it('should call tools and report failures as tool errors', async () => {
+    const { client } = createClient({
+      '/api/v1/payments/pay_1': { id: 'pay_1', status: 'confirmed', amount: 50 },
+    });
+    const server = new ZendFiMcpServer({ client, scopes: ['read_only'] });
+
+    const ok = await result<ToolCall>(server, 'tools/call', {
+      name: 'get_payment',
+      arguments: { payment_id: 'pay_1' },
+    });
+    expect(JSON.parse(ok.content[0]!.text)).toMatchObject({ id: 'pay_1' });
+
+    const invalid = await result<ToolCall>(server, 'tools/call', {
+      name: 'get_payment',
+      arguments: { payment_id: 42 },
+    });
+    expect(invalid.isError).toBe(true);
+    expect(invalid.content[0]!.text).toContain('payment_id: expected string');
+
+    const missing = await result<ToolCall>(server, 'tools/call', {
+      name: 'get_payment',
+      arguments: { payment_id: 'pay_404' },
+    });
+    expect(missing).toMatchObject({ isError: true });
+
+    // Out-of-scope tools don't exist as far as the client can tell
+    const denied = await call(server, 'tools/call', {
+      name: 'create_payment',
+      arguments: { amount: 10 },
+    });
+    expect(denied).toMatchObject({ error: { code: -32602 } });
+  });
+
+  it('should list and read resources', async () => {
+    const { client } = createClient({
+      '/api/v1/escrows/esc_1': { id: 'esc_1', status: 'funded' },
+    });
+    const server = new ZendFiMcpServer({ client, scopes: ['read_only'] });
+
+    const list = await result<ResourcesList>(server, 'resources/list');
+    expect(list.resources.map((r) => r.uri)).toContain('zendfi://ppp-factors');
+    const templates = await result<ResourceTemplatesList>(server, 'resources/templates/list');
+    expect(templates.resourceTemplates[0]).toMatchObject({
+      uriTemplate: 'zendfi://payments/{id}',
+    });
+
+    const uri = 'zendfi://escrows/esc_1';
+    const escrow = await result<ResourceRead>(server, 'resources/read', { uri });
+    expect(escrow.contents[0]).toMatchObject({
+      uri: 'zendfi://escrows/esc_1',
+      mimeType: 'application/json',
+    });
+    expect(JSON.parse(escrow.contents[0]!.text)).toMatchObject({ id: 'esc_1' });
+
+    const unknown = await call(server, 'resources/read', { uri: 'zendfi://nope' });
+    expect(unknown).toMatchObject({ error: { code: -32002 } });
+  });
+
+  it('should resolve scopes from the agent key', async () => {
+    const { client } = createClient({
+      '/api/v1/agent-keys': [
+        { id: 'key_1', key_prefix: 'zai_test_abc', scopes: ['read_only', 'read_analytics'] },
+        { id: 'key_2', key_prefix: 'zai_test_xyz', scopes: ['create_payments'] },
+        { id: 'key_3', key_prefix: 'zai_test_xyz', scopes: ['full'] },
+      ],
+    });
+
+    await expect(resolveScopes(client)).resolves.toEqual(['full']);
+    await expect(resolveScopes(client, 'zai_test_abcdef123')).resolves.toEqual([
+      'read_only',
+      'read_analytics',
+    ]);
+    await expect(resolveScopes(client, 'zai_test_zzz999')).resolves.toEqual(['read_only']);
+
+    // Keys sharing a prefix are told apart by ID, never by picking the first match
+    await expect(resolveScopes(client, 'zai_test_xyz123')).resolves.toEqual(['read_only']);
+    await expect(resolveScopes(client, 'zai_test_xyz123', { keyId: 'key_2' })).resolves.toEqual([
+      'create_payments',
+    ]);
+    await expect(resolveScopes(client, 'zai_test_abc123', { keyId: 'key_2' })).resolves.toEqual([
+      'read_only',
+    ]);
+  });
+
+  it('should reject unknown scope names', () => {
+    expect(parseScopes(' read_only, read_analytics ')).toEqual(['read_only', 'read_analytics']);
+    expect(() => parseScopes('read_only,write_all')).toThrow('Unknown scope write_all');
+  });
+
+  it('should accept an agent key as the client credential', async () => {
+    const request = vi.fn(async () => ({ status: 200, statusText: 'OK', headers: {}, body: '[]' }));
+    const client = new ZendFiClient({
+      apiKey: 'zai_test_abcdef123',
+      logLevel: 'silent',
+      transport: { request },
+    });
+    const server = new ZendFiMcpServer({ client, scopes: ['read_only'] });
+
+    await result<ToolCall>(server, 'tools/call', { name: 'list_payment_links', arguments: {} });
+    expect(request.mock.calls[0]).toEqual([
+      expect.objectContaining({
+        headers: expect.objectContaining({ Authorization: 'Bearer zai_test_abcdef123' }),
+      }),
+    ]);
+  });
+
+  it('should serve newline-delimited JSON-RPC over stdio', async () => {
+    const { client } = createClient();
+    const server = new ZendFiMcpServer({ client, scopes: ['full'] });
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const chunks: string[] = [];
+    output.on('data', (chunk) => chunks.push(chunk.toString()));
+
+    const done = serveStdio(server, { input, output });
+    input.write('{"jsonrpc":"2.0","id":7,"method":"ping"}\n');
+    input.write('not json\n');
+    input.end();
+    await done;
+
+    const messages = chunks.join('').trim().split('\n').map((line) => JSON.parse(line));
+    expect(messages).toContainEqual({ jsonrpc: '2.0', id: 7, result: {} });
+    expect(messages).toContainEqual({
+      jsonrpc: '2.0',
+      id: null,
+      error: { code: -32700, message: 'Parse error' },
+    });
+  });
+});
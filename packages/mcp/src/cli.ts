@@ -0,0 +1,44 @@
+#!/usr/bin/env node
+
+/**
+ * zendfi-mcp - ZendFi MCP server over stdio
+ *
+ * Environment:
+ * - ZENDFI_API_KEY       Merchant API key (zfi_test_... or zfi_live_...)
+ * - ZENDFI_AGENT_KEY     Optional agent key (zai_...); when set, the server authenticates
+ *                        with it so the API enforces its scopes
+ * - ZENDFI_AGENT_KEY_ID  Optional ID of the agent key, to look up its scopes exactly
+ * - ZENDFI_SCOPES        Optional comma-separated scopes, overriding the lookup
+ */
+
+import { ZendFiClient } from '@zendfi/sdk';
+import { parseScopes, resolveScopes } from './scopes.js';
+import { ZendFiMcpServer } from './server.js';
+import { serveStdio } from './stdio.js';
+
+async function main(): Promise<void> {
+  const agentKey = process.env.ZENDFI_AGENT_KEY;
+  const keyId = process.env.ZENDFI_AGENT_KEY_ID;
+
+  // Warnings and errors go to stderr; stdout is reserved for the protocol
+  const client = new ZendFiClient({ logLevel: 'warn', ...(agentKey && { apiKey: agentKey }) });
+
+  // Listing agent keys needs the merchant key, so the lookup uses it when both are set
+  const scopes = process.env.ZENDFI_SCOPES
+    ? parseScopes(process.env.ZENDFI_SCOPES)
+    : await resolveScopes(
+        agentKey && process.env.ZENDFI_API_KEY
+          ? new ZendFiClient({ logLevel: 'warn', apiKey: process.env.ZENDFI_API_KEY })
+          : client,
+        agentKey,
+        { keyId }
+      );
+
+  console.error(`[zendfi-mcp] Serving over stdio with scopes: ${scopes.join(', ')}`);
+  await serveStdio(new ZendFiMcpServer({ client, scopes }));
+}
+
+main().catch((error) => {
+  console.error(`[zendfi-mcp] ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+});
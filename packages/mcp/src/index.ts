@@ -0,0 +1,28 @@
+/**
+ * ZendFi MCP Server
+ * Exposes ZendFi payments to MCP-capable assistants
+ */
+
+export {
+  ZendFiMcpServer,
+  JSON_RPC_ERRORS,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  type JsonRpcRequest,
+  type JsonRpcResponse,
+  type ZendFiMcpServerOptions,
+} from './server.js';
+export { serveStdio, type StdioOptions } from './stdio.js';
+export {
+  canAccess,
+  parseScopes,
+  resolveScopes,
+  type Access,
+  type ResolveScopesOptions,
+} from './scopes.js';
+export { MCP_TOOLS, type McpTool } from './tools.js';
+export {
+  MCP_RESOURCES,
+  MCP_RESOURCE_TEMPLATES,
+  type McpResource,
+  type McpResourceTemplate,
+} from './resources.js';
@@ -0,0 +1,149 @@
+/**
+ * MCP Resources
+ *
+ * Read-only views of ZendFi data the assistant can attach as context.
+ * Collections have fixed URIs; single records use URI templates such as
+ * `zendfi://payments/{id}`.
+ */
+
+import type { ZendFiClient } from '@zendfi/sdk';
+import type { Access } from './scopes.js';
+
+export interface McpResource {
+  uri: string;
+  name: string;
+  description: string;
+  access: Access;
+  read(client: ZendFiClient): Promise<unknown>;
+}
+
+export interface McpResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  access: Access;
+  read(client: ZendFiClient, id: string): Promise<unknown>;
+}
+
+export const MCP_RESOURCES: McpResource[] = [
+  {
+    uri: 'zendfi://payments',
+    name: 'Recent payments',
+    description: 'The latest page of payments',
+    access: 'read',
+    read: (client) => client.listPayments(),
+  },
+  {
+    uri: 'zendfi://payment-links',
+    name: 'Payment links',
+    description: 'All payment links',
+    access: 'read',
+    read: (client) => client.listPaymentLinks(),
+  },
+  {
+    uri: 'zendfi://invoices',
+    name: 'Invoices',
+    description: 'All invoices',
+    access: 'read',
+    read: (client) => client.listInvoices(),
+  },
+  {
+    uri: 'zendfi://escrows',
+    name: 'Escrows',
+    description: 'The latest escrows',
+    access: 'read',
+    read: (client) => client.listEscrows(),
+  },
+  {
+    uri: 'zendfi://payment-intents',
+    name: 'Payment intents',
+    description: 'The latest payment intents',
+    access: 'read',
+    read: (client) => client.intents.list(),
+  },
+  {
+    uri: 'zendfi://ppp-factors',
+    name: 'PPP factors',
+    description: 'Purchasing power parity factors for every supported country',
+    access: 'read',
+    read: (client) => client.pricing.listFactors(),
+  },
+  {
+    uri: 'zendfi://agent/sessions',
+    name: 'Agent sessions',
+    description: 'Agent sessions with their limits and remaining allowance',
+    access: 'read',
+    read: (client) => client.agent.listSessions(),
+  },
+  {
+    uri: 'zendfi://agent/analytics',
+    name: 'Agent analytics',
+    description: 'Payment analytics across agents',
+    access: 'read_analytics',
+    read: (client) => client.agent.getAnalytics(),
+  },
+];
+
+export const MCP_RESOURCE_TEMPLATES: McpResourceTemplate[] = [
+  {
+    uriTemplate: 'zendfi://payments/{id}',
+    name: 'Payment',
+    description: 'A payment by ID',
+    access: 'read',
+    read: (client, id) => client.getPayment(id),
+  },
+  {
+    uriTemplate: 'zendfi://payment-links/{id}',
+    name: 'Payment link',
+    description: 'A payment link by link code',
+    access: 'read',
+    read: (client, id) => client.getPaymentLink(id),
+  },
+  {
+    uriTemplate: 'zendfi://invoices/{id}',
+    name: 'Invoice',
+    description: 'An invoice by ID',
+    access: 'read',
+    read: (client, id) => client.getInvoice(id),
+  },
+  {
+    uriTemplate: 'zendfi://escrows/{id}',
+    name: 'Escrow',
+    description: 'An escrow by ID',
+    access: 'read',
+    read: (client, id) => client.getEscrow(id),
+  },
+  {
+    uriTemplate: 'zendfi://payment-intents/{id}',
+    name: 'Payment intent',
+    description: 'A payment intent by ID',
+    access: 'read',
+    read: (client, id) => client.intents.get(id),
+  },
+  {
+    uriTemplate: 'zendfi://ppp-factors/{id}',
+    name: 'PPP factor',
+    description: 'The PPP factor for a country code',
+    access: 'read',
+    read: (client, id) => client.pricing.getPPPFactor(id),
+  },
+  {
+    uriTemplate: 'zendfi://agent/sessions/{id}',
+    name: 'Agent session',
+    description: 'An agent session by ID',
+    access: 'read',
+    read: (client, id) => client.agent.getSession(id),
+  },
+];
+
+/**
+ * Extract the ID from a URI matching a `.../{id}` template
+ */
+export function matchTemplate(template: McpResourceTemplate, uri: string): string | undefined {
+  const prefix = template.uriTemplate.replace('{id}', '');
+  if (!uri.startsWith(prefix)) {
+    return undefined;
+  }
+  const id = uri.slice(prefix.length);
+  return id && !id.includes('/') ? decodeURIComponent(id) : undefined;
+}
@@ -0,0 +1,103 @@
+/**
+ * API Key Scopes
+ *
+ * Decides which tools and resources an assistant sees. Read access is open
+ * to every key; writes need the matching `ApiKeyScope` (or `full`), so a
+ * `read_only` agent key is never offered a tool that moves money.
+ */
+
+import type { ApiKeyScope, ZendFiClient } from '@zendfi/sdk';
+
+/**
+ * What a tool or resource needs: `read` for plain lookups, or a scope
+ */
+export type Access = 'read' | ApiKeyScope;
+
+export function canAccess(access: Access, scopes: readonly ApiKeyScope[]): boolean {
+  if (access === 'read' || scopes.includes('full')) {
+    return true;
+  }
+  if (access === 'read_analytics' && scopes.includes('read_only')) {
+    return true;
+  }
+  return scopes.includes(access);
+}
+
+/** Every `ApiKeyScope`; a record so a new SDK scope fails to compile until added */
+const KNOWN_SCOPES: Record<ApiKeyScope, true> = {
+  full: true,
+  read_only: true,
+  create_payments: true,
+  manage_escrow: true,
+  create_subscriptions: true,
+  manage_installments: true,
+  read_analytics: true,
+};
+
+function isApiKeyScope(value: string): value is ApiKeyScope {
+  return Object.hasOwn(KNOWN_SCOPES, value);
+}
+
+/**
+ * Parse a comma-separated scope list, e.g. `ZENDFI_SCOPES=read_only,read_analytics`
+ *
+ * @throws Error naming the scopes that aren't `ApiKeyScope`s, rather than
+ * silently granting (or dropping) access for a typo
+ */
+export function parseScopes(value: string): ApiKeyScope[] {
+  const scopes = value
+    .split(',')
+    .map((scope) => scope.trim())
+    .filter(Boolean);
+
+  const unknown = scopes.filter((scope) => !isApiKeyScope(scope));
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown scope${unknown.length > 1 ? 's' : ''} ${unknown.join(', ')}; ` +
+        `expected ${Object.keys(KNOWN_SCOPES).join(', ')}`
+    );
+  }
+
+  return scopes.filter(isApiKeyScope);
+}
+
+export interface ResolveScopesOptions {
+  /** ID of the agent key (from `agent.listKeys()`); identifies it exactly */
+  keyId?: string;
+}
+
+/**
+ * Look up the scopes of the agent key the server acts for
+ *
+ * `agent.listKeys()` only returns the first characters of each key, so the
+ * key is found by its ID when `keyId` is given, and otherwise by a prefix
+ * that must equal exactly one listed key's. Without an agent key the
+ * merchant key's full access applies; if the key can't be identified the
+ * server falls back to `read_only` rather than guessing wider access.
+ */
+export async function resolveScopes(
+  client: Pick<ZendFiClient, 'agent'>,
+  agentKey?: string,
+  options: ResolveScopesOptions = {}
+): Promise<ApiKeyScope[]> {
+  if (!agentKey && !options.keyId) {
+    return ['full'];
+  }
+
+  try {
+    const keys = await client.agent.listKeys();
+    const matches = keys.filter(
+      (candidate) =>
+        (!options.keyId || candidate.id === options.keyId) &&
+        (!agentKey || hasPrefix(agentKey, candidate.key_prefix))
+    );
+    // Two keys sharing a prefix can't be told apart: don't guess between them
+    return matches.length === 1 ? matches[0]!.scopes : ['read_only'];
+  } catch {
+    return ['read_only'];
+  }
+}
+
+function hasPrefix(key: string, prefix: string): boolean {
+  return prefix.length > 0 && key.slice(0, prefix.length) === prefix;
+}
@@ -0,0 +1,256 @@
+/**
+ * ZendFi MCP Server
+ *
+ * Answers Model Context Protocol requests (JSON-RPC 2.0) with the tools and
+ * resources the configured key's scopes allow. Transport-agnostic: feed it
+ * parsed messages and send back what `handle` returns; `serveStdio` does
+ * that over stdin/stdout.
+ *
+ * @example
+ * ```typescript
+ * import { ZendFiClient } from '@zendfi/sdk';
+ * import { ZendFiMcpServer, serveStdio } from '@zendfi/mcp';
+ *
+ * const server = new ZendFiMcpServer({
+ *   client: new ZendFiClient({ logLevel: 'warn' }),
+ *   scopes: ['read_only'],
+ * });
+ * serveStdio(server);
+ * ```
+ */
+
+import { isZendFiError, toJSONSchema, type ApiKeyScope, type ZendFiClient } from '@zendfi/sdk';
+import { canAccess } from './scopes.js';
+import { MCP_TOOLS, type McpTool } from './tools.js';
+import {
+  MCP_RESOURCES,
+  MCP_RESOURCE_TEMPLATES,
+  matchTemplate,
+  type McpResource,
+  type McpResourceTemplate,
+} from './resources.js';
+
+/** Protocol revisions this server speaks, newest first */
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  /** Absent on notifications */
+  id?: string | number | null;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export type JsonRpcResponse =
+  | { jsonrpc: '2.0'; id: string | number | null; result: unknown }
+  | {
+      jsonrpc: '2.0';
+      id: string | number | null;
+      error: { code: number; message: string; data?: unknown };
+    };
+
+export interface ZendFiMcpServerOptions {
+  client: ZendFiClient;
+  /** Scopes of the configured key; decides which tools and resources are listed */
+  scopes: ApiKeyScope[];
+  /** Reported in `serverInfo` */
+  name?: string;
+  version?: string;
+}
+
+/**
+ * JSON-RPC error codes used by the server
+ */
+export const JSON_RPC_ERRORS = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+  /** MCP: the requested resource does not exist (or is out of scope) */
+  RESOURCE_NOT_FOUND: -32002,
+} as const;
+
+class RpcError extends Error {
+  constructor(
+    readonly code: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+export class ZendFiMcpServer {
+  private readonly tools: McpTool[];
+  private readonly resources: McpResource[];
+  private readonly templates: McpResourceTemplate[];
+
+  constructor(private readonly options: ZendFiMcpServerOptions) {
+    const allowed = ({ access }: { access: McpTool['access'] }) =>
+      canAccess(access, options.scopes);
+    this.tools = MCP_TOOLS.filter(allowed);
+    this.resources = MCP_RESOURCES.filter(allowed);
+    this.templates = MCP_RESOURCE_TEMPLATES.filter(allowed);
+  }
+
+  /**
+   * Handle one message; resolves to `undefined` for notifications
+   */
+  async handle(message: unknown): Promise<JsonRpcResponse | undefined> {
+    if (!isRequest(message)) {
+      return {
+        jsonrpc: '2.0',
+        id: null,
+        error: { code: JSON_RPC_ERRORS.INVALID_REQUEST, message: 'Invalid JSON-RPC request' },
+      };
+    }
+
+    const id = message.id;
+    if (id === undefined) {
+      // Notifications (e.g. `notifications/initialized`) need no reply
+      return undefined;
+    }
+
+    try {
+      const result = await this.dispatch(message.method, message.params ?? {});
+      return { jsonrpc: '2.0', id, result };
+    } catch (error) {
+      const code = error instanceof RpcError ? error.code : JSON_RPC_ERRORS.INTERNAL_ERROR;
+      const text = error instanceof Error ? error.message : String(error);
+      return { jsonrpc: '2.0', id, error: { code, message: text } };
+    }
+  }
+
+  private async dispatch(method: string, params: Record<string, unknown>): Promise<unknown> {
+    switch (method) {
+      case 'initialize':
+        return this.initialize(params);
+      case 'ping':
+        return {};
+      case 'tools/list':
+        return { tools: this.tools.map(describeTool) };
+      case 'tools/call':
+        return this.callTool(params);
+      case 'resources/list':
+        return {
+          resources: this.resources.map(({ uri, name, description }) => ({
+            uri,
+            name,
+            description,
+            mimeType: 'application/json',
+          })),
+        };
+      case 'resources/templates/list':
+        return {
+          resourceTemplates: this.templates.map(({ uriTemplate, name, description }) => ({
+            uriTemplate,
+            name,
+            description,
+            mimeType: 'application/json',
+          })),
+        };
+      case 'resources/read':
+        return this.readResource(params);
+      default:
+        throw new RpcError(JSON_RPC_ERRORS.METHOD_NOT_FOUND, `Method not found: ${method}`);
+    }
+  }
+
+  private initialize(params: Record<string, unknown>) {
+    const requested = params.protocolVersion;
+    const protocolVersion =
+      typeof requested === 'string' && SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+        ? requested
+        : SUPPORTED_PROTOCOL_VERSIONS[0];
+
+    return {
+      protocolVersion,
+      capabilities: { tools: { listChanged: false }, resources: { listChanged: false } },
+      serverInfo: {
+        name: this.options.name ?? 'zendfi',
+        version: this.options.version ?? '0.1.0',
+      },
+      instructions:
+        `ZendFi payments. Key scopes: ${this.options.scopes.join(', ')}. ` +
+        'Amounts are in USD unless a tool says otherwise.',
+    };
+  }
+
+  /**
+   * Tool failures are results with `isError`, so the assistant can read them
+   */
+  private async callTool(params: Record<string, unknown>) {
+    const name = params.name;
+    const tool = this.tools.find((candidate) => candidate.name === name);
+    if (!tool) {
+      throw new RpcError(JSON_RPC_ERRORS.INVALID_PARAMS, `Unknown tool: ${String(name)}`);
+    }
+
+    const parsed = tool.input.safeParse(params.arguments ?? {});
+    if (!parsed.success) {
+      const detail = parsed.issues
+        .map((issue) => `${issue.path}: expected ${issue.expected}, received ${issue.received}`)
+        .join('; ');
+      return errorResult(`Invalid arguments: ${detail}`);
+    }
+
+    try {
+      const result = await tool.run(this.options.client, parsed.data);
+      return { content: [{ type: 'text', text: JSON.stringify(result ?? null, null, 2) }] };
+    } catch (error) {
+      if (isZendFiError(error)) {
+        return errorResult(`[${error.code}] ${error.message}`);
+      }
+      return errorResult(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private async readResource(params: Record<string, unknown>) {
+    const uri = params.uri;
+    if (typeof uri !== 'string') {
+      throw new RpcError(JSON_RPC_ERRORS.INVALID_PARAMS, 'resources/read needs a uri');
+    }
+
+    const { client } = this.options;
+    let data: unknown;
+    const resource = this.resources.find((candidate) => candidate.uri === uri);
+    if (resource) {
+      data = await resource.read(client);
+    } else {
+      const match = this.templates
+        .map((template) => ({ template, id: matchTemplate(template, uri) }))
+        .find((candidate) => candidate.id !== undefined);
+      if (!match) {
+        throw new RpcError(JSON_RPC_ERRORS.RESOURCE_NOT_FOUND, `Resource not found: ${uri}`);
+      }
+      data = await match.template.read(client, match.id!);
+    }
+
+    return {
+      contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(data, null, 2) }],
+    };
+  }
+}
+
+function describeTool(tool: McpTool) {
+  return {
+    name: tool.name,
+    description: tool.description,
+    inputSchema: toJSONSchema(tool.input),
+    annotations: { readOnlyHint: tool.access === 'read' || tool.access === 'read_analytics' },
+  };
+}
+
+function errorResult(text: string) {
+  return { content: [{ type: 'text', text }], isError: true };
+}
+
+function isRequest(message: unknown): message is JsonRpcRequest {
+  const candidate = message as JsonRpcRequest | null;
+  return (
+    typeof candidate === 'object' &&
+    candidate !== null &&
+    candidate.jsonrpc === '2.0' &&
+    typeof candidate.method === 'string'
+  );
+}
@@ -0,0 +1,60 @@
+/**
+ * Stdio Transport
+ *
+ * MCP over stdin/stdout: one JSON-RPC message per line. Stdout carries
+ * protocol messages only, so anything else must be logged to stderr.
+ */
+
+import { createInterface } from 'readline';
+import { JSON_RPC_ERRORS, type ZendFiMcpServer } from './server.js';
+
+export interface StdioOptions {
+  /** Default: `process.stdin` */
+  input?: NodeJS.ReadableStream;
+  /** Default: `process.stdout` */
+  output?: NodeJS.WritableStream;
+}
+
+/**
+ * Serve requests until the input closes
+ */
+export function serveStdio(server: ZendFiMcpServer, options: StdioOptions = {}): Promise<void> {
+  const output = options.output ?? process.stdout;
+  const lines = createInterface({ input: options.input ?? process.stdin, crlfDelay: Infinity });
+  const pending = new Set<Promise<void>>();
+
+  const send = (message: unknown) => {
+    output.write(`${JSON.stringify(message)}\n`);
+  };
+
+  lines.on('line', (line) => {
+    if (!line.trim()) {
+      return;
+    }
+
+    let message: unknown;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      send({
+        jsonrpc: '2.0',
+        id: null,
+        error: { code: JSON_RPC_ERRORS.PARSE_ERROR, message: 'Parse error' },
+      });
+      return;
+    }
+
+    // Requests run concurrently; clients match responses by ID
+    const task = server.handle(message).then((response) => {
+      if (response) send(response);
+    });
+    pending.add(task);
+    void task.finally(() => pending.delete(task));
+  });
+
+  return new Promise((resolve) => {
+    lines.on('close', () => {
+      void Promise.allSettled([...pending]).then(() => resolve());
+    });
+  });
+}
@@ -0,0 +1,312 @@
+/**
+ * MCP Tools
+ *
+ * ZendFi operations offered to the assistant. Arguments are described with
+ * the SDK's `s` schemas, which become each tool's `inputSchema` and check
+ * the assistant's arguments before any API call.
+ */
+
+import { s, type Infer, type Schema, type ZendFiClient } from '@zendfi/sdk';
+import type { Access } from './scopes.js';
+
+export interface McpTool<S extends Schema<any> = Schema<any>> {
+  name: string;
+  description: string;
+  access: Access;
+  input: S;
+  run(client: ZendFiClient, args: Infer<S>): Promise<unknown>;
+}
+
+function tool<S extends Schema<any>>(definition: McpTool<S>): McpTool {
+  return definition as unknown as McpTool;
+}
+
+const id = (what: string) => s.string().describe(`${what} ID`);
+const token = s.enum(['USDC', 'USDT', 'SOL']).describe('Token (default: USDC)').optional();
+const metadata = s.record(s.unknown()).describe('Key-value metadata').optional();
+const page = {
+  limit: s.number().describe('Maximum results').optional(),
+  offset: s.number().describe('Results to skip').optional(),
+};
+
+// ============================================
+// Payments
+// ============================================
+
+const paymentTools = [
+  tool({
+    name: 'get_payment',
+    description: 'Get a payment by ID, including its status and transaction signature.',
+    access: 'read',
+    input: s.object({ payment_id: id('Payment') }),
+    run: (client, args) => client.getPayment(args.payment_id),
+  }),
+  tool({
+    name: 'list_payments',
+    description: 'List payments, newest first. Filter by status or date range.',
+    access: 'read',
+    input: s.object({
+      status: s.enum(['pending', 'confirmed', 'failed', 'expired']).optional(),
+      from_date: s.string().describe('ISO 8601 date').optional(),
+      to_date: s.string().describe('ISO 8601 date').optional(),
+      page: s.number().describe('Page number, from 1').optional(),
+      limit: page.limit,
+    }),
+    run: (client, args) => client.listPayments(args),
+  }),
+  tool({
+    name: 'create_payment',
+    description: 'Create a payment and return its checkout URL.',
+    access: 'create_payments',
+    input: s.object({
+      amount: s.number().describe('Amount in USD'),
+      description: s.string().optional(),
+      token,
+      customer_email: s.string().optional(),
+      redirect_url: s.string().optional(),
+      metadata,
+    }),
+    run: (client, args) => client.createPayment(args),
+  }),
+];
+
+// ============================================
+// Payment links
+// ============================================
+
+const paymentLinkTools = [
+  tool({
+    name: 'get_payment_link',
+    description: 'Get a payment link by its link code.',
+    access: 'read',
+    input: s.object({ link_code: s.string().describe('Payment link code') }),
+    run: (client, args) => client.getPaymentLink(args.link_code),
+  }),
+  tool({
+    name: 'list_payment_links',
+    description: 'List payment links.',
+    access: 'read',
+    input: s.object({}),
+    run: (client) => client.listPaymentLinks(),
+  }),
+  tool({
+    name: 'create_payment_link',
+    description: 'Create a reusable payment link.',
+    access: 'create_payments',
+    input: s.object({
+      amount: s.number().describe('Amount in USD'),
+      description: s.string().optional(),
+      token: s.string().describe('Token (default: USDC)').optional(),
+      max_uses: s.number().optional(),
+      expires_at: s.string().describe('ISO 8601 timestamp').optional(),
+      metadata,
+    }),
+    run: (client, args) => client.createPaymentLink(args),
+  }),
+];
+
+// ============================================
+// Invoices
+// ============================================
+
+const invoiceTools = [
+  tool({
+    name: 'get_invoice',
+    description: 'Get an invoice by ID.',
+    access: 'read',
+    input: s.object({ invoice_id: id('Invoice') }),
+    run: (client, args) => client.getInvoice(args.invoice_id),
+  }),
+  tool({
+    name: 'list_invoices',
+    description: 'List invoices.',
+    access: 'read',
+    input: s.object({}),
+    run: (client) => client.listInvoices(),
+  }),
+  tool({
+    name: 'create_invoice',
+    description: 'Create an invoice. Use send_invoice to email it to the customer.',
+    access: 'create_payments',
+    input: s.object({
+      customer_email: s.string(),
+      customer_name: s.string().optional(),
+      amount: s.number().describe('Amount in USD'),
+      description: s.string(),
+      token,
+      due_date: s.string().describe('ISO 8601 date').optional(),
+      line_items: s
+        .array(
+          s.object({ description: s.string(), quantity: s.number(), unit_price: s.number() })
+        )
+        .optional(),
+      metadata,
+    }),
+    run: (client, args) => client.createInvoice(args),
+  }),
+  tool({
+    name: 'send_invoice',
+    description: 'Email an invoice to its customer.',
+    access: 'create_payments',
+    input: s.object({ invoice_id: id('Invoice') }),
+    run: (client, args) => client.sendInvoice(args.invoice_id),
+  }),
+];
+
+// ============================================
+// Escrows
+// ============================================
+
+const escrowTools = [
+  tool({
+    name: 'get_escrow',
+    description: 'Get an escrow by ID, including its release conditions.',
+    access: 'read',
+    input: s.object({ escrow_id: id('Escrow') }),
+    run: (client, args) => client.getEscrow(args.escrow_id),
+  }),
+  tool({
+    name: 'list_escrows',
+    description: 'List escrows.',
+    access: 'read',
+    input: s.object(page),
+    run: (client, args) => client.listEscrows(args),
+  }),
+  tool({
+    name: 'approve_escrow',
+    description: 'Release an escrow to the seller.',
+    access: 'manage_escrow',
+    input: s.object({
+      escrow_id: id('Escrow'),
+      approver_wallet: s.string().describe('Wallet approving the release'),
+    }),
+    run: (client, { escrow_id, ...request }) => client.approveEscrow(escrow_id, request),
+  }),
+  tool({
+    name: 'refund_escrow',
+    description: 'Refund an escrow to the buyer.',
+    access: 'manage_escrow',
+    input: s.object({ escrow_id: id('Escrow'), reason: s.string() }),
+    run: (client, { escrow_id, ...request }) => client.refundEscrow(escrow_id, request),
+  }),
+  tool({
+    name: 'dispute_escrow',
+    description: 'Open a dispute on an escrow.',
+    access: 'manage_escrow',
+    input: s.object({ escrow_id: id('Escrow'), reason: s.string() }),
+    run: (client, { escrow_id, ...request }) => client.disputeEscrow(escrow_id, request),
+  }),
+];
+
+// ============================================
+// Payment intents
+// ============================================
+
+const intentTools = [
+  tool({
+    name: 'get_payment_intent',
+    description: 'Get a payment intent by ID.',
+    access: 'read',
+    input: s.object({ intent_id: id('Payment intent') }),
+    run: (client, args) => client.intents.get(args.intent_id),
+  }),
+  tool({
+    name: 'list_payment_intents',
+    description: 'List payment intents.',
+    access: 'read',
+    input: s.object({ status: s.string().optional(), ...page }),
+    run: (client, args) => client.intents.list(args),
+  }),
+  tool({
+    name: 'create_payment_intent',
+    description: 'Create a payment intent that reserves an amount to confirm later.',
+    access: 'create_payments',
+    input: s.object({
+      amount: s.number().describe('Amount in USD'),
+      description: s.string().optional(),
+      capture_method: s.enum(['automatic', 'manual']).optional(),
+      expires_in_seconds: s.number().optional(),
+      metadata,
+    }),
+    run: (client, args) => client.intents.create(args),
+  }),
+  tool({
+    name: 'cancel_payment_intent',
+    description: 'Cancel a payment intent that has not been paid.',
+    access: 'create_payments',
+    input: s.object({ intent_id: id('Payment intent') }),
+    run: (client, args) => client.intents.cancel(args.intent_id),
+  }),
+];
+
+// ============================================
+// Pricing
+// ============================================
+
+const pricingTools = [
+  tool({
+    name: 'get_ppp_factor',
+    description: 'Get the purchasing power parity factor for a country.',
+    access: 'read',
+    input: s.object({ country_code: s.string().describe('ISO 3166-1 alpha-2, e.g. "BR"') }),
+    run: (client, args) => client.pricing.getPPPFactor(args.country_code),
+  }),
+  tool({
+    name: 'calculate_local_price',
+    description: 'Adjust a USD price for purchasing power in a country.',
+    access: 'read',
+    input: s.object({
+      base_price: s.number().describe('Price in USD'),
+      country_code: s.string().describe('ISO 3166-1 alpha-2, e.g. "BR"'),
+    }),
+    run: (client, args) => client.pricing.calculateLocalPrice(args.base_price, args.country_code),
+  }),
+];
+
+// ============================================
+// Agent sessions and analytics
+// ============================================
+
+const agentTools = [
+  tool({
+    name: 'list_agent_sessions',
+    description: 'List agent sessions with their spending limits and remaining allowance.',
+    access: 'read',
+    input: s.object({}),
+    run: (client) => client.agent.listSessions(),
+  }),
+  tool({
+    name: 'get_agent_session',
+    description: 'Get an agent session, including what it may still spend.',
+    access: 'read',
+    input: s.object({ session_id: id('Agent session') }),
+    run: (client, args) => client.agent.getSession(args.session_id),
+  }),
+  tool({
+    name: 'revoke_agent_session',
+    description: 'Revoke an agent session so it can no longer spend.',
+    access: 'full',
+    input: s.object({ session_id: id('Agent session') }),
+    run: async (client, args) => {
+      await client.agent.revokeSession(args.session_id);
+      return { revoked: true, session_id: args.session_id };
+    },
+  }),
+  tool({
+    name: 'get_agent_analytics',
+    description: 'Get payment analytics across agents.',
+    access: 'read_analytics',
+    input: s.object({}),
+    run: (client) => client.agent.getAnalytics(),
+  }),
+];
+
+export const MCP_TOOLS: McpTool[] = [
+  ...paymentTools,
+  ...paymentLinkTools,
+  ...invoiceTools,
+  ...escrowTools,
+  ...intentTools,
+  ...pricingTools,
+  ...agentTools,
+];
@@ -0,0 +1,181 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  AuthenticationError,
+  SessionExpiredError,
+  SessionRevokedError,
+  ValidationError,
+  ZendFiAgentClient,
+  ZendFiClient,
+} from '../index';
+import type { AgentSession } from '../types';
+
+const HOUR = 60 * 60 * 1000;
+
+function agentSession(overrides: Partial<AgentSession> = {}): AgentSession {
+  return {
+    id: 'sess_1',
+    session_token: 'zai_session_abc',
+    agent_id: 'shopping-assistant',
+    user_wallet: 'Hx7B...abc',
+    limits: { max_per_day: 300 },
+    is_active: true,
+    created_at: '2025-01-01T00:00:00Z',
+    expires_at: new Date(Date.now() + HOUR).toISOString(),
+    remaining_today: 300,
+    remaining_this_week: 1000,
+    remaining_this_month: 3000,
+    ...overrides,
+  };
+}
+
+function createTransport(
+  respond: (req: { url: string }) => { status: number; body: unknown } = () => ({
+    status: 200,
+    body: { payment_id: 'pay_1', status: 'confirmed' },
+  })
+) {
+  return {
+    request: vi.fn(async (req: { url: string; headers: Record<string, string> }) => {
+      const { status, body } = respond(req);
+      return {
+        status,
+        statusText: status === 200 ? 'OK' : 'Error',
+        headers: {},
+        body: JSON.stringify(body),
+      };
+    }),
+  };
+}
+
+function createClient(transport = createTransport()) {
+  return new ZendFiClient({
+    apiKey: 'zfi_test_abc123',
+    logLevel: 'silent',
+    transport,
+  });
+}
+
+describe('Session-Scoped Agent Client', () => {
+  it('should authenticate as the session and fill in the session fields', async () => {
+    const transport = createTransport();
+    const agent = createClient(transport).asSession(agentSession());
+
+    await agent.pay({ amount_usd: 20, merchant_id: 'mer_123' });
+
+    const req = transport.request.mock.calls[0]![0] as any;
+    expect(req.url).toContain('/api/v1/ai/smart-payment');
+    expect(req.headers.Authorization).toBe('Bearer zai_session_abc');
+    expect(JSON.parse(req.body)).toMatchObject({
+      session_token: 'zai_session_abc',
+      agent_id: 'shopping-assistant',
+      user_wallet: 'Hx7B...abc',
+      amount_usd: 20,
+    });
+  });
+
+  it('should build a client from just a session token', async () => {
+    const transport = createTransport();
+    const agent = ZendFiClient.forSession('zai_session_xyz', {
+      agentId: 'shopping-assistant',
+      userWallet: 'Hx7B...abc',
+      logLevel: 'silent',
+      transport,
+    });
+
+    expect(agent).toBeInstanceOf(ZendFiAgentClient);
+    expect(agent.expiresAt).toBeUndefined();
+    await agent.pay({ amount_usd: 5 });
+
+    const req = transport.request.mock.calls[0]![0] as any;
+    expect(req.headers.Authorization).toBe('Bearer zai_session_xyz');
+    expect(() => ZendFiClient.forSession('zfi_test_abc123')).toThrow(ValidationError);
+  });
+
+  it('should not claim a network the session token does not reveal', () => {
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const transport = createTransport();
+
+    ZendFiClient.forSession('zai_session_xyz', { logger, logLevel: 'info', transport });
+    ZendFiClient.forSession('zai_session_xyz', {
+      logger,
+      logLevel: 'info',
+      transport,
+      mode: 'test',
+    });
+
+    expect(logger.info.mock.calls.map(([, message]) => message)).toEqual([
+      '✓ ZendFi SDK initialized for an agent session',
+      '✓ ZendFi SDK initialized in test mode (devnet)',
+    ]);
+  });
+
+  it('should require an agent and wallet to pay', async () => {
+    const agent = createClient().asSession('zai_session_abc');
+
+    const payment = agent.pay({ amount_usd: 5 });
+    await expect(payment).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it('should track expiry and fail fast once the session has expired', async () => {
+    const transport = createTransport();
+    const expiresAt = new Date(Date.now() - 1000).toISOString();
+    const agent = createClient(transport).asSession(agentSession({ expires_at: expiresAt }));
+
+    expect(agent.isExpired()).toBe(true);
+    expect(agent.expiresInMs()).toBeLessThan(0);
+
+    const error = await agent.pay({ amount_usd: 20 }).catch((e) => e);
+    expect(error).toBeInstanceOf(SessionExpiredError);
+    expect(error.code).toBe('session_expired');
+    expect(error.expiresAt).toBe(expiresAt);
+    expect(transport.request).not.toHaveBeenCalled();
+  });
+
+  it('should raise typed errors when the API rejects the session', async () => {
+    const expired = createTransport(() => ({
+      status: 401,
+      body: { error: { code: 'session_expired', message: 'Session expired' } },
+    }));
+    await expect(
+      createClient(expired).asSession(agentSession()).pay({ amount_usd: 20 })
+    ).rejects.toBeInstanceOf(SessionExpiredError);
+
+    // Other auth failures are passed on without ending the session
+    const unauthorized = createTransport(() => ({
+      status: 401,
+      body: { error: { code: 'invalid_token', message: 'Session token is not valid' } },
+    }));
+    const retryable = createClient(unauthorized).asSession(agentSession());
+    await expect(retryable.pay({ amount_usd: 20 })).rejects.toBeInstanceOf(AuthenticationError);
+    expect(retryable.isRevoked()).toBe(false);
+
+    const revoked = createTransport(() => ({
+      status: 401,
+      body: { error: { code: 'session_revoked', message: 'Session has been revoked' } },
+    }));
+    const agent = createClient(revoked).asSession(agentSession());
+    await expect(agent.pay({ amount_usd: 20 })).rejects.toBeInstanceOf(SessionRevokedError);
+
+    // Once revoked, later calls don't reach the API
+    expect(agent.isRevoked()).toBe(true);
+    await expect(agent.pay({ amount_usd: 20 })).rejects.toBeInstanceOf(SessionRevokedError);
+    expect(revoked.request).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refresh expiry and detect revocation', async () => {
+    const later = new Date(Date.now() + 2 * HOUR).toISOString();
+    let active = true;
+    const transport = createTransport(() => ({
+      status: 200,
+      body: agentSession({ expires_at: later, is_active: active }),
+    }));
+    const agent = createClient(transport).asSession(agentSession());
+
+    await agent.refresh();
+    expect(agent.expiresAt?.toISOString()).toBe(later);
+
+    active = false;
+    await expect(agent.refresh()).rejects.toBeInstanceOf(SessionRevokedError);
+    expect(agent.isRevoked()).toBe(true);
+  });
+});
@@ -0,0 +1,255 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  ApprovalError,
+  ApprovalManager,
+  EmailApprovalNotifier,
+  SpendingPolicyEngine,
+  SpendingPolicyError,
+  WebhookApprovalNotifier,
+  callbackNotifier,
+  verifyWebhookHeaderAsync,
+  type ApprovalEmail,
+  type PendingApproval,
+} from '../index';
+import type { AgentSession, SmartPaymentRequest } from '../types';
+
+const session: AgentSession = {
+  id: 'sess_1',
+  session_token: 'zai_session_abc',
+  agent_id: 'shopping-assistant',
+  user_wallet: 'Hx7B...abc',
+  limits: {
+    max_per_transaction: 100,
+    max_per_day: 300,
+    require_approval_above: 50,
+  },
+  is_active: true,
+  created_at: '2025-01-01T00:00:00Z',
+  expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+  remaining_today: 300,
+  remaining_this_week: 1000,
+  remaining_this_month: 3000,
+};
+
+function payment(amount_usd: number): SmartPaymentRequest {
+  return {
+    agent_id: 'shopping-assistant',
+    user_wallet: 'Hx7B...abc',
+    session_token: 'zai_session_abc',
+    amount_usd,
+    description: 'Noise-cancelling headphones',
+  };
+}
+
+function setup(options: Partial<ConstructorParameters<typeof ApprovalManager>[0]> = {}) {
+  const execute = vi.fn(async (request: SmartPaymentRequest, _options?: unknown) => ({
+    payment_id: 'pay_1',
+    status: 'confirmed',
+    amount_usd: request.amount_usd,
+  }));
+  const policy = new SpendingPolicyEngine({ getSession: async () => session });
+  policy.track(session);
+
+  const manager = new ApprovalManager({
+    smart: { execute } as any,
+    policy,
+    ...options,
+  });
+  return { manager, execute, policy };
+}
+
+describe('Payment Approvals', () => {
+  it('should execute payments under the approval threshold directly', async () => {
+    const { manager, execute } = setup();
+
+    const result = await manager.requestPayment('sess_1', payment(20));
+
+    expect(result).toMatchObject({ status: 'executed', payment: { payment_id: 'pay_1' } });
+    expect(execute).toHaveBeenCalledOnce();
+  });
+
+  it('should throw when the policy denies the payment', async () => {
+    const { manager, execute } = setup();
+
+    await expect(manager.requestPayment('sess_1', payment(150))).rejects.toBeInstanceOf(
+      SpendingPolicyError
+    );
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it('should park payments above the threshold and execute them once approved', async () => {
+    const notified: PendingApproval[] = [];
+    const { manager, execute, policy } = setup({
+      notifiers: [callbackNotifier((approval) => void notified.push(approval))],
+    });
+
+    const result = await manager.requestPayment('sess_1', payment(75));
+
+    expect(result.status).toBe('pending_approval');
+    const approval = result.status === 'pending_approval' ? result.approval : undefined;
+    expect(approval).toMatchObject({
+      id: expect.stringMatching(/^appr_/),
+      status: 'pending',
+      idempotency_key: expect.stringMatching(/^zfi_idem_/),
+      reasons: [{ code: 'approval_required', limit: 50 }],
+    });
+    expect(notified.map((n) => n.id)).toEqual([approval!.id]);
+    expect(execute).not.toHaveBeenCalled();
+
+    const executed = await manager.approve(approval!.id, { by: 'alice@example.com' });
+
+    expect(executed).toMatchObject({
+      status: 'executed',
+      decided_by: 'alice@example.com',
+      payment: { payment_id: 'pay_1' },
+    });
+    expect(execute).toHaveBeenCalledWith(payment(75), {
+      idempotencyKey: approval!.idempotency_key,
+    });
+    expect((await policy.evaluate('sess_1', payment(1))).remaining.today).toBe(224);
+  });
+
+  it('should deny approvals and refuse to decide them twice', async () => {
+    const { manager, execute } = setup();
+    const approval = await manager.create(payment(75));
+
+    const denied = await manager.deny(approval.id, { by: 'alice', reason: 'Too pricey' });
+
+    expect(denied).toMatchObject({ status: 'denied', note: 'Too pricey' });
+    await expect(manager.approve(approval.id)).rejects.toMatchObject({
+      code: 'approval_not_pending',
+    });
+    await expect(manager.approve('appr_missing')).rejects.toBeInstanceOf(ApprovalError);
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it('should execute an approval once when it is approved twice at the same time', async () => {
+    const { manager, execute, policy } = setup();
+    const approval = await manager.create(payment(75), { sessionId: 'sess_1' });
+
+    const results = await Promise.allSettled([
+      manager.approve(approval.id, { by: 'alice' }),
+      manager.approve(approval.id, { by: 'bob' }),
+    ]);
+
+    expect(results.map((r) => r.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(results.find((r) => r.status === 'rejected')).toMatchObject({
+      reason: { code: 'approval_not_pending' },
+    });
+    expect(execute).toHaveBeenCalledOnce();
+    expect((await policy.evaluate('sess_1', payment(1))).remaining.today).toBe(224);
+  });
+
+  it('should expire approvals that are not decided in time', async () => {
+    const { manager } = setup({ ttlMs: -1 });
+    const approval = await manager.create(payment(75));
+
+    await expect(manager.approve(approval.id)).rejects.toMatchObject({
+      code: 'approval_expired',
+    });
+    expect((await manager.get(approval.id))?.status).toBe('expired');
+  });
+
+  it('should resume a failed execution with the same idempotency key', async () => {
+    const { manager, execute } = setup();
+    execute.mockRejectedValueOnce(new Error('Network down'));
+    const approval = await manager.create(payment(75));
+
+    await expect(manager.approve(approval.id)).rejects.toThrow('Network down');
+    expect((await manager.get(approval.id))?.status).toBe('failed');
+
+    const resumed = await manager.resume(approval.id);
+
+    expect(resumed.status).toBe('executed');
+    const keys = execute.mock.calls.map((call) => (call[1] as any).idempotencyKey);
+    expect(keys).toEqual([approval.idempotency_key, approval.idempotency_key]);
+  });
+
+  it('should let interactive notifiers decide before requestPayment returns', async () => {
+    const { manager } = setup({
+      notifiers: [callbackNotifier((_approval, actions) => actions.approve({ by: 'cli' }))],
+    });
+
+    const result = await manager.requestPayment('sess_1', payment(75));
+
+    expect(result).toMatchObject({
+      status: 'executed',
+      approval: { status: 'executed', decided_by: 'cli' },
+    });
+  });
+
+  it('should resolve waitForDecision once the approval is decided', async () => {
+    const { manager } = setup();
+    const approval = await manager.create(payment(75));
+
+    const waiting = manager.waitForDecision(approval.id, { pollIntervalMs: 5 });
+    await manager.deny(approval.id);
+
+    expect((await waiting).status).toBe('denied');
+  });
+
+  it('should not fail the request when a notifier throws', async () => {
+    const onNotifierError = vi.fn();
+    const { manager } = setup({
+      notifiers: [
+        callbackNotifier(() => {
+          throw new Error('Slack is down');
+        }),
+      ],
+      onNotifierError,
+    });
+
+    const result = await manager.requestPayment('sess_1', payment(75));
+
+    expect(result.status).toBe('pending_approval');
+    expect(onNotifierError).toHaveBeenCalledWith(expect.any(Error), expect.anything());
+  });
+
+  it('should post signed approval requests to a webhook', async () => {
+    const fetch = vi.fn(async (_url: string, _init: RequestInit) => new Response(null));
+    const { manager } = setup({
+      notifiers: [
+        new WebhookApprovalNotifier({
+          url: 'https://ops.example.com/approvals',
+          secret: 'whsec_test',
+          fetch: fetch as any,
+        }),
+      ],
+    });
+
+    const approval = await manager.create(payment(75));
+
+    const [url, init] = fetch.mock.calls[0]!;
+    const headers = init.headers as Record<string, string>;
+    expect(url).toBe('https://ops.example.com/approvals');
+    expect(JSON.parse(init.body as string)).toMatchObject({
+      event: 'approval.requested',
+      data: { id: approval.id },
+    });
+    await expect(
+      verifyWebhookHeaderAsync(init.body as string, headers['x-zendfi-signature']!, 'whsec_test')
+    ).resolves.toMatchObject({ secretIndex: 0 });
+  });
+
+  it('should email approvers through the provided sender', async () => {
+    const sent: ApprovalEmail[] = [];
+    const { manager } = setup({
+      notifiers: [
+        new EmailApprovalNotifier({
+          to: 'owner@example.com',
+          send: async (email) => void sent.push(email),
+          approvalUrl: (approval) => `https://app.example.com/approvals/${approval.id}`,
+        }),
+      ],
+    });
+
+    const approval = await manager.create(payment(75));
+
+    expect(sent[0]).toMatchObject({
+      to: 'owner@example.com',
+      subject: 'Approve $75.00 payment?',
+    });
+    expect(sent[0]!.text).toContain('for Noise-cancelling headphones');
+    expect(sent[0]!.text).toContain(`/approvals/${approval.id}`);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ZendFiClient } from '../client';
+import { CircuitBreaker, RetryBudget, defaultCircuitGroup, type CircuitStateChange } from '../circuit-breaker';
+import { CircuitOpenError } from '../errors';
+import type { HttpTransport, TransportResponse } from '../transport';
+
+const serverError: TransportResponse = {
+  status: 503,
+  statusText: 'Service Unavailable',
+  headers: {},
+  body: '{}',
+};
+
+describe('Circuit Breaker', () => {
+  it('should group endpoints by resource', () => {
+    expect(defaultCircuitGroup('/api/v1/payments/pay_123')).toBe('payments');
+    expect(defaultCircuitGroup('/api/v1/escrows?limit=10')).toBe('escrows');
+    expect(defaultCircuitGroup('/api/v1/ai/sessions/sess_1/revoke')).toBe('ai/sessions');
+  });
+
+  it('should open after the threshold and half-open after cooldown', () => {
+    const changes: CircuitStateChange[] = [];
+    const breaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 1000 }, (c) =>
+      changes.push(c)
+    );
+
+    breaker.recordFailure('payments', 0);
+    expect(breaker.getState('payments')).toBe('closed');
+    breaker.recordFailure('payments', 0);
+    expect(breaker.getState('payments')).toBe('open');
+
+    expect(breaker.acquire('payments', 500)).toBe(500);
+    expect(breaker.acquire('escrows', 500)).toBe(0);
+
+    // Cooldown elapsed: one trial request allowed
+    expect(breaker.acquire('payments', 1000)).toBe(0);
+    expect(breaker.getState('payments')).toBe('half_open');
+    expect(breaker.acquire('payments', 1000)).toBeGreaterThan(0);
+
+    breaker.recordSuccess('payments');
+    expect(breaker.getState('payments')).toBe('closed');
+    expect(changes.map((c) => c.to)).toEqual(['open', 'half_open', 'closed']);
+  });
+
+  it('should reopen when the half-open trial fails', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 100 });
+
+    breaker.recordFailure('payments', 0);
+    expect(breaker.acquire('payments', 200)).toBe(0);
+    breaker.recordFailure('payments', 200);
+
+    expect(breaker.getState('payments')).toBe('open');
+    expect(breaker.acquire('payments', 250)).toBe(50);
+  });
+
+  it('should limit retries within the budget window', () => {
+    const budget = new RetryBudget({ maxRetries: 2, windowMs: 1000 });
+
+    expect(budget.tryAcquire(0)).toBe(true);
+    expect(budget.tryAcquire(10)).toBe(true);
+    expect(budget.tryAcquire(20)).toBe(false);
+    expect(budget.tryAcquire(1015)).toBe(true);
+  });
+
+  it('should fail fast with CircuitOpenError and emit state changes', async () => {
+    const transport = { request: vi.fn(async () => serverError) } satisfies HttpTransport;
+    const client = new ZendFiClient({
+      apiKey: 'zfi_test_abc123',
+      transport,
+      retryPolicy: { maxAttempts: 1 },
+      circuitBreaker: { failureThreshold: 2, cooldownMs: 60_000 },
+    });
+
+    const changes: CircuitStateChange[] = [];
+    client.interceptors.circuit.use((change) => {
+      changes.push(change);
+    });
+
+    await expect(client.getPayment('pay_1')).rejects.toMatchObject({ type: 'network_error' });
+    await expect(client.getPayment('pay_2')).rejects.toMatchObject({ type: 'network_error' });
+    await expect(client.getPayment('pay_3')).rejects.toBeInstanceOf(CircuitOpenError);
+
+    expect(transport.request).toHaveBeenCalledTimes(2);
+    expect(changes).toEqual([expect.objectContaining({ group: 'payments', from: 'closed', to: 'open' })]);
+
+    // Other endpoint groups are unaffected
+    await expect(client.getEscrow('esc_1')).rejects.toMatchObject({ type: 'network_error' });
+    expect(transport.request).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not hold a half-open slot when a request interceptor throws', async () => {
+    vi.useFakeTimers();
+    const transport = { request: vi.fn(async () => serverError) } satisfies HttpTransport;
+    const client = new ZendFiClient({
+      apiKey: 'zfi_test_abc123',
+      logLevel: 'silent',
+      transport,
+      retryPolicy: { maxAttempts: 1 },
+      circuitBreaker: { failureThreshold: 1, cooldownMs: 1000 },
+    });
+
+    const changes: CircuitStateChange[] = [];
+    client.interceptors.circuit.use((change) => {
+      changes.push(change);
+    });
+
+    try {
+      await expect(client.getPayment('pay_1')).rejects.toMatchObject({ type: 'network_error' });
+      vi.advanceTimersByTime(1000);
+
+      // The trial request fails before reaching the transport
+      const id = client.interceptors.request.use(() => {
+        throw new Error('interceptor failed');
+      });
+      await expect(client.getPayment('pay_2')).rejects.toThrow('interceptor failed');
+      client.interceptors.request.eject(id);
+
+      transport.request.mockResolvedValueOnce({ ...serverError, status: 200, statusText: 'OK' });
+      await expect(client.getPayment('pay_3')).resolves.toBeDefined();
+      expect(transport.request).toHaveBeenCalledTimes(2);
+      expect(changes.map((c) => c.to)).toEqual(['open', 'half_open', 'closed']);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { ZendFiClient } from '../index';
+import type { HttpTransport, TransportRequest, TransportResponse } from '../transport';
 
 describe('ZendFiClient', () => {
   it('should create a client instance with explicit API key', () => {
@@ -40,9 +41,242 @@ describe('ZendFiClient', () => {
       new ZendFiClient({ apiKey: 'zfi_live_xyz789' });
     }).not.toThrow();
 
+    // Agent keys authenticate with their own scopes
+    expect(() => {
+      new ZendFiClient({ apiKey: 'zai_test_abc123' });
+    }).not.toThrow();
+
     // Invalid format
     expect(() => {
       new ZendFiClient({ apiKey: 'invalid_key' });
     }).toThrow('Invalid API key format');
+    expect(() => {
+      new ZendFiClient({ apiKey: 'zai_session_abc123' });
+    }).toThrow('Invalid API key format');
+  });
+});
+
+describe('HTTP Transport', () => {
+  function createRecordingTransport(responses: TransportResponse[]) {
+    const requests: TransportRequest[] = [];
+    const transport: HttpTransport = {
+      async request(request) {
+        requests.push(request);
+        const response = responses.shift();
+        if (!response) throw new Error('No more responses');
+        return response;
+      },
+    };
+    return { transport, requests };
+  }
+
+  it('should send requests through the configured transport', async () => {
+    const { transport, requests } = createRecordingTransport([
+      {
+        status: 200,
+        statusText: 'OK',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ id: 'pay_123', status: 'pending' }),
+      },
+    ]);
+
+    const client = new ZendFiClient({ apiKey: 'zfi_test_abc123', transport });
+    const payment = await client.createPayment({ amount: 10 });
+
+    expect(payment.id).toBe('pay_123');
+    expect(requests).toHaveLength(1);
+    expect(requests[0]!.method).toBe('POST');
+    expect(requests[0]!.url).toMatch(/\/api\/v1\/payments$/);
+    expect(requests[0]!.headers.Authorization).toBe('Bearer zfi_test_abc123');
+    expect(JSON.parse(requests[0]!.body!)).toMatchObject({ amount: 10, currency: 'USD', token: 'USDC' });
+  });
+
+  it('should map non-2xx transport responses to ZendFi errors', async () => {
+    const { transport } = createRecordingTransport([
+      {
+        status: 401,
+        statusText: 'Unauthorized',
+        headers: {},
+        body: JSON.stringify({ error: { code: 'invalid_api_key', message: 'Bad key' } }),
+      },
+    ]);
+
+    const client = new ZendFiClient({ apiKey: 'zfi_test_abc123', transport });
+
+    await expect(client.getPayment('pay_123')).rejects.toMatchObject({
+      code: 'invalid_api_key',
+      statusCode: 401,
+    });
+  });
+});
+
+describe('Request Options', () => {
+  const ok: TransportResponse = {
+    status: 200,
+    statusText: 'OK',
+    headers: {},
+    body: JSON.stringify({ id: 'pay_123', status: 'pending' }),
+  };
+
+  /** Transport that never responds until its signal aborts */
+  function createHangingTransport() {
+    const requests: TransportRequest[] = [];
+    const transport: HttpTransport = {
+      request(request) {
+        requests.push(request);
+        return new Promise((_, reject) => {
+          request.signal?.addEventListener('abort', () => {
+            const error = new Error('The operation was aborted');
+            error.name = 'AbortError';
+            reject(error);
+          });
+        });
+      },
+    };
+    return { transport, requests };
+  }
+
+  it('should send the caller idempotency key and extra headers', async () => {
+    const requests: TransportRequest[] = [];
+    const client = new ZendFiClient({
+      apiKey: 'zfi_test_abc123',
+      transport: {
+        async request(request) {
+          requests.push(request);
+          return ok;
+        },
+      },
+    });
+
+    await client.createPayment(
+      { amount: 10 },
+      { idempotencyKey: 'order_42', headers: { 'X-Trace-Id': 'trace_1' } }
+    );
+
+    expect(requests[0]!.headers['Idempotency-Key']).toBe('order_42');
+    expect(requests[0]!.headers['X-Trace-Id']).toBe('trace_1');
+  });
+
+  it('should reuse the caller idempotency key across retries', async () => {
+    const requests: TransportRequest[] = [];
+    const responses: TransportResponse[] = [
+      { status: 503, statusText: 'Service Unavailable', headers: {}, body: '{}' },
+      ok,
+    ];
+    const client = new ZendFiClient({
+      apiKey: 'zfi_test_abc123',
+      retryPolicy: { baseDelayMs: 0, jitter: 'none' },
+      transport: {
+        async request(request) {
+          requests.push(request);
+          return responses.shift()!;
+        },
+      },
+    });
+
+    await client.createPayment({ amount: 10 }, { idempotencyKey: 'order_42' });
+
+    expect(requests).toHaveLength(2);
+    expect(requests.map((r) => r.headers['Idempotency-Key'])).toEqual(['order_42', 'order_42']);
+  });
+
+  it('should not call the transport when the signal is already aborted', async () => {
+    const { transport, requests } = createHangingTransport();
+    const client = new ZendFiClient({ apiKey: 'zfi_test_abc123', transport });
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      client.getPayment('pay_123', { signal: controller.signal })
+    ).rejects.toMatchObject({ code: 'request_aborted' });
+    expect(requests).toHaveLength(0);
+  });
+
+  it('should cancel an in-flight request without retrying', async () => {
+    const { transport, requests } = createHangingTransport();
+    const client = new ZendFiClient({ apiKey: 'zfi_test_abc123', transport });
+    const controller = new AbortController();
+
+    const promise = client.getPayment('pay_123', { signal: controller.signal });
+    controller.abort();
+
+    await expect(promise).rejects.toMatchObject({ code: 'request_aborted' });
+    expect(requests).toHaveLength(1);
+  });
+
+  it('should apply a per-call timeout', async () => {
+    const { transport } = createHangingTransport();
+    const client = new ZendFiClient({ apiKey: 'zfi_test_abc123', transport, timeout: 60000 });
+
+    await expect(client.getPayment('pay_123', { timeout: 10 })).rejects.toThrow(
+      'Request timeout after 10ms'
+    );
+  });
+});
+
+describe('Raw Responses', () => {
+  function createClient(response: TransportResponse) {
+    return new ZendFiClient({
+      apiKey: 'zfi_test_abc123',
+      retryPolicy: { maxAttempts: 1 },
+      transport: { request: async () => response },
+    });
+  }
+
+  it('should expose status, headers, request ID and rate limit via withResponse()', async () => {
+    const client = createClient({
+      status: 201,
+      statusText: 'Created',
+      headers: {
+        'x-request-id': 'req_abc',
+        'x-ratelimit-limit': '1000',
+        'x-ratelimit-remaining': '998',
+        'x-ratelimit-reset': '1893456000',
+      },
+      body: JSON.stringify({ id: 'pay_123', status: 'pending' }),
+    });
+
+    const response = await client.createPayment({ amount: 10 }).withResponse();
+
+    expect(response.data.id).toBe('pay_123');
+    expect(response.status).toBe(201);
+    expect(response.headers['x-request-id']).toBe('req_abc');
+    expect(response.requestId).toBe('req_abc');
+    expect(response.rateLimit).toEqual({
+      limit: 1000,
+      remaining: 998,
+      resetAt: new Date(1893456000 * 1000),
+    });
+  });
+
+  it('should keep post-processed data when using withResponse()', async () => {
+    const client = createClient({
+      status: 200,
+      statusText: 'OK',
+      headers: { 'x-request-id': 'req_link' },
+      body: JSON.stringify({ link_code: 'abc', hosted_page_url: 'https://pay.zendfi.tech/abc' }),
+    });
+
+    const link = client.getPaymentLink('abc');
+    const { data, requestId } = await link.withResponse();
+
+    expect(data.url).toBe('https://pay.zendfi.tech/abc');
+    expect(requestId).toBe('req_link');
+    expect((await link).url).toBe('https://pay.zendfi.tech/abc');
+  });
+
+  it('should attach the request ID to API errors', async () => {
+    const client = createClient({
+      status: 400,
+      statusText: 'Bad Request',
+      headers: { 'x-request-id': 'req_err' },
+      body: JSON.stringify({ error: { code: 'invalid_amount', message: 'Amount too low' } }),
+    });
+
+    const error = await client.createPayment({ amount: 0 }).catch((e) => e);
+
+    expect(error.code).toBe('invalid_amount');
+    expect(error.requestId).toBe('req_err');
+    expect(error.toJSON().requestId).toBe('req_err');
   });
 });
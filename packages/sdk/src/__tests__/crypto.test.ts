@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import { mkdtempSync, mkdirSync, rmSync } from 'fs';
+import { join } from 'path';
+import { pathToFileURL } from 'url';
+import { build } from 'tsup';
+import {
+  constantTimeEqual,
+  generateWebhookSignatureHeader,
+  getCryptoRuntime,
+  hmacSha256HexSync,
+  verifyWebhookHeader,
+  verifyWebhookHeaderAsync,
+  webCryptoHmacSha256Hex,
+} from '../index';
+import { generateLeaseToken } from '../utils';
+
+const secret = 'whsec_test';
+const body = JSON.stringify({ event: 'payment.confirmed', data: { id: 'pay_1' } });
+
+const packageRoot = join(__dirname, '..', '..');
+
+/**
+ * Run `script` against the ESM build, the way Node 18 sees it: no
+ * `process.getBuiltinModule`, no `require` and no global Web Crypto
+ */
+async function runEsmBuildLikeNode18(script: string): Promise<string> {
+  const tmpRoot = join(packageRoot, 'node_modules', '.tmp');
+  mkdirSync(tmpRoot, { recursive: true });
+  const outDir = mkdtempSync(join(tmpRoot, 'esm-'));
+  try {
+    await build({
+      entry: [join(packageRoot, 'src', 'index.ts')],
+      format: ['esm'],
+      outDir,
+      silent: true,
+    });
+    const bundle = pathToFileURL(join(outDir, 'index.mjs')).href;
+    const program = [
+      'delete process.getBuiltinModule;',
+      "Object.defineProperty(globalThis, 'crypto', { value: undefined });",
+      `const sdk = await import(${JSON.stringify(bundle)});`,
+      script,
+    ].join('\n');
+    return execFileSync(process.execPath, ['--input-type=module', '-e', program], {
+      encoding: 'utf8',
+    });
+  } finally {
+    rmSync(outDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Load fresh modules as an edge runtime would see them: no `process`, so
+ * Node's `crypto` module can't be found (restored in `afterEach`)
+ */
+async function importWithoutNode() {
+  vi.resetModules();
+  vi.stubGlobal('process', undefined);
+  const crypto = await import('../crypto');
+  const signature = await import('../webhook-signature');
+  return { crypto, signature };
+}
+
+describe('Runtime Crypto', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should produce the same HMAC with Web Crypto as with Node crypto', async () => {
+    expect(getCryptoRuntime()).toBe('node');
+    expect(await webCryptoHmacSha256Hex(secret, body)).toBe(hmacSha256HexSync(secret, body));
+  });
+
+  it('should compare strings without short-circuiting on length or content', () => {
+    expect(constantTimeEqual('abc', 'abc')).toBe(true);
+    expect(constantTimeEqual('abc', 'abd')).toBe(false);
+    expect(constantTimeEqual('abc', 'ab')).toBe(false);
+  });
+
+  it('should verify asynchronously on Node', async () => {
+    const header = generateWebhookSignatureHeader(body, secret);
+
+    await expect(verifyWebhookHeaderAsync(body, header, ['old', secret])).resolves.toMatchObject({
+      secretIndex: 1,
+    });
+    await expect(verifyWebhookHeaderAsync(body, header, 'wrong')).rejects.toMatchObject({
+      code: 'webhook_signature_invalid',
+    });
+  });
+
+  it('should fall back to Web Crypto when Node crypto is unavailable', async () => {
+    const header = generateWebhookSignatureHeader(body, secret);
+    const { crypto, signature } = await importWithoutNode();
+
+    expect(crypto.getCryptoRuntime()).toBe('webcrypto');
+    await expect(signature.verifyWebhookHeaderAsync(body, header, secret)).resolves.toMatchObject({
+      secretIndex: 0,
+    });
+    await expect(
+      signature.verifyWebhookHeaderAsync(body.replace('pay_1', 'pay_2'), header, secret)
+    ).rejects.toMatchObject({ code: 'webhook_signature_invalid' });
+    await expect(signature.generateWebhookSignatureHeaderAsync(body, secret, 1)).resolves.toBe(
+      `t=1,v1=${hmacSha256HexSync(secret, `1.${body}`)}`
+    );
+    expect(() => signature.verifyWebhookHeader(body, header, secret)).toThrow(/Node\.js crypto/);
+  });
+
+  it('should load Node crypto in the ESM build without getBuiltinModule', async () => {
+    const payload = JSON.stringify({
+      event: 'payment.confirmed',
+      merchant_id: 'merch_1',
+      timestamp: new Date().toISOString(),
+      data: { id: 'pay_1' },
+    });
+    const header = generateWebhookSignatureHeader(payload, secret);
+    const output = await runEsmBuildLikeNode18(`
+      const [body, header, secret] = ${JSON.stringify([payload, header, secret])};
+      const results = [sdk.getCryptoRuntime()];
+      const zendfi = new sdk.ZendFiClient({ apiKey: 'zfi_test_abc123' });
+      for (const verify of [
+        () => zendfi.verifyWebhook({ payload: body, signature: header, secret }),
+        () => sdk.verifyWebhookSignature(body, header, secret),
+      ]) {
+        try {
+          results.push(verify());
+        } catch (error) {
+          results.push(error.message);
+        }
+      }
+      await sdk.loadNodeCrypto();
+      results.push(sdk.verifyWebhookSignature(body, header, secret), sdk.getCryptoRuntime());
+      console.log(JSON.stringify(results));
+    `);
+
+    const [before, client, standalone, loaded, after] = JSON.parse(output);
+    expect(before).toBe('none');
+    expect(client).toMatch(/^verifyWebhook requires Node\.js crypto.*use verifyWebhookAsync/);
+    expect(standalone).toMatch(/requires Node\.js crypto.*await loadNodeCrypto\(\)/);
+    expect([loaded, after]).toEqual([true, 'node']);
+  }, 60_000);
+
+  it('should generate lease tokens as random UUIDs', () => {
+    const tokens = new Set(Array.from({ length: 100 }, () => generateLeaseToken()));
+
+    expect(tokens.size).toBe(100);
+    for (const token of tokens) {
+      expect(token).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    }
+  });
+
+  it('should keep the synchronous API on Node', () => {
+    const header = generateWebhookSignatureHeader(body, secret);
+    expect(verifyWebhookHeader(body, header, secret).secretIndex).toBe(0);
+  });
+});
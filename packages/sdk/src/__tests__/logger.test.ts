@@ -0,0 +1,95 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ZendFiClient } from '../index';
+import { redact, SdkLogger, DEFAULT_REDACT_KEYS, type Logger } from '../logger';
+
+function createMockLogger(): Logger & Record<'debug' | 'info' | 'warn' | 'error', ReturnType<typeof vi.fn>> {
+  return { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+}
+
+describe('Structured Logging', () => {
+  it('should redact nested keys case-insensitively without mutating the input', () => {
+    const input = {
+      customer_email: 'jane@example.com',
+      metadata: { Session_Token: 'st_123', items: [{ client_secret: 'cs_1', sku: 'A' }] },
+      amount: 50,
+    };
+
+    const output = redact(input, DEFAULT_REDACT_KEYS);
+
+    expect(output).toEqual({
+      customer_email: '[REDACTED]',
+      metadata: { Session_Token: '[REDACTED]', items: [{ client_secret: '[REDACTED]', sku: 'A' }] },
+      amount: 50,
+    });
+    expect(input.customer_email).toBe('jane@example.com');
+  });
+
+  it('should filter entries below the configured level', () => {
+    const target = createMockLogger();
+    const logger = new SdkLogger(target, 'warn');
+
+    logger.debug({}, 'debug');
+    logger.info({}, 'info');
+    logger.warn({}, 'warn');
+    logger.error({}, 'error');
+
+    expect(target.debug).not.toHaveBeenCalled();
+    expect(target.info).not.toHaveBeenCalled();
+    expect(target.warn).toHaveBeenCalledWith({}, 'warn');
+    expect(target.error).toHaveBeenCalledWith({}, 'error');
+  });
+
+  it('should log structured, redacted request entries through a custom logger', async () => {
+    const logger = createMockLogger();
+    const client = new ZendFiClient({
+      apiKey: 'zfi_test_abc123',
+      logger,
+      logLevel: 'debug',
+      transport: {
+        request: async () => ({
+          status: 200,
+          statusText: 'OK',
+          headers: { 'x-request-id': 'req_1' },
+          body: JSON.stringify({ id: 'pi_1', client_secret: 'cs_secret' }),
+        }),
+      },
+    });
+
+    await client.createPayment({ amount: 10, customer_email: 'jane@example.com' });
+
+    const [sent] = logger.debug.mock.calls.find(([, msg]) => msg === 'Sending request')!;
+    expect(sent).toMatchObject({ method: 'POST', endpoint: '/api/v1/payments', attempt: 1 });
+    expect(sent.body.customer_email).toBe('[REDACTED]');
+
+    const [done] = logger.debug.mock.calls.find(([, msg]) => msg === 'Request succeeded')!;
+    expect(done).toMatchObject({ status: 200, requestId: 'req_1', attempt: 1 });
+    expect(typeof done.durationMs).toBe('number');
+    expect(done.body.client_secret).toBe('[REDACTED]');
+  });
+
+  it('should not write to the console when a custom logger is provided', () => {
+    const spy = vi.spyOn(console, 'info').mockImplementation(() => {});
+    const logger = createMockLogger();
+
+    new ZendFiClient({ apiKey: 'zfi_test_abc123', logger, logLevel: 'info' });
+
+    expect(spy).not.toHaveBeenCalled();
+    expect(logger.info).toHaveBeenCalledWith(
+      expect.objectContaining({ mode: 'test', network: 'devnet' }),
+      expect.stringContaining('initialized')
+    );
+    spy.mockRestore();
+  });
+
+  it('should send custom loggers warnings by default and keep the console quiet', () => {
+    const spy = vi.spyOn(console, 'info').mockImplementation(() => {});
+    const logger = createMockLogger();
+
+    new ZendFiClient({ apiKey: 'zfi_test_abc123', logger });
+    new ZendFiClient({ apiKey: 'zfi_test_abc123', environment: 'development' });
+
+    expect(logger.info).not.toHaveBeenCalled();
+    expect(spy).not.toHaveBeenCalled();
+    spy.mockRestore();
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ZendFiClient,
+  normalizePayment,
+  normalizePaymentLink,
+  normalizeInstallmentPlan,
+  parseAmount,
+  parseDate,
+} from '../index';
+import type { InstallmentPlan, Payment, PaymentLink } from '../types';
+
+function createClient(body: unknown) {
+  return new ZendFiClient({
+    apiKey: 'zfi_test_abc123',
+    transport: {
+      request: async () => ({
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+        body: JSON.stringify(body),
+      }),
+    },
+  });
+}
+
+describe('Normalized Models', () => {
+  it('should unify payment amount and checkout URL variants', () => {
+    const base = {
+      id: 'pay_1',
+      merchant_id: 'mer_1',
+      status: 'pending',
+      expires_at: '2025-11-08T20:00:00Z',
+    } as Payment;
+
+    const fromUsd = normalizePayment({ ...base, amount_usd: 50, checkout_url: 'https://a' });
+    const fromAmount = normalizePayment({ ...base, amount: 50, payment_url: 'https://a' });
+
+    expect(fromUsd.amount).toBe(50);
+    expect(fromAmount.amount).toBe(50);
+    expect(fromUsd.checkout_url).toBe('https://a');
+    expect(fromAmount.checkout_url).toBe('https://a');
+    expect(fromAmount.currency).toBe('USD');
+    expect(fromAmount.expires_at).toEqual(new Date('2025-11-08T20:00:00Z'));
+    expect(fromAmount.confirmed_at).toBeUndefined();
+  });
+
+  it('should use a single id and numeric amounts for installment plans', () => {
+    const raw = {
+      plan_id: 'plan_9',
+      status: 'active',
+      total_amount: '300.00',
+      amount_per_installment: '100.00',
+      payment_schedule: [
+        { installment_number: 1, due_date: '2025-01-01', amount: '100.00', status: 'paid' },
+        { installment_number: 2, due_date: '2025-02-01', amount: '100.00', status: 'pending' },
+      ],
+    } as InstallmentPlan;
+
+    const plan = normalizeInstallmentPlan(raw);
+
+    expect(plan.id).toBe('plan_9');
+    expect(plan.total_amount).toBe(300);
+    expect(plan.amount_per_installment).toBe(100);
+    expect(plan.paid_count).toBe(1);
+    expect(plan.payment_schedule[1]?.due_date).toEqual(new Date('2025-02-01'));
+    expect(plan.raw).toBe(raw);
+  });
+
+  it('should prefer hosted_page_url for payment links', () => {
+    const link = normalizePaymentLink({
+      link_code: 'abc',
+      merchant_id: 'mer_1',
+      amount: 10,
+      currency: 'USD',
+      payment_url: 'https://pay',
+      hosted_page_url: 'https://hosted',
+      url: 'https://old',
+      created_at: '2025-01-01T00:00:00Z',
+      updated_at: '2025-01-01T00:00:00Z',
+    } as PaymentLink);
+
+    expect(link.id).toBe('abc');
+    expect(link.url).toBe('https://hosted');
+    expect(link.is_active).toBe(true);
+  });
+
+  it('should compose with ApiPromise.transform', async () => {
+    const client = createClient({
+      id: 'pay_2',
+      merchant_id: 'mer_1',
+      amount_usd: '12.5',
+      status: 'confirmed',
+      expires_at: '2025-11-08T20:00:00Z',
+    });
+
+    const payment = await client.getPayment('pay_2').transform(normalizePayment);
+
+    expect(payment.amount).toBe(12.5);
+    expect(payment.raw.id).toBe('pay_2');
+  });
+
+  it('should leave missing amounts and IDs undefined', () => {
+    const payment = normalizePayment({ id: 'pay_3', amount_usd: 'n/a' } as unknown as Payment);
+    const plan = normalizeInstallmentPlan({
+      status: 'active',
+      payment_schedule: [{ installment_number: 1, status: 'pending' }],
+    } as InstallmentPlan);
+
+    expect(payment.amount).toBeUndefined();
+    expect(plan.id).toBeUndefined();
+    expect(plan.payment_schedule[0]?.amount).toBeUndefined();
+  });
+
+  it('should return undefined for invalid dates and amounts', () => {
+    expect(parseDate('not a date')).toBeUndefined();
+    expect(parseDate(null)).toBeUndefined();
+    expect(parseAmount('abc')).toBeUndefined();
+    expect(parseAmount('')).toBeUndefined();
+    expect(parseAmount('0')).toBe(0);
+  });
+});
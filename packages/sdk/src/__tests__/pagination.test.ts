@@ -0,0 +1,105 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ZendFiClient } from '../client';
+import { Paginator, offsetPaginator, pageNumberPaginator } from '../pagination';
+import type { TransportRequest } from '../transport';
+
+function createClient(respond: (url: URL) => unknown) {
+  const request = vi.fn(async (req: TransportRequest) => ({
+    status: 200,
+    statusText: 'OK',
+    headers: {},
+    body: JSON.stringify(respond(new URL(req.url))),
+  }));
+  const client = new ZendFiClient({
+    apiKey: 'zfi_test_abc123',
+    logLevel: 'silent',
+    transport: { request },
+  });
+  return { client, request };
+}
+
+describe('Auto-Pagination', () => {
+  it('should walk page-numbered endpoints until total_pages', async () => {
+    const fetch = vi.fn(async (page: number, limit: number) => ({
+      data: Array.from({ length: page < 3 ? limit : 1 }, (_, i) => `p${page}-${i}`),
+      pagination: { page, total_pages: 3 },
+    }));
+
+    const items = await pageNumberPaginator(2, fetch).toArray();
+
+    expect(items).toEqual(['p1-0', 'p1-1', 'p2-0', 'p2-1', 'p3-0']);
+    expect(fetch).toHaveBeenCalledTimes(3);
+    expect(fetch).toHaveBeenLastCalledWith(3, 2);
+  });
+
+  it('should walk offset endpoints until a short page', async () => {
+    const all = Array.from({ length: 7 }, (_, i) => i);
+    const fetch = vi.fn(async (limit: number, offset: number) => all.slice(offset, offset + limit));
+
+    const items: number[] = [];
+    for await (const item of offsetPaginator(3, fetch)) {
+      items.push(item);
+    }
+
+    expect(items).toEqual(all);
+    expect(fetch.mock.calls).toEqual([
+      [3, 0],
+      [3, 3],
+      [3, 6],
+    ]);
+  });
+
+  it('should stop fetching once max is reached', async () => {
+    const fetch = vi.fn(async (limit: number) => Array.from({ length: limit }, () => 'x'));
+
+    const items = await offsetPaginator(10, fetch).toArray({ max: 15 });
+
+    expect(items).toHaveLength(15);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop on an empty page even if more is reported', async () => {
+    const paginator = new Paginator<string>(async () => ({ items: [], hasMore: true }));
+
+    expect(await paginator.toArray()).toEqual([]);
+  });
+
+  it('should request pageSize items per page from client iterators', async () => {
+    const { client, request } = createClient((url) => {
+      const limit = Number(url.searchParams.get('limit'));
+      const offset = Number(url.searchParams.get('offset') ?? 0);
+      return Array.from({ length: Math.min(limit, 5 - offset) }, (_, i) => ({
+        id: `esc_${offset + i}`,
+      }));
+    });
+
+    const escrows = await client.escrows.iterate({ pageSize: 2 }).toArray();
+
+    expect(escrows.map((escrow) => escrow.id)).toEqual([
+      'esc_0',
+      'esc_1',
+      'esc_2',
+      'esc_3',
+      'esc_4',
+    ]);
+    expect(request.mock.calls.map(([req]) => new URL(req.url).search)).toEqual([
+      '?limit=2',
+      '?limit=2&offset=2',
+      '?limit=2&offset=4',
+    ]);
+  });
+
+  it('should fetch unpaginated resources in a single request', async () => {
+    const { client, request } = createClient(() => [
+      { id: 'inv_1' },
+      { id: 'inv_2' },
+      { id: 'inv_3' },
+    ]);
+
+    const invoices = await client.invoices.iterate().toArray();
+
+    expect(invoices.map((invoice) => invoice.id)).toEqual(['inv_1', 'inv_2', 'inv_3']);
+    expect(request).toHaveBeenCalledOnce();
+    expect(new URL(request.mock.calls[0]![0].url).pathname).toBe('/api/v1/invoices');
+  });
+});
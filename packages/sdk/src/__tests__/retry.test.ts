@@ -0,0 +1,125 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ZendFiClient } from '../client';
+import {
+  computeRetryDelay,
+  parseRetryAfter,
+  resolveRetryPolicy,
+  type RetryPolicy,
+} from '../retry';
+import type { HttpTransport, TransportResponse } from '../transport';
+
+function sequenceTransport(responses: Array<TransportResponse | Error>) {
+  const request = vi.fn(async () => {
+    const next = responses.shift();
+    if (!next) throw new Error('No more responses');
+    if (next instanceof Error) throw next;
+    return next;
+  });
+  return { request } satisfies HttpTransport;
+}
+
+const ok: TransportResponse = {
+  status: 200,
+  statusText: 'OK',
+  headers: {},
+  body: JSON.stringify({ id: 'pay_123' }),
+};
+
+describe('Retry Policy', () => {
+  it('should layer partial policies over the defaults', () => {
+    const policy = resolveRetryPolicy({ maxAttempts: 5 }, { baseDelayMs: 10 }, undefined);
+
+    expect(policy.maxAttempts).toBe(5);
+    expect(policy.baseDelayMs).toBe(10);
+    expect(policy.retryableStatuses).toContain(429);
+  });
+
+  it('should skip unset fields and keys that are not part of the policy', () => {
+    const layer = { maxAttempts: undefined, jitter: 'none', extra: true } as Partial<RetryPolicy>;
+    const policy = resolveRetryPolicy({ maxAttempts: 4 }, layer);
+
+    expect(policy.maxAttempts).toBe(4);
+    expect(policy.jitter).toBe('none');
+    expect(policy).not.toHaveProperty('extra');
+  });
+
+  it('should cap backoff and apply full jitter', () => {
+    const policy = resolveRetryPolicy({ baseDelayMs: 100, maxDelayMs: 300, jitter: 'none' });
+
+    expect(computeRetryDelay(policy, 1)).toBe(100);
+    expect(computeRetryDelay(policy, 2)).toBe(200);
+    expect(computeRetryDelay(policy, 5)).toBe(300);
+
+    const jittered = resolveRetryPolicy({ baseDelayMs: 100, jitter: 'full' });
+    for (let i = 0; i < 20; i++) {
+      const delay = computeRetryDelay(jittered, 3)!;
+      expect(delay).toBeGreaterThanOrEqual(0);
+      expect(delay).toBeLessThan(400);
+    }
+  });
+
+  it('should honor Retry-After unless it exceeds maxDelayMs', () => {
+    const policy = resolveRetryPolicy({ maxDelayMs: 5000 });
+
+    expect(computeRetryDelay(policy, 1, 2000)).toBe(2000);
+    expect(computeRetryDelay(policy, 1, 60000)).toBeNull();
+  });
+
+  it('should parse Retry-After seconds and HTTP dates', () => {
+    expect(parseRetryAfter('3')).toBe(3000);
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+
+    const future = new Date(Date.now() + 10_000).toUTCString();
+    expect(parseRetryAfter(future)).toBeGreaterThan(8000);
+  });
+
+  it('should retry 429 responses using Retry-After', async () => {
+    const transport = sequenceTransport([
+      { status: 429, statusText: 'Too Many Requests', headers: { 'retry-after': '0' }, body: '{}' },
+      ok,
+    ]);
+    const client = new ZendFiClient({ apiKey: 'zfi_test_abc123', transport });
+
+    const payment = await client.getPayment('pay_123');
+
+    expect(payment.id).toBe('pay_123');
+    expect(transport.request).toHaveBeenCalledTimes(2);
+  });
+
+  it('should retry network errors and keep the idempotency key', async () => {
+    const transport = sequenceTransport([new TypeError('socket hang up'), ok]);
+    const client = new ZendFiClient({
+      apiKey: 'zfi_test_abc123',
+      transport,
+      retryPolicy: { baseDelayMs: 0 },
+    });
+
+    await client.createPayment({ amount: 10 });
+
+    const calls = transport.request.mock.calls as unknown as Array<[{ headers: Record<string, string> }]>;
+    expect(calls).toHaveLength(2);
+    expect(calls[0]![0].headers['Idempotency-Key']).toBeDefined();
+    expect(calls[1]![0].headers['Idempotency-Key']).toBe(calls[0]![0].headers['Idempotency-Key']);
+  });
+
+  it('should not retry non-retryable statuses or when disabled per call', async () => {
+    const badRequest: TransportResponse = {
+      status: 400,
+      statusText: 'Bad Request',
+      headers: {},
+      body: '{}',
+    };
+    const unavailable: TransportResponse = { ...badRequest, status: 503 };
+
+    const transport = sequenceTransport([badRequest, unavailable]);
+    const client = new ZendFiClient({
+      apiKey: 'zfi_test_abc123',
+      transport,
+      retryPolicy: { baseDelayMs: 0 },
+    });
+
+    await expect(client.getPayment('pay_1')).rejects.toMatchObject({ statusCode: 400 });
+    await expect(client.getPayment('pay_2', { retry: false })).rejects.toBeDefined();
+    expect(transport.request).toHaveBeenCalledTimes(2);
+  });
+});
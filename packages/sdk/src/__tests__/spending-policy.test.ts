@@ -0,0 +1,139 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  SpendingPolicyEngine,
+  SpendingPolicyError,
+  ZendFiClient,
+  evaluateSpendingPolicy,
+} from '../index';
+import type { AgentSession, SmartPaymentRequest } from '../types';
+
+function createSession(overrides: Partial<AgentSession> = {}): AgentSession {
+  return {
+    id: 'sess_1',
+    session_token: 'zai_session_abc',
+    agent_id: 'shopping-assistant',
+    user_wallet: 'Hx7B...abc',
+    limits: {
+      max_per_transaction: 100,
+      max_per_day: 300,
+      max_per_week: 1000,
+      max_per_month: 3000,
+      require_approval_above: 50,
+    },
+    is_active: true,
+    created_at: '2025-01-01T00:00:00Z',
+    expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+    remaining_today: 120,
+    remaining_this_week: 900,
+    remaining_this_month: 2500,
+    ...overrides,
+  };
+}
+
+function payment(amount_usd: number, extra: Partial<SmartPaymentRequest> = {}) {
+  return {
+    agent_id: 'shopping-assistant',
+    user_wallet: 'Hx7B...abc',
+    session_token: 'zai_session_abc',
+    amount_usd,
+    ...extra,
+  };
+}
+
+function createClient(session: AgentSession) {
+  const request = vi.fn(async () => ({
+    status: 200,
+    statusText: 'OK',
+    headers: {},
+    body: JSON.stringify(session),
+  }));
+  const client = new ZendFiClient({
+    apiKey: 'zfi_test_abc123',
+    logLevel: 'silent',
+    transport: { request },
+  });
+  return { client, request };
+}
+
+describe('Spending Policy', () => {
+  it('should allow, require approval or deny based on the limits', () => {
+    const session = createSession();
+
+    expect(evaluateSpendingPolicy(session, payment(20))).toMatchObject({
+      decision: 'allow',
+      reasons: [],
+      remaining: { today: 100, this_week: 880, this_month: 2480 },
+    });
+    expect(evaluateSpendingPolicy(session, payment(75))).toMatchObject({
+      decision: 'needs_approval',
+      reasons: [{ code: 'approval_required', limit: 50 }],
+    });
+    expect(evaluateSpendingPolicy(session, payment(150))).toMatchObject({
+      decision: 'deny',
+      remaining: { today: 120 },
+    });
+    expect(evaluateSpendingPolicy(session, payment(150)).reasons.map((r) => r.code)).toEqual([
+      'per_transaction_limit',
+      'daily_limit',
+    ]);
+  });
+
+  it('should explain session and merchant problems', () => {
+    const session = createSession({
+      is_active: false,
+      expires_at: '2020-01-01T00:00:00Z',
+      allowed_merchants: ['mer_1'],
+    });
+
+    const decision = evaluateSpendingPolicy(
+      session,
+      payment(10, { merchant_id: 'mer_2', session_token: 'zai_session_other' })
+    );
+
+    expect(decision.decision).toBe('deny');
+    expect(decision.reasons.map((r) => r.code)).toEqual([
+      'session_inactive',
+      'session_expired',
+      'session_mismatch',
+      'merchant_not_allowed',
+    ]);
+    expect(decision.reasons[3]?.message).toContain('mer_2');
+  });
+
+  it('should fetch the session once and track spend locally', async () => {
+    const { client, request } = createClient(createSession());
+    const policy = new SpendingPolicyEngine(client.agent);
+
+    expect((await policy.evaluate('sess_1', payment(40))).decision).toBe('allow');
+    policy.recordSpend('sess_1', 40);
+    policy.recordSpend('sess_1', 40);
+
+    const decision = await policy.evaluate('sess_1', payment(45));
+    expect(decision.decision).toBe('deny');
+    expect(decision.reasons[0]).toMatchObject({ code: 'daily_limit', remaining: 40 });
+    expect(request).toHaveBeenCalledOnce();
+
+    await policy.refresh('sess_1');
+    expect((await policy.getSession('sess_1')).remaining_today).toBe(120);
+  });
+
+  it('should throw a SpendingPolicyError from assertAllowed', async () => {
+    const { client } = createClient(createSession());
+    const policy = new SpendingPolicyEngine(client.agent);
+    policy.track(createSession({ allowed_merchants: undefined }), {
+      allowedMerchants: ['mer_1'],
+    });
+
+    await expect(policy.assertAllowed('sess_1', payment(10, { merchant_id: 'mer_1' })))
+      .resolves.toMatchObject({ decision: 'allow' });
+
+    const error = await policy.assertAllowed('sess_1', payment(75, { merchant_id: 'mer_1' }))
+      .catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(SpendingPolicyError);
+    expect(error).toMatchObject({ code: 'approval_required', type: 'policy_error' });
+
+    await expect(policy.assertAllowed('sess_1', payment(10))).rejects.toMatchObject({
+      code: 'spending_policy_denied',
+    });
+  });
+});
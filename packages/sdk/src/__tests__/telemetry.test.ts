@@ -0,0 +1,149 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ZendFiClient } from '../index';
+import type { TracerLike, MeterLike, SpanLike, Attributes } from '../telemetry';
+import type { TransportResponse } from '../transport';
+
+interface RecordedSpan {
+  name: string;
+  attributes: Attributes;
+  events: Array<{ name: string; attributes?: Attributes }>;
+  status?: { code: number; message?: string };
+  ended: boolean;
+}
+
+function createFakeTelemetry() {
+  const spans: RecordedSpan[] = [];
+  const histogram = { record: vi.fn() };
+  const errorCounter = { add: vi.fn() };
+  const retryCounter = { add: vi.fn() };
+
+  const tracer: TracerLike = {
+    startActiveSpan(name, options, fn) {
+      const recorded: RecordedSpan = {
+        name,
+        attributes: { ...options.attributes },
+        events: [],
+        ended: false,
+      };
+      spans.push(recorded);
+      const span: SpanLike = {
+        setAttribute: (key, value) => (recorded.attributes[key] = value),
+        addEvent: (eventName, attributes) => recorded.events.push({ name: eventName, attributes }),
+        recordException: () => {},
+        setStatus: (status) => (recorded.status = status),
+        end: () => (recorded.ended = true),
+      };
+      return fn(span);
+    },
+  };
+
+  const meter: MeterLike = {
+    createHistogram: () => histogram,
+    createCounter: (name) => (name === 'zendfi.client.retries' ? retryCounter : errorCounter),
+  };
+
+  return { tracer, meter, spans, histogram, errorCounter, retryCounter };
+}
+
+function createClient(responses: TransportResponse[], telemetry: ReturnType<typeof createFakeTelemetry>) {
+  return new ZendFiClient({
+    apiKey: 'zfi_test_abc123',
+    retryPolicy: { baseDelayMs: 0, jitter: 'none' },
+    telemetry: { tracer: telemetry.tracer, meter: telemetry.meter },
+    transport: { request: async () => responses.shift()! },
+  });
+}
+
+describe('OpenTelemetry Instrumentation', () => {
+  it('should wrap sub-API calls in operation spans around request spans', async () => {
+    const telemetry = createFakeTelemetry();
+    const client = createClient(
+      [{ status: 200, statusText: 'OK', headers: { 'x-request-id': 'req_1' }, body: '{"id":"pi_1"}' }],
+      telemetry
+    );
+
+    await client.intents.create({ amount: 10 }, { idempotencyKey: 'order_1' });
+
+    expect(telemetry.spans.map((s) => s.name)).toEqual(['zendfi.intents.create', 'zendfi.request']);
+    expect(telemetry.spans.every((s) => s.ended && s.status?.code === 1)).toBe(true);
+    expect(telemetry.spans[1]!.attributes).toMatchObject({
+      'http.request.method': 'POST',
+      'zendfi.endpoint_group': 'payment-intents',
+      'zendfi.idempotency_key': 'order_1',
+      'zendfi.request_id': 'req_1',
+      'http.response.status_code': 200,
+      'zendfi.retry_count': 0,
+    });
+    expect(telemetry.histogram.record).toHaveBeenCalledWith(
+      expect.any(Number),
+      expect.objectContaining({ 'http.response.status_code': 200 })
+    );
+  });
+
+  it('should record retries as span events and metrics', async () => {
+    const telemetry = createFakeTelemetry();
+    const client = createClient(
+      [
+        { status: 503, statusText: 'Service Unavailable', headers: {}, body: '{}' },
+        { status: 200, statusText: 'OK', headers: {}, body: '{"id":"pay_1"}' },
+      ],
+      telemetry
+    );
+
+    await client.getPayment('pay_1');
+
+    const [requestSpan] = telemetry.spans;
+    expect(requestSpan!.attributes['zendfi.retry_count']).toBe(1);
+    expect(requestSpan!.events).toEqual([
+      {
+        name: 'zendfi.retry',
+        attributes: expect.objectContaining({ 'zendfi.attempt': 2, 'http.response.status_code': 503 }),
+      },
+    ]);
+    expect(telemetry.retryCounter.add).toHaveBeenCalledTimes(1);
+  });
+
+  it('should mark failed calls and count errors', async () => {
+    const telemetry = createFakeTelemetry();
+    const client = createClient(
+      [{ status: 400, statusText: 'Bad Request', headers: {}, body: '{"code":"invalid_amount"}' }],
+      telemetry
+    );
+
+    await expect(client.pricing.getPPPFactor('BR')).rejects.toThrow();
+
+    expect(telemetry.spans.map((s) => s.status?.code)).toEqual([2, 2]);
+    expect(telemetry.errorCounter.add).toHaveBeenCalledWith(
+      1,
+      expect.objectContaining({ 'error.type': 'invalid_amount', 'http.response.status_code': 400 })
+    );
+  });
+
+  it('should keep withResponse() on instrumented sub-API calls', async () => {
+    const telemetry = createFakeTelemetry();
+    const client = createClient(
+      [{ status: 200, statusText: 'OK', headers: { 'x-request-id': 'req_2' }, body: '{"id":"pi_2"}' }],
+      telemetry
+    );
+
+    const { data, requestId } = await client.intents.get('pi_2').withResponse();
+
+    expect(data).toEqual({ id: 'pi_2' });
+    expect(requestId).toBe('req_2');
+  });
+
+  it('should leave synchronous helpers untraced and reuse method wrappers', () => {
+    const telemetry = createFakeTelemetry();
+    const client = createClient([], telemetry);
+
+    client.autonomy.createDelegationMessage('sk_1', 100, '2030-01-01T00:00:00Z');
+    client.autonomy.validateRequest({
+      max_amount_usd: 100,
+      duration_hours: 24,
+      delegation_signature: 'sig',
+    } as any);
+
+    expect(telemetry.spans).toEqual([]);
+    expect(client.intents.create).toBe(client.intents.create);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  createTestInstallmentPlan,
+  createWebhookEvent,
+  createWebhookRequest,
+  resetTestIds,
+  signWebhook,
+} from '../testing';
+import { verifyWebhookHeader, WebhookRouter } from '../index';
+import { createWebhookHandler } from '../frameworks/nextjs';
+import type { WebhookEvent } from '../types';
+
+const secret = 'whsec_test';
+
+const EVENTS: WebhookEvent[] = [
+  'payment.created',
+  'payment.confirmed',
+  'payment.failed',
+  'payment.expired',
+  'subscription.created',
+  'subscription.activated',
+  'subscription.canceled',
+  'subscription.payment_failed',
+  'split.completed',
+  'split.failed',
+  'installment.due',
+  'installment.paid',
+  'installment.late',
+  'escrow.funded',
+  'escrow.released',
+  'escrow.refunded',
+  'escrow.disputed',
+  'invoice.sent',
+  'invoice.paid',
+];
+
+describe('Webhook Testing Helpers', () => {
+  beforeEach(() => {
+    resetTestIds();
+  });
+
+  it('should build a payload for every event with matching data', () => {
+    for (const event of EVENTS) {
+      const payload = createWebhookEvent(event);
+      expect(payload.event).toBe(event);
+      expect(payload.id).toMatch(/^evt_test_/);
+      expect((payload.data as { id?: string }).id).toBeTruthy();
+    }
+
+    expect(createWebhookEvent('payment.confirmed').data).toMatchObject({
+      status: 'confirmed',
+      transaction_signature: expect.any(String),
+    });
+    expect(createWebhookEvent('escrow.disputed').data.dispute_reason).toBeTruthy();
+    expect(createWebhookEvent('invoice.paid').data.paid_at).toBeTruthy();
+  });
+
+  it('should apply overrides and generate deterministic IDs', () => {
+    const payload = createWebhookEvent('payment.confirmed', {
+      id: 'evt_custom',
+      merchantId: 'mer_1',
+      timestamp: new Date('2025-01-01T00:00:00Z'),
+      data: { amount_usd: 99, metadata: { orderId: 'ord_1' } },
+    });
+
+    expect(payload).toMatchObject({
+      id: 'evt_custom',
+      merchant_id: 'mer_1',
+      timestamp: '2025-01-01T00:00:00.000Z',
+      data: { id: 'pay_test_0001', merchant_id: 'mer_1', amount_usd: 99, status: 'confirmed' },
+    });
+    expect(createTestInstallmentPlan().payment_schedule).toHaveLength(3);
+  });
+
+  it('should sign in the production header format', () => {
+    const payload = createWebhookEvent('payment.created');
+    const signed = signWebhook(payload, secret, { timestamp: 1_700_000_000 });
+
+    expect(signed.signature).toMatch(/^t=1700000000,v1=[0-9a-f]{64}$/);
+    expect(signed.headers['x-zendfi-signature']).toBe(signed.signature);
+    expect(JSON.parse(signed.body)).toEqual(payload);
+    expect(() => verifyWebhookHeader(signed.body, signed.signature, secret)).toThrow(/tolerance/);
+    expect(() =>
+      verifyWebhookHeader(signed.body, signWebhook(payload, secret).signature, secret)
+    ).not.toThrow();
+  });
+
+  it('should produce a Request that a handler accepts', async () => {
+    const handler = vi.fn();
+    const POST = createWebhookHandler({
+      secret,
+      handlers: new WebhookRouter().on('escrow.*', handler),
+    });
+
+    const event = createWebhookEvent('escrow.released');
+    const response = await POST(createWebhookRequest(event, secret));
+
+    expect(response.status).toBe(200);
+    expect(handler).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'released' }),
+      expect.objectContaining({ event: 'escrow.released' })
+    );
+  });
+});
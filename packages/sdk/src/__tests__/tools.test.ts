@@ -0,0 +1,255 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ApprovalManager, ZendFiClient, ZendFiToolkit, s, toJSONSchema } from '../index';
+import type { TransportRequest } from '../transport';
+
+function createClient(routes: Record<string, unknown>) {
+  const request = vi.fn(async (req: TransportRequest) => {
+    const path = new URL(req.url).pathname;
+    const body = routes[path];
+    return body === undefined
+      ? { status: 404, statusText: 'Not Found', headers: {}, body: '{"error":"not found"}' }
+      : { status: 200, statusText: 'OK', headers: {}, body: JSON.stringify(body) };
+  });
+  const client = new ZendFiClient({
+    apiKey: 'zfi_test_abc123',
+    logLevel: 'silent',
+    transport: { request },
+  });
+  return { client, request };
+}
+
+const session = {
+  agentId: 'shopping-assistant',
+  id: 'sess_1',
+  token: 'zai_session_abc',
+  userWallet: 'Hx7B...abc',
+};
+
+describe('Agent Tools', () => {
+  it('should convert schemas to JSON Schema with descriptions', () => {
+    const schema = s.object({
+      amount: s.number().describe('Amount in USD'),
+      token: s.enum(['USDC', 'SOL']).optional(),
+      tags: s.array(s.string()),
+    });
+
+    expect(toJSONSchema(schema)).toEqual({
+      type: 'object',
+      properties: {
+        amount: { type: 'number', description: 'Amount in USD' },
+        token: { enum: ['USDC', 'SOL'] },
+        tags: { type: 'array', items: { type: 'string' } },
+      },
+      required: ['amount', 'tags'],
+      additionalProperties: false,
+    });
+  });
+
+  it('should return only the declared fields from safeParse', () => {
+    const schema = s.object({
+      amount: s.number(),
+      items: s.array(s.object({ sku: s.string() })),
+      note: s.string().optional(),
+    });
+
+    const parsed = schema.safeParse({
+      amount: 5,
+      items: [{ sku: 'a', price: 0 }],
+      enable_escrow: true,
+    });
+
+    expect(parsed).toEqual({ success: true, data: { amount: 5, items: [{ sku: 'a' }] } });
+  });
+
+  it('should produce tool definitions for each framework', () => {
+    const { client } = createClient({});
+    const toolkit = new ZendFiToolkit(client, {
+      session,
+      tools: ['get_ppp_price', 'execute_smart_payment'],
+    });
+
+    expect(toolkit.definitions().map((d) => d.name)).toEqual([
+      'get_ppp_price',
+      'execute_smart_payment',
+    ]);
+
+    const [openai] = toolkit.toOpenAITools();
+    expect(openai).toMatchObject({
+      type: 'function',
+      function: {
+        name: 'get_ppp_price',
+        parameters: { type: 'object', required: ['base_price', 'country_code'] },
+      },
+    });
+
+    const anthropic = toolkit.toAnthropicTools()[1]!;
+    expect(anthropic.name).toBe('execute_smart_payment');
+    // Session-scoped fields are never offered to the model
+    expect(Object.keys(anthropic.input_schema.properties!)).not.toContain('user_wallet');
+    expect(Object.keys(anthropic.input_schema.properties!)).not.toContain('session_token');
+
+    const vercel = toolkit.toVercelAITools((schema) => ({ wrapped: schema }));
+    expect(vercel.get_ppp_price!.inputSchema).toEqual({ wrapped: openai!.function.parameters });
+    expect(toolkit.toLangChainTools()[0]!.schema).toEqual(openai!.function.parameters);
+  });
+
+  it('should execute smart payments with the session credentials', async () => {
+    const { client, request } = createClient({
+      '/api/v1/ai/smart-payment': { payment_id: 'pay_1', status: 'confirmed', amount_usd: 20 },
+    });
+    const toolkit = new ZendFiToolkit(client, { session });
+
+    const message = await toolkit.handleOpenAIToolCall({
+      id: 'call_1',
+      function: {
+        name: 'execute_smart_payment',
+        arguments: '{"amount_usd":20,"instant_settlement":true,"metadata":{"a":1}}',
+      },
+    });
+
+    expect(message).toMatchObject({ role: 'tool', tool_call_id: 'call_1' });
+    expect(JSON.parse(message.content)).toMatchObject({ payment_id: 'pay_1' });
+
+    const sent = request.mock.calls[0]![0];
+    expect(sent.headers.Authorization).toBe('Bearer zai_session_abc');
+    const body = JSON.parse(sent.body!);
+    expect(body).toMatchObject({
+      amount_usd: 20,
+      agent_id: 'shopping-assistant',
+      user_wallet: 'Hx7B...abc',
+      session_token: 'zai_session_abc',
+    });
+    // Undeclared arguments never reach the API
+    expect(body).not.toHaveProperty('instant_settlement');
+    expect(body).not.toHaveProperty('metadata');
+  });
+
+  it('should check the session budget', async () => {
+    const { client } = createClient({
+      '/api/v1/ai/sessions/sess_1': {
+        id: 'sess_1',
+        is_active: true,
+        expires_at: '2030-01-01T00:00:00Z',
+        limits: { max_per_transaction: 100, require_approval_above: 50 },
+        remaining_today: 120,
+        remaining_this_week: 900,
+        remaining_this_month: 2500,
+      },
+    });
+    const toolkit = new ZendFiToolkit(client, { session });
+
+    const result = await toolkit.execute('check_session_budget', {});
+
+    expect(result).toMatchObject({
+      ok: true,
+      result: { remaining_today: 120, require_approval_above: 50 },
+    });
+  });
+
+  it('should return validation failures to the model instead of throwing', async () => {
+    const { client, request } = createClient({});
+    const toolkit = new ZendFiToolkit(client, { session });
+
+    const block = await toolkit.handleAnthropicToolUse({
+      id: 'toolu_1',
+      name: 'create_payment_intent',
+      input: { amount: 'fifty' },
+    });
+
+    expect(block).toMatchObject({ type: 'tool_result', tool_use_id: 'toolu_1', is_error: true });
+    expect(JSON.parse(block.content).error).toMatchObject({
+      code: 'invalid_arguments',
+      message: 'amount: expected number',
+    });
+    await expect(toolkit.execute('create_payment_intent', { amount: -5 })).resolves.toMatchObject({
+      ok: false,
+      error: { code: 'invalid_amount' },
+    });
+    await expect(toolkit.execute('transfer_everything', {})).resolves.toMatchObject({
+      ok: false,
+      error: { code: 'unknown_tool' },
+    });
+    await expect(toolkit.execute('get_ppp_price', '{oops')).resolves.toMatchObject({
+      ok: false,
+      error: { code: 'invalid_arguments' },
+    });
+    expect(request).not.toHaveBeenCalled();
+  });
+
+  it('should keep the client secret out of intent results', async () => {
+    const { client, request } = createClient({
+      '/api/v1/payment-intents': {
+        id: 'pi_1',
+        client_secret: 'pi_1_secret',
+        amount: 49.99,
+        currency: 'USD',
+        status: 'requires_payment',
+      },
+    });
+    const toolkit = new ZendFiToolkit(client, { session });
+
+    const result = await toolkit.execute('create_payment_intent', {
+      amount: 49.99,
+      agent_id: 'someone-else',
+    });
+
+    expect(result).toMatchObject({ ok: true, result: { id: 'pi_1', status: 'requires_payment' } });
+    expect(JSON.stringify(result)).not.toContain('pi_1_secret');
+    expect(request.mock.calls[0]![0].headers.Authorization).toBe('Bearer zai_session_abc');
+    expect(JSON.parse(request.mock.calls[0]![0].body!)).toMatchObject({
+      amount: 49.99,
+      agent_id: 'shopping-assistant',
+    });
+  });
+
+  it('should route smart payments through approvals when configured', async () => {
+    const { client } = createClient({});
+    const requestPayment = vi.fn(async () => ({
+      status: 'pending_approval' as const,
+      approval: {
+        id: 'appr_1',
+        expires_at: '2030-01-01T00:00:00Z',
+        reasons: [{ code: 'approval_required' as const, message: 'Needs approval' }],
+      } as any,
+    }));
+    const toolkit = new ZendFiToolkit(client, { session, approvals: { requestPayment } });
+
+    const result = await toolkit.execute('execute_smart_payment', { amount_usd: 75 });
+
+    expect(requestPayment).toHaveBeenCalledWith(
+      'sess_1',
+      expect.objectContaining({ amount_usd: 75 }),
+      { headers: { Authorization: 'Bearer zai_session_abc' } }
+    );
+    expect(result).toMatchObject({
+      ok: true,
+      result: { status: 'pending_approval', approval_id: 'appr_1', reasons: ['Needs approval'] },
+    });
+  });
+
+  it('should authenticate approved payments as the session', async () => {
+    const { client, request } = createClient({
+      '/api/v1/ai/smart-payment': { payment_id: 'pay_2', status: 'confirmed', amount_usd: 75 },
+    });
+    const approvals = new ApprovalManager({
+      smart: client.smart,
+      policy: {
+        evaluate: async () => ({
+          decision: 'needs_approval',
+          reasons: [{ code: 'approval_required', message: 'Needs approval' }],
+        }),
+        recordSpend: vi.fn(),
+      } as any,
+    });
+    const toolkit = new ZendFiToolkit(client, { session, approvals });
+
+    const result = await toolkit.execute('execute_smart_payment', { amount_usd: 75 });
+    expect(request).not.toHaveBeenCalled();
+
+    const { approval_id } = (result as { result: { approval_id: string } }).result;
+    await approvals.approve(approval_id);
+
+    expect(request).toHaveBeenCalledOnce();
+    expect(request.mock.calls[0]![0].headers.Authorization).toBe('Bearer zai_session_abc');
+  });
+});
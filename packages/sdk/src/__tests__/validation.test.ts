@@ -0,0 +1,89 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ZendFiClient, ResponseValidationError, s } from '../index';
+import { PaymentSchema, findResponseRoute } from '../schemas';
+
+const validPayment = {
+  id: 'pay_123',
+  merchant_id: 'mer_1',
+  amount: 50,
+  status: 'pending',
+  expires_at: '2025-11-08T20:00:00Z',
+  customer_email: null,
+  brand_new_field: 'ignored',
+};
+
+function createClient(body: unknown, validation: 'strict' | 'warn' | 'off', logger?: any) {
+  return new ZendFiClient({
+    apiKey: 'zfi_test_abc123',
+    validation,
+    logger,
+    transport: {
+      request: async () => ({
+        status: 200,
+        statusText: 'OK',
+        headers: { 'x-request-id': 'req_v' },
+        body: JSON.stringify(body),
+      }),
+    },
+  });
+}
+
+describe('Response Validation', () => {
+  it('should report paths, expectations and received values', () => {
+    const schema = s.object({
+      items: s.array(s.object({ amount: s.string() })),
+      status: s.enum(['a', 'b']),
+      note: s.string().optional(),
+    });
+
+    expect(schema.validate({ items: [{ amount: 5 }], status: 'c', note: null })).toEqual([
+      { path: 'items[0].amount', expected: 'string', received: 'number 5' },
+      { path: 'status', expected: 'one of "a" | "b"', received: '"c"' },
+    ]);
+  });
+
+  it('should accept unknown keys and null optional fields', () => {
+    expect(PaymentSchema.safeParse(validPayment).success).toBe(true);
+  });
+
+  it('should resolve endpoint patterns', () => {
+    expect(findResponseRoute('GET', '/api/v1/payments/pay_1')?.pattern).toBe('/api/v1/payments/:id');
+    expect(findResponseRoute('GET', '/api/v1/payments?page=2')?.pattern).toBe('/api/v1/payments');
+    expect(findResponseRoute('DELETE', '/api/v1/payments/pay_1')).toBeUndefined();
+  });
+
+  it('should throw a ResponseValidationError naming the field and endpoint in strict mode', async () => {
+    const client = createClient({ ...validPayment, status: 'Pending' }, 'strict');
+
+    const error = await client.getPayment('pay_123').catch((e) => e);
+
+    expect(error).toBeInstanceOf(ResponseValidationError);
+    expect(error.endpoint).toBe('/api/v1/payments/:id');
+    expect(error.requestId).toBe('req_v');
+    expect(error.issues[0]).toMatchObject({ path: 'status', received: '"Pending"' });
+    expect(error.message).toContain('GET /api/v1/payments/:id');
+    expect(error.message).toContain('status');
+  });
+
+  it('should log and return the data in warn mode', async () => {
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const client = createClient({ ...validPayment, expires_at: undefined }, 'warn', logger);
+
+    const payment = await client.getPayment('pay_123');
+
+    expect(payment.id).toBe('pay_123');
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.objectContaining({
+        endpoint: '/api/v1/payments/:id',
+        issues: [expect.objectContaining({ path: 'expires_at' })],
+      }),
+      'Response failed schema validation'
+    );
+  });
+
+  it('should allow a per-call override', async () => {
+    const client = createClient({ id: 1 }, 'strict');
+
+    await expect(client.getPayment('pay_123', { validation: 'off' })).resolves.toEqual({ id: 1 });
+  });
+});
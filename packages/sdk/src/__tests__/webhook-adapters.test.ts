@@ -0,0 +1,164 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Readable } from 'stream';
+import { generateWebhookSignatureHeader, handleWebhookRequest } from '../index';
+import { createWebhookHandler as createExpressHandler } from '../frameworks/express';
+import { createFastifyWebhookHandler, zendfiWebhookPlugin } from '../frameworks/fastify';
+import { createHonoWebhookHandler } from '../frameworks/hono';
+import { createKoaWebhookHandler } from '../frameworks/koa';
+import { createNestWebhookHandler } from '../frameworks/nestjs';
+import { createPagesWebhookHandler } from '../frameworks/nextjs';
+import { createWebWebhookHandler } from '../frameworks/web';
+
+const secret = 'whsec_test';
+const body = JSON.stringify({
+  id: 'evt_1',
+  event: 'payment.confirmed',
+  timestamp: '2025-10-29T12:00:00Z',
+  merchant_id: 'merchant_123',
+  data: { id: 'pay_1' },
+});
+
+function signedHeaders(): Record<string, string> {
+  return { 'x-zendfi-signature': generateWebhookSignatureHeader(body, secret) };
+}
+
+describe('handleWebhookRequest', () => {
+  it('should run handlers for a verified delivery', async () => {
+    const handler = vi.fn();
+    const result = await handleWebhookRequest(
+      { body: Buffer.from(body), headers: new Headers(signedHeaders()) },
+      { secret, handlers: { 'payment.confirmed': handler } }
+    );
+
+    expect(result).toEqual({
+      status: 200,
+      body: { received: true, processed: true, event: 'payment.confirmed', secretIndex: 0 },
+      secretIndex: 0,
+    });
+    expect(handler).toHaveBeenCalledWith({ id: 'pay_1' }, expect.anything());
+  });
+
+  it('should map each failure to a status code', async () => {
+    const handlers = { 'payment.confirmed': vi.fn().mockRejectedValue(new Error('db down')) };
+    const onError = vi.fn();
+
+    const missing = await handleWebhookRequest({ body, headers: {} }, { secret, handlers });
+    const forged = await handleWebhookRequest(
+      { body, headers: { 'x-webhook-signature': 't=1,v1=00' } },
+      { secret, handlers }
+    );
+    const noBody = await handleWebhookRequest(
+      { body: undefined, headers: signedHeaders() },
+      { secret, handlers }
+    );
+    const failed = await handleWebhookRequest(
+      { body, headers: signedHeaders() },
+      { secret, handlers, onError }
+    );
+
+    expect(missing.status).toBe(401);
+    expect(forged).toMatchObject({ status: 401, body: { code: 'webhook_signature_invalid' } });
+    expect(noBody.status).toBe(400);
+    expect(failed).toEqual({
+      status: 500,
+      body: { error: 'db down', secretIndex: 0 },
+      secretIndex: 0,
+    });
+    expect(onError).toHaveBeenCalledOnce();
+  });
+
+  it('should report which secret verified the delivery', async () => {
+    const result = await handleWebhookRequest(
+      { body, headers: signedHeaders() },
+      { secret: ['whsec_next', secret], handlers: {} }
+    );
+
+    expect(result).toMatchObject({ status: 200, body: { secretIndex: 1 }, secretIndex: 1 });
+  });
+});
+
+describe('Framework adapters', () => {
+  const handlers = { 'payment.confirmed': vi.fn() };
+
+  it('should respond through the Express response', async () => {
+    const json = vi.fn();
+    const res = { status: vi.fn(() => ({ json })) };
+
+    await createExpressHandler({ secret, handlers })(
+      { body: Buffer.from(body), headers: signedHeaders() },
+      res
+    );
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(json).toHaveBeenCalledWith(expect.objectContaining({ received: true }));
+  });
+
+  it('should prefer the Fastify raw body and register a scoped parser', async () => {
+    const send = vi.fn();
+    const reply = { code: vi.fn(() => ({ send })) };
+    const handler = createFastifyWebhookHandler({ secret, handlers });
+
+    await handler({ rawBody: body, body: { parsed: true }, headers: signedHeaders() }, reply);
+    expect(reply.code).toHaveBeenCalledWith(200);
+
+    const fastify = { addContentTypeParser: vi.fn(), post: vi.fn() };
+    await zendfiWebhookPlugin({ secret, handlers, path: '/zendfi' })(fastify);
+    expect(fastify.addContentTypeParser).toHaveBeenCalledWith(
+      'application/json',
+      { parseAs: 'buffer' },
+      expect.any(Function)
+    );
+    expect(fastify.post).toHaveBeenCalledWith('/zendfi', expect.any(Function));
+  });
+
+  it('should handle Fetch requests in the Web and Hono adapters', async () => {
+    const request = () =>
+      new Request('https://example.com/webhooks', {
+        method: 'POST',
+        body,
+        headers: signedHeaders(),
+      });
+
+    const web = await createWebWebhookHandler({ secret, handlers })(request());
+    const hono = await createHonoWebhookHandler({ secret, handlers })({
+      req: { raw: request() },
+    });
+
+    expect(web.status).toBe(200);
+    expect(hono.status).toBe(200);
+    expect(await hono.json()).toMatchObject({ received: true, processed: true });
+  });
+
+  it('should read the Koa request stream when no raw body was captured', async () => {
+    const ctx = {
+      req: Readable.from([Buffer.from(body)]),
+      request: { headers: signedHeaders() },
+      status: 404,
+      body: undefined as unknown,
+    };
+
+    await createKoaWebhookHandler({ secret, handlers })(ctx);
+
+    expect(ctx.status).toBe(200);
+    expect(ctx.body).toMatchObject({ received: true });
+  });
+
+  it('should read the Next.js Pages request stream', async () => {
+    const json = vi.fn();
+    const res = { status: vi.fn(() => ({ json })) };
+    const req = Object.assign(Readable.from([body]), { method: 'POST', headers: signedHeaders() });
+
+    await createPagesWebhookHandler({ secret, handlers })(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(200);
+  });
+
+  it('should return the status and body for NestJS controllers', async () => {
+    const result = await createNestWebhookHandler({ secret, handlers })({
+      rawBody: Buffer.from(body),
+      headers: signedHeaders(),
+    });
+
+    expect(result.status).toBe(200);
+  });
+});
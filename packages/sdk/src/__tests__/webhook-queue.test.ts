@@ -0,0 +1,392 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  MemoryDeadLetterStore,
+  MemoryWebhookQueue,
+  RedisWebhookQueue,
+  SqlDeadLetterStore,
+  SqlWebhookQueue,
+  WebhookWorker,
+  createQueuedWebhook,
+  generateWebhookSignatureHeader,
+  type RedisScriptLike,
+} from '../index';
+import { REDIS_QUEUE_SCRIPTS } from '../webhook-queue/redis';
+import { createWebhookHandler } from '../frameworks/nextjs';
+import type { WebhookPayload } from '../types';
+
+function payment(id: string, eventId = `evt_${id}`): WebhookPayload {
+  return {
+    id: eventId,
+    event: 'payment.confirmed',
+    timestamp: '2025-10-29T12:00:00Z',
+    merchant_id: 'merchant_123',
+    data: { id } as any,
+  } as WebhookPayload;
+}
+
+/**
+ * Runs `REDIS_QUEUE_SCRIPTS` the way Redis would, on in-memory structures
+ */
+class FakeRedisQueue implements RedisScriptLike {
+  readonly schedule = new Map<string, number>();
+  readonly jobs = new Map<string, string>();
+  readonly leases = new Map<string, string>();
+
+  eval = vi.fn(async (script: string, _numKeys: number, ...args: Array<string | number>) => {
+    const argv = args.slice(3).map(String);
+    switch (script) {
+      case REDIS_QUEUE_SCRIPTS.enqueue: {
+        const [id, availableAt, json] = argv as [string, string, string];
+        if (!this.jobs.has(id)) {
+          this.jobs.set(id, json);
+          this.schedule.set(id, Number(availableAt));
+        }
+        return 1;
+      }
+      case REDIS_QUEUE_SCRIPTS.dequeue: {
+        const [now, leaseEnd, lease] = argv as [string, string, string];
+        const due = [...this.schedule]
+          .filter(([, score]) => score <= Number(now))
+          .sort((a, b) => a[1] - b[1]);
+        const id = due[0]?.[0];
+        if (id === undefined) return null;
+        this.schedule.set(id, Number(leaseEnd));
+        this.leases.set(id, lease);
+        return this.jobs.get(id) ?? null;
+      }
+      case REDIS_QUEUE_SCRIPTS.ack: {
+        const [id, lease] = argv as [string, string];
+        if (this.leases.get(id) !== lease) return 0;
+        this.schedule.delete(id);
+        this.jobs.delete(id);
+        this.leases.delete(id);
+        return 1;
+      }
+      case REDIS_QUEUE_SCRIPTS.reschedule: {
+        const [id, lease, availableAt, json] = argv as [string, string, string, string];
+        if (this.leases.get(id) !== lease) return 0;
+        this.jobs.set(id, json);
+        this.schedule.set(id, Number(availableAt));
+        this.leases.delete(id);
+        return 1;
+      }
+      default:
+        throw new Error('Unknown script');
+    }
+  });
+}
+
+describe('Webhook Queue', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should only hand out jobs whose retry delay has passed', async () => {
+    vi.useFakeTimers();
+    const queue = new MemoryWebhookQueue();
+
+    await queue.enqueue({ ...createQueuedWebhook(payment('a')), availableAt: Date.now() + 5000 });
+    await queue.enqueue(createQueuedWebhook(payment('b')));
+
+    const b = await queue.dequeue(60_000);
+    expect(b?.id).toBe('evt_b');
+    expect(await queue.dequeue(60_000)).toBeUndefined();
+    expect(await queue.ack(b!)).toBe(true);
+
+    vi.advanceTimersByTime(5000);
+    const a = await queue.dequeue(60_000);
+    expect(a?.id).toBe('evt_a');
+    await queue.ack(a!);
+    expect(queue.size).toBe(0);
+  });
+
+  it('should hand a job out again once its lease expires', async () => {
+    vi.useFakeTimers();
+    const queue = new MemoryWebhookQueue();
+    await queue.enqueue(createQueuedWebhook(payment('a')));
+
+    const first = await queue.dequeue(1000);
+    expect(await queue.dequeue(1000)).toBeUndefined();
+
+    vi.advanceTimersByTime(1000);
+    const second = await queue.dequeue(1000);
+    expect(second?.id).toBe('evt_a');
+    expect(second?.lease).not.toBe(first?.lease);
+
+    // The first worker's lease has passed on, so it can no longer settle the job
+    expect(await queue.ack(first!)).toBe(false);
+    expect(await queue.reschedule(first!, { attempts: 1, availableAt: 0 })).toBe(false);
+    expect(await queue.ack(second!)).toBe(true);
+    expect(queue.size).toBe(0);
+  });
+
+  it('should lease, reschedule and acknowledge jobs with redis scripts', async () => {
+    vi.useFakeTimers();
+    const redis = new FakeRedisQueue();
+    const queue = new RedisWebhookQueue(redis);
+
+    await queue.enqueue({ ...createQueuedWebhook(payment('a')), availableAt: Date.now() + 5000 });
+    await queue.enqueue(createQueuedWebhook(payment('b')));
+    await queue.enqueue(createQueuedWebhook(payment('b')));
+    expect(redis.jobs.size).toBe(2);
+
+    const b = await queue.dequeue(1000);
+    expect(b?.payload).toEqual(payment('b'));
+    expect(await queue.dequeue(1000)).toBeUndefined();
+
+    expect(await queue.reschedule(b!, { attempts: 1, availableAt: Date.now(), lastError: 'x' })).toBe(
+      true
+    );
+    const retry = await queue.dequeue(1000);
+    expect(retry).toMatchObject({ id: 'evt_b', attempts: 1, lastError: 'x' });
+
+    vi.advanceTimersByTime(1000);
+    const again = await queue.dequeue(1000);
+    expect(again?.id).toBe('evt_b');
+    expect(await queue.ack(retry!)).toBe(false);
+    expect(await queue.ack(again!)).toBe(true);
+    expect(redis.jobs.has('evt_b')).toBe(false);
+    expect(redis.eval.mock.calls[0]?.slice(1, 5)).toEqual([
+      3,
+      'zendfi:webhook-queue',
+      'zendfi:webhook-queue:jobs',
+      'zendfi:webhook-queue:leases',
+    ]);
+  });
+
+  it('should lease jobs with UPDATE ... RETURNING in SQL', async () => {
+    const calls: Array<{ sql: string; params: unknown[] }> = [];
+    const query = async (sql: string, params: unknown[]) => {
+      calls.push({ sql, params });
+      if (!sql.includes('RETURNING')) return [];
+      return {
+        rows: [
+          {
+            id: 'evt_a',
+            payload: JSON.stringify(payment('a')),
+            attempts: '2',
+            enqueued_at: '1000',
+            available_at: '2000',
+            last_error: 'boom',
+          },
+        ],
+      };
+    };
+
+    const queue = new SqlWebhookQueue({ query });
+    await queue.enqueue(createQueuedWebhook(payment('a')));
+    const job = await queue.dequeue(30_000);
+    await queue.reschedule(job!, { attempts: 3, availableAt: 5000, lastError: 'again' });
+    await queue.ack(job!);
+
+    const sqlite = new SqlDeadLetterStore({ query, dialect: 'sqlite' });
+    await sqlite.remove('evt_a');
+
+    expect(calls[0]?.sql).toContain('ON CONFLICT (id) DO NOTHING');
+    expect(calls[1]?.sql).toMatch(/^UPDATE .* SET available_at = \$1, lease_token = \$2/);
+    expect(calls[1]?.sql).toContain('FOR UPDATE SKIP LOCKED');
+    expect(calls[1]?.params[1]).toBe(job?.lease);
+    expect(calls[2]?.sql).toContain('WHERE id = $4 AND lease_token = $5');
+    expect(calls[2]?.params).toEqual([3, 5000, 'again', 'evt_a', job?.lease]);
+    expect(calls[3]?.sql).toMatch(/^DELETE .* WHERE id = \$1 AND lease_token = \$2/);
+    expect(calls[4]?.sql).toContain('WHERE id = ?');
+    expect(job).toEqual({
+      id: 'evt_a',
+      payload: payment('a'),
+      attempts: 2,
+      enqueuedAt: 1000,
+      availableAt: 2000,
+      lastError: 'boom',
+      lease: expect.any(String),
+    });
+    expect(() => new SqlWebhookQueue({ query, table: 'x; DROP TABLE y' })).toThrow();
+  });
+});
+
+describe('Webhook Worker', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should run handlers and skip events it already processed', async () => {
+    const queue = new MemoryWebhookQueue();
+    const handler = vi.fn();
+    const worker = new WebhookWorker({ queue, handlers: { 'payment.confirmed': handler } });
+
+    await queue.enqueue(createQueuedWebhook(payment('a')));
+    expect(await worker.processNext()).toBe('processed');
+
+    await queue.enqueue(createQueuedWebhook(payment('a')));
+    expect(await worker.processNext()).toBe('duplicate');
+    expect(await worker.processNext()).toBeUndefined();
+    expect(handler).toHaveBeenCalledOnce();
+  });
+
+  it('should retry with backoff and dead-letter after the last attempt', async () => {
+    const queue = new MemoryWebhookQueue();
+    const deadLetters = new MemoryDeadLetterStore();
+    const onError = vi.fn();
+    const onDeadLetter = vi.fn();
+    const handler = vi.fn().mockRejectedValue(new Error('database down'));
+    const worker = new WebhookWorker({
+      queue,
+      deadLetters,
+      handlers: { 'payment.confirmed': handler },
+      retry: { maxAttempts: 3, baseDelayMs: 0 },
+      onError,
+      onDeadLetter,
+    });
+
+    await queue.enqueue(createQueuedWebhook(payment('a')));
+
+    expect(await worker.processNext()).toBe('retrying');
+    expect(await worker.processNext()).toBe('retrying');
+    expect(await worker.processNext()).toBe('dead_lettered');
+    expect(queue.size).toBe(0);
+    expect(onError).toHaveBeenCalledTimes(3);
+    expect(onDeadLetter).toHaveBeenCalledOnce();
+
+    const [letter] = await deadLetters.list();
+    expect(letter).toMatchObject({ id: 'evt_a', attempts: 3, error: 'database down' });
+  });
+
+  it('should delay retries according to the policy', async () => {
+    vi.useFakeTimers();
+    const queue = new MemoryWebhookQueue();
+    const worker = new WebhookWorker({
+      queue,
+      handlers: { 'payment.confirmed': vi.fn().mockRejectedValue(new Error('down')) },
+      retry: { baseDelayMs: 1000, jitter: 'none' },
+    });
+
+    await queue.enqueue(createQueuedWebhook(payment('a')));
+    await worker.processNext();
+    expect(await worker.processNext()).toBeUndefined();
+
+    vi.advanceTimersByTime(1000);
+    await worker.processNext();
+    vi.advanceTimersByTime(1999);
+    expect(await worker.processNext()).toBeUndefined();
+    vi.advanceTimersByTime(1);
+    expect(await worker.processNext()).toBe('retrying');
+  });
+
+  it('should replay dead letters with a fresh set of attempts', async () => {
+    const queue = new MemoryWebhookQueue();
+    const handler = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('down'))
+      .mockResolvedValueOnce(undefined);
+    const worker = new WebhookWorker({
+      queue,
+      handlers: { 'payment.confirmed': handler },
+      retry: { maxAttempts: 1 },
+    });
+
+    await queue.enqueue(createQueuedWebhook(payment('a')));
+    await worker.drain();
+    expect(await worker.deadLetters.list()).toHaveLength(1);
+
+    expect(await worker.replayAll()).toBe(1);
+    expect(await worker.replay('evt_a')).toBe(false);
+    expect(await worker.processNext()).toBe('processed');
+    expect(await worker.deadLetters.list()).toHaveLength(0);
+  });
+
+  it('should keep a job queued when the worker dies mid-handler', async () => {
+    vi.useFakeTimers();
+    const queue = new MemoryWebhookQueue();
+    const handled = vi.fn();
+    // Separate workers with their own stores stand in for separate processes
+    const crashed = new WebhookWorker({
+      queue,
+      handlers: { 'payment.confirmed': () => new Promise<void>(() => {}) },
+      leaseSeconds: 30,
+    });
+    const survivor = new WebhookWorker({
+      queue,
+      handlers: { 'payment.confirmed': handled },
+      leaseSeconds: 30,
+    });
+
+    await queue.enqueue(createQueuedWebhook(payment('a')));
+    void crashed.processNext();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(await survivor.processNext()).toBeUndefined();
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(await survivor.processNext()).toBe('processed');
+    expect(handled).toHaveBeenCalledOnce();
+    expect(queue.size).toBe(0);
+  });
+
+  it('should keep a failed job queued when recording the failure throws', async () => {
+    vi.useFakeTimers();
+    const queue = new MemoryWebhookQueue();
+    const deadLetters = new MemoryDeadLetterStore();
+    vi.spyOn(deadLetters, 'add').mockRejectedValueOnce(new Error('database down'));
+    const handler = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('boom'))
+      .mockResolvedValueOnce(undefined);
+    const worker = new WebhookWorker({
+      queue,
+      deadLetters,
+      handlers: { 'payment.confirmed': handler },
+      retry: { maxAttempts: 1 },
+      leaseSeconds: 30,
+    });
+
+    await queue.enqueue(createQueuedWebhook(payment('a')));
+    await expect(worker.processNext()).rejects.toThrow('database down');
+    expect(queue.size).toBe(1);
+
+    vi.advanceTimersByTime(30_000);
+    expect(await worker.processNext()).toBe('processed');
+    expect(queue.size).toBe(0);
+  });
+
+  it('should poll in the background until stopped', async () => {
+    const queue = new MemoryWebhookQueue();
+    let markHandled!: () => void;
+    const handled = new Promise<void>((resolve) => (markHandled = resolve));
+    const worker = new WebhookWorker({
+      queue,
+      handlers: { 'payment.confirmed': () => markHandled() },
+      pollIntervalMs: 5,
+    });
+
+    worker.start();
+    await queue.enqueue(createQueuedWebhook(payment('a')));
+    await handled;
+    await worker.stop();
+
+    expect(worker.isRunning).toBe(false);
+  });
+});
+
+describe('Queued framework adapters', () => {
+  it('should verify, enqueue and acknowledge with 202', async () => {
+    const queue = new MemoryWebhookQueue();
+    const POST = createWebhookHandler({ secret: 'whsec_test', queue });
+    const body = JSON.stringify(payment('a'));
+
+    const response = await POST({
+      text: async () => body,
+      headers: new Headers({
+        'x-zendfi-signature': generateWebhookSignatureHeader(body, 'whsec_test'),
+      }),
+    });
+
+    expect(response.status).toBe(202);
+    expect(await response.json()).toMatchObject({ received: true, queued: true });
+    expect((await queue.dequeue(1000))?.id).toBe('evt_a');
+
+    const forged = await POST({
+      text: async () => body,
+      headers: new Headers({ 'x-zendfi-signature': 't=1,v1=00' }),
+    });
+    expect(forged.status).toBe(401);
+    expect(queue.size).toBe(1);
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi } from 'vitest';
+import { WebhookRouter, processWebhook, matchesPattern } from '../index';
+import type { WebhookPayload } from '../types';
+
+function payload(event: WebhookPayload['event'], id = 'res_1'): WebhookPayload {
+  return {
+    event,
+    timestamp: '2025-10-29T12:00:00Z',
+    merchant_id: 'merchant_123',
+    data: { id } as any,
+  } as WebhookPayload;
+}
+
+describe('WebhookRouter', () => {
+  it('should match exact, namespace and catch-all patterns', () => {
+    expect(matchesPattern('escrow.funded', 'escrow.funded')).toBe(true);
+    expect(matchesPattern('escrow.*', 'escrow.disputed')).toBe(true);
+    expect(matchesPattern('escrow.*', 'payment.confirmed')).toBe(false);
+    expect(matchesPattern('*', 'invoice.paid')).toBe(true);
+  });
+
+  it('should run handlers by priority, then registration order', async () => {
+    const calls: string[] = [];
+    const router = new WebhookRouter()
+      .on('*', () => void calls.push('all'))
+      .on('escrow.*', () => void calls.push('escrow'))
+      .on('escrow.funded', () => void calls.push('funded'), { priority: 10 })
+      .on('payment.confirmed', () => void calls.push('payment'));
+
+    const result = await router.dispatch(payload('escrow.funded'));
+
+    expect(calls).toEqual(['funded', 'all', 'escrow']);
+    expect(result.handled).toBe(3);
+    expect(router.handles('invoice.paid')).toBe(true);
+    expect(new WebhookRouter().on('escrow.*', () => {}).handles('invoice.paid')).toBe(false);
+  });
+
+  it('should wrap handlers in middleware and share state', async () => {
+    const calls: string[] = [];
+    const router = new WebhookRouter()
+      .use(async (ctx, next) => {
+        calls.push('outer:before');
+        ctx.state.tenant = `tenant-${ctx.payload.merchant_id}`;
+        await next();
+        calls.push('outer:after');
+      })
+      .use(async (_ctx, next) => {
+        calls.push('inner');
+        await next();
+      })
+      .on('payment.confirmed', (_payment, ctx) => void calls.push(`handler:${ctx.state.tenant}`));
+
+    await router.dispatch(payload('payment.confirmed'));
+
+    expect(calls).toEqual([
+      'outer:before',
+      'inner',
+      'handler:tenant-merchant_123',
+      'outer:after',
+    ]);
+  });
+
+  it('should let middleware skip handlers by not calling next', async () => {
+    const handler = vi.fn();
+    const router = new WebhookRouter().use(() => {}).on('payment.confirmed', handler);
+
+    const result = await router.dispatch(payload('payment.confirmed'));
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(result.handled).toBe(0);
+  });
+
+  it('should apply each handler error policy', async () => {
+    const reported = vi.fn();
+    const last = vi.fn();
+    const router = new WebhookRouter()
+      .on(
+        'payment.confirmed',
+        () => {
+          throw new Error('email down');
+        },
+        { onError: 'continue', name: 'receipt' }
+      )
+      .on(
+        'payment.confirmed',
+        () => {
+          throw new Error('crm down');
+        },
+        { onError: reported }
+      )
+      .on('payment.confirmed', last);
+
+    const result = await router.dispatch(payload('payment.confirmed'));
+
+    expect(last).toHaveBeenCalledOnce();
+    expect(reported).toHaveBeenCalledWith(
+      expect.objectContaining({ message: 'crm down' }),
+      expect.anything()
+    );
+    expect(result.errors.map((e) => e.name ?? e.error.message)).toEqual(['receipt', 'crm down']);
+
+    const failing = new WebhookRouter()
+      .on('payment.confirmed', () => {
+        throw new Error('fatal');
+      })
+      .on('payment.confirmed', last);
+    await expect(failing.dispatch(payload('payment.confirmed'))).rejects.toThrow('fatal');
+    expect(last).toHaveBeenCalledOnce();
+  });
+
+  it('should mount in processWebhook in place of a handler map', async () => {
+    const handler = vi.fn();
+    const router = new WebhookRouter().on('escrow.*', handler);
+
+    const handled = await processWebhook(payload('escrow.released'), router, { secret: 's' });
+    const ignored = await processWebhook(payload('invoice.paid'), router, { secret: 's' });
+
+    expect(handled).toMatchObject({ success: true, processed: true });
+    expect(ignored).toMatchObject({ success: true, processed: false });
+    expect(handler).toHaveBeenCalledWith(
+      { id: 'res_1' },
+      expect.objectContaining({ event: 'escrow.released' })
+    );
+
+    const failing = new WebhookRouter().on('payment.*', () => {
+      throw new Error('boom');
+    });
+    const failed = await processWebhook(payload('payment.failed'), failing, { secret: 's' });
+    expect(failed).toMatchObject({ success: false, statusCode: 500, error: 'boom' });
+  });
+});
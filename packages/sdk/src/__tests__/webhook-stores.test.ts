@@ -0,0 +1,325 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileWebhookStore } from '../node';
+import {
+  MemoryWebhookStore,
+  RedisWebhookStore,
+  SqlWebhookStore,
+  getWebhookEventId,
+  processWebhook,
+  type RedisLike,
+} from '../index';
+import { REDIS_STORE_SCRIPTS } from '../webhook-stores/redis';
+import type { WebhookPayload } from '../types';
+
+function payment(id: string, eventId?: string): WebhookPayload {
+  return {
+    ...(eventId && { id: eventId }),
+    event: 'payment.confirmed',
+    timestamp: '2025-10-29T12:00:00Z',
+    merchant_id: 'merchant_123',
+    data: { id } as any,
+  } as WebhookPayload;
+}
+
+describe('Webhook Idempotency Stores', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should expire and evict entries in the memory store', async () => {
+    vi.useFakeTimers();
+    const store = new MemoryWebhookStore({ maxEntries: 2 });
+
+    await store.set('a', 10);
+    await store.set('b', 10);
+    await store.set('c', 10);
+    expect(await store.has('a')).toBe(false);
+    expect(await store.has('c')).toBe(true);
+
+    vi.advanceTimersByTime(11_000);
+    expect(await store.has('c')).toBe(false);
+  });
+
+  it('should persist entries across file store instances', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'zendfi-store-'));
+    const path = join(dir, 'nested', 'webhooks.json');
+
+    try {
+      const first = new FileWebhookStore({ path });
+      await Promise.all([first.set('evt_1', 60), first.set('evt_2', 60)]);
+      await first.delete('evt_2');
+
+      const second = new FileWebhookStore({ path });
+      expect(await second.has('evt_1')).toBe(true);
+      expect(await second.has('evt_2')).toBe(false);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should keep the file store out of the main entry', async () => {
+    const main = await import('../index');
+    expect(main).not.toHaveProperty('FileWebhookStore');
+  });
+
+  it('should use prefixed keys with an expiry in the redis store', async () => {
+    const keys = new Map<string, number>();
+    const redis: RedisLike = {
+      exists: async (key) => (keys.has(key) ? 1 : 0),
+      get: async () => null,
+      set: async (key, _value, _mode, seconds) => keys.set(key, seconds),
+      del: async (key) => (keys.delete(key) ? 1 : 0),
+      eval: async () => 0,
+    };
+    const store = new RedisWebhookStore(redis, { prefix: 'test:' });
+
+    await store.set('evt_1', 90.5);
+    expect(keys.get('test:evt_1')).toBe(91);
+    expect(await store.has('evt_1')).toBe(true);
+
+    await store.delete('evt_1');
+    expect(await store.has('evt_1')).toBe(false);
+  });
+
+  it('should issue dialect-specific SQL', async () => {
+    const calls: Array<{ sql: string; params: unknown[] }> = [];
+    const query = async (sql: string, params: unknown[]) => {
+      calls.push({ sql, params });
+      return sql.startsWith('SELECT') ? { rows: [{ event_id: 'evt_1' }] } : [];
+    };
+
+    const postgres = new SqlWebhookStore({ query });
+    await postgres.set('evt_1', 60);
+    expect(await postgres.has('evt_1')).toBe(true);
+
+    const mysql = new SqlWebhookStore({ query, dialect: 'mysql', table: 'webhooks' });
+    await mysql.set('evt_1', 60);
+
+    expect(calls[0]?.sql).toContain('VALUES ($1, $2, $3) ON CONFLICT (event_id)');
+    expect(calls[0]?.params).toEqual(['evt_1', 'processed', expect.any(Number)]);
+    expect(calls[1]?.sql).toContain('WHERE event_id = $1 AND expires_at > $2');
+    expect(calls[2]?.sql).toContain('INSERT INTO webhooks');
+    expect(calls[2]?.sql).toContain('VALUES (?, ?, ?) ON DUPLICATE KEY UPDATE');
+    expect(() => new SqlWebhookStore({ query, table: 'x; DROP TABLE y' })).toThrow();
+  });
+
+  it('should key deduplication on the event ID, falling back to the resource ID', () => {
+    expect(getWebhookEventId(payment('pay_1', 'evt_9'))).toBe('evt_9');
+    expect(getWebhookEventId(payment('pay_1'))).not.toBe(getWebhookEventId(payment('pay_2')));
+  });
+
+  it('should skip redeliveries via the configured store', async () => {
+    const store = new MemoryWebhookStore();
+    const handler = vi.fn();
+    const handlers = { 'payment.confirmed': handler };
+
+    await processWebhook(payment('pay_1'), handlers, { secret: 's', store });
+    await processWebhook(payment('pay_2'), handlers, { secret: 's', store });
+    const duplicate = await processWebhook(payment('pay_1'), handlers, { secret: 's', store });
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(duplicate).toMatchObject({ processed: false, error: 'Duplicate webhook' });
+  });
+});
+
+describe('Webhook Claim and Commit', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should let exactly one worker claim an event until its lease expires', async () => {
+    vi.useFakeTimers();
+    const store = new MemoryWebhookStore();
+
+    expect(await store.claim('evt_1', 30)).toMatchObject({ status: 'claimed' });
+    expect(await store.claim('evt_1', 30)).toEqual({ status: 'in_progress' });
+
+    vi.advanceTimersByTime(31_000);
+    const claim = await store.claim('evt_1', 30);
+    expect(claim).toEqual({ status: 'claimed', token: expect.any(String) });
+
+    await store.set('evt_1', 60, claim.status === 'claimed' ? claim.token : undefined);
+    expect(await store.claim('evt_1', 30)).toEqual({ status: 'processed' });
+  });
+
+  it('should ignore commits and releases from a claim whose lease passed on', async () => {
+    vi.useFakeTimers();
+    const store = new MemoryWebhookStore();
+
+    const stale = await store.claim('evt_1', 30);
+    vi.advanceTimersByTime(31_000);
+    const current = await store.claim('evt_1', 30);
+    if (stale.status !== 'claimed' || current.status !== 'claimed') {
+      throw new Error('expected both claims to succeed');
+    }
+
+    // The first worker's handler failed late: its release must not free the new claim
+    await store.delete('evt_1', stale.token);
+    expect(await store.claim('evt_1', 30)).toEqual({ status: 'in_progress' });
+    await store.set('evt_1', 60, stale.token);
+    expect(await store.claim('evt_1', 30)).toEqual({ status: 'in_progress' });
+
+    await store.set('evt_1', 60, current.token);
+    expect(await store.claim('evt_1', 30)).toEqual({ status: 'processed' });
+  });
+
+  it('should commit a claim whose lease expired if nobody else claimed the event', async () => {
+    vi.useFakeTimers();
+    const dir = mkdtempSync(join(tmpdir(), 'zendfi-store-'));
+
+    try {
+      for (const store of [
+        new MemoryWebhookStore(),
+        new FileWebhookStore({ path: join(dir, 'webhooks.json') }),
+      ]) {
+        const claim = await store.claim('evt_1', 30);
+        vi.advanceTimersByTime(31_000);
+        await store.set('evt_1', 60, claim.status === 'claimed' ? claim.token : undefined);
+        expect(await store.claim('evt_1', 30)).toEqual({ status: 'processed' });
+      }
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should claim with SET NX and compare tokens in lua in redis', async () => {
+    const values = new Map<string, string>();
+    const evalScript = vi.fn(async (script: string, _numKeys: number, ...args: unknown[]) => {
+      const [key, claimed] = args as [string, string];
+      const value = values.get(key);
+      if (script === REDIS_STORE_SCRIPTS.release) {
+        return value === claimed ? Number(values.delete(key)) : 0;
+      }
+      if (value !== undefined && value !== claimed && value !== 'processed') return 0;
+      values.set(key, 'processed');
+      return 1;
+    });
+    const redis: RedisLike = {
+      get: async (key) => values.get(key) ?? null,
+      exists: async (key) => (values.has(key) ? 1 : 0),
+      set: async (key, value, _mode, _seconds, condition) => {
+        if (condition === 'NX' && values.has(key)) return null;
+        values.set(key, value);
+        return 'OK';
+      },
+      del: async (key) => (values.delete(key) ? 1 : 0),
+      eval: evalScript,
+    };
+    const store = new RedisWebhookStore(redis);
+
+    const claim = await store.claim('evt_1', 30);
+    if (claim.status !== 'claimed') throw new Error('expected a claim');
+    expect(values.get('zendfi:webhook:evt_1')).toBe(`in_progress:${claim.token}`);
+    expect(await store.claim('evt_1', 30)).toEqual({ status: 'in_progress' });
+
+    await store.delete('evt_1', 'stale-token');
+    expect(await store.claim('evt_1', 30)).toEqual({ status: 'in_progress' });
+
+    await store.set('evt_1', 60, claim.token);
+    expect(evalScript).toHaveBeenLastCalledWith(
+      REDIS_STORE_SCRIPTS.commit,
+      1,
+      'zendfi:webhook:evt_1',
+      `in_progress:${claim.token}`,
+      60
+    );
+    expect(await store.claim('evt_1', 30)).toEqual({ status: 'processed' });
+  });
+
+  it('should report the existing row when a SQL claim hits the primary key', async () => {
+    const rows = new Map<string, string>();
+    const query = async (sql: string, params: unknown[]) => {
+      const id = params[0] as string;
+      if (sql.startsWith('INSERT')) {
+        if (rows.has(id)) throw new Error('duplicate key');
+        rows.set(id, params[1] as string);
+      }
+      if (sql.startsWith('SELECT status')) {
+        return rows.has(id) ? [{ status: rows.get(id) }] : [];
+      }
+      return [];
+    };
+    const store = new SqlWebhookStore({ query, dialect: 'sqlite' });
+
+    expect(await store.claim('evt_1', 30)).toMatchObject({ status: 'claimed' });
+    expect(await store.claim('evt_1', 30)).toEqual({ status: 'in_progress' });
+    rows.set('evt_1', 'processed');
+    expect(await store.claim('evt_1', 30)).toEqual({ status: 'processed' });
+
+    const failing = new SqlWebhookStore({
+      query: async (sql) => {
+        if (sql.startsWith('INSERT')) throw new Error('connection lost');
+        return [];
+      },
+    });
+    await expect(failing.claim('evt_2', 30)).rejects.toThrow('connection lost');
+  });
+
+  it('should commit and release SQL claims only while the token matches', async () => {
+    const calls: Array<{ sql: string; params: unknown[] }> = [];
+    const query = async (sql: string, params: unknown[]) => {
+      calls.push({ sql, params });
+      return [];
+    };
+
+    const postgres = new SqlWebhookStore({ query });
+    const claim = await postgres.claim('evt_1', 30);
+    if (claim.status !== 'claimed') throw new Error('expected a claim');
+    await postgres.set('evt_1', 60, claim.token);
+    await postgres.delete('evt_1', claim.token);
+    const mysql = new SqlWebhookStore({ query, dialect: 'mysql' });
+    await mysql.set('evt_1', 60, claim.token);
+
+    expect(calls[1]?.params).toEqual(['evt_1', 'in_progress', expect.any(Number), claim.token]);
+    expect(calls[2]?.sql).toContain('INSERT INTO zendfi_webhook_events AS existing');
+    expect(calls[2]?.sql).toContain('OR existing.claim_token = $4 OR existing.expires_at <= $5');
+    expect(calls[2]?.params.slice(3)).toEqual([claim.token, expect.any(Number)]);
+    expect(calls[3]?.sql).toContain("AND status = 'in_progress' AND claim_token = $2");
+    expect(calls[4]?.sql).toContain('status = IF((status = \'processed\' OR claim_token = ?');
+    expect(calls[4]?.params).toHaveLength(7);
+  });
+
+  it('should run the handler once for concurrent deliveries', async () => {
+    const store = new MemoryWebhookStore();
+    let release!: () => void;
+    const handler = vi.fn(() => new Promise<void>((resolve) => (release = resolve)));
+    const handlers = { 'payment.confirmed': handler };
+
+    const first = processWebhook(payment('pay_1', 'evt_1'), handlers, { secret: 's', store });
+    const second = await processWebhook(payment('pay_1', 'evt_1'), handlers, {
+      secret: 's',
+      store,
+    });
+    release();
+
+    expect(second).toMatchObject({ processed: false, statusCode: 409 });
+    expect(await first).toMatchObject({ success: true, processed: true });
+    expect(handler).toHaveBeenCalledOnce();
+    expect(await store.claim('evt_1', 30)).toEqual({ status: 'processed' });
+  });
+
+  it('should release the claim when the handler fails so a redelivery can retry', async () => {
+    const store = new MemoryWebhookStore();
+    const handler = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('database down'))
+      .mockResolvedValueOnce(undefined);
+    const handlers = { 'payment.confirmed': handler };
+
+    const failed = await processWebhook(payment('pay_1', 'evt_1'), handlers, {
+      secret: 's',
+      store,
+    });
+    const retried = await processWebhook(payment('pay_1', 'evt_1'), handlers, {
+      secret: 's',
+      store,
+    });
+
+    expect(failed).toMatchObject({ success: false, error: 'database down' });
+    expect(retried).toMatchObject({ success: true, processed: true });
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+});
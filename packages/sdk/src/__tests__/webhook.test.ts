@@ -1,6 +1,10 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, expectTypeOf, vi } from 'vitest';
 import { ZendFiClient } from '../client';
-import type { WebhookPayload } from '../types';
+import { processWebhook } from '../webhook-handler';
+import { verifyExpressWebhook, verifyNextWebhook, verifyWebhookSignature } from '../webhooks';
+import { generateWebhookSignatureHeader, verifyWebhookHeader } from '../webhook-signature';
+import { ERROR_CODES, WebhookError } from '../errors';
+import type { Escrow, Invoice, PaymentSplit, WebhookPayload } from '../types';
 
 describe('Webhook Verification', () => {
   const client = new ZendFiClient({
@@ -178,3 +182,209 @@ describe('Webhook Verification', () => {
     expect(isValid).toBe(true);
   });
 });
+
+describe('Webhook Payload Typing', () => {
+  const escrowPayload: WebhookPayload<'escrow.funded'> = {
+    event: 'escrow.funded',
+    timestamp: '2025-10-29T12:00:00Z',
+    merchant_id: 'merchant_123',
+    data: {
+      id: 'escrow_1',
+      payment_id: 'payment_1',
+      merchant_id: 'merchant_123',
+      buyer_wallet: 'buyer',
+      seller_wallet: 'seller',
+      escrow_wallet: 'escrow',
+      amount: 100,
+      currency: 'USD',
+      token: 'USDC',
+      release_conditions: { type: 'manual_approval', approver: 'buyer' },
+      status: 'funded',
+      created_at: '2025-10-29T12:00:00Z',
+      updated_at: '2025-10-29T12:00:00Z',
+    } as Escrow,
+  };
+
+  it('should dispatch event data to the matching typed handler', async () => {
+    let seenWallet: string | undefined;
+
+    const result = await processWebhook(
+      escrowPayload,
+      {
+        'escrow.funded': (escrow, payload) => {
+          expectTypeOf(escrow).toEqualTypeOf<Escrow>();
+          expectTypeOf(payload.event).toEqualTypeOf<'escrow.funded'>();
+          seenWallet = escrow.buyer_wallet;
+        },
+        'invoice.paid': (invoice) => {
+          expectTypeOf(invoice).toEqualTypeOf<Invoice>();
+        },
+        'split.completed': (split) => {
+          expectTypeOf(split).toEqualTypeOf<PaymentSplit>();
+        },
+      },
+      { secret: 'whsec_test' }
+    );
+
+    expect(result.processed).toBe(true);
+    expect(seenWallet).toBe('buyer');
+  });
+
+  it('should narrow data when switching on the event', () => {
+    const payload = escrowPayload as WebhookPayload;
+
+    if (payload.event === 'escrow.funded') {
+      expectTypeOf(payload.data).toEqualTypeOf<Escrow>();
+      expect(payload.data.seller_wallet).toBe('seller');
+    } else {
+      throw new Error('expected escrow.funded');
+    }
+  });
+});
+
+describe('Webhook Replay Protection', () => {
+  const secret = 'whsec_test_secret_key_12345';
+  const body = JSON.stringify({
+    event: 'payment.confirmed',
+    timestamp: '2025-10-29T12:00:00Z',
+    merchant_id: 'merchant_123',
+    data: { id: 'payment_123' },
+  });
+  const now = () => Math.floor(Date.now() / 1000);
+
+  it('should accept a fresh timestamped signature', () => {
+    const header = generateWebhookSignatureHeader(body, secret);
+
+    expect(verifyWebhookHeader(body, header, secret).timestamp).toBeTypeOf('number');
+    expect(verifyWebhookSignature(body, header, secret)).toBe(true);
+  });
+
+  it('should reject a timestamp that was altered after signing', () => {
+    const header = generateWebhookSignatureHeader(body, secret, now() - 1000);
+    const forged = header.replace(/t=\d+/, `t=${now()}`);
+
+    expect(verifyWebhookSignature(body, forged, secret)).toBe(false);
+  });
+
+  it('should throw webhook_timestamp_too_old outside the tolerance window', () => {
+    const header = generateWebhookSignatureHeader(body, secret, now() - 600);
+
+    expect(() => verifyWebhookSignature(body, header, secret)).toThrow(WebhookError);
+    try {
+      verifyWebhookHeader(body, header, secret);
+    } catch (error) {
+      expect((error as WebhookError).code).toBe(ERROR_CODES.WEBHOOK_TIMESTAMP_TOO_OLD);
+    }
+
+    expect(verifyWebhookSignature(body, header, secret, { toleranceSeconds: 900 })).toBe(true);
+  });
+
+  it('should only accept legacy signatures when timestamps are not required', () => {
+    const crypto = require('crypto');
+    const legacy = crypto.createHmac('sha256', secret).update(body, 'utf8').digest('hex');
+
+    expect(verifyWebhookSignature(body, legacy, secret)).toBe(true);
+    expect(verifyWebhookSignature(body, `sha256=${legacy}`, secret)).toBe(true);
+    expect(verifyWebhookSignature(body, legacy, secret, { requireTimestamp: true })).toBe(false);
+  });
+
+  it('should fail client.verifyWebhook and processWebhook for replayed deliveries', async () => {
+    const client = new ZendFiClient({ apiKey: 'zfi_test_abc123', logLevel: 'silent' });
+    const header = generateWebhookSignatureHeader(body, secret, now() - 600);
+    const onError = vi.fn();
+
+    expect(client.verifyWebhook({ payload: body, signature: header, secret })).toBe(false);
+
+    const result = await processWebhook({
+      body,
+      signature: header,
+      handlers: { 'payment.confirmed': () => {} },
+      config: { secret, onError },
+    });
+
+    expect(result).toMatchObject({
+      success: false,
+      statusCode: 401,
+      code: ERROR_CODES.WEBHOOK_TIMESTAMP_TOO_OLD,
+    });
+    expect(onError).toHaveBeenCalledWith(expect.any(WebhookError));
+  });
+});
+
+describe('Webhook Secret Rotation', () => {
+  const body = JSON.stringify({
+    event: 'payment.confirmed',
+    timestamp: '2025-10-29T12:00:00Z',
+    merchant_id: 'merchant_123',
+    data: { id: 'payment_123' },
+  });
+  const current = 'whsec_current';
+  const previous = 'whsec_previous';
+
+  it('should report which secret matched and flag deprecated ones', () => {
+    const onDeprecatedSecret = vi.fn();
+
+    const fresh = verifyWebhookHeader(
+      body,
+      generateWebhookSignatureHeader(body, current),
+      [current, previous],
+      { onDeprecatedSecret }
+    );
+    expect(fresh.secretIndex).toBe(0);
+    expect(onDeprecatedSecret).not.toHaveBeenCalled();
+
+    const old = verifyWebhookHeader(
+      body,
+      generateWebhookSignatureHeader(body, previous),
+      [current, previous],
+      { onDeprecatedSecret }
+    );
+    expect(old.secretIndex).toBe(1);
+    expect(onDeprecatedSecret).toHaveBeenCalledWith({ secretIndex: 1, timestamp: old.timestamp });
+  });
+
+  it('should reject signatures from secrets no longer listed', () => {
+    const header = generateWebhookSignatureHeader(body, previous);
+
+    expect(verifyWebhookSignature(body, header, [current])).toBe(false);
+    expect(() => verifyWebhookHeader(body, header, [])).toThrow('Webhook secret not configured');
+  });
+
+  it('should accept multiple secrets in processWebhook and client.verifyWebhook', async () => {
+    const client = new ZendFiClient({ apiKey: 'zfi_test_abc123', logLevel: 'silent' });
+    const header = generateWebhookSignatureHeader(body, previous);
+    const handler = vi.fn();
+
+    expect(client.verifyWebhook({ payload: body, signature: header, secret: [current, previous] }))
+      .toBe(true);
+
+    const result = await processWebhook({
+      body,
+      signature: header,
+      handlers: { 'payment.confirmed': handler },
+      config: { secret: [current, previous] },
+    });
+
+    expect(result).toMatchObject({ success: true, processed: true, secretIndex: 1 });
+    expect(handler).toHaveBeenCalledOnce();
+  });
+
+  it('should report the matching secret from the framework verifiers', async () => {
+    const header = generateWebhookSignatureHeader(body, previous);
+    const request = new Request('https://example.com/webhooks', {
+      method: 'POST',
+      body,
+      headers: { 'x-zendfi-signature': header },
+    });
+
+    const next = await verifyNextWebhook(request, [current, previous]);
+    const express = await verifyExpressWebhook(
+      { rawBody: body, headers: { 'x-zendfi-signature': header } },
+      [current, previous]
+    );
+
+    expect(next).toMatchObject({ event: 'payment.confirmed', secretIndex: 1 });
+    expect(express).toMatchObject({ event: 'payment.confirmed', secretIndex: 1 });
+    expect(await verifyExpressWebhook({ rawBody: body, headers: {} }, [current])).toBeNull();
+  });
+});
@@ -0,0 +1,270 @@
+/**
+ * Session-Scoped Agent Client
+ *
+ * For agents that hold only an agent session token (`zai_session_...`), not
+ * the merchant's API key. Requests authenticate as the session, smart
+ * payments carry the session token automatically, and the client fails
+ * fast with a typed error once the session has expired or been revoked.
+ *
+ * @example
+ * ```typescript
+ * import { ZendFiClient, SessionExpiredError } from '@zendfi/sdk';
+ *
+ * // Merchant side: hand the agent a scoped client
+ * const session = await zendfi.agent.createSession({ ... });
+ * const agent = zendfi.asSession(session);
+ *
+ * // Agent side, with only the token
+ * const agent = ZendFiClient.forSession(process.env.ZENDFI_SESSION_TOKEN!, {
+ *   agentId: 'shopping-assistant',
+ *   userWallet: 'Hx7B...abc',
+ * });
+ *
+ * try {
+ *   await agent.pay({ amount_usd: 20, merchant_id: 'mer_123' });
+ * } catch (error) {
+ *   if (error instanceof SessionExpiredError) await renewSession();
+ * }
+ * ```
+ */
+
+import type {
+  AgentSession,
+  RequestOptions,
+  SmartPaymentRequest,
+  SmartPaymentResponse,
+} from './types';
+import { ApiPromise } from './response';
+import {
+  AuthenticationError,
+  ERROR_CODES,
+  SessionExpiredError,
+  SessionRevokedError,
+  ValidationError,
+  isZendFiError,
+} from './errors';
+import { AgentAPI } from './api/agent';
+import { SmartPaymentsAPI, type RequestFn } from './api/smart-payments';
+
+export const SESSION_TOKEN_PREFIX = 'zai_session_';
+
+export interface AgentSessionClientOptions {
+  /** Session ID; enables `refresh()` */
+  sessionId?: string;
+  /** When the session expires (ISO 8601 or Date); checked before every request */
+  expiresAt?: string | Date;
+  /** Default `agent_id` for payments */
+  agentId?: string;
+  /** Default `user_wallet` for payments */
+  userWallet?: string;
+}
+
+/**
+ * A smart payment made by the session; the session token is filled in, and
+ * the agent and wallet default to the session's
+ */
+export type SessionPaymentRequest = Omit<
+  SmartPaymentRequest,
+  'session_token' | 'agent_id' | 'user_wallet'
+> &
+  Partial<Pick<SmartPaymentRequest, 'agent_id' | 'user_wallet'>>;
+
+export class ZendFiAgentClient {
+  public readonly sessionToken: string;
+  public readonly sessionId?: string;
+  private readonly agentId?: string;
+  private readonly userWallet?: string;
+  private expiry?: Date;
+  private revoked = false;
+  private readonly smart: SmartPaymentsAPI;
+  private readonly agent: AgentAPI;
+
+  /**
+   * @param request - The parent client's request function (see
+   *   `ZendFiClient.asSession` and `ZendFiClient.forSession`)
+   * @param session - A session from `agent.createSession`, or just its token
+   */
+  constructor(
+    request: RequestFn,
+    session: AgentSession | string,
+    options: AgentSessionClientOptions = {}
+  ) {
+    const snapshot = typeof session === 'string' ? undefined : session;
+    this.sessionToken = typeof session === 'string' ? session : session.session_token;
+    assertSessionToken(this.sessionToken);
+
+    this.sessionId = options.sessionId ?? snapshot?.id;
+    this.agentId = options.agentId ?? snapshot?.agent_id;
+    this.userWallet = options.userWallet ?? snapshot?.user_wallet;
+    const expiresAt = options.expiresAt ?? snapshot?.expires_at;
+    this.expiry = expiresAt === undefined ? undefined : new Date(expiresAt);
+    if (snapshot && !snapshot.is_active) {
+      this.revoked = true;
+    }
+
+    const scoped: RequestFn = <T>(
+      method: string,
+      endpoint: string,
+      data?: any,
+      requestOptions?: RequestOptions
+    ) => this.sessionRequest<T>(request, method, endpoint, data, requestOptions);
+    this.smart = new SmartPaymentsAPI(scoped);
+    this.agent = new AgentAPI(scoped);
+  }
+
+  /**
+   * When the session expires, if known
+   */
+  get expiresAt(): Date | undefined {
+    return this.expiry;
+  }
+
+  /**
+   * Milliseconds until the session expires (negative once expired), if known
+   */
+  expiresInMs(now: Date = new Date()): number | undefined {
+    return this.expiry && this.expiry.getTime() - now.getTime();
+  }
+
+  isExpired(now: Date = new Date()): boolean {
+    return this.expiry !== undefined && this.expiry.getTime() <= now.getTime();
+  }
+
+  isRevoked(): boolean {
+    return this.revoked;
+  }
+
+  /**
+   * Execute a smart payment as the session
+   *
+   * Rejects with SessionExpiredError / SessionRevokedError, or ValidationError
+   * when the agent or wallet is unknown
+   */
+  pay(request: SessionPaymentRequest, options?: RequestOptions): ApiPromise<SmartPaymentResponse> {
+    const agentId = request.agent_id ?? this.agentId;
+    const userWallet = request.user_wallet ?? this.userWallet;
+    if (!agentId || !userWallet) {
+      const error = new ValidationError(
+        'agent_id and user_wallet are required',
+        ERROR_CODES.MISSING_REQUIRED_FIELD,
+        'Pass them in the request, or as agentId/userWallet when creating the session client'
+      );
+      return new ApiPromise<SmartPaymentResponse>(Promise.reject(error));
+    }
+
+    return this.smart.execute(
+      { ...request, agent_id: agentId, user_wallet: userWallet, session_token: this.sessionToken },
+      options
+    );
+  }
+
+  /**
+   * Submit a signed transaction for a payment that requires a signature
+   */
+  submitSignedPayment(
+    paymentId: string,
+    signedTransaction: string,
+    options?: RequestOptions
+  ): ApiPromise<SmartPaymentResponse> {
+    return this.smart.submitSigned(paymentId, signedTransaction, options);
+  }
+
+  /**
+   * Re-fetch the session to update its expiry and remaining allowance
+   *
+   * @throws SessionRevokedError when the session is no longer active
+   */
+  async refresh(options?: RequestOptions): Promise<AgentSession> {
+    if (!this.sessionId) {
+      throw new ValidationError(
+        'The session ID is unknown',
+        ERROR_CODES.MISSING_REQUIRED_FIELD,
+        'Pass sessionId (or the full session) when creating the session client'
+      );
+    }
+
+    const session = await this.agent.getSession(this.sessionId, options);
+    this.expiry = new Date(session.expires_at);
+    if (!session.is_active) {
+      this.revoked = true;
+      throw new SessionRevokedError(`Agent session ${session.id} has been revoked`);
+    }
+    return session;
+  }
+
+  /**
+   * Authenticate as the session, fail fast once it's unusable, and turn the
+   * API's auth failures into session errors
+   */
+  private sessionRequest<T>(
+    request: RequestFn,
+    method: string,
+    endpoint: string,
+    data?: any,
+    options?: RequestOptions
+  ): ApiPromise<T> {
+    const unusable = this.unusableError();
+    if (unusable) {
+      return new ApiPromise<T>(Promise.reject(unusable));
+    }
+
+    const response = request<T>(method, endpoint, data, {
+      ...options,
+      headers: { ...options?.headers, Authorization: `Bearer ${this.sessionToken}` },
+    })
+      .withResponse()
+      .catch((error: unknown) => {
+        throw this.toSessionError(error);
+      });
+    return new ApiPromise<T>(response);
+  }
+
+  private unusableError(): Error | undefined {
+    if (this.revoked) {
+      return new SessionRevokedError('This agent session has been revoked');
+    }
+    if (this.isExpired()) {
+      const expiresAt = this.expiry!.toISOString();
+      return new SessionExpiredError(`This agent session expired at ${expiresAt}`, expiresAt);
+    }
+    return undefined;
+  }
+
+  private toSessionError(error: unknown): unknown {
+    if (!isZendFiError(error)) {
+      return error;
+    }
+
+    // Only an explicit revoked/inactive code ends the session for good; other
+    // auth failures (a bad header, a key mix-up) are passed on as they are
+    const code = error.code;
+    const rejected = error instanceof AuthenticationError || error.statusCode === 401;
+    let mapped: SessionExpiredError | SessionRevokedError | undefined;
+
+    if (code === ERROR_CODES.SESSION_EXPIRED || (rejected && this.isExpired())) {
+      mapped = new SessionExpiredError(error.message, this.expiry?.toISOString());
+    } else if (code === ERROR_CODES.SESSION_REVOKED || code === ERROR_CODES.SESSION_INACTIVE) {
+      this.revoked = true;
+      mapped = new SessionRevokedError(error.message);
+    }
+
+    if (!mapped) {
+      return error;
+    }
+    mapped.requestId = error.requestId;
+    return mapped;
+  }
+}
+
+/**
+ * @throws ValidationError unless `token` looks like an agent session token
+ */
+export function assertSessionToken(token: string): void {
+  if (!token?.startsWith(SESSION_TOKEN_PREFIX)) {
+    throw new ValidationError(
+      `Invalid session token. Agent session tokens start with "${SESSION_TOKEN_PREFIX}"`,
+      ERROR_CODES.INVALID_PARAMETER,
+      'Use the session_token returned by zendfi.agent.createSession()'
+    );
+  }
+}
@@ -30,9 +30,16 @@ import type {
   AgentSession,
   CreateAgentSessionRequest,
   AgentAnalytics,
+  RequestOptions,
 } from '../types';
+import type { ApiPromise } from '../response';
 
-export type RequestFn = <T>(method: string, endpoint: string, data?: any) => Promise<T>;
+export type RequestFn = <T>(
+  method: string,
+  endpoint: string,
+  data?: any,
+  options?: RequestOptions
+) => ApiPromise<T>;
 
 export class AgentAPI {
   constructor(private request: RequestFn) {}
@@ -63,7 +70,10 @@ export class AgentAPI {
    * console.log(agentKey.full_key); // => "zai_test_abc123..."
    * ```
    */
-  async createKey(request: CreateAgentApiKeyRequest): Promise<AgentApiKey> {
+  createKey(
+    request: CreateAgentApiKeyRequest,
+    options?: RequestOptions
+  ): ApiPromise<AgentApiKey> {
     return this.request<AgentApiKey>('POST', '/api/v1/agent-keys', {
       name: request.name,
       agent_id: request.agent_id,
@@ -71,7 +81,7 @@ export class AgentAPI {
       scopes: request.scopes || ['create_payments'],
       rate_limit_per_hour: request.rate_limit_per_hour || 1000,
       metadata: request.metadata,
-    });
+    }, options);
   }
 
   /**
@@ -87,13 +97,14 @@ export class AgentAPI {
    * });
    * ```
    */
-  async listKeys(): Promise<AgentApiKey[]> {
-    const response = await this.request<{ keys: AgentApiKey[] } | AgentApiKey[]>(
-      'GET',
-      '/api/v1/agent-keys'
-    );
+  listKeys(options?: RequestOptions): ApiPromise<AgentApiKey[]> {
     // Handle both array and object response formats
-    return Array.isArray(response) ? response : response.keys;
+    return this.request<{ keys: AgentApiKey[] } | AgentApiKey[]>(
+      'GET',
+      '/api/v1/agent-keys',
+      undefined,
+      options
+    ).transform((response) => (Array.isArray(response) ? response : response.keys));
   }
 
   /**
@@ -110,8 +121,13 @@ export class AgentAPI {
    * console.log('Agent key revoked');
    * ```
    */
-  async revokeKey(keyId: string): Promise<void> {
-    await this.request<{ success: boolean }>('POST', `/api/v1/agent-keys/${keyId}/revoke`);
+  revokeKey(keyId: string, options?: RequestOptions): ApiPromise<void> {
+    return this.request<{ success: boolean }>(
+      'POST',
+      `/api/v1/agent-keys/${keyId}/revoke`,
+      undefined,
+      options
+    ).transform(() => undefined);
   }
 
   // ============================================
@@ -145,7 +161,10 @@ export class AgentAPI {
    * console.log(session.session_token); // => "zai_session_..."
    * ```
    */
-  async createSession(request: CreateAgentSessionRequest): Promise<AgentSession> {
+  createSession(
+    request: CreateAgentSessionRequest,
+    options?: RequestOptions
+  ): ApiPromise<AgentSession> {
     return this.request<AgentSession>('POST', '/api/v1/ai/sessions', {
       agent_id: request.agent_id,
       agent_name: request.agent_name,
@@ -160,7 +179,7 @@ export class AgentAPI {
       allowed_merchants: request.allowed_merchants,
       duration_hours: request.duration_hours || 24,
       metadata: request.metadata,
-    });
+    }, options);
   }
 
   /**
@@ -175,12 +194,13 @@ export class AgentAPI {
    * console.log(`${activeSessions.length} active sessions`);
    * ```
    */
-  async listSessions(): Promise<AgentSession[]> {
-    const response = await this.request<{ sessions: AgentSession[] } | AgentSession[]>(
+  listSessions(options?: RequestOptions): ApiPromise<AgentSession[]> {
+    return this.request<{ sessions: AgentSession[] } | AgentSession[]>(
       'GET',
-      '/api/v1/ai/sessions'
-    );
-    return Array.isArray(response) ? response : response.sessions;
+      '/api/v1/ai/sessions',
+      undefined,
+      options
+    ).transform((response) => (Array.isArray(response) ? response : response.sessions));
   }
 
   /**
@@ -196,8 +216,13 @@ export class AgentAPI {
    * console.log(`Expires: ${session.expires_at}`);
    * ```
    */
-  async getSession(sessionId: string): Promise<AgentSession> {
-    return this.request<AgentSession>('GET', `/api/v1/ai/sessions/${sessionId}`);
+  getSession(sessionId: string, options?: RequestOptions): ApiPromise<AgentSession> {
+    return this.request<AgentSession>(
+      'GET',
+      `/api/v1/ai/sessions/${sessionId}`,
+      undefined,
+      options
+    );
   }
 
   /**
@@ -214,8 +239,13 @@ export class AgentAPI {
    * console.log('Session revoked - agent can no longer make payments');
    * ```
    */
-  async revokeSession(sessionId: string): Promise<void> {
-    await this.request<{ success: boolean }>('POST', `/api/v1/ai/sessions/${sessionId}/revoke`);
+  revokeSession(sessionId: string, options?: RequestOptions): ApiPromise<void> {
+    return this.request<{ success: boolean }>(
+      'POST',
+      `/api/v1/ai/sessions/${sessionId}/revoke`,
+      undefined,
+      options
+    ).transform(() => undefined);
   }
 
   // ============================================
@@ -235,7 +265,7 @@ export class AgentAPI {
    * console.log(`PPP savings: $${analytics.ppp_savings_usd}`);
    * ```
    */
-  async getAnalytics(): Promise<AgentAnalytics> {
-    return this.request<AgentAnalytics>('GET', '/api/v1/analytics/agents');
+  getAnalytics(options?: RequestOptions): ApiPromise<AgentAnalytics> {
+    return this.request<AgentAnalytics>('GET', '/api/v1/analytics/agents', undefined, options);
   }
 }
@@ -29,9 +29,16 @@ import type {
   EnableAutonomyResponse,
   RevokeAutonomyRequest,
   AutonomyStatus,
+  RequestOptions,
 } from '../types';
+import type { ApiPromise } from '../response';
 
-export type RequestFn = <T>(method: string, endpoint: string, data?: any) => Promise<T>;
+export type RequestFn = <T>(
+  method: string,
+  endpoint: string,
+  data?: any,
+  options?: RequestOptions
+) => ApiPromise<T>;
 
 export class AutonomyAPI {
   constructor(private request: RequestFn) {}
@@ -72,10 +79,11 @@ export class AutonomyAPI {
    * console.log(`Expires: ${delegate.expires_at}`);
    * ```
    */
-  async enable(
+  enable(
     sessionKeyId: string,
-    request: EnableAutonomyRequest
-  ): Promise<EnableAutonomyResponse> {
+    request: EnableAutonomyRequest,
+    options?: RequestOptions
+  ): ApiPromise<EnableAutonomyResponse> {
     return this.request<EnableAutonomyResponse>(
       'POST',
       `/api/v1/ai/session-keys/${sessionKeyId}/enable-autonomy`,
@@ -87,7 +95,8 @@ export class AutonomyAPI {
         lit_encrypted_keypair: request.lit_encrypted_keypair,
         lit_data_hash: request.lit_data_hash,
         metadata: request.metadata,
-      }
+      },
+      options
     );
   }
 
@@ -106,13 +115,14 @@ export class AutonomyAPI {
    * console.log('Autonomous mode disabled');
    * ```
    */
-  async revoke(sessionKeyId: string, reason?: string): Promise<void> {
+  revoke(sessionKeyId: string, reason?: string, options?: RequestOptions): ApiPromise<void> {
     const request: RevokeAutonomyRequest = { reason };
-    await this.request<{ success: boolean }>(
+    return this.request<{ success: boolean }>(
       'POST',
       `/api/v1/ai/session-keys/${sessionKeyId}/revoke-autonomy`,
-      request
-    );
+      request,
+      options
+    ).transform(() => undefined);
   }
 
   /**
@@ -136,10 +146,12 @@ export class AutonomyAPI {
    * }
    * ```
    */
-  async getStatus(sessionKeyId: string): Promise<AutonomyStatus> {
+  getStatus(sessionKeyId: string, options?: RequestOptions): ApiPromise<AutonomyStatus> {
     return this.request<AutonomyStatus>(
       'GET',
-      `/api/v1/ai/session-keys/${sessionKeyId}/autonomy-status`
+      `/api/v1/ai/session-keys/${sessionKeyId}/autonomy-status`,
+      undefined,
+      options
     );
   }
 
@@ -16,3 +16,4 @@ export { AutonomyAPI } from './autonomy';
 export { SmartPaymentsAPI } from './smart-payments';
 
 export type { RequestFn } from './agent';
+export type { ListIntentsOptions, IterateIntentsOptions } from './intents';
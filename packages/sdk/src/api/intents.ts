@@ -30,9 +30,17 @@ import type {
   CreatePaymentIntentRequest,
   ConfirmPaymentIntentRequest,
   PaymentIntentEvent,
+  RequestOptions,
 } from '../types';
+import type { ApiPromise } from '../response';
+import { DEFAULT_PAGE_SIZE, offsetPaginator, type IterateOptions, type Paginator } from '../pagination';
 
-export type RequestFn = <T>(method: string, endpoint: string, data?: any) => Promise<T>;
+export type RequestFn = <T>(
+  method: string,
+  endpoint: string,
+  data?: any,
+  options?: RequestOptions
+) => ApiPromise<T>;
 
 export interface ListIntentsOptions {
   /** Filter by status */
@@ -43,6 +51,11 @@ export interface ListIntentsOptions {
   offset?: number;
 }
 
+export interface IterateIntentsOptions extends IterateOptions {
+  /** Filter by status */
+  status?: string;
+}
+
 export class PaymentIntentsAPI {
   constructor(private request: RequestFn) {}
 
@@ -69,7 +82,10 @@ export class PaymentIntentsAPI {
    * console.log(`Status: ${intent.status}`); // "requires_payment"
    * ```
    */
-  async create(request: CreatePaymentIntentRequest): Promise<PaymentIntent> {
+  create(
+    request: CreatePaymentIntentRequest,
+    options?: RequestOptions
+  ): ApiPromise<PaymentIntent> {
     return this.request<PaymentIntent>('POST', '/api/v1/payment-intents', {
       amount: request.amount,
       currency: request.currency || 'USD',
@@ -79,7 +95,7 @@ export class PaymentIntentsAPI {
       agent_name: request.agent_name,
       metadata: request.metadata,
       expires_in_seconds: request.expires_in_seconds || 86400, // 24h default
-    });
+    }, options);
   }
 
   /**
@@ -97,14 +113,20 @@ export class PaymentIntentsAPI {
    * }
    * ```
    */
-  async get(intentId: string): Promise<PaymentIntent> {
-    return this.request<PaymentIntent>('GET', `/api/v1/payment-intents/${intentId}`);
+  get(intentId: string, options?: RequestOptions): ApiPromise<PaymentIntent> {
+    return this.request<PaymentIntent>(
+      'GET',
+      `/api/v1/payment-intents/${intentId}`,
+      undefined,
+      options
+    );
   }
 
   /**
    * List payment intents
    * 
-   * @param options - Filter and pagination options
+   * @param params - Filter and pagination options
+   * @param options - Per-request options
    * @returns Array of payment intents
    * 
    * @example
@@ -116,18 +138,40 @@ export class PaymentIntentsAPI {
    * });
    * ```
    */
-  async list(options?: ListIntentsOptions): Promise<PaymentIntent[]> {
-    const params = new URLSearchParams();
-    if (options?.status) params.append('status', options.status);
-    if (options?.limit) params.append('limit', options.limit.toString());
-    if (options?.offset) params.append('offset', options.offset.toString());
+  list(params?: ListIntentsOptions, options?: RequestOptions): ApiPromise<PaymentIntent[]> {
+    const query = new URLSearchParams();
+    if (params?.status) query.append('status', params.status);
+    if (params?.limit) query.append('limit', params.limit.toString());
+    if (params?.offset) query.append('offset', params.offset.toString());
     
-    const query = params.toString() ? `?${params.toString()}` : '';
-    const response = await this.request<{ intents: PaymentIntent[] } | PaymentIntent[]>(
+    const queryString = query.toString() ? `?${query.toString()}` : '';
+    return this.request<{ intents: PaymentIntent[] } | PaymentIntent[]>(
       'GET',
-      `/api/v1/payment-intents${query}`
+      `/api/v1/payment-intents${queryString}`,
+      undefined,
+      options
+    ).transform((response) => (Array.isArray(response) ? response : response.intents));
+  }
+
+  /**
+   * Iterate over all payment intents, fetching pages on demand
+   * 
+   * @param params - Filter and page size options
+   * @param options - Per-request options applied to every page
+   * @returns Async iterable paginator
+   * 
+   * @example
+   * ```typescript
+   * for await (const intent of zendfi.intents.iterate({ status: 'succeeded' })) {
+   *   console.log(intent.id, intent.amount);
+   * }
+   * ```
+   */
+  iterate(params?: IterateIntentsOptions, options?: RequestOptions): Paginator<PaymentIntent> {
+    const { pageSize = DEFAULT_PAGE_SIZE, status } = params || {};
+    return offsetPaginator(pageSize, (limit, offset) =>
+      this.list({ status, limit, offset }, options)
     );
-    return Array.isArray(response) ? response : response.intents;
   }
 
   /**
@@ -153,14 +197,18 @@ export class PaymentIntentsAPI {
    * }
    * ```
    */
-  async confirm(intentId: string, request: ConfirmPaymentIntentRequest): Promise<PaymentIntent> {
+  confirm(
+    intentId: string,
+    request: ConfirmPaymentIntentRequest,
+    options?: RequestOptions
+  ): ApiPromise<PaymentIntent> {
     return this.request<PaymentIntent>('POST', `/api/v1/payment-intents/${intentId}/confirm`, {
       client_secret: request.client_secret,
       customer_wallet: request.customer_wallet,
       payment_type: request.payment_type,
       auto_gasless: request.auto_gasless,
       metadata: request.metadata,
-    });
+    }, options);
   }
 
   /**
@@ -178,8 +226,13 @@ export class PaymentIntentsAPI {
    * console.log(`Status: ${canceled.status}`); // "canceled"
    * ```
    */
-  async cancel(intentId: string): Promise<PaymentIntent> {
-    return this.request<PaymentIntent>('POST', `/api/v1/payment-intents/${intentId}/cancel`);
+  cancel(intentId: string, options?: RequestOptions): ApiPromise<PaymentIntent> {
+    return this.request<PaymentIntent>(
+      'POST',
+      `/api/v1/payment-intents/${intentId}/cancel`,
+      undefined,
+      options
+    );
   }
 
   /**
@@ -199,11 +252,12 @@ export class PaymentIntentsAPI {
    * });
    * ```
    */
-  async getEvents(intentId: string): Promise<PaymentIntentEvent[]> {
-    const response = await this.request<{ events: PaymentIntentEvent[] } | PaymentIntentEvent[]>(
+  getEvents(intentId: string, options?: RequestOptions): ApiPromise<PaymentIntentEvent[]> {
+    return this.request<{ events: PaymentIntentEvent[] } | PaymentIntentEvent[]>(
       'GET',
-      `/api/v1/payment-intents/${intentId}/events`
-    );
-    return Array.isArray(response) ? response : response.events;
+      `/api/v1/payment-intents/${intentId}/events`,
+      undefined,
+      options
+    ).transform((response) => (Array.isArray(response) ? response : response.events));
   }
 }
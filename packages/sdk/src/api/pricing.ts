@@ -21,9 +21,16 @@ import type {
   PPPFactor,
   PricingSuggestion,
   PricingSuggestionRequest,
+  RequestOptions,
 } from '../types';
+import type { ApiPromise } from '../response';
 
-export type RequestFn = <T>(method: string, endpoint: string, data?: any) => Promise<T>;
+export type RequestFn = <T>(
+  method: string,
+  endpoint: string,
+  data?: any,
+  options?: RequestOptions
+) => ApiPromise<T>;
 
 export class PricingAPI {
   constructor(private request: RequestFn) {}
@@ -54,10 +61,10 @@ export class PricingAPI {
    * console.log(`$${localPrice} for Brazilian customers`);
    * ```
    */
-  async getPPPFactor(countryCode: string): Promise<PPPFactor> {
+  getPPPFactor(countryCode: string, options?: RequestOptions): ApiPromise<PPPFactor> {
     return this.request<PPPFactor>('POST', '/api/v1/ai/pricing/ppp-factor', {
       country_code: countryCode.toUpperCase(),
-    });
+    }, options);
   }
 
   /**
@@ -81,12 +88,13 @@ export class PricingAPI {
    * console.table(tiers);
    * ```
    */
-  async listFactors(): Promise<PPPFactor[]> {
-    const response = await this.request<{ factors: PPPFactor[] } | PPPFactor[]>(
+  listFactors(options?: RequestOptions): ApiPromise<PPPFactor[]> {
+    return this.request<{ factors: PPPFactor[] } | PPPFactor[]>(
       'GET',
-      '/api/v1/ai/pricing/ppp-factors'
-    );
-    return Array.isArray(response) ? response : response.factors;
+      '/api/v1/ai/pricing/ppp-factors',
+      undefined,
+      options
+    ).transform((response) => (Array.isArray(response) ? response : response.factors));
   }
 
   /**
@@ -120,7 +128,10 @@ export class PricingAPI {
    * //     plus 10% first-time customer discount"
    * ```
    */
-  async getSuggestion(request: PricingSuggestionRequest): Promise<PricingSuggestion> {
+  getSuggestion(
+    request: PricingSuggestionRequest,
+    options?: RequestOptions
+  ): ApiPromise<PricingSuggestion> {
     return this.request<PricingSuggestion>('POST', '/api/v1/ai/pricing/suggest', {
       agent_id: request.agent_id,
       product_id: request.product_id,
@@ -128,7 +139,7 @@ export class PricingAPI {
       currency: request.currency || 'USD',
       user_profile: request.user_profile,
       ppp_config: request.ppp_config,
-    });
+    }, options);
   }
 
   /**
@@ -148,10 +159,11 @@ export class PricingAPI {
    * console.log(`Savings: $${result.savings} (${result.discount_percentage}%)`);
    * ```
    */
-  async calculateLocalPrice(
+  calculateLocalPrice(
     basePrice: number,
-    countryCode: string
-  ): Promise<{
+    countryCode: string,
+    options?: RequestOptions
+  ): ApiPromise<{
     original: number;
     adjusted: number;
     savings: number;
@@ -159,17 +171,18 @@ export class PricingAPI {
     country: string;
     ppp_factor: number;
   }> {
-    const factor = await this.getPPPFactor(countryCode);
-    const adjusted = Number((basePrice * factor.ppp_factor).toFixed(2));
-    const savings = Number((basePrice - adjusted).toFixed(2));
-    
-    return {
-      original: basePrice,
-      adjusted,
-      savings,
-      discount_percentage: factor.adjustment_percentage,
-      country: factor.country_name,
-      ppp_factor: factor.ppp_factor,
-    };
+    return this.getPPPFactor(countryCode, options).transform((factor) => {
+      const adjusted = Number((basePrice * factor.ppp_factor).toFixed(2));
+      const savings = Number((basePrice - adjusted).toFixed(2));
+
+      return {
+        original: basePrice,
+        adjusted,
+        savings,
+        discount_percentage: factor.adjustment_percentage,
+        country: factor.country_name,
+        ppp_factor: factor.ppp_factor,
+      };
+    });
   }
 }
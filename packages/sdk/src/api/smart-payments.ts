@@ -26,9 +26,16 @@
 import type {
   SmartPaymentRequest,
   SmartPaymentResponse,
+  RequestOptions,
 } from '../types';
+import type { ApiPromise } from '../response';
 
-export type RequestFn = <T>(method: string, endpoint: string, data?: any) => Promise<T>;
+export type RequestFn = <T>(
+  method: string,
+  endpoint: string,
+  data?: any,
+  options?: RequestOptions
+) => ApiPromise<T>;
 
 export class SmartPaymentsAPI {
   constructor(private request: RequestFn) {}
@@ -85,7 +92,10 @@ export class SmartPaymentsAPI {
    * }
    * ```
    */
-  async execute(request: SmartPaymentRequest): Promise<SmartPaymentResponse> {
+  execute(
+    request: SmartPaymentRequest,
+    options?: RequestOptions
+  ): ApiPromise<SmartPaymentResponse> {
     return this.request<SmartPaymentResponse>('POST', '/api/v1/ai/smart-payment', {
       session_token: request.session_token,
       agent_id: request.agent_id,
@@ -99,7 +109,7 @@ export class SmartPaymentsAPI {
       description: request.description,
       product_details: request.product_details,
       metadata: request.metadata,
-    });
+    }, options);
   }
 
   /**
@@ -123,16 +133,18 @@ export class SmartPaymentsAPI {
    * console.log(`Confirmed in ${result.confirmed_in_ms}ms`);
    * ```
    */
-  async submitSigned(
+  submitSigned(
     paymentId: string,
-    signedTransaction: string
-  ): Promise<SmartPaymentResponse> {
+    signedTransaction: string,
+    options?: RequestOptions
+  ): ApiPromise<SmartPaymentResponse> {
     return this.request<SmartPaymentResponse>(
       'POST',
       `/api/v1/ai/payments/${paymentId}/submit-signed`,
       {
         signed_transaction: signedTransaction,
-      }
+      },
+      options
     );
   }
 }
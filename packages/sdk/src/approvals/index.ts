@@ -0,0 +1,37 @@
+/**
+ * Payment Approvals
+ *
+ * Human-in-the-loop for payments above a session's `require_approval_above`:
+ * - ApprovalManager: parks, decides, expires and executes approvals
+ * - MemoryApprovalStore: in-process approval storage
+ * - Notifiers: callback, webhook, email and CLI prompt
+ */
+
+export {
+  ApprovalManager,
+  DEFAULT_APPROVAL_TTL_MS,
+  type ApprovalManagerOptions,
+  type CreateApprovalOptions,
+  type RequestPaymentOptions,
+  type RequestPaymentResult,
+  type WaitForDecisionOptions,
+} from './manager';
+export {
+  MemoryApprovalStore,
+  type ApprovalStatus,
+  type ApprovalStore,
+  type PendingApproval,
+} from './store';
+export {
+  CliApprovalPrompt,
+  EmailApprovalNotifier,
+  WebhookApprovalNotifier,
+  callbackNotifier,
+  describeApproval,
+  type ApprovalActions,
+  type ApprovalEmail,
+  type ApprovalNotifier,
+  type CliApprovalPromptOptions,
+  type EmailApprovalNotifierOptions,
+  type WebhookApprovalNotifierOptions,
+} from './notifiers';
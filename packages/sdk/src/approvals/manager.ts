@@ -0,0 +1,430 @@
+/**
+ * Approval Manager
+ *
+ * Human-in-the-loop for agent payments. A payment the spending policy flags
+ * as `needs_approval` (above the session's `require_approval_above`) is
+ * parked as a pending approval instead of being sent. Notifiers tell a
+ * person; once they approve, the payment is executed with the idempotency
+ * key minted when it was first requested, so retries never pay twice.
+ *
+ * @example
+ * ```typescript
+ * import { ApprovalManager, SpendingPolicyEngine, WebhookApprovalNotifier } from '@zendfi/sdk';
+ *
+ * const approvals = new ApprovalManager({
+ *   smart: zendfi.smart,
+ *   policy: new SpendingPolicyEngine(zendfi.agent),
+ *   notifiers: [new WebhookApprovalNotifier({ url: 'https://ops.example.com/approvals' })],
+ * });
+ *
+ * const result = await approvals.requestPayment(session.id, request);
+ * if (result.status === 'pending_approval') {
+ *   return `Waiting for approval (${result.approval.id})`;
+ * }
+ *
+ * // Later, from your admin UI
+ * await approvals.approve(approvalId, { by: 'alice@example.com' });
+ * ```
+ */
+
+import type { SmartPaymentRequest, SmartPaymentResponse } from '../types';
+import type { SmartPaymentsAPI } from '../api/smart-payments';
+import type { SpendingPolicyEngine, SpendingReason } from '../spending-policy';
+import { ApprovalError, ERROR_CODES, SpendingPolicyError } from '../errors';
+import { generateIdempotencyKey, sleep } from '../utils';
+import {
+  MemoryApprovalStore,
+  type ApprovalStatus,
+  type ApprovalStore,
+  type PendingApproval,
+} from './store';
+import type { ApprovalActions, ApprovalNotifier } from './notifiers';
+
+/** Default time a person has to decide: 15 minutes */
+export const DEFAULT_APPROVAL_TTL_MS = 15 * 60 * 1000;
+
+export interface ApprovalManagerOptions {
+  /** Executes approved payments (usually `zendfi.smart`) */
+  smart: Pick<SmartPaymentsAPI, 'execute'>;
+  /** Decides which payments need approval; required for `requestPayment` */
+  policy?: Pick<SpendingPolicyEngine, 'evaluate' | 'recordSpend'>;
+  /** Where approvals are kept (default: in memory) */
+  store?: ApprovalStore;
+  /** Told about every new approval */
+  notifiers?: ApprovalNotifier[];
+  /** How long an approval stays open, in ms (default: 15 minutes) */
+  ttlMs?: number;
+  /** Called after every status change */
+  onStatusChange?: (approval: PendingApproval) => void | Promise<void>;
+  /** Called when a notifier throws; notifier failures never fail the request */
+  onNotifierError?: (error: Error, approval: PendingApproval) => void;
+}
+
+export interface RequestPaymentOptions {
+  /** Reuse a key (e.g. from the agent's own retry) instead of minting one */
+  idempotencyKey?: string;
+  /**
+   * Extra headers for `smart.execute` (e.g. the session's `Authorization`);
+   * kept with the approval, so the approved execution sends them too
+   */
+  headers?: Record<string, string>;
+}
+
+export interface CreateApprovalOptions extends RequestPaymentOptions {
+  sessionId?: string;
+  /** Why approval is needed (default: a single `approval_required` reason) */
+  reasons?: SpendingReason[];
+}
+
+/**
+ * Outcome of `requestPayment`. Interactive notifiers can decide before it
+ * returns, so a parked payment may already be executed or denied.
+ */
+export type RequestPaymentResult =
+  | { status: 'executed'; payment: SmartPaymentResponse; approval?: PendingApproval }
+  | {
+      status: 'pending_approval' | 'denied' | 'expired' | 'failed';
+      approval: PendingApproval;
+    };
+
+export interface WaitForDecisionOptions {
+  /** How often to check the store, in ms (default: 1000) */
+  pollIntervalMs?: number;
+  /** Stop waiting; resolves with the approval as it stands */
+  signal?: AbortSignal;
+}
+
+/** Statuses after which nothing more will happen */
+const FINAL_STATUSES: ApprovalStatus[] = ['executed', 'denied', 'expired', 'failed'];
+
+export class ApprovalManager {
+  private readonly store: ApprovalStore;
+  private readonly ttlMs: number;
+
+  constructor(private readonly options: ApprovalManagerOptions) {
+    this.store = options.store ?? new MemoryApprovalStore();
+    this.ttlMs = options.ttlMs ?? DEFAULT_APPROVAL_TTL_MS;
+  }
+
+  /**
+   * Check a payment against the session's policy, then execute it, park it
+   * for approval or refuse it
+   *
+   * @throws SpendingPolicyError when the policy denies the payment outright
+   */
+  async requestPayment(
+    sessionId: string,
+    request: SmartPaymentRequest,
+    options: RequestPaymentOptions = {}
+  ): Promise<RequestPaymentResult> {
+    const { policy } = this.options;
+    if (!policy) {
+      throw new Error('ApprovalManager.requestPayment needs a spending policy');
+    }
+
+    const decision = await policy.evaluate(sessionId, request);
+    if (decision.decision === 'deny') {
+      throw new SpendingPolicyError(decision);
+    }
+
+    if (decision.decision === 'allow') {
+      const idempotencyKey = options.idempotencyKey ?? generateIdempotencyKey();
+      const payment = await this.options.smart.execute(request, {
+        idempotencyKey,
+        ...(options.headers && { headers: options.headers }),
+      });
+      policy.recordSpend(sessionId, request.amount_usd);
+      return { status: 'executed', payment };
+    }
+
+    const created = await this.create(request, {
+      ...options,
+      sessionId,
+      reasons: decision.reasons,
+    });
+    const approval = (await this.store.get(created.id)) ?? created;
+
+    switch (approval.status) {
+      case 'executed':
+        if (approval.payment) {
+          return { status: 'executed', payment: approval.payment, approval };
+        }
+        return { status: 'pending_approval', approval };
+      case 'denied':
+      case 'expired':
+      case 'failed':
+        return { status: approval.status, approval };
+      default:
+        // Still pending, or approved with execution running elsewhere
+        return { status: 'pending_approval', approval };
+    }
+  }
+
+  /**
+   * Park a payment for approval without consulting the policy, and notify
+   */
+  async create(
+    request: SmartPaymentRequest,
+    options: CreateApprovalOptions = {}
+  ): Promise<PendingApproval> {
+    const now = Date.now();
+    const approval: PendingApproval = {
+      id: createApprovalId(),
+      status: 'pending',
+      request,
+      session_id: options.sessionId,
+      idempotency_key: options.idempotencyKey ?? generateIdempotencyKey(),
+      headers: options.headers,
+      reasons: options.reasons ?? [
+        { code: 'approval_required', message: 'This payment needs your approval' },
+      ],
+      created_at: new Date(now).toISOString(),
+      expires_at: new Date(now + this.ttlMs).toISOString(),
+    };
+
+    await this.save(approval);
+    await this.notify(approval);
+    return approval;
+  }
+
+  /**
+   * Look up an approval; a pending one past its expiry is marked expired
+   */
+  async get(id: string): Promise<PendingApproval | undefined> {
+    const approval = await this.store.get(id);
+    if (approval && this.isStale(approval)) {
+      return (await this.decide(approval, { status: 'expired' })) ?? this.store.get(id);
+    }
+    return approval;
+  }
+
+  async list(filter: { status?: ApprovalStatus } = {}): Promise<PendingApproval[]> {
+    await this.expireStale();
+    return this.store.list(filter);
+  }
+
+  /**
+   * Approve a pending payment and execute it
+   *
+   * @throws ApprovalError when the approval is missing, expired or already decided
+   * @throws The API error when execution fails (the approval is marked `failed`
+   *   and can be retried with `resume`)
+   */
+  async approve(
+    id: string,
+    options: { by?: string; note?: string } = {}
+  ): Promise<PendingApproval> {
+    const approval = await this.requirePending(id);
+    const approved = await this.decide(approval, {
+      status: 'approved',
+      decided_at: new Date().toISOString(),
+      decided_by: options.by,
+      note: options.note,
+    });
+    if (!approved) {
+      throw await this.decidedElsewhere(id);
+    }
+    return this.execute(approved);
+  }
+
+  /**
+   * Deny a pending payment
+   *
+   * @throws ApprovalError when the approval is missing, expired or already decided
+   */
+  async deny(
+    id: string,
+    options: { by?: string; reason?: string } = {}
+  ): Promise<PendingApproval> {
+    const approval = await this.requirePending(id);
+    const denied = await this.decide(approval, {
+      status: 'denied',
+      decided_at: new Date().toISOString(),
+      decided_by: options.by,
+      note: options.reason,
+    });
+    if (!denied) {
+      throw await this.decidedElsewhere(id);
+    }
+    return denied;
+  }
+
+  /**
+   * Retry execution of an approved payment whose execution failed (or whose
+   * process died mid-execution), reusing its idempotency key
+   *
+   * @throws ApprovalError unless the approval is `approved` or `failed`
+   */
+  async resume(id: string): Promise<PendingApproval> {
+    const approval = await this.store.get(id);
+    if (!approval) {
+      throw notFound(id);
+    }
+    if (approval.status !== 'approved' && approval.status !== 'failed') {
+      throw new ApprovalError(
+        id,
+        `Approval ${id} is ${approval.status}; only approved or failed payments can be resumed`,
+        ERROR_CODES.APPROVAL_NOT_PENDING
+      );
+    }
+    return this.execute(approval);
+  }
+
+  /**
+   * Wait until an approval reaches a final status (executed, denied,
+   * expired or failed)
+   */
+  async waitForDecision(
+    id: string,
+    options: WaitForDecisionOptions = {}
+  ): Promise<PendingApproval> {
+    const pollIntervalMs = options.pollIntervalMs ?? 1000;
+
+    for (;;) {
+      const approval = await this.get(id);
+      if (!approval) {
+        throw notFound(id);
+      }
+      if (FINAL_STATUSES.includes(approval.status) || options.signal?.aborted) {
+        return approval;
+      }
+      await sleep(pollIntervalMs, options.signal);
+    }
+  }
+
+  /**
+   * Mark every pending approval past its expiry as expired
+   *
+   * @returns The approvals that expired
+   */
+  async expireStale(): Promise<PendingApproval[]> {
+    const pending = await this.store.list({ status: 'pending' });
+    const expired: PendingApproval[] = [];
+    for (const approval of pending) {
+      if (!this.isStale(approval)) {
+        continue;
+      }
+      const next = await this.decide(approval, { status: 'expired' });
+      if (next) {
+        expired.push(next);
+      }
+    }
+    return expired;
+  }
+
+  private async execute(approval: PendingApproval): Promise<PendingApproval> {
+    try {
+      const payment = await this.options.smart.execute(approval.request, {
+        idempotencyKey: approval.idempotency_key,
+        ...(approval.headers && { headers: approval.headers }),
+      });
+      if (approval.session_id) {
+        this.options.policy?.recordSpend(approval.session_id, approval.request.amount_usd);
+      }
+      return await this.transition(approval, { status: 'executed', payment, error: undefined });
+    } catch (error) {
+      await this.transition(approval, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  private async requirePending(id: string): Promise<PendingApproval> {
+    const approval = await this.get(id);
+    if (!approval) {
+      throw notFound(id);
+    }
+    if (approval.status === 'expired') {
+      throw new ApprovalError(
+        id,
+        `Approval ${id} expired at ${approval.expires_at}`,
+        ERROR_CODES.APPROVAL_EXPIRED
+      );
+    }
+    if (approval.status !== 'pending') {
+      throw new ApprovalError(
+        id,
+        `Approval ${id} was already ${approval.status}`,
+        ERROR_CODES.APPROVAL_NOT_PENDING
+      );
+    }
+    return approval;
+  }
+
+  /**
+   * The error for an approval that changed between reading and deciding it
+   */
+  private async decidedElsewhere(id: string): Promise<ApprovalError> {
+    const current = await this.store.get(id);
+    return new ApprovalError(
+      id,
+      `Approval ${id} was already ${current?.status ?? 'removed'}`,
+      ERROR_CODES.APPROVAL_NOT_PENDING
+    );
+  }
+
+  private isStale(approval: PendingApproval): boolean {
+    return approval.status === 'pending' && new Date(approval.expires_at).getTime() <= Date.now();
+  }
+
+  private async transition(
+    approval: PendingApproval,
+    changes: Partial<PendingApproval>
+  ): Promise<PendingApproval> {
+    const next = { ...approval, ...changes };
+    await this.save(next);
+    return next;
+  }
+
+  /**
+   * Move a pending approval on, unless another caller decided (or expired)
+   * it since it was read
+   *
+   * @returns The updated approval, or `undefined` if it was no longer pending
+   */
+  private async decide(
+    approval: PendingApproval,
+    changes: Partial<PendingApproval>
+  ): Promise<PendingApproval | undefined> {
+    const next = { ...approval, ...changes };
+    if (!(await this.store.saveIfStatus(next, 'pending'))) {
+      return undefined;
+    }
+    await this.options.onStatusChange?.(next);
+    return next;
+  }
+
+  private async save(approval: PendingApproval): Promise<void> {
+    await this.store.save(approval);
+    await this.options.onStatusChange?.(approval);
+  }
+
+  private async notify(approval: PendingApproval): Promise<void> {
+    const notifiers = this.options.notifiers ?? [];
+    const actions: ApprovalActions = {
+      approve: (options) => this.approve(approval.id, options),
+      deny: (options) => this.deny(approval.id, options),
+    };
+
+    const results = await Promise.allSettled(
+      notifiers.map(async (notifier) => notifier.notify({ ...approval }, actions))
+    );
+    for (const result of results) {
+      if (result.status === 'rejected') {
+        const error =
+          result.reason instanceof Error ? result.reason : new Error(String(result.reason));
+        this.options.onNotifierError?.(error, approval);
+      }
+    }
+  }
+}
+
+function createApprovalId(): string {
+  return `appr_${Date.now().toString(36)}${Math.random().toString(36).substring(2, 10)}`;
+}
+
+function notFound(id: string): ApprovalError {
+  return new ApprovalError(id, `Approval ${id} not found`, ERROR_CODES.APPROVAL_NOT_FOUND);
+}
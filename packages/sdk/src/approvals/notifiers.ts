@@ -0,0 +1,169 @@
+/**
+ * Approval Notifiers
+ *
+ * Tell a person that a payment is waiting for them. Each notifier gets the
+ * pending approval plus `approve`/`deny` actions, so interactive notifiers
+ * (like the CLI prompt) can decide on the spot.
+ */
+
+import { generateWebhookSignatureHeaderAsync } from '../webhook-signature';
+import type { PendingApproval } from './store';
+
+export interface ApprovalActions {
+  approve(options?: { by?: string; note?: string }): Promise<PendingApproval>;
+  deny(options?: { by?: string; reason?: string }): Promise<PendingApproval>;
+}
+
+export interface ApprovalNotifier {
+  notify(approval: PendingApproval, actions: ApprovalActions): void | Promise<void>;
+}
+
+/**
+ * Wrap a plain function as a notifier
+ */
+export function callbackNotifier(
+  callback: (approval: PendingApproval, actions: ApprovalActions) => void | Promise<void>
+): ApprovalNotifier {
+  return { notify: callback };
+}
+
+/**
+ * One-line summary of an approval for messages and prompts
+ */
+export function describeApproval(approval: PendingApproval): string {
+  const { amount_usd, description, merchant_id, agent_id } = approval.request;
+  const target = description ?? (merchant_id ? `merchant ${merchant_id}` : 'a payment');
+  return `Agent ${agent_id} wants to pay $${amount_usd.toFixed(2)} for ${target}`;
+}
+
+// ============================================
+// Webhook
+// ============================================
+
+export interface WebhookApprovalNotifierOptions {
+  /** Endpoint that receives `approval.requested` events */
+  url: string;
+  /** Signs the body like ZendFi webhooks (`x-zendfi-signature`), when set */
+  secret?: string;
+  /** Fetch implementation (default: global `fetch`) */
+  fetch?: typeof fetch;
+}
+
+/**
+ * POST each approval as JSON, e.g. to a Slack workflow or an internal service
+ */
+export class WebhookApprovalNotifier implements ApprovalNotifier {
+  constructor(private readonly options: WebhookApprovalNotifierOptions) {}
+
+  async notify(approval: PendingApproval): Promise<void> {
+    const body = JSON.stringify({
+      event: 'approval.requested',
+      timestamp: new Date().toISOString(),
+      summary: describeApproval(approval),
+      data: approval,
+    });
+    const headers: Record<string, string> = { 'content-type': 'application/json' };
+    if (this.options.secret) {
+      headers['x-zendfi-signature'] = await generateWebhookSignatureHeaderAsync(
+        body,
+        this.options.secret
+      );
+    }
+
+    const fetchFn = this.options.fetch ?? fetch;
+    const response = await fetchFn(this.options.url, { method: 'POST', headers, body });
+    if (!response.ok) {
+      throw new Error(`Approval webhook returned ${response.status}`);
+    }
+  }
+}
+
+// ============================================
+// Email
+// ============================================
+
+export interface ApprovalEmail {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface EmailApprovalNotifierOptions {
+  to: string;
+  /** Sends the message through your provider (SES, Resend, SMTP...) */
+  send: (email: ApprovalEmail) => Promise<void>;
+  /** Builds a link to where the approval can be decided, e.g. your dashboard */
+  approvalUrl?: (approval: PendingApproval) => string;
+}
+
+/**
+ * Email the approver; delivery is left to the `send` function you provide
+ */
+export class EmailApprovalNotifier implements ApprovalNotifier {
+  constructor(private readonly options: EmailApprovalNotifierOptions) {}
+
+  async notify(approval: PendingApproval): Promise<void> {
+    const lines = [
+      `${describeApproval(approval)}.`,
+      '',
+      ...approval.reasons.map((reason) => `- ${reason.message}`),
+      '',
+      `Approval ID: ${approval.id}`,
+      `Expires: ${approval.expires_at}`,
+    ];
+    if (this.options.approvalUrl) {
+      lines.push('', `Review: ${this.options.approvalUrl(approval)}`);
+    }
+
+    await this.options.send({
+      to: this.options.to,
+      subject: `Approve $${approval.request.amount_usd.toFixed(2)} payment?`,
+      text: lines.join('\n'),
+    });
+  }
+}
+
+// ============================================
+// CLI prompt
+// ============================================
+
+export interface CliApprovalPromptOptions {
+  /** Default: `process.stdin` */
+  input?: NodeJS.ReadableStream;
+  /** Default: `process.stdout` */
+  output?: NodeJS.WritableStream;
+  /** Name recorded as `decided_by` (default: `cli`) */
+  by?: string;
+}
+
+/**
+ * Ask on the terminal and decide immediately (Node.js only); useful for
+ * local agents and demos
+ */
+export class CliApprovalPrompt implements ApprovalNotifier {
+  constructor(private readonly options: CliApprovalPromptOptions = {}) {}
+
+  async notify(approval: PendingApproval, actions: ApprovalActions): Promise<void> {
+    const { createInterface } = await import('readline');
+    const rl = createInterface({
+      input: this.options.input ?? process.stdin,
+      output: this.options.output ?? process.stdout,
+    });
+
+    const question = [
+      describeApproval(approval),
+      ...approval.reasons.map((reason) => `  - ${reason.message}`),
+      'Approve? [y/N] ',
+    ].join('\n');
+
+    const answer = await new Promise<string>((resolve) => rl.question(question, resolve));
+    rl.close();
+
+    const by = this.options.by ?? 'cli';
+    if (/^y(es)?$/i.test(answer.trim())) {
+      await actions.approve({ by });
+    } else {
+      await actions.deny({ by, reason: 'Declined at the prompt' });
+    }
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Approval Store
+ *
+ * Where pending approvals live between the agent pausing and a person
+ * deciding. The in-memory store suits a single process; implement
+ * `ApprovalStore` over your database when approvals are decided elsewhere
+ * (e.g. an admin dashboard).
+ */
+
+import type { SmartPaymentRequest, SmartPaymentResponse } from '../types';
+import type { SpendingReason } from '../spending-policy';
+
+export type ApprovalStatus = 'pending' | 'approved' | 'denied' | 'expired' | 'executed' | 'failed';
+
+export interface PendingApproval {
+  /** Approval ID (`appr_...`) */
+  id: string;
+  status: ApprovalStatus;
+  /** The payment waiting for approval */
+  request: SmartPaymentRequest;
+  /** Agent session the payment belongs to, when known */
+  session_id?: string;
+  /** Sent with `smart.execute` so a retried execution can't pay twice */
+  idempotency_key: string;
+  /** Extra headers sent with `smart.execute` (e.g. to authenticate as the session) */
+  headers?: Record<string, string>;
+  /** Why approval is needed */
+  reasons: SpendingReason[];
+  /** ISO 8601 timestamps */
+  created_at: string;
+  expires_at: string;
+  decided_at?: string;
+  /** Who approved or denied (free-form, e.g. an email) */
+  decided_by?: string;
+  /** Note from the approver, or the denial reason */
+  note?: string;
+  /** Result of the execution once approved */
+  payment?: SmartPaymentResponse;
+  /** Error message if the approved execution failed */
+  error?: string;
+}
+
+export interface ApprovalStore {
+  get(id: string): Promise<PendingApproval | undefined>;
+  save(approval: PendingApproval): Promise<void>;
+  /**
+   * Save only if the stored approval still has `expectedStatus`, as one
+   * atomic step (e.g. `UPDATE ... WHERE id = ? AND status = ?`). Decisions go
+   * through this, so two approvers can't both move the same approval on.
+   *
+   * @returns `false` when the approval is missing or its status has changed
+   */
+  saveIfStatus(approval: PendingApproval, expectedStatus: ApprovalStatus): Promise<boolean>;
+  list(filter?: { status?: ApprovalStatus }): Promise<PendingApproval[]>;
+}
+
+export class MemoryApprovalStore implements ApprovalStore {
+  private readonly approvals = new Map<string, PendingApproval>();
+
+  async get(id: string): Promise<PendingApproval | undefined> {
+    const approval = this.approvals.get(id);
+    return approval && { ...approval };
+  }
+
+  async save(approval: PendingApproval): Promise<void> {
+    this.approvals.set(approval.id, { ...approval });
+  }
+
+  async saveIfStatus(approval: PendingApproval, expectedStatus: ApprovalStatus): Promise<boolean> {
+    if (this.approvals.get(approval.id)?.status !== expectedStatus) {
+      return false;
+    }
+    this.approvals.set(approval.id, { ...approval });
+    return true;
+  }
+
+  async list(filter: { status?: ApprovalStatus } = {}): Promise<PendingApproval[]> {
+    return [...this.approvals.values()]
+      .filter((approval) => !filter.status || approval.status === filter.status)
+      .map((approval) => ({ ...approval }));
+  }
+}
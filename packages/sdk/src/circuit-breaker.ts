@@ -0,0 +1,247 @@
+/**
+ * Circuit Breaker & Retry Budget
+ *
+ * Stops a degraded API from being hammered by every caller at once. After
+ * `failureThreshold` consecutive failures an endpoint group opens and fails
+ * fast with `CircuitOpenError`; after `cooldownMs` a limited number of trial
+ * requests are let through (half-open) to probe recovery.
+ *
+ * @example
+ * ```typescript
+ * const zendfi = new ZendFiClient({
+ *   circuitBreaker: {
+ *     failureThreshold: 5,
+ *     cooldownMs: 30_000,
+ *     retryBudget: { maxRetries: 20, windowMs: 60_000 },
+ *   },
+ * });
+ *
+ * zendfi.interceptors.circuit.use((change) => {
+ *   metrics.gauge('zendfi.circuit', change.to === 'open' ? 1 : 0, { group: change.group });
+ * });
+ * ```
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * Emitted through `interceptors.circuit` whenever a group changes state
+ */
+export interface CircuitStateChange {
+  group: string;
+  from: CircuitState;
+  to: CircuitState;
+  /** Consecutive failures recorded when the change happened */
+  failures: number;
+  /** ISO 8601 timestamp */
+  at: string;
+}
+
+export interface RetryBudgetConfig {
+  /** Retries allowed across all requests within the window */
+  maxRetries: number;
+  /** Sliding window length in milliseconds */
+  windowMs: number;
+}
+
+export interface CircuitBreakerConfig {
+  /** Consecutive failures before the circuit opens (default: 5) */
+  failureThreshold?: number;
+  /** Time the circuit stays open before probing again, in milliseconds (default: 30000) */
+  cooldownMs?: number;
+  /** Trial requests allowed while half-open (default: 1) */
+  halfOpenMaxRequests?: number;
+  /** Map an endpoint to its group (default: first path segment after /api/v1) */
+  groupBy?: (endpoint: string) => string;
+  /** Cap on retries across the whole client, so retries can't amplify an outage */
+  retryBudget?: RetryBudgetConfig;
+}
+
+interface GroupState {
+  state: CircuitState;
+  failures: number;
+  openedAt: number;
+  halfOpenInFlight: number;
+}
+
+/**
+ * Default endpoint grouping: `/api/v1/ai/sessions/123` → `ai/sessions`,
+ * `/api/v1/payments/123` → `payments`
+ */
+export function defaultCircuitGroup(endpoint: string): string {
+  const path = endpoint.split('?')[0] || '';
+  const segments = path.replace(/^\/api\/v\d+\//, '').split('/').filter(Boolean);
+
+  if (segments[0] === 'ai' && segments[1]) {
+    return `ai/${segments[1]}`;
+  }
+
+  return segments[0] || 'root';
+}
+
+/**
+ * Sliding-window retry budget shared by every request of a client
+ */
+export class RetryBudget {
+  private timestamps: number[] = [];
+
+  constructor(private readonly config: RetryBudgetConfig) {}
+
+  /**
+   * Consume one retry if the budget allows it
+   */
+  tryAcquire(now = Date.now()): boolean {
+    const windowStart = now - this.config.windowMs;
+    this.timestamps = this.timestamps.filter((t) => t > windowStart);
+
+    if (this.timestamps.length >= this.config.maxRetries) {
+      return false;
+    }
+
+    this.timestamps.push(now);
+    return true;
+  }
+}
+
+/**
+ * Per-endpoint-group circuit breaker
+ */
+export class CircuitBreaker {
+  private readonly groups = new Map<string, GroupState>();
+  private readonly failureThreshold: number;
+  private readonly cooldownMs: number;
+  private readonly halfOpenMaxRequests: number;
+  private readonly groupBy: (endpoint: string) => string;
+  public readonly retryBudget?: RetryBudget;
+
+  constructor(
+    config: CircuitBreakerConfig,
+    private readonly onStateChange?: (change: CircuitStateChange) => void
+  ) {
+    this.failureThreshold = config.failureThreshold ?? 5;
+    this.cooldownMs = config.cooldownMs ?? 30000;
+    this.halfOpenMaxRequests = config.halfOpenMaxRequests ?? 1;
+    this.groupBy = config.groupBy ?? defaultCircuitGroup;
+    this.retryBudget = config.retryBudget ? new RetryBudget(config.retryBudget) : undefined;
+  }
+
+  /**
+   * Resolve the group for an endpoint
+   */
+  groupFor(endpoint: string): string {
+    return this.groupBy(endpoint);
+  }
+
+  /**
+   * Current state of a group
+   */
+  getState(group: string): CircuitState {
+    return this.groups.get(group)?.state ?? 'closed';
+  }
+
+  /**
+   * Check whether a request may proceed. Returns the remaining cooldown in
+   * milliseconds when the circuit is open, or `0` when the request is allowed.
+   */
+  acquire(group: string, now = Date.now()): number {
+    const entry = this.getGroup(group);
+
+    if (entry.state === 'open') {
+      const remaining = entry.openedAt + this.cooldownMs - now;
+      if (remaining > 0) {
+        return remaining;
+      }
+      this.transition(group, entry, 'half_open');
+    }
+
+    if (entry.state === 'half_open') {
+      if (entry.halfOpenInFlight >= this.halfOpenMaxRequests) {
+        return 1;
+      }
+      entry.halfOpenInFlight++;
+    }
+
+    return 0;
+  }
+
+  /**
+   * Record a successful response
+   */
+  recordSuccess(group: string): void {
+    const entry = this.getGroup(group);
+    entry.failures = 0;
+
+    if (entry.state === 'half_open') {
+      entry.halfOpenInFlight = Math.max(0, entry.halfOpenInFlight - 1);
+      this.transition(group, entry, 'closed');
+    }
+  }
+
+  /**
+   * Record a failure that indicates the API is unhealthy (5xx, timeouts, network errors)
+   */
+  recordFailure(group: string, now = Date.now()): void {
+    const entry = this.getGroup(group);
+    entry.failures++;
+
+    if (entry.state === 'half_open') {
+      entry.halfOpenInFlight = Math.max(0, entry.halfOpenInFlight - 1);
+      entry.openedAt = now;
+      this.transition(group, entry, 'open');
+      return;
+    }
+
+    if (entry.state === 'closed' && entry.failures >= this.failureThreshold) {
+      entry.openedAt = now;
+      this.transition(group, entry, 'open');
+    }
+  }
+
+  /**
+   * Release a half-open slot without judging health (e.g. a 4xx response)
+   */
+  recordNeutral(group: string): void {
+    const entry = this.getGroup(group);
+
+    if (entry.state === 'half_open') {
+      entry.halfOpenInFlight = Math.max(0, entry.halfOpenInFlight - 1);
+    }
+  }
+
+  /**
+   * Force every group back to closed
+   */
+  reset(): void {
+    for (const [group, entry] of this.groups) {
+      entry.failures = 0;
+      entry.halfOpenInFlight = 0;
+      this.transition(group, entry, 'closed');
+    }
+  }
+
+  private getGroup(group: string): GroupState {
+    let entry = this.groups.get(group);
+    if (!entry) {
+      entry = { state: 'closed', failures: 0, openedAt: 0, halfOpenInFlight: 0 };
+      this.groups.set(group, entry);
+    }
+    return entry;
+  }
+
+  private transition(group: string, entry: GroupState, to: CircuitState): void {
+    if (entry.state === to) {
+      return;
+    }
+
+    const from = entry.state;
+    entry.state = to;
+
+    this.onStateChange?.({
+      group,
+      from,
+      to,
+      failures: entry.failures,
+      at: new Date().toISOString(),
+    });
+  }
+}
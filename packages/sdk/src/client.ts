@@ -1,10 +1,10 @@
-import fetch from 'cross-fetch';
-import { createHmac, timingSafeEqual } from 'crypto';
 import type {
   ZendFiConfig,
+  AgentSession,
   CreatePaymentRequest,
   Payment,
   ListPaymentsRequest,
+  IteratePaymentsRequest,
   PaginatedResponse,
   CreateSubscriptionPlanRequest,
   SubscriptionPlan,
@@ -25,11 +25,72 @@ import type {
   Invoice,
   SmartPaymentRequest,
   SmartPaymentResponse,
+  RequestOptions,
 } from './types';
 import { ConfigLoader, generateIdempotencyKey, sleep } from './utils';
-import { createZendFiError, isZendFiError } from './errors';
+import {
+  createZendFiError,
+  isZendFiError,
+  RateLimitError,
+  CircuitOpenError,
+  NetworkError,
+  ResponseValidationError,
+  WebhookError,
+  ERROR_CODES,
+} from './errors';
+import { CircuitBreaker } from './circuit-breaker';
+import { SdkLogger, type LogFields } from './logger';
+import { Telemetry, instrumentApi, type RequestTrace } from './telemetry';
+import { findResponseRoute } from './schemas';
+import {
+  verifyWebhookHeader,
+  verifyWebhookHeaderAsync,
+  type WebhookVerification,
+} from './webhook-signature';
+import { getNodeCrypto, syncCryptoUnavailableMessage } from './crypto';
+import { ApiPromise, getRequestId, parseRateLimit, type ApiResponse } from './response';
+import { computeRetryDelay, parseRetryAfter, resolveRetryPolicy } from './retry';
 import { createInterceptors, type Interceptors, type RequestConfig, type ResponseData } from './interceptors';
 import { AgentAPI, PaymentIntentsAPI, PricingAPI, AutonomyAPI, SmartPaymentsAPI } from './api';
+import {
+  ZendFiAgentClient,
+  assertSessionToken,
+  type AgentSessionClientOptions,
+} from './agent-client';
+import {
+  DEFAULT_PAGE_SIZE,
+  offsetPaginator,
+  pageNumberPaginator,
+  singlePagePaginator,
+  type IterableResource,
+  type UnpagedIterateOptions,
+} from './pagination';
+
+/**
+ * Options used internally while retrying a request
+ */
+interface InternalRequestOptions extends RequestOptions {
+  attempt?: number;
+  trace?: RequestTrace;
+}
+
+/**
+ * Passed by `ZendFiClient.forSession` to build a client whose credential is
+ * a session token rather than an API key; not exported, so only the factory
+ * can skip the API key checks
+ */
+const SESSION_CREDENTIAL = Symbol('zendfi.sessionCredential');
+
+/**
+ * Error thrown when the caller's AbortSignal cancels a request
+ */
+function createAbortedError(): NetworkError {
+  return new NetworkError(
+    'Request aborted',
+    ERROR_CODES.REQUEST_ABORTED,
+    'The request was cancelled through its AbortSignal'
+  );
+}
 
 /**
  * ZendFi SDK Client.
@@ -37,6 +98,9 @@ import { AgentAPI, PaymentIntentsAPI, PricingAPI, AutonomyAPI, SmartPaymentsAPI
  */
 export class ZendFiClient {
   private config: Required<ZendFiConfig>;
+  private readonly circuitBreaker?: CircuitBreaker;
+  private readonly logger: SdkLogger;
+  private readonly telemetry?: Telemetry;
   public readonly interceptors: Interceptors;
 
   // ============================================
@@ -145,57 +209,224 @@ export class ZendFiClient {
    */
   public readonly smart: SmartPaymentsAPI;
 
-  constructor(options?: Partial<ZendFiConfig>) {
+  // ============================================
+  // Auto-Pagination
+  // ============================================
+
+  /**
+   * Iterate over all payments, fetching pages on demand
+   * 
+   * @example
+   * ```typescript
+   * for await (const payment of zendfi.payments.iterate({ status: 'confirmed' })) {
+   *   console.log(payment.id);
+   * }
+   * ```
+   */
+  public readonly payments: IterableResource<Payment, IteratePaymentsRequest>;
+
+  /**
+   * Iterate over all payment links (fetched in a single request; the
+   * endpoint isn't paginated, so there is no `pageSize`)
+   */
+  public readonly paymentLinks: IterableResource<PaymentLink, UnpagedIterateOptions>;
+
+  /**
+   * Iterate over all invoices (fetched in a single request; the endpoint
+   * isn't paginated, so there is no `pageSize`)
+   */
+  public readonly invoices: IterableResource<Invoice, UnpagedIterateOptions>;
+
+  /**
+   * Iterate over all escrows
+   * 
+   * @example
+   * ```typescript
+   * const escrows = await zendfi.escrows.iterate({ pageSize: 100 }).toArray({ max: 1000 });
+   * ```
+   */
+  public readonly escrows: IterableResource<Escrow>;
+
+  /**
+   * Iterate over all installment plans
+   */
+  public readonly installmentPlans: IterableResource<InstallmentPlan>;
+
+  constructor(options?: Partial<ZendFiConfig>, credential?: typeof SESSION_CREDENTIAL) {
+    const forSession = credential === SESSION_CREDENTIAL;
     this.config = ConfigLoader.load(options);
-    ConfigLoader.validateApiKey(this.config.apiKey);
+    if (!forSession) {
+      ConfigLoader.validateApiKey(this.config.apiKey);
+    }
+    this.logger = new SdkLogger(this.config.logger, this.config.logLevel, this.config.redact);
     this.interceptors = createInterceptors();
 
-    // Initialize namespaced APIs with bound request method
+    if (this.config.circuitBreaker) {
+      this.circuitBreaker = new CircuitBreaker(this.config.circuitBreaker, (change) =>
+        this.interceptors.circuit.emit(change)
+      );
+    }
+
+    if (this.config.telemetry) {
+      this.telemetry = new Telemetry(this.config.telemetry);
+    }
+
+    // Initialize namespaced APIs with bound request method; the listed methods call the API
+    // and run in operation spans when traced
     const boundRequest = this.request.bind(this);
-    this.agent = new AgentAPI(boundRequest);
-    this.intents = new PaymentIntentsAPI(boundRequest);
-    this.pricing = new PricingAPI(boundRequest);
-    this.autonomy = new AutonomyAPI(boundRequest);
-    this.smart = new SmartPaymentsAPI(boundRequest);
+    const instrument = <A extends object>(
+      api: A,
+      namespace: string,
+      methods: ReadonlyArray<keyof A & string>
+    ): A => (this.telemetry ? instrumentApi(api, namespace, this.telemetry, methods) : api);
+    this.agent = instrument(new AgentAPI(boundRequest), 'agent', [
+      'createKey',
+      'listKeys',
+      'revokeKey',
+      'createSession',
+      'listSessions',
+      'getSession',
+      'revokeSession',
+      'getAnalytics',
+    ]);
+    this.intents = instrument(new PaymentIntentsAPI(boundRequest), 'intents', [
+      'create',
+      'get',
+      'list',
+      'confirm',
+      'cancel',
+      'getEvents',
+    ]);
+    this.pricing = instrument(new PricingAPI(boundRequest), 'pricing', [
+      'getPPPFactor',
+      'listFactors',
+      'getSuggestion',
+      'calculateLocalPrice',
+    ]);
+    this.autonomy = instrument(new AutonomyAPI(boundRequest), 'autonomy', [
+      'enable',
+      'revoke',
+      'getStatus',
+    ]);
+    this.smart = instrument(new SmartPaymentsAPI(boundRequest), 'smart', [
+      'execute',
+      'submitSigned',
+    ]);
+
+    // Initialize paginated resource namespaces
+    this.payments = {
+      iterate: (params, options) => {
+        const { pageSize = DEFAULT_PAGE_SIZE, ...filters } = params || {};
+        return pageNumberPaginator(pageSize, (page, limit) =>
+          this.listPayments({ ...filters, page, limit }, options)
+        );
+      },
+    };
+    this.paymentLinks = {
+      iterate: (_params, options) => singlePagePaginator(() => this.listPaymentLinks(options)),
+    };
+    this.invoices = {
+      iterate: (_params, options) => singlePagePaginator(() => this.listInvoices(options)),
+    };
+    this.escrows = {
+      iterate: (params, options) =>
+        offsetPaginator(params?.pageSize || DEFAULT_PAGE_SIZE, (limit, offset) =>
+          this.listEscrows({ limit, offset }, options)
+        ),
+    };
+    this.installmentPlans = {
+      iterate: (params, options) =>
+        offsetPaginator(params?.pageSize || DEFAULT_PAGE_SIZE, (limit, offset) =>
+          this.listInstallmentPlans({ limit, offset }, options)
+        ),
+    };
     
-    // Log initialization info
-    if (this.config.environment === 'development' || this.config.debug) {
-      console.log(
-        `✓ ZendFi SDK initialized in ${this.config.mode} mode (${
-          this.config.mode === 'test' ? 'devnet' : 'mainnet'
-        })`
+    // Log initialization info. A session token doesn't say which network it
+    // is for, so a session client only reports one when given `mode`.
+    if (forSession && !options?.mode) {
+      this.logger.info(
+        { environment: this.config.environment },
+        '✓ ZendFi SDK initialized for an agent session'
+      );
+    } else {
+      const network = this.config.mode === 'test' ? 'devnet' : 'mainnet';
+      this.logger.info(
+        { mode: this.config.mode, network, environment: this.config.environment },
+        `✓ ZendFi SDK initialized in ${this.config.mode} mode (${network})`
       );
-      
-      if (this.config.debug) {
-        console.log('[ZendFi] Debug mode enabled');
-      }
     }
   }
 
+  /**
+   * A client that authenticates as an agent session rather than with this
+   * client's API key, for handing to the agent. It shares this client's
+   * transport, retries and interceptors.
+   *
+   * @example
+   * ```typescript
+   * const session = await zendfi.agent.createSession({ ... });
+   * const agent = zendfi.asSession(session);
+   * await agent.pay({ amount_usd: 20 });
+   * ```
+   */
+  asSession(
+    session: AgentSession | string,
+    options?: AgentSessionClientOptions
+  ): ZendFiAgentClient {
+    return new ZendFiAgentClient(this.request.bind(this), session, options);
+  }
+
+  /**
+   * A session-scoped client for agents that hold only a session token
+   * (`zai_session_...`) and no API key. The token doesn't say whether it is
+   * for test or live; pass `mode` if the client should report it.
+   *
+   * @example
+   * ```typescript
+   * const agent = ZendFiClient.forSession(process.env.ZENDFI_SESSION_TOKEN!, {
+   *   agentId: 'shopping-assistant',
+   *   userWallet: 'Hx7B...abc',
+   *   expiresAt: '2026-01-01T00:00:00Z',
+   *   mode: 'test',
+   * });
+   * ```
+   */
+  static forSession(
+    sessionToken: string,
+    options: AgentSessionClientOptions & Partial<Omit<ZendFiConfig, 'apiKey'>> = {}
+  ): ZendFiAgentClient {
+    const { sessionId, expiresAt, agentId, userWallet, ...config } = options;
+    assertSessionToken(sessionToken);
+
+    const client = new ZendFiClient({ ...config, apiKey: sessionToken }, SESSION_CREDENTIAL);
+    return client.asSession(sessionToken, { sessionId, expiresAt, agentId, userWallet });
+  }
+
   /**
    * Create a new payment
    */
-  async createPayment(request: CreatePaymentRequest): Promise<Payment> {
+  createPayment(request: CreatePaymentRequest, options?: RequestOptions): ApiPromise<Payment> {
     return this.request<Payment>('POST', '/api/v1/payments', {
       ...request,
       currency: request.currency || 'USD',
       token: request.token || 'USDC',
-    });
+    }, options);
   }
 
   /**
    * Get payment by ID
    */
-  async getPayment(paymentId: string): Promise<Payment> {
-    return this.request<Payment>('GET', `/api/v1/payments/${paymentId}`);
+  getPayment(paymentId: string, options?: RequestOptions): ApiPromise<Payment> {
+    return this.request<Payment>('GET', `/api/v1/payments/${paymentId}`, undefined, options);
   }
 
   /**
    * List all payments with pagination
    */
-  async listPayments(
-    request?: ListPaymentsRequest
-  ): Promise<PaginatedResponse<Payment>> {
+  listPayments(
+    request?: ListPaymentsRequest,
+    options?: RequestOptions
+  ): ApiPromise<PaginatedResponse<Payment>> {
     const params = new URLSearchParams();
 
     if (request?.page) params.append('page', request.page.toString());
@@ -206,145 +437,203 @@ export class ZendFiClient {
 
     const query = params.toString() ? `?${params.toString()}` : '';
 
-    return this.request<PaginatedResponse<Payment>>('GET', `/api/v1/payments${query}`);
+    return this.request<PaginatedResponse<Payment>>(
+      'GET',
+      `/api/v1/payments${query}`,
+      undefined,
+      options
+    );
   }
 
   /**
    * Create a subscription plan
    */
-  async createSubscriptionPlan(
-    request: CreateSubscriptionPlanRequest
-  ): Promise<SubscriptionPlan> {
+  createSubscriptionPlan(
+    request: CreateSubscriptionPlanRequest,
+    options?: RequestOptions
+  ): ApiPromise<SubscriptionPlan> {
     return this.request<SubscriptionPlan>('POST', '/api/v1/subscriptions/plans', {
       ...request,
       currency: request.currency || 'USD',
       interval_count: request.interval_count || 1,
       trial_days: request.trial_days || 0,
-    });
+    }, options);
   }
 
   /**
    * Get subscription plan by ID
    */
-  async getSubscriptionPlan(planId: string): Promise<SubscriptionPlan> {
-    return this.request<SubscriptionPlan>('GET', `/api/v1/subscriptions/plans/${planId}`);
+  getSubscriptionPlan(planId: string, options?: RequestOptions): ApiPromise<SubscriptionPlan> {
+    return this.request<SubscriptionPlan>(
+      'GET',
+      `/api/v1/subscriptions/plans/${planId}`,
+      undefined,
+      options
+    );
   }
 
   /**
    * Create a subscription
    */
-  async createSubscription(request: CreateSubscriptionRequest): Promise<Subscription> {
-    return this.request<Subscription>('POST', '/api/v1/subscriptions', request);
+  createSubscription(
+    request: CreateSubscriptionRequest,
+    options?: RequestOptions
+  ): ApiPromise<Subscription> {
+    return this.request<Subscription>('POST', '/api/v1/subscriptions', request, options);
   }
 
   /**
    * Get subscription by ID
    */
-  async getSubscription(subscriptionId: string): Promise<Subscription> {
-    return this.request<Subscription>('GET', `/api/v1/subscriptions/${subscriptionId}`);
+  getSubscription(subscriptionId: string, options?: RequestOptions): ApiPromise<Subscription> {
+    return this.request<Subscription>(
+      'GET',
+      `/api/v1/subscriptions/${subscriptionId}`,
+      undefined,
+      options
+    );
   }
 
   /**
    * Cancel a subscription
    */
-  async cancelSubscription(subscriptionId: string): Promise<Subscription> {
+  cancelSubscription(
+    subscriptionId: string,
+    options?: RequestOptions
+  ): ApiPromise<Subscription> {
     return this.request<Subscription>(
       'POST',
-      `/api/v1/subscriptions/${subscriptionId}/cancel`
+      `/api/v1/subscriptions/${subscriptionId}/cancel`,
+      undefined,
+      options
     );
   }
 
   /**
    * Create a payment link (shareable checkout URL)
    */
-  async createPaymentLink(request: CreatePaymentLinkRequest): Promise<PaymentLink> {
-    const response = await this.request<PaymentLink>('POST', '/api/v1/payment-links', {
+  createPaymentLink(
+    request: CreatePaymentLinkRequest,
+    options?: RequestOptions
+  ): ApiPromise<PaymentLink> {
+    return this.request<PaymentLink>('POST', '/api/v1/payment-links', {
       ...request,
       currency: request.currency || 'USD',
       token: request.token || 'USDC',
-    });
-    
-    return {
+    }, options).transform((response) => ({
       ...response,
       url: response.hosted_page_url,
-    };
+    }));
   }
 
   /**
    * Get payment link by link code
    */
-  async getPaymentLink(linkCode: string): Promise<PaymentLink> {
-    const response = await this.request<PaymentLink>('GET', `/api/v1/payment-links/${linkCode}`);
-    
-    return {
+  getPaymentLink(linkCode: string, options?: RequestOptions): ApiPromise<PaymentLink> {
+    return this.request<PaymentLink>(
+      'GET',
+      `/api/v1/payment-links/${linkCode}`,
+      undefined,
+      options
+    ).transform((response) => ({
       ...response,
       url: response.hosted_page_url,
-    };
+    }));
   }
 
   /**
    * List all payment links for the authenticated merchant
    */
-  async listPaymentLinks(): Promise<PaymentLink[]> {
-    const response = await this.request<PaymentLink[]>('GET', '/api/v1/payment-links');
-    return response.map(link => ({
+  listPaymentLinks(options?: RequestOptions): ApiPromise<PaymentLink[]> {
+    return this.request<PaymentLink[]>(
+      'GET',
+      '/api/v1/payment-links',
+      undefined,
+      options
+    ).transform((response) => response.map(link => ({
       ...link,
       url: link.hosted_page_url,
-    }));
+    })));
   }
 
   /**
    * Create an installment plan
    * Split a purchase into multiple scheduled payments
    */
-  async createInstallmentPlan(request: CreateInstallmentPlanRequest): Promise<InstallmentPlan> {
-    const response = await this.request<{ plan_id: string; status: string }>(
+  createInstallmentPlan(
+    request: CreateInstallmentPlanRequest,
+    options?: RequestOptions
+  ): ApiPromise<InstallmentPlan> {
+    return this.request<{ plan_id: string; status: string }>(
       'POST',
       '/api/v1/installment-plans',
-      request
-    );
-    return {
+      request,
+      options
+    ).transform((response) => ({
       id: response.plan_id,
       plan_id: response.plan_id,
       status: response.status,
-    } as InstallmentPlan;
+    }) as InstallmentPlan);
   }
 
   /**
    * Get installment plan by ID
    */
-  async getInstallmentPlan(planId: string): Promise<InstallmentPlan> {
-    return this.request<InstallmentPlan>('GET', `/api/v1/installment-plans/${planId}`);
+  getInstallmentPlan(planId: string, options?: RequestOptions): ApiPromise<InstallmentPlan> {
+    return this.request<InstallmentPlan>(
+      'GET',
+      `/api/v1/installment-plans/${planId}`,
+      undefined,
+      options
+    );
   }
 
   /**
    * List all installment plans for merchant
    */
-  async listInstallmentPlans(params?: { limit?: number; offset?: number }): Promise<InstallmentPlan[]> {
+  listInstallmentPlans(
+    params?: { limit?: number; offset?: number },
+    options?: RequestOptions
+  ): ApiPromise<InstallmentPlan[]> {
     const query = new URLSearchParams();
     if (params?.limit) query.append('limit', params.limit.toString());
     if (params?.offset) query.append('offset', params.offset.toString());
     const queryString = query.toString() ? `?${query.toString()}` : '';
-    return this.request<InstallmentPlan[]>('GET', `/api/v1/installment-plans${queryString}`);
+    return this.request<InstallmentPlan[]>(
+      'GET',
+      `/api/v1/installment-plans${queryString}`,
+      undefined,
+      options
+    );
   }
 
   /**
    * List installment plans for a specific customer
    */
-  async listCustomerInstallmentPlans(customerWallet: string): Promise<InstallmentPlan[]> {
+  listCustomerInstallmentPlans(
+    customerWallet: string,
+    options?: RequestOptions
+  ): ApiPromise<InstallmentPlan[]> {
     return this.request<InstallmentPlan[]>(
       'GET',
-      `/api/v1/customers/${customerWallet}/installment-plans`
+      `/api/v1/customers/${customerWallet}/installment-plans`,
+      undefined,
+      options
     );
   }
 
   /**
    * Cancel an installment plan
    */
-  async cancelInstallmentPlan(planId: string): Promise<{ message: string; plan_id: string }> {
+  cancelInstallmentPlan(
+    planId: string,
+    options?: RequestOptions
+  ): ApiPromise<{ message: string; plan_id: string }> {
     return this.request<{ message: string; plan_id: string }>(
       'POST',
-      `/api/v1/installment-plans/${planId}/cancel`
+      `/api/v1/installment-plans/${planId}/cancel`,
+      undefined,
+      options
     );
   }
 
@@ -352,104 +641,111 @@ export class ZendFiClient {
    * Create an escrow transaction
    * Hold funds until conditions are met
    */
-  async createEscrow(request: CreateEscrowRequest): Promise<Escrow> {
+  createEscrow(request: CreateEscrowRequest, options?: RequestOptions): ApiPromise<Escrow> {
     return this.request<Escrow>('POST', '/api/v1/escrows', {
       ...request,
       currency: request.currency || 'USD',
       token: request.token || 'USDC',
-    });
+    }, options);
   }
 
   /**
    * Get escrow by ID
    */
-  async getEscrow(escrowId: string): Promise<Escrow> {
-    return this.request<Escrow>('GET', `/api/v1/escrows/${escrowId}`);
+  getEscrow(escrowId: string, options?: RequestOptions): ApiPromise<Escrow> {
+    return this.request<Escrow>('GET', `/api/v1/escrows/${escrowId}`, undefined, options);
   }
 
   /**
    * List all escrows for merchant
    */
-  async listEscrows(params?: { limit?: number; offset?: number }): Promise<Escrow[]> {
+  listEscrows(
+    params?: { limit?: number; offset?: number },
+    options?: RequestOptions
+  ): ApiPromise<Escrow[]> {
     const query = new URLSearchParams();
     if (params?.limit) query.append('limit', params.limit.toString());
     if (params?.offset) query.append('offset', params.offset.toString());
     const queryString = query.toString() ? `?${query.toString()}` : '';
-    return this.request<Escrow[]>('GET', `/api/v1/escrows${queryString}`);
+    return this.request<Escrow[]>('GET', `/api/v1/escrows${queryString}`, undefined, options);
   }
 
   /**
    * Approve escrow release to seller
    */
-  async approveEscrow(
+  approveEscrow(
     escrowId: string,
-    request: ApproveEscrowRequest
-  ): Promise<{ status: string; transaction_signature?: string; message: string }> {
+    request: ApproveEscrowRequest,
+    options?: RequestOptions
+  ): ApiPromise<{ status: string; transaction_signature?: string; message: string }> {
     return this.request<{ status: string; transaction_signature?: string; message: string }>(
       'POST',
       `/api/v1/escrows/${escrowId}/approve`,
-      request
+      request,
+      options
     );
   }
 
   /**
    * Refund escrow to buyer
    */
-  async refundEscrow(
+  refundEscrow(
     escrowId: string,
-    request: RefundEscrowRequest
-  ): Promise<{ status: string; transaction_signature: string; message: string; reason: string }> {
+    request: RefundEscrowRequest,
+    options?: RequestOptions
+  ): ApiPromise<{ status: string; transaction_signature: string; message: string; reason: string }> {
     return this.request<{
       status: string;
       transaction_signature: string;
       message: string;
       reason: string;
-    }>('POST', `/api/v1/escrows/${escrowId}/refund`, request);
+    }>('POST', `/api/v1/escrows/${escrowId}/refund`, request, options);
   }
 
   /**
    * Raise a dispute for an escrow
    */
-  async disputeEscrow(
+  disputeEscrow(
     escrowId: string,
-    request: DisputeEscrowRequest
-  ): Promise<{ status: string; message: string; dispute_id: string; created_at: string }> {
+    request: DisputeEscrowRequest,
+    options?: RequestOptions
+  ): ApiPromise<{ status: string; message: string; dispute_id: string; created_at: string }> {
     return this.request<{
       status: string;
       message: string;
       dispute_id: string;
       created_at: string;
-    }>('POST', `/api/v1/escrows/${escrowId}/dispute`, request);
+    }>('POST', `/api/v1/escrows/${escrowId}/dispute`, request, options);
   }
 
   /**
    * Create an invoice
    */
-  async createInvoice(request: CreateInvoiceRequest): Promise<Invoice> {
+  createInvoice(request: CreateInvoiceRequest, options?: RequestOptions): ApiPromise<Invoice> {
     return this.request<Invoice>('POST', '/api/v1/invoices', {
       ...request,
       token: request.token || 'USDC',
-    });
+    }, options);
   }
 
   /**
    * Get invoice by ID
    */
-  async getInvoice(invoiceId: string): Promise<Invoice> {
-    return this.request<Invoice>('GET', `/api/v1/invoices/${invoiceId}`);
+  getInvoice(invoiceId: string, options?: RequestOptions): ApiPromise<Invoice> {
+    return this.request<Invoice>('GET', `/api/v1/invoices/${invoiceId}`, undefined, options);
   }
 
   /**
    * List all invoices for merchant
    */
-  async listInvoices(): Promise<Invoice[]> {
-    return this.request<Invoice[]>('GET', '/api/v1/invoices');
+  listInvoices(options?: RequestOptions): ApiPromise<Invoice[]> {
+    return this.request<Invoice[]>('GET', '/api/v1/invoices', undefined, options);
   }
 
   /**
    * Send invoice to customer via email
    */
-  async sendInvoice(invoiceId: string): Promise<{
+  sendInvoice(invoiceId: string, options?: RequestOptions): ApiPromise<{
     success: boolean;
     invoice_id: string;
     invoice_number: string;
@@ -464,7 +760,7 @@ export class ZendFiClient {
       sent_to: string;
       payment_url: string;
       status: string;
-    }>('POST', `/api/v1/invoices/${invoiceId}/send`);
+    }>('POST', `/api/v1/invoices/${invoiceId}/send`, undefined, options);
   }
 
   // ============================================
@@ -503,8 +799,11 @@ export class ZendFiClient {
    * }
    * ```
    */
-  async smartPayment(request: SmartPaymentRequest): Promise<SmartPaymentResponse> {
-    return this.smart.execute(request);
+  smartPayment(
+    request: SmartPaymentRequest,
+    options?: RequestOptions
+  ): ApiPromise<SmartPaymentResponse> {
+    return this.smart.execute(request, options);
   }
 
   /**
@@ -514,18 +813,24 @@ export class ZendFiClient {
    * @param signedTransaction - Base64 encoded signed transaction
    * @returns Updated payment response
    */
-  async submitSignedPayment(
+  submitSignedPayment(
     paymentId: string,
-    signedTransaction: string
-  ): Promise<SmartPaymentResponse> {
-    return this.smart.submitSigned(paymentId, signedTransaction);
+    signedTransaction: string,
+    options?: RequestOptions
+  ): ApiPromise<SmartPaymentResponse> {
+    return this.smart.submitSigned(paymentId, signedTransaction, options);
   }
 
   /**
    * Verify webhook signature using HMAC-SHA256
    * 
+   * Timestamped signatures (`t=...,v1=...`) are also checked against
+   * `toleranceSeconds` (default: 300) to reject replayed deliveries.
+   * 
    * @param request - Webhook verification request containing payload, signature, and secret
-   * @returns true if signature is valid, false otherwise
+   * @returns true if signature is valid (and recent), false otherwise
+   * @throws When Node's `crypto` module isn't loaded (edge runtimes, ES modules
+   *   on Node before 20.16); use `verifyWebhookAsync` there
    * 
    * @example
    * ```typescript
@@ -541,108 +846,208 @@ export class ZendFiClient {
    * ```
    */
   verifyWebhook(request: VerifyWebhookRequest): boolean {
+    const payloadString = this.webhookPayloadString(request);
+    if (payloadString === undefined) {
+      return false;
+    }
+
+    if (!getNodeCrypto()) {
+      throw new Error(syncCryptoUnavailableMessage('verifyWebhook', 'verifyWebhookAsync'));
+    }
+
     try {
-      if (!request.payload || !request.signature || !request.secret) {
-        return false;
-      }
+      return this.onWebhookVerified(
+        verifyWebhookHeader(payloadString, request.signature, request.secret, request)
+      );
+    } catch (err) {
+      return this.onWebhookVerificationError(err);
+    }
+  }
 
-      let payloadString: string;
-      let parsedPayload: WebhookPayload | null = null;
+  /**
+   * Async `verifyWebhook` that also runs on Vercel Edge, Cloudflare Workers
+   * and Deno, using Web Crypto when Node's `crypto` module is unavailable
+   *
+   * @example
+   * ```typescript
+   * const isValid = await zendfi.verifyWebhookAsync({
+   *   payload: await request.text(),
+   *   signature: request.headers.get('x-zendfi-signature')!,
+   *   secret: env.ZENDFI_WEBHOOK_SECRET,
+   * });
+   * ```
+   */
+  async verifyWebhookAsync(request: VerifyWebhookRequest): Promise<boolean> {
+    const payloadString = this.webhookPayloadString(request);
+    if (payloadString === undefined) {
+      return false;
+    }
 
-      if (typeof request.payload === 'string') {
-        payloadString = request.payload;
-        try {
-          parsedPayload = JSON.parse(payloadString) as WebhookPayload;
-        } catch (e) {
-          return false;
-        }
-      } else if (typeof request.payload === 'object') {
-        parsedPayload = request.payload as WebhookPayload;
-        try {
-          payloadString = JSON.stringify(request.payload);
-        } catch (e) {
-          return false;
-        }
-      } else {
-        return false;
-      }
+    try {
+      return this.onWebhookVerified(
+        await verifyWebhookHeaderAsync(payloadString, request.signature, request.secret, request)
+      );
+    } catch (err) {
+      return this.onWebhookVerificationError(err);
+    }
+  }
 
-      if (!parsedPayload || !parsedPayload.event || !parsedPayload.merchant_id || !parsedPayload.timestamp) {
-        return false;
-      }
+  /**
+   * The body to verify, or `undefined` when the request can't be valid
+   */
+  private webhookPayloadString(request: VerifyWebhookRequest): string | undefined {
+    if (!request.payload || !request.signature || !request.secret) {
+      return undefined;
+    }
 
-      const computedSignature = this.computeHmacSignature(payloadString, request.secret);
+    let payloadString: string;
+    let parsedPayload: WebhookPayload | null = null;
 
-      return this.timingSafeEqual(request.signature, computedSignature);
-    } catch (err) {
-      // In dev, print concise error message (avoid dumping large objects)
-      const error = err as Error | undefined;
-      if (this.config.environment === 'development') {
-        // eslint-disable-next-line no-console
-        console.error('Webhook verification error:', error?.message || String(error));
+    if (typeof request.payload === 'string') {
+      payloadString = request.payload;
+      try {
+        parsedPayload = JSON.parse(payloadString) as WebhookPayload;
+      } catch (e) {
+        return undefined;
+      }
+    } else if (typeof request.payload === 'object') {
+      parsedPayload = request.payload as WebhookPayload;
+      try {
+        payloadString = JSON.stringify(request.payload);
+      } catch (e) {
+        return undefined;
       }
+    } else {
+      return undefined;
+    }
+
+    if (!parsedPayload || !parsedPayload.event || !parsedPayload.merchant_id || !parsedPayload.timestamp) {
+      return undefined;
+    }
+
+    return payloadString;
+  }
+
+  private onWebhookVerified({ secretIndex }: WebhookVerification): boolean {
+    if (secretIndex > 0) {
+      this.logger.warn({ secretIndex }, 'Webhook verified with a deprecated secret');
+    }
+    return true;
+  }
+
+  private onWebhookVerificationError(err: unknown): boolean {
+    if (err instanceof WebhookError) {
+      this.logger.debug({ code: err.code }, err.message);
       return false;
     }
+
+    // Log a concise error message (avoid dumping large objects)
+    const error = err as Error | undefined;
+    this.logger.warn({ error: error?.message || String(error) }, 'Webhook verification error');
+    return false;
   }
 
   /**
-   * Compute HMAC-SHA256 signature
-   * Works in both Node.js and browser environments
+   * Consume one retry from the circuit breaker's retry budget (if configured)
    */
-  private computeHmacSignature(payload: string, secret: string): string {
-    if (typeof process !== 'undefined' && process.versions?.node) {
-      return createHmac('sha256', secret)
-        .update(payload, 'utf8')
-        .digest('hex');
+  private acquireRetry(logFields: LogFields): boolean {
+    const budget = this.circuitBreaker?.retryBudget;
+    if (budget && !budget.tryAcquire()) {
+      this.logger.warn(logFields, 'Retry budget exhausted, not retrying');
+      return false;
     }
-
-    throw new Error(
-      'Webhook verification in browser is not supported. Use this method in your backend/server environment.'
-    );
+    return true;
   }
 
   /**
-   * Timing-safe string comparison to prevent timing attacks
+   * Check a response body against the schema registered for its endpoint
    */
-  private timingSafeEqual(a: string, b: string): boolean {
-    if (a.length !== b.length) {
-      return false;
+  private validateResponse(
+    method: string,
+    endpoint: string,
+    body: unknown,
+    mode = this.config.validation,
+    requestId?: string
+  ): void {
+    if (mode === 'off') {
+      return;
     }
 
-    if (typeof process !== 'undefined' && process.versions?.node) {
-      try {
-        const bufferA = Buffer.from(a, 'utf8');
-        const bufferB = Buffer.from(b, 'utf8');
-        return timingSafeEqual(bufferA, bufferB);
-      } catch {
-        // Fall back to manual comparison
-      }
+    const route = findResponseRoute(method, endpoint);
+    if (!route) {
+      return;
     }
 
-    let result = 0;
-    for (let i = 0; i < a.length; i++) {
-      result |= a.charCodeAt(i) ^ b.charCodeAt(i);
+    const issues = route.schema.validate(body);
+    if (issues.length === 0) {
+      return;
     }
-    return result === 0;
+
+    const error = new ResponseValidationError(method, route.pattern, issues);
+    error.requestId = requestId;
+
+    if (mode === 'strict') {
+      throw error;
+    }
+
+    this.logger.warn(
+      { method, endpoint: route.pattern, requestId, issues },
+      'Response failed schema validation'
+    );
+  }
+
+  /**
+   * Make an HTTP request; the returned promise also exposes the raw response
+   */
+  private request<T>(
+    method: string,
+    endpoint: string,
+    data?: any,
+    options?: RequestOptions
+  ): ApiPromise<T> {
+    if (this.telemetry) {
+      return new ApiPromise<T>(
+        this.telemetry.traceRequest<T>(method, endpoint, (trace) =>
+          this.performRequest<T>(method, endpoint, data, { ...options, trace })
+        )
+      );
+    }
+
+    return new ApiPromise<T>(this.performRequest<T>(method, endpoint, data, options));
   }
 
   /**
-   * Make an HTTP request with retry logic, interceptors, and debug logging
+   * Execute an HTTP request with retry logic, interceptors, and debug logging
    */
-  private async request<T>(
+  private async performRequest<T>(
     method: string,
     endpoint: string,
     data?: any,
-    options: { idempotencyKey?: string; attempt?: number } = {}
-  ): Promise<T> {
+    options: InternalRequestOptions = {}
+  ): Promise<ApiResponse<T>> {
     const attempt = options.attempt || 1;
     const idempotencyKey =
       options.idempotencyKey ||
       (this.config.idempotencyEnabled && method !== 'GET' ? generateIdempotencyKey() : undefined);
+    const retryPolicy =
+      options.retry === false
+        ? resolveRetryPolicy(this.config.retryPolicy, { maxAttempts: 1 })
+        : resolveRetryPolicy(this.config.retryPolicy, options.retry);
+    const timeout = options.timeout ?? this.config.timeout;
+
+    if (attempt === 1) {
+      options.trace?.setIdempotencyKey(idempotencyKey);
+    }
 
     const startTime = Date.now();
+    const circuitGroup = this.circuitBreaker?.groupFor(endpoint);
+    const logFields = { method, endpoint, attempt };
 
     try {
+      if (options.signal?.aborted) {
+        throw createAbortedError();
+      }
+
       const url = `${this.config.baseURL}${endpoint}`;
 
       const headers: Record<string, string> = {
@@ -654,6 +1059,10 @@ export class ZendFiClient {
         headers['Idempotency-Key'] = idempotencyKey;
       }
 
+      if (options.headers) {
+        Object.assign(headers, options.headers);
+      }
+
       // Build request config
       let requestConfig: RequestConfig = {
         method,
@@ -667,58 +1076,113 @@ export class ZendFiClient {
         requestConfig = await this.interceptors.request.execute(requestConfig);
       }
 
-      // Debug logging - request
-      if (this.config.debug) {
-        console.log(`[ZendFi] ${method} ${endpoint}`);
-        if (data) {
-          console.log('[ZendFi] Request:', JSON.stringify(data, null, 2));
+      // Fail fast while the endpoint group's circuit is open. Acquired right before
+      // the transport call: a half-open slot taken here is always released below.
+      if (this.circuitBreaker && circuitGroup) {
+        const waitMs = this.circuitBreaker.acquire(circuitGroup);
+        if (waitMs > 0) {
+          throw new CircuitOpenError(circuitGroup, waitMs);
         }
       }
 
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), this.config.timeout);
+      this.logger.debug({ ...logFields, idempotencyKey, body: data }, 'Sending request');
 
-      const response = await fetch(requestConfig.url, {
-        method: requestConfig.method,
-        headers: requestConfig.headers,
-        body: requestConfig.body ? JSON.stringify(requestConfig.body) : undefined,
-        signal: controller.signal,
-      });
+      // Abort on timeout or when the caller's signal fires
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), timeout);
+      const onCallerAbort = () => controller.abort();
+      options.signal?.addEventListener('abort', onCallerAbort, { once: true });
 
-      clearTimeout(timeoutId);
+      let response;
+      try {
+        response = await this.config.transport.request({
+          method: requestConfig.method,
+          url: requestConfig.url,
+          headers: requestConfig.headers,
+          body: requestConfig.body ? JSON.stringify(requestConfig.body) : undefined,
+          signal: controller.signal,
+        });
+      } catch (transportError: any) {
+        if (this.circuitBreaker && circuitGroup) {
+          // A caller cancelling says nothing about the API's health
+          if (options.signal?.aborted) {
+            this.circuitBreaker.recordNeutral(circuitGroup);
+          } else {
+            this.circuitBreaker.recordFailure(circuitGroup);
+          }
+        }
+        // Timeouts are surfaced as-is; anything else failed before a response arrived
+        if (transportError?.name !== 'AbortError') {
+          transportError.isTransportError = true;
+        }
+        throw transportError;
+      } finally {
+        clearTimeout(timeoutId);
+        options.signal?.removeEventListener('abort', onCallerAbort);
+      }
 
       let body: any;
       try {
-        body = await response.json();
+        body = response.body ? JSON.parse(response.body) : null;
       } catch {
         body = null;
       }
 
-      const duration = Date.now() - startTime;
-
-      if (!response.ok) {
-        // Create proper error
-        const error = createZendFiError(response.status, body);
+      const durationMs = Date.now() - startTime;
+      const requestId = getRequestId(response.headers);
 
-        // Debug logging - error
-        if (this.config.debug) {
-          console.error(`[ZendFi] ❌ ${response.status} ${response.statusText} (${duration}ms)`);
-          console.error(`[ZendFi] Error:`, error.toString());
+      if (this.circuitBreaker && circuitGroup) {
+        if (response.status >= 500) {
+          this.circuitBreaker.recordFailure(circuitGroup);
+        } else if (response.status >= 200 && response.status < 300) {
+          this.circuitBreaker.recordSuccess(circuitGroup);
+        } else {
+          this.circuitBreaker.recordNeutral(circuitGroup);
         }
+      }
 
-        // Retry logic for 5xx errors
-        if (response.status >= 500 && attempt < this.config.retries) {
-          const delay = Math.pow(2, attempt) * 1000; // Exponential backoff
-          
-          if (this.config.debug) {
-            console.log(`[ZendFi] Retrying in ${delay}ms... (attempt ${attempt + 1}/${this.config.retries})`);
+      if (response.status < 200 || response.status >= 300) {
+        // Create proper error
+        const error = createZendFiError(response.status, body, undefined, requestId);
+
+        this.logger.warn(
+          { ...logFields, status: response.status, durationMs, requestId, code: error.code },
+          'Request failed'
+        );
+
+        // Retry retryable statuses with backoff (honoring Retry-After on 429/503)
+        if (
+          retryPolicy.retryableStatuses.includes(response.status) &&
+          attempt < retryPolicy.maxAttempts
+        ) {
+          const retryAfterMs =
+            response.status === 429 || response.status === 503
+              ? parseRetryAfter(
+                  response.headers['retry-after'] ??
+                    (error instanceof RateLimitError ? error.retryAfter : undefined)
+                )
+              : undefined;
+          const delay = computeRetryDelay(retryPolicy, attempt, retryAfterMs);
+
+          if (delay !== null && this.acquireRetry(logFields)) {
+            this.logger.info(
+              { ...logFields, status: response.status, delayMs: delay, maxAttempts: retryPolicy.maxAttempts },
+              'Retrying request'
+            );
+            options.trace?.recordRetry({
+              attempt: attempt + 1,
+              delayMs: delay,
+              status: response.status,
+              reason: 'status',
+            });
+
+            await sleep(delay, options.signal);
+            return this.performRequest<T>(method, endpoint, data, {
+              ...options,
+              idempotencyKey,
+              attempt: attempt + 1,
+            });
           }
-          
-          await sleep(delay);
-          return this.request<T>(method, endpoint, data, {
-            idempotencyKey,
-            attempt: attempt + 1,
-          });
         }
 
         // Run error interceptors
@@ -730,24 +1194,18 @@ export class ZendFiClient {
         throw error;
       }
 
-      // Debug logging - success
-      if (this.config.debug) {
-        console.log(`[ZendFi] ✓ ${response.status} ${response.statusText} (${duration}ms)`);
-        if (body) {
-          console.log('[ZendFi] Response:', JSON.stringify(body, null, 2));
-        }
-      }
+      this.logger.debug(
+        { ...logFields, status: response.status, durationMs, requestId, body },
+        'Request succeeded'
+      );
+
+      this.validateResponse(method, endpoint, body, options.validation, requestId);
 
       // Build response data
-      const headersObj: Record<string, string> = {};
-      response.headers.forEach((value, key) => {
-        headersObj[key] = value;
-      });
-      
       let responseData: ResponseData = {
         status: response.status,
         statusText: response.statusText,
-        headers: headersObj,
+        headers: response.headers,
         data: body,
         config: requestConfig,
       };
@@ -757,29 +1215,45 @@ export class ZendFiClient {
         responseData = await this.interceptors.response.execute(responseData);
       }
 
-      return responseData.data as T;
+      return {
+        data: responseData.data as T,
+        status: responseData.status,
+        headers: responseData.headers,
+        requestId: getRequestId(responseData.headers),
+        rateLimit: parseRateLimit(responseData.headers),
+      };
     } catch (error: any) {
-      // Handle timeout
+      // Handle cancellation and timeout
       if (error.name === 'AbortError') {
-        const timeoutError = createZendFiError(0, {}, `Request timeout after ${this.config.timeout}ms`);
-        
-        if (this.config.debug) {
-          console.error(`[ZendFi] ❌ Timeout (${this.config.timeout}ms)`);
+        if (options.signal?.aborted) {
+          throw createAbortedError();
         }
+
+        const timeoutError = createZendFiError(0, {}, `Request timeout after ${timeout}ms`);
+
+        this.logger.warn({ ...logFields, timeoutMs: timeout }, 'Request timed out');
         
         throw timeoutError;
       }
 
       // Handle network errors with retry
-      if (attempt < this.config.retries && (error.message?.includes('fetch') || error.message?.includes('network'))) {
-        const delay = Math.pow(2, attempt) * 1000;
+      if (
+        error.isTransportError &&
+        retryPolicy.retryOnNetworkError &&
+        attempt < retryPolicy.maxAttempts &&
+        this.acquireRetry(logFields)
+      ) {
+        const delay = computeRetryDelay(retryPolicy, attempt) ?? 0;
+
+        this.logger.info(
+          { ...logFields, delayMs: delay, maxAttempts: retryPolicy.maxAttempts, error: error.message },
+          'Network error, retrying request'
+        );
+        options.trace?.recordRetry({ attempt: attempt + 1, delayMs: delay, reason: 'network_error' });
         
-        if (this.config.debug) {
-          console.log(`[ZendFi] Network error, retrying in ${delay}ms... (attempt ${attempt + 1}/${this.config.retries})`);
-        }
-        
-        await sleep(delay);
-        return this.request<T>(method, endpoint, data, {
+        await sleep(delay, options.signal);
+        return this.performRequest<T>(method, endpoint, data, {
+          ...options,
           idempotencyKey,
           attempt: attempt + 1,
         });
@@ -792,10 +1266,8 @@ export class ZendFiClient {
 
       // Wrap unknown errors
       const wrappedError = createZendFiError(0, {}, error.message || 'An unknown error occurred');
-      
-      if (this.config.debug) {
-        console.error(`[ZendFi] ❌ Unexpected error:`, error);
-      }
+
+      this.logger.error({ ...logFields, error: error.message }, 'Unexpected error');
       
       throw wrappedError;
     }
@@ -0,0 +1,196 @@
+/**
+ * Runtime Crypto
+ *
+ * HMAC-SHA256 that works on Node.js and on runtimes that only have Web
+ * Crypto (Vercel Edge, Cloudflare Workers, Deno, browsers). Node's `crypto`
+ * module is looked up at runtime rather than statically imported, so
+ * bundling for an edge runtime doesn't pull it in.
+ *
+ * @example
+ * ```typescript
+ * import { hmacSha256Hex, constantTimeEqual } from '@zendfi/sdk';
+ *
+ * const expected = await hmacSha256Hex(secret, `${timestamp}.${body}`);
+ * const valid = constantTimeEqual(signature, expected);
+ * ```
+ */
+
+/** The parts of Node's `crypto` module the SDK uses */
+interface NodeCryptoLike {
+  createHmac(
+    algorithm: string,
+    key: string
+  ): { update(data: string, encoding: 'utf8'): { digest(encoding: 'hex'): string } };
+  randomUUID(): string;
+}
+
+/** `undefined` until looked up, `null` when it couldn't be loaded synchronously */
+let nodeCrypto: NodeCryptoLike | null | undefined;
+let nodeCryptoImport: Promise<NodeCryptoLike | undefined> | undefined;
+
+/**
+ * Node's `crypto` module, or `undefined` outside Node.js (or in ES modules on
+ * older Node versions until `loadNodeCrypto` has imported it)
+ */
+export function getNodeCrypto(): NodeCryptoLike | undefined {
+  if (nodeCrypto === undefined) {
+    nodeCrypto = requireNodeCrypto() ?? null;
+  }
+  return nodeCrypto ?? undefined;
+}
+
+/**
+ * Node's `crypto` module, importing it on first use if it can't be loaded
+ * synchronously. ES modules on Node 18 (and 20 before 20.16) have neither
+ * `getBuiltinModule` nor `require`, so await this before using the
+ * synchronous API there.
+ */
+export function loadNodeCrypto(): Promise<NodeCryptoLike | undefined> {
+  const loaded = getNodeCrypto();
+  if (loaded || !isNode()) {
+    return Promise.resolve(loaded);
+  }
+
+  nodeCryptoImport ??= importNodeCrypto().then((crypto) => {
+    if (crypto) {
+      nodeCrypto = crypto;
+    }
+    return crypto;
+  });
+  return nodeCryptoImport;
+}
+
+function isNode(): boolean {
+  const proc = (globalThis as { process?: any }).process;
+  return Boolean(proc?.versions?.node);
+}
+
+function requireNodeCrypto(): NodeCryptoLike | undefined {
+  if (!isNode()) {
+    return undefined;
+  }
+
+  try {
+    // Node 20.16+ / 22.3+, available to both CommonJS and ES modules
+    const proc = (globalThis as { process?: any }).process;
+    if (typeof proc.getBuiltinModule === 'function') {
+      return proc.getBuiltinModule('crypto') as NodeCryptoLike;
+    }
+    return typeof require === 'function' ? (require('crypto') as NodeCryptoLike) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+async function importNodeCrypto(): Promise<NodeCryptoLike | undefined> {
+  // Not a literal, so bundlers for edge runtimes don't try to resolve it
+  const specifier = 'node:crypto';
+  try {
+    return (await import(specifier)) as NodeCryptoLike;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Which implementation `hmacSha256Hex` uses in this runtime
+ */
+export function getCryptoRuntime(): 'node' | 'webcrypto' | 'none' {
+  if (getNodeCrypto()) {
+    return 'node';
+  }
+  return globalThis.crypto?.subtle ? 'webcrypto' : 'none';
+}
+
+/**
+ * Hex HMAC-SHA256, synchronously
+ *
+ * @throws When Node's `crypto` module isn't loaded; use `hmacSha256Hex` there
+ */
+export function hmacSha256HexSync(secret: string, content: string): string {
+  const crypto = getNodeCrypto();
+  if (!crypto) {
+    throw new Error(syncCryptoUnavailableMessage('Synchronous HMAC', 'the async API'));
+  }
+  return crypto.createHmac('sha256', secret).update(content, 'utf8').digest('hex');
+}
+
+/**
+ * Why a synchronous API can't run here, and what to use instead
+ */
+export function syncCryptoUnavailableMessage(api: string, alternative: string): string {
+  if (isNode()) {
+    return `${api} requires Node.js crypto, which ES modules on this Node version can't load ` +
+      `synchronously; use ${alternative} or \`await loadNodeCrypto()\` first`;
+  }
+  return `${api} requires Node.js crypto; use ${alternative} in edge runtimes`;
+}
+
+/**
+ * Hex HMAC-SHA256, using Node's `crypto` when present and Web Crypto otherwise
+ */
+export async function hmacSha256Hex(secret: string, content: string): Promise<string> {
+  if (await loadNodeCrypto()) {
+    return hmacSha256HexSync(secret, content);
+  }
+  return webCryptoHmacSha256Hex(secret, content);
+}
+
+/**
+ * Hex HMAC-SHA256 via `crypto.subtle`
+ */
+export async function webCryptoHmacSha256Hex(secret: string, content: string): Promise<string> {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) {
+    throw new Error('No crypto implementation available (need Node.js crypto or Web Crypto)');
+  }
+
+  const encoder = new TextEncoder();
+  const key = await subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = new Uint8Array(await subtle.sign('HMAC', key, encoder.encode(content)));
+
+  let hex = '';
+  for (const byte of signature) {
+    hex += byte.toString(16).padStart(2, '0');
+  }
+  return hex;
+}
+
+/**
+ * Random v4 UUID from Web Crypto, falling back to Node's `crypto`
+ *
+ * @throws When neither is available
+ */
+export function randomUUID(): string {
+  const webCrypto = globalThis.crypto;
+  if (typeof webCrypto?.randomUUID === 'function') {
+    return webCrypto.randomUUID();
+  }
+
+  const crypto = getNodeCrypto();
+  if (!crypto) {
+    throw new Error('No crypto implementation available (need Node.js crypto or Web Crypto)');
+  }
+  return crypto.randomUUID();
+}
+
+/**
+ * Compare two strings in time that depends only on their length
+ */
+export function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
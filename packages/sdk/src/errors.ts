@@ -4,6 +4,9 @@
  * Custom error types with helpful messages, error codes, and documentation links
  */
 
+import type { ValidationIssue } from './validation';
+import type { SpendingPolicyDecision } from './spending-policy';
+
 export type ZendFiErrorType =
   | 'authentication_error'
   | 'payment_error'
@@ -12,6 +15,8 @@ export type ZendFiErrorType =
   | 'rate_limit_error'
   | 'api_error'
   | 'webhook_error'
+  | 'circuit_open_error'
+  | 'policy_error'
   | 'unknown_error';
 
 export interface ZendFiErrorData {
@@ -21,6 +26,7 @@ export interface ZendFiErrorData {
   suggestion?: string;
   statusCode?: number;
   response?: unknown;
+  requestId?: string;
 }
 
 /**
@@ -33,6 +39,8 @@ export class ZendFiError extends Error {
   public readonly docs_url: string;
   public readonly statusCode?: number;
   public readonly response?: unknown;
+  /** ZendFi request ID of the failed call, quote it in support tickets */
+  public requestId?: string;
 
   constructor(data: ZendFiErrorData) {
     super(data.message);
@@ -42,6 +50,7 @@ export class ZendFiError extends Error {
     this.suggestion = data.suggestion;
     this.statusCode = data.statusCode;
     this.response = data.response;
+    this.requestId = data.requestId;
     this.docs_url = `https://docs.zendfi.com/errors/${data.code}`;
 
     // Maintain proper stack trace
@@ -60,6 +69,10 @@ export class ZendFiError extends Error {
       message += `\n💡 Suggestion: ${this.suggestion}`;
     }
     
+    if (this.requestId) {
+      message += `\n🔎 Request ID: ${this.requestId}`;
+    }
+    
     message += `\n📚 Docs: ${this.docs_url}`;
     
     return message;
@@ -77,6 +90,7 @@ export class ZendFiError extends Error {
       suggestion: this.suggestion,
       docs_url: this.docs_url,
       statusCode: this.statusCode,
+      requestId: this.requestId,
     };
   }
 }
@@ -97,6 +111,38 @@ export class AuthenticationError extends ZendFiError {
   }
 }
 
+/**
+ * The agent session behind a session-scoped client has expired
+ */
+export class SessionExpiredError extends AuthenticationError {
+  /** When the session expired, if known */
+  public readonly expiresAt?: string;
+
+  constructor(message: string, expiresAt?: string) {
+    super(
+      message,
+      'session_expired',
+      'Create a new agent session with zendfi.agent.createSession() and use its token.'
+    );
+    this.name = 'SessionExpiredError';
+    this.expiresAt = expiresAt;
+  }
+}
+
+/**
+ * The agent session behind a session-scoped client was revoked
+ */
+export class SessionRevokedError extends AuthenticationError {
+  constructor(message: string) {
+    super(
+      message,
+      'session_revoked',
+      'The user or merchant revoked this session. Ask the user to start a new one.'
+    );
+    this.name = 'SessionRevokedError';
+  }
+}
+
 /**
  * Payment processing errors
  */
@@ -129,6 +175,32 @@ export class ValidationError extends ZendFiError {
   }
 }
 
+/**
+ * API response did not match the SDK's schema for the endpoint
+ */
+export class ResponseValidationError extends ValidationError {
+  constructor(
+    public readonly method: string,
+    /** Endpoint pattern, e.g. `/api/v1/payments/:id` */
+    public readonly endpoint: string,
+    public readonly issues: ValidationIssue[]
+  ) {
+    const [first] = issues;
+    const detail = first
+      ? `${first.path}: expected ${first.expected}, received ${first.received}`
+      : 'unexpected shape';
+    const more = issues.length > 1 ? ` (+${issues.length - 1} more)` : '';
+
+    super(
+      `Response from ${method} ${endpoint} failed validation: ${detail}${more}`,
+      'response_validation_failed',
+      'The API response does not match this SDK version. ' +
+        'Upgrade @zendfi/sdk or set validation: "warn".'
+    );
+    this.name = 'ResponseValidationError';
+  }
+}
+
 /**
  * Network/connection errors
  */
@@ -149,6 +221,9 @@ export class NetworkError extends ZendFiError {
  * Rate limit errors
  */
 export class RateLimitError extends ZendFiError {
+  /** Seconds the API asked us to wait before retrying */
+  public readonly retryAfter?: number;
+
   constructor(message: string, retryAfter?: number) {
     super({
       code: 'rate_limit_exceeded',
@@ -160,6 +235,7 @@ export class RateLimitError extends ZendFiError {
       statusCode: 429,
     });
     this.name = 'RateLimitError';
+    this.retryAfter = retryAfter;
   }
 }
 
@@ -195,14 +271,96 @@ export class WebhookError extends ZendFiError {
   }
 }
 
+/**
+ * Circuit breaker errors - thrown without contacting the API while an
+ * endpoint group is failing
+ */
+export class CircuitOpenError extends ZendFiError {
+  /** Endpoint group whose circuit is open */
+  public readonly group: string;
+  /** Milliseconds until the circuit will allow a trial request */
+  public readonly retryAfterMs: number;
+
+  constructor(group: string, retryAfterMs: number) {
+    super({
+      code: 'circuit_open',
+      message: `Circuit open for "${group}" after repeated failures; failing fast`,
+      type: 'circuit_open_error',
+      suggestion: `The ZendFi API appears degraded. Retry in ${Math.ceil(retryAfterMs / 1000)}s.`,
+      statusCode: 0,
+    });
+    this.name = 'CircuitOpenError';
+    this.group = group;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Spending policy errors - thrown before contacting the API when a payment
+ * breaks the agent session's limits (or needs a human's approval)
+ */
+export class SpendingPolicyError extends ZendFiError {
+  /** The full decision, including every reason */
+  public readonly decision: SpendingPolicyDecision;
+
+  constructor(decision: SpendingPolicyDecision) {
+    const needsApproval = decision.decision === 'needs_approval';
+    super({
+      code: needsApproval ? 'approval_required' : 'spending_policy_denied',
+      message: decision.reasons.map((reason) => reason.message).join('; '),
+      type: 'policy_error',
+      suggestion: needsApproval
+        ? 'Ask the user to approve this payment before executing it.'
+        : 'Lower the amount, pick an allowed merchant or ask the user to raise the session limits.',
+      statusCode: 0,
+    });
+    this.name = 'SpendingPolicyError';
+    this.decision = decision;
+  }
+}
+
+/**
+ * Approval workflow errors - the approval doesn't exist or can no longer be
+ * decided
+ */
+export class ApprovalError extends ZendFiError {
+  /** ID of the approval involved */
+  public readonly approvalId: string;
+
+  constructor(approvalId: string, message: string, code = 'approval_not_pending') {
+    super({
+      code,
+      message,
+      type: 'policy_error',
+      suggestion:
+        code === 'approval_expired'
+          ? 'Ask the agent to request the payment again.'
+          : 'List pending approvals to see which ones can still be decided.',
+      statusCode: 0,
+    });
+    this.name = 'ApprovalError';
+    this.approvalId = approvalId;
+  }
+}
+
 /**
  * Error factory - creates appropriate error based on response
+ *
+ * @param requestId - ZendFi request ID (`X-Request-Id`); falls back to `request_id` in the body
  */
 export function createZendFiError(
   statusCode: number,
   responseBody: any,
-  message?: string
+  message?: string,
+  requestId?: string
 ): ZendFiError {
+  const error = errorForStatus(statusCode, responseBody, message);
+  error.requestId =
+    requestId || responseBody?.request_id || responseBody?.error?.request_id || undefined;
+  return error;
+}
+
+function errorForStatus(statusCode: number, responseBody: any, message?: string): ZendFiError {
   const errorMessage = message || responseBody?.error?.message || responseBody?.message || 'An error occurred';
   const errorCode = responseBody?.error?.code || responseBody?.code || 'unknown_error';
 
@@ -254,6 +412,9 @@ export const ERROR_CODES = {
   INVALID_API_KEY: 'invalid_api_key',
   API_KEY_EXPIRED: 'api_key_expired',
   API_KEY_REVOKED: 'api_key_revoked',
+  SESSION_EXPIRED: 'session_expired',
+  SESSION_REVOKED: 'session_revoked',
+  SESSION_INACTIVE: 'session_inactive',
   
   // Payment
   INSUFFICIENT_BALANCE: 'insufficient_balance',
@@ -265,17 +426,33 @@ export const ERROR_CODES = {
   // Validation
   MISSING_REQUIRED_FIELD: 'missing_required_field',
   INVALID_PARAMETER: 'invalid_parameter',
+  RESPONSE_VALIDATION_FAILED: 'response_validation_failed',
   
   // Network
   NETWORK_ERROR: 'network_error',
   TIMEOUT: 'timeout',
+  REQUEST_ABORTED: 'request_aborted',
   
   // Rate limiting
   RATE_LIMIT_EXCEEDED: 'rate_limit_exceeded',
   
+  // Circuit breaker
+  CIRCUIT_OPEN: 'circuit_open',
+  
   // Webhook
   WEBHOOK_SIGNATURE_INVALID: 'webhook_signature_invalid',
   WEBHOOK_TIMESTAMP_TOO_OLD: 'webhook_timestamp_too_old',
+  WEBHOOK_DUPLICATE: 'webhook_duplicate',
+  WEBHOOK_IN_PROGRESS: 'webhook_in_progress',
+
+  // Spending policy
+  SPENDING_POLICY_DENIED: 'spending_policy_denied',
+  APPROVAL_REQUIRED: 'approval_required',
+
+  // Approvals
+  APPROVAL_NOT_FOUND: 'approval_not_found',
+  APPROVAL_EXPIRED: 'approval_expired',
+  APPROVAL_NOT_PENDING: 'approval_not_pending',
 } as const;
 
 /**
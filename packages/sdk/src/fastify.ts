@@ -0,0 +1,30 @@
+/**
+ * Fastify Webhook Handler
+ *
+ * @example
+ * ```typescript
+ * import Fastify from 'fastify';
+ * import { zendfiWebhookPlugin } from '@zendfi/sdk/fastify';
+ *
+ * const app = Fastify();
+ *
+ * await app.register(
+ *   zendfiWebhookPlugin({
+ *     secret: process.env.ZENDFI_WEBHOOK_SECRET!,
+ *     handlers: {
+ *       'payment.confirmed': async (payment) => fulfillOrder(payment.id),
+ *     },
+ *   })
+ * );
+ * ```
+ */
+
+export {
+  createFastifyWebhookHandler,
+  zendfiWebhookPlugin,
+  type FastifyWebhookHandlerConfig,
+  type FastifyWebhookInstance,
+  type FastifyWebhookPluginOptions,
+  type FastifyWebhookReply,
+  type FastifyWebhookRequest,
+} from './frameworks/fastify';
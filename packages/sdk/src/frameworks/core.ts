@@ -0,0 +1,177 @@
+/**
+ * Framework-neutral Webhook Handling
+ *
+ * Every framework adapter reduces a request to its raw body and headers and
+ * hands them to `handleWebhookRequest`, which verifies the signature, parses
+ * the payload, then enqueues it or runs the handlers. The adapter only has
+ * to write the returned status and JSON body back.
+ *
+ * @example
+ * ```typescript
+ * import { handleWebhookRequest } from '@zendfi/sdk';
+ *
+ * const { status, body } = await handleWebhookRequest(
+ *   { body: rawBody, headers: request.headers },
+ *   { secret: process.env.ZENDFI_WEBHOOK_SECRET!, handlers }
+ * );
+ * ```
+ */
+
+import type { WebhookPayload } from '../types';
+import type { WebhookError } from '../errors';
+import { processWebhook, type WebhookHandlerConfig } from '../webhook-handler';
+import { createQueuedWebhook, type WebhookDeliveryTarget } from '../webhook-queue/queue';
+import { verifyWebhookHeaderAsync } from '../webhook-signature';
+
+/**
+ * Configuration shared by every framework adapter
+ */
+export type WebhookAdapterConfig = WebhookHandlerConfig & WebhookDeliveryTarget;
+
+/**
+ * Headers as a Fetch `Headers` object or a Node-style record
+ */
+export type WebhookRequestHeaders =
+  | { get(name: string): string | null }
+  | Record<string, string | string[] | undefined>;
+
+export interface WebhookRequestInput {
+  /** The unparsed request body; a parsed object is re-serialized as a fallback */
+  body: string | Uint8Array | object | null | undefined;
+  headers: WebhookRequestHeaders;
+}
+
+export interface WebhookHttpResponse {
+  status: number;
+  body: Record<string, unknown>;
+  /**
+   * Position of the secret that verified the delivery (0 = current secret);
+   * also in the body. Unset when verification didn't succeed.
+   */
+  secretIndex?: number;
+}
+
+/** Headers checked for the signature, in order */
+export const WEBHOOK_SIGNATURE_HEADERS = ['x-zendfi-signature', 'x-webhook-signature'] as const;
+
+/**
+ * Verify a delivery and run (or enqueue) it
+ *
+ * Never throws; failures map to 400 (unreadable body), 401 (signature),
+ * the handler result's status (usually 409 or 500) and 500 otherwise.
+ */
+export async function handleWebhookRequest(
+  input: WebhookRequestInput,
+  config: WebhookAdapterConfig
+): Promise<WebhookHttpResponse> {
+  try {
+    const body = readWebhookBody(input.body);
+    if (body === undefined) {
+      return { status: 400, body: { error: 'Raw request body required' } };
+    }
+
+    const signature = getSignatureHeader(input.headers);
+    if (!signature) {
+      return { status: 401, body: { error: 'Missing webhook signature' } };
+    }
+
+    let secretIndex: number;
+    try {
+      ({ secretIndex } = await verifyWebhookHeaderAsync(body, signature, config.secret, config));
+    } catch (error) {
+      const err = error as WebhookError;
+      return { status: 401, body: { error: err.message, code: err.code } };
+    }
+
+    let payload: WebhookPayload;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      return { status: 400, body: { error: 'Invalid JSON' }, secretIndex };
+    }
+
+    if (config.queue) {
+      await config.queue.enqueue(createQueuedWebhook(payload));
+      return {
+        status: 202,
+        body: { received: true, queued: true, event: payload.event, secretIndex },
+        secretIndex,
+      };
+    }
+
+    const result = await processWebhook(payload, config.handlers, config);
+
+    if (!result.success) {
+      return {
+        status: result.statusCode ?? 500,
+        body: {
+          error: result.error || 'Webhook processing failed',
+          ...(result.code && { code: result.code }),
+          secretIndex,
+        },
+        secretIndex,
+      };
+    }
+
+    return {
+      status: 200,
+      body: { received: true, processed: result.processed, event: result.event, secretIndex },
+      secretIndex,
+    };
+  } catch (error) {
+    const err = error as Error;
+
+    if (config.onError) {
+      await Promise.resolve(config.onError(err)).catch(() => undefined);
+    } else {
+      console.error('Webhook handler error:', err);
+    }
+
+    return { status: 500, body: { error: 'Internal server error' } };
+  }
+}
+
+/**
+ * Read the signature from either supported header
+ */
+export function getSignatureHeader(headers: WebhookRequestHeaders): string | undefined {
+  for (const name of WEBHOOK_SIGNATURE_HEADERS) {
+    const value =
+      typeof headers.get === 'function'
+        ? (headers as { get(name: string): string | null }).get(name)
+        : (headers as Record<string, string | string[] | undefined>)[name];
+    const first = Array.isArray(value) ? value[0] : value;
+    if (first) {
+      return first;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Collect a Node.js request stream (for frameworks that leave the body unread)
+ */
+export async function readRequestStream(stream: AsyncIterable<unknown>): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : Buffer.from(chunk as Uint8Array));
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * Decode a raw body, or `undefined` when there is none
+ */
+export function readWebhookBody(body: WebhookRequestInput['body']): string | undefined {
+  if (typeof body === 'string') {
+    return body;
+  }
+  if (body instanceof Uint8Array) {
+    return Buffer.from(body).toString('utf8');
+  }
+  if (body && typeof body === 'object') {
+    // Already parsed by a body parser; only verifies if ZendFi's serialization matches
+    return JSON.stringify(body);
+  }
+  return undefined;
+}
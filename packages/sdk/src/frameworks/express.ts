@@ -3,23 +3,50 @@
  * Auto-verified, type-safe webhook handler for Express.js
  */
 
-import type { Request, Response, NextFunction } from 'express';
-import { ZendFiClient } from '../client';
-import type { WebhookHandlers, WebhookHandlerConfig } from '../webhook-handler';
-import { processWebhook } from '../webhook-handler';
+import type { WebhookError } from '../errors';
+import {
+  verifyWebhookHeaderAsync,
+  type WebhookSecret,
+  type WebhookSignatureOptions,
+} from '../webhook-signature';
+import {
+  getSignatureHeader,
+  handleWebhookRequest,
+  readWebhookBody,
+  type WebhookAdapterConfig,
+} from './core';
+
+/** The parts of an Express request the handlers use */
+export interface ExpressWebhookRequest {
+  body?: unknown;
+  headers: Record<string, string | string[] | undefined>;
+}
+
+/** The parts of an Express response the handlers use */
+export interface ExpressWebhookResponse {
+  status(code: number): { json(body: unknown): unknown };
+}
+
+export type ExpressWebhookHandlerConfig = WebhookAdapterConfig;
 
 /**
  * Create Express webhook handler middleware
- * 
+ *
+ * Pass `queue` instead of `handlers` to acknowledge verified deliveries with
+ * a 202 right away and run the handlers in a `WebhookWorker`.
+ *
+ * IMPORTANT: Mount `express.raw()` before this handler so the signature is
+ * checked against the exact bytes ZendFi sent.
+ *
  * @example
  * ```typescript
  * // src/routes/webhooks.ts
  * import express from 'express';
  * import { createWebhookHandler } from '@zendfi/sdk/express';
- * 
+ *
  * const router = express.Router();
- * 
- * router.post('/zendfi', 
+ *
+ * router.post('/zendfi',
  *   express.raw({ type: 'application/json' }), // Important: raw body
  *   createWebhookHandler({
  *     secret: process.env.ZENDFI_WEBHOOK_SECRET!,
@@ -28,7 +55,7 @@ import { processWebhook } from '../webhook-handler';
  *         // ✅ Already verified
  *         // ✅ Already typed
  *         // ✅ Already deduplicated
- *         await updateOrder(payment.metadata.orderId, 'paid');
+ *         await updateOrder(payment.metadata?.orderId, 'paid');
  *       },
  *       'subscription.canceled': async (subscription) => {
  *         await cancelUserSubscription(subscription.customer_email);
@@ -36,85 +63,32 @@ import { processWebhook } from '../webhook-handler';
  *     }
  *   })
  * );
- * 
+ *
  * export default router;
  * ```
  */
-export function createWebhookHandler(
-  config: WebhookHandlerConfig & { handlers: WebhookHandlers }
-) {
-  const client = new ZendFiClient();
-
+export function createWebhookHandler(config: ExpressWebhookHandlerConfig) {
   return async function webhookHandler(
-    req: Request,
-    res: Response
+    req: ExpressWebhookRequest,
+    res: ExpressWebhookResponse
   ): Promise<void> {
-    try {
-      let body: string;
-      
-      if (Buffer.isBuffer(req.body)) {
-        body = req.body.toString('utf8');
-      } else if (typeof req.body === 'string') {
-        body = req.body;
-      } else if (typeof req.body === 'object') {
-        body = JSON.stringify(req.body);
-      } else {
-        res.status(400).json({ error: 'Invalid request body' });
-        return;
-      }
-
-      const signature = (req.headers['x-zendfi-signature'] || 
-                        req.headers['x-webhook-signature'] ||
-                        '') as string;
-
-      if (!signature) {
-        res.status(401).json({ error: 'Missing webhook signature' });
-        return;
-      }
-
-      const isValid = client.verifyWebhook({
-        payload: body,
-        signature,
-        secret: config.secret,
-      });
-
-      if (!isValid) {
-        res.status(401).json({ error: 'Invalid webhook signature' });
-        return;
-      }
-
-      const payload = JSON.parse(body);
-
-      const result = await processWebhook(payload, config.handlers, config);
-
-      if (!result.success) {
-        res.status(500).json({ 
-          error: result.error || 'Webhook processing failed' 
-        });
-        return;
-      }
-
-      res.status(200).json({
-        received: true,
-        processed: result.processed,
-        event: result.event,
-      });
-    } catch (error) {
-      const err = error as Error;
-      
-      if (config.onError) {
-        await config.onError(err);
-      }
-
-      res.status(500).json({ error: 'Internal server error' });
-    }
+    const { status, body } = await handleWebhookRequest(
+      { body: req.body as string | Uint8Array | object | undefined, headers: req.headers },
+      config
+    );
+    res.status(status).json(body);
   };
 }
 
+/**
+ * Alias of `createWebhookHandler`
+ */
+export const createExpressWebhookHandler = createWebhookHandler;
+
 /**
  * Express webhook verification middleware
  * Use this if you want to verify webhooks manually
- * 
+ *
  * @example
  * ```typescript
  * router.post('/webhook',
@@ -123,52 +97,39 @@ export function createWebhookHandler(
  *     secret: process.env.ZENDFI_WEBHOOK_SECRET!
  *   }),
  *   async (req, res) => {
- *     const payload = req.body.payload; // Verified payload
+ *     const payload = req.webhookPayload; // Verified payload
  *     // Handle manually
  *   }
  * );
  * ```
  */
-export function verifyWebhookMiddleware(config: { secret: string }) {
-  const client = new ZendFiClient();
-
+export function verifyWebhookMiddleware(
+  config: { secret: WebhookSecret } & WebhookSignatureOptions
+) {
   return async function verify(
-    req: Request,
-    res: Response,
-    next: NextFunction
+    req: ExpressWebhookRequest,
+    res: ExpressWebhookResponse,
+    next: (error?: unknown) => void
   ): Promise<void> {
     try {
-      let body: string;
-      
-      if (Buffer.isBuffer(req.body)) {
-        body = req.body.toString('utf8');
-      } else if (typeof req.body === 'string') {
-        body = req.body;
-      } else {
-        body = JSON.stringify(req.body);
-      }
+      const body = readWebhookBody(req.body as string | Uint8Array | object | undefined);
+      const signature = getSignatureHeader(req.headers);
 
-      const signature = (req.headers['x-zendfi-signature'] || 
-                        req.headers['x-webhook-signature'] ||
-                        '') as string;
-
-      if (!signature) {
+      if (body === undefined || !signature) {
         res.status(401).json({ error: 'Missing webhook signature' });
         return;
       }
 
-      const isValid = client.verifyWebhook({
-        payload: body,
-        signature,
-        secret: config.secret,
-      });
-
-      if (!isValid) {
-        res.status(401).json({ error: 'Invalid webhook signature' });
+      try {
+        await verifyWebhookHeaderAsync(body, signature, config.secret, config);
+      } catch (error) {
+        const err = error as WebhookError;
+        res.status(401).json({ error: err.message, code: err.code });
         return;
       }
 
-      (req as any).webhookPayload = JSON.parse(body);
+      (req as ExpressWebhookRequest & { webhookPayload?: unknown }).webhookPayload =
+        JSON.parse(body);
       next();
     } catch (error) {
       res.status(500).json({ error: 'Webhook verification failed' });
@@ -0,0 +1,104 @@
+/**
+ * ZendFi Fastify Webhook Handler
+ * Auto-verified, type-safe webhook handler for Fastify
+ */
+
+import { handleWebhookRequest, type WebhookAdapterConfig } from './core';
+
+/** The parts of a Fastify request the handler uses */
+export interface FastifyWebhookRequest {
+  body?: unknown;
+  /** Set by `fastify-raw-body` (or a similar plugin) */
+  rawBody?: string | Uint8Array;
+  headers: Record<string, string | string[] | undefined>;
+}
+
+/** The parts of a Fastify reply the handler uses */
+export interface FastifyWebhookReply {
+  code(statusCode: number): { send(payload: unknown): unknown };
+}
+
+/** The parts of a Fastify instance the plugin uses */
+export interface FastifyWebhookInstance {
+  addContentTypeParser(
+    contentType: string,
+    options: { parseAs: 'buffer' },
+    parser: (request: unknown, body: Buffer, done: (error: null, body: Buffer) => void) => void
+  ): void;
+  post(
+    path: string,
+    handler: (request: FastifyWebhookRequest, reply: FastifyWebhookReply) => Promise<unknown>
+  ): void;
+}
+
+export type FastifyWebhookHandlerConfig = WebhookAdapterConfig;
+
+export interface FastifyWebhookPluginOptions {
+  /** Route path (default: `/webhooks/zendfi`) */
+  path?: string;
+}
+
+/**
+ * Create a Fastify route handler
+ *
+ * Fastify parses JSON bodies by default; the signature must be checked
+ * against the raw bytes, so either register `fastify-raw-body` or use
+ * `zendfiWebhookPlugin`, which keeps JSON bodies raw within its own scope.
+ *
+ * @example
+ * ```typescript
+ * import { createFastifyWebhookHandler } from '@zendfi/sdk/fastify';
+ *
+ * await app.register(import('fastify-raw-body'), { global: false });
+ *
+ * app.post('/webhooks/zendfi', { config: { rawBody: true } }, createFastifyWebhookHandler({
+ *   secret: process.env.ZENDFI_WEBHOOK_SECRET!,
+ *   handlers: {
+ *     'payment.confirmed': async (payment) => fulfillOrder(payment.id),
+ *   },
+ * }));
+ * ```
+ */
+export function createFastifyWebhookHandler(config: FastifyWebhookHandlerConfig) {
+  return async function webhookHandler(
+    request: FastifyWebhookRequest,
+    reply: FastifyWebhookReply
+  ): Promise<unknown> {
+    const { status, body } = await handleWebhookRequest(
+      {
+        body: request.rawBody ?? (request.body as string | Uint8Array | object | undefined),
+        headers: request.headers,
+      },
+      config
+    );
+    return reply.code(status).send(body);
+  };
+}
+
+/**
+ * Fastify plugin that mounts the webhook route with raw JSON bodies
+ *
+ * @example
+ * ```typescript
+ * import { zendfiWebhookPlugin } from '@zendfi/sdk/fastify';
+ *
+ * await app.register(
+ *   zendfiWebhookPlugin({
+ *     secret: process.env.ZENDFI_WEBHOOK_SECRET!,
+ *     handlers: { 'payment.confirmed': async (payment) => fulfillOrder(payment.id) },
+ *   }),
+ *   { prefix: '/api' }
+ * );
+ * ```
+ */
+export function zendfiWebhookPlugin(
+  config: FastifyWebhookHandlerConfig & FastifyWebhookPluginOptions
+) {
+  // Not wrapped with fastify-plugin, so the content-type parser stays scoped to this route
+  return async function plugin(fastify: FastifyWebhookInstance): Promise<void> {
+    fastify.addContentTypeParser('application/json', { parseAs: 'buffer' }, (_req, body, done) =>
+      done(null, body)
+    );
+    fastify.post(config.path ?? '/webhooks/zendfi', createFastifyWebhookHandler(config));
+  };
+}
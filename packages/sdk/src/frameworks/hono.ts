@@ -0,0 +1,41 @@
+/**
+ * ZendFi Hono Webhook Handler
+ * Auto-verified, type-safe webhook handler for Hono (Cloudflare Workers,
+ * Bun, Deno and Node.js)
+ */
+
+import type { WebhookAdapterConfig } from './core';
+import { createWebWebhookHandler, type WebRequestLike } from './web';
+
+/** The parts of a Hono context the handler uses */
+export interface HonoWebhookContext {
+  req: { raw: WebRequestLike };
+}
+
+export type HonoWebhookHandlerConfig = WebhookAdapterConfig;
+
+/**
+ * Create a Hono route handler
+ *
+ * @example
+ * ```typescript
+ * import { Hono } from 'hono';
+ * import { createHonoWebhookHandler } from '@zendfi/sdk/hono';
+ *
+ * const app = new Hono();
+ *
+ * app.post('/webhooks/zendfi', createHonoWebhookHandler({
+ *   secret: process.env.ZENDFI_WEBHOOK_SECRET!,
+ *   handlers: {
+ *     'payment.confirmed': async (payment) => fulfillOrder(payment.id),
+ *   },
+ * }));
+ * ```
+ */
+export function createHonoWebhookHandler(config: HonoWebhookHandlerConfig) {
+  const handleWebhook = createWebWebhookHandler(config);
+
+  return function webhookHandler(c: HonoWebhookContext): Promise<Response> {
+    return handleWebhook(c.req.raw);
+  };
+}
@@ -0,0 +1,58 @@
+/**
+ * ZendFi Koa Webhook Handler
+ * Auto-verified, type-safe webhook middleware for Koa
+ */
+
+import { handleWebhookRequest, readRequestStream, type WebhookAdapterConfig } from './core';
+
+/** The parts of a Koa context the middleware uses */
+export interface KoaWebhookContext {
+  req: AsyncIterable<unknown>;
+  request: {
+    /** Set by `koa-bodyparser` */
+    rawBody?: string;
+    headers: Record<string, string | string[] | undefined>;
+  };
+  status: number;
+  body: unknown;
+}
+
+export type KoaWebhookHandlerConfig = WebhookAdapterConfig;
+
+/**
+ * Create Koa webhook middleware
+ *
+ * Uses `ctx.request.rawBody` when `koa-bodyparser` already consumed the
+ * request; otherwise reads the body stream itself.
+ *
+ * @example
+ * ```typescript
+ * import Router from '@koa/router';
+ * import { createKoaWebhookHandler } from '@zendfi/sdk/koa';
+ *
+ * const router = new Router();
+ *
+ * router.post('/webhooks/zendfi', createKoaWebhookHandler({
+ *   secret: process.env.ZENDFI_WEBHOOK_SECRET!,
+ *   handlers: {
+ *     'payment.confirmed': async (payment) => fulfillOrder(payment.id),
+ *   },
+ * }));
+ * ```
+ */
+export function createKoaWebhookHandler(config: KoaWebhookHandlerConfig) {
+  return async function webhookMiddleware(ctx: KoaWebhookContext): Promise<void> {
+    let body: string;
+    try {
+      body = ctx.request.rawBody ?? (await readRequestStream(ctx.req));
+    } catch {
+      ctx.status = 400;
+      ctx.body = { error: 'Raw request body required' };
+      return;
+    }
+
+    const result = await handleWebhookRequest({ body, headers: ctx.request.headers }, config);
+    ctx.status = result.status;
+    ctx.body = result.body;
+  };
+}
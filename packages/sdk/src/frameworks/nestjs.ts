@@ -0,0 +1,63 @@
+/**
+ * ZendFi NestJS Webhook Handler
+ * Auto-verified, type-safe webhook handling for NestJS controllers
+ */
+
+import {
+  handleWebhookRequest,
+  type WebhookAdapterConfig,
+  type WebhookHttpResponse,
+} from './core';
+
+/** The parts of a Nest request (Express or Fastify platform) the handler uses */
+export interface NestWebhookRequest {
+  /** Populated when the app is created with `{ rawBody: true }` */
+  rawBody?: string | Uint8Array;
+  body?: unknown;
+  headers: Record<string, string | string[] | undefined>;
+}
+
+export type NestWebhookHandlerConfig = WebhookAdapterConfig;
+
+/**
+ * Create a function for a NestJS controller that verifies and processes a
+ * delivery and returns the status and body to send
+ *
+ * Enable raw bodies with `NestFactory.create(AppModule, { rawBody: true })`.
+ * The returned status works with both the Express and Fastify platforms via
+ * `@Res({ passthrough: true })`.
+ *
+ * @example
+ * ```typescript
+ * import { Controller, Post, Req, Res, type RawBodyRequest } from '@nestjs/common';
+ * import { createNestWebhookHandler } from '@zendfi/sdk/nestjs';
+ *
+ * const handleWebhook = createNestWebhookHandler({
+ *   secret: process.env.ZENDFI_WEBHOOK_SECRET!,
+ *   handlers: {
+ *     'payment.confirmed': async (payment) => fulfillOrder(payment.id),
+ *   },
+ * });
+ *
+ * @Controller('webhooks')
+ * export class WebhooksController {
+ *   @Post('zendfi')
+ *   async zendfi(@Req() req: RawBodyRequest<Request>, @Res({ passthrough: true }) res: Response) {
+ *     const { status, body } = await handleWebhook(req);
+ *     res.status(status);
+ *     return body;
+ *   }
+ * }
+ * ```
+ */
+export function createNestWebhookHandler(config: NestWebhookHandlerConfig) {
+  return function handleWebhook(req: NestWebhookRequest): Promise<WebhookHttpResponse> {
+    return handleWebhookRequest(
+      {
+        body: req.rawBody ?? (req.body as string | Uint8Array | object | undefined),
+        headers: req.headers,
+      },
+      config
+    );
+  };
+}
@@ -0,0 +1,45 @@
+/**
+ * ZendFi Web-standard Webhook Handler
+ * For runtimes built on the Fetch API `Request`/`Response`: Next.js App
+ * Router, Hono, Bun, Deno and Cloudflare Workers
+ */
+
+import { handleWebhookRequest, type WebhookAdapterConfig } from './core';
+
+/** The parts of a Fetch `Request` the handler uses */
+export interface WebRequestLike {
+  text(): Promise<string>;
+  headers: { get(name: string): string | null };
+}
+
+/**
+ * Create a `(request) => Response` webhook handler
+ *
+ * @example
+ * ```typescript
+ * import { createWebWebhookHandler } from '@zendfi/sdk/web';
+ *
+ * const handleWebhook = createWebWebhookHandler({
+ *   secret: process.env.ZENDFI_WEBHOOK_SECRET!,
+ *   handlers: {
+ *     'payment.confirmed': async (payment) => fulfillOrder(payment.id),
+ *   },
+ * });
+ *
+ * // Bun
+ * Bun.serve({ fetch: (request) => handleWebhook(request) });
+ * ```
+ */
+export function createWebWebhookHandler(config: WebhookAdapterConfig) {
+  return async function handleWebhook(request: WebRequestLike): Promise<Response> {
+    let body: string;
+    try {
+      body = await request.text();
+    } catch {
+      return Response.json({ error: 'Raw request body required' }, { status: 400 });
+    }
+
+    const result = await handleWebhookRequest({ body, headers: request.headers }, config);
+    return Response.json(result.body, { status: result.status });
+  };
+}
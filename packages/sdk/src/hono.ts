@@ -0,0 +1,26 @@
+/**
+ * Hono Webhook Handler
+ *
+ * @example
+ * ```typescript
+ * import { Hono } from 'hono';
+ * import { createHonoWebhookHandler } from '@zendfi/sdk/hono';
+ *
+ * const app = new Hono();
+ *
+ * app.post('/webhooks/zendfi', createHonoWebhookHandler({
+ *   secret: env.ZENDFI_WEBHOOK_SECRET,
+ *   handlers: {
+ *     'payment.confirmed': async (payment) => fulfillOrder(payment.id),
+ *   },
+ * }));
+ *
+ * export default app;
+ * ```
+ */
+
+export {
+  createHonoWebhookHandler,
+  type HonoWebhookContext,
+  type HonoWebhookHandlerConfig,
+} from './frameworks/hono';
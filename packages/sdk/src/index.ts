@@ -31,16 +31,133 @@ export * from './webhooks';
 // Agentic Intent Protocol APIs
 export { AgentAPI, PaymentIntentsAPI, PricingAPI, AutonomyAPI, SmartPaymentsAPI } from './api';
 
+// Session-Scoped Agent Client
+export {
+  ZendFiAgentClient,
+  SESSION_TOKEN_PREFIX,
+  type AgentSessionClientOptions,
+  type SessionPaymentRequest,
+} from './agent-client';
+
+// HTTP Transport
+export {
+  FetchTransport,
+  UndiciTransport,
+  type HttpTransport,
+  type TransportRequest,
+  type TransportResponse,
+  type UndiciTransportOptions,
+  type UndiciModule,
+  type UndiciDispatcher,
+} from './transport';
+
+// Retry Policy
+export {
+  DEFAULT_RETRY_POLICY,
+  resolveRetryPolicy,
+  computeRetryDelay,
+  parseRetryAfter,
+  type RetryPolicy,
+} from './retry';
+
+// Circuit Breaker
+export {
+  CircuitBreaker,
+  RetryBudget,
+  defaultCircuitGroup,
+  type CircuitState,
+  type CircuitStateChange,
+  type CircuitBreakerConfig,
+  type RetryBudgetConfig,
+} from './circuit-breaker';
+
+// Logging
+export {
+  consoleLogger,
+  redact,
+  DEFAULT_REDACT_KEYS,
+  type Logger,
+  type LogLevel,
+  type LogFields,
+} from './logger';
+
+// OpenTelemetry
+export {
+  Telemetry,
+  instrumentApi,
+  type TelemetryConfig,
+  type TracerLike,
+  type MeterLike,
+  type SpanLike,
+  type Attributes,
+  type AttributeValue,
+} from './telemetry';
+
+// Response Validation
+export {
+  Schema,
+  s,
+  toJSONSchema,
+  type Infer,
+  type JSONSchema,
+  type SchemaDef,
+  type SafeParseResult,
+  type ValidationIssue,
+  type ValidationMode,
+} from './validation';
+export * from './schemas';
+
+// Normalized Models
+export {
+  normalizePayment,
+  normalizePaymentLink,
+  normalizeInstallmentPlan,
+  normalizeInstallment,
+  parseDate,
+  parseAmount,
+  type PaymentModel,
+  type PaymentLinkModel,
+  type InstallmentPlanModel,
+  type InstallmentModel,
+} from './models';
+
+// Auto-Pagination
+export {
+  Paginator,
+  type PageResult,
+  type PageFetcher,
+  type ToArrayOptions,
+  type IterateOptions,
+  type IterableResource,
+  type UnpagedIterateOptions,
+} from './pagination';
+export type { ListIntentsOptions, IterateIntentsOptions } from './api';
+
+// Raw Responses
+export {
+  ApiPromise,
+  getRequestId,
+  parseRateLimit,
+  type ApiResponse,
+  type RateLimitInfo,
+} from './response';
+
 // Error handling
 export {
   ZendFiError,
   AuthenticationError,
+  SessionExpiredError,
+  SessionRevokedError,
   PaymentError,
   ValidationError,
+  ResponseValidationError,
   NetworkError,
   RateLimitError,
   ApiError,
   WebhookError,
+  CircuitOpenError,
+  SpendingPolicyError,
+  ApprovalError,
   createZendFiError,
   isZendFiError,
   ERROR_CODES,
@@ -55,6 +172,7 @@ export {
   type RequestInterceptor,
   type ResponseInterceptor,
   type ErrorInterceptor,
+  type CircuitStateInterceptor,
   type Interceptors,
   InterceptorManager,
 } from './interceptors';
@@ -74,8 +192,90 @@ export {
   type SessionKeyPaymentRequest,
 } from './device-bound-session-keys';
 
+// Spending Policy
+export {
+  SpendingPolicyEngine,
+  evaluateSpendingPolicy,
+  type SpendingDecision,
+  type SpendingReason,
+  type SpendingReasonCode,
+  type SpendingAllowance,
+  type SpendingPolicyDecision,
+  type SpendingPolicyCheckOptions,
+  type SpendingPolicyEngineOptions,
+  type TrackSessionOptions,
+} from './spending-policy';
+
+// Payment Approvals
+export * from './approvals';
+
+// Agent Tools
+export * from './tools';
+
+// Webhook Signatures
+export {
+  verifyWebhookHeader,
+  verifyWebhookHeaderAsync,
+  parseSignatureHeader,
+  computeWebhookSignature,
+  computeWebhookSignatureAsync,
+  generateWebhookSignatureHeader,
+  generateWebhookSignatureHeaderAsync,
+  DEFAULT_WEBHOOK_TOLERANCE_SECONDS,
+  type WebhookSecret,
+  type WebhookSignatureOptions,
+  type WebhookVerification,
+  type DeprecatedSecretInfo,
+  type ParsedSignatureHeader,
+} from './webhook-signature';
+
+// Runtime Crypto
+export {
+  hmacSha256Hex,
+  hmacSha256HexSync,
+  webCryptoHmacSha256Hex,
+  constantTimeEqual,
+  getCryptoRuntime,
+  loadNodeCrypto,
+} from './crypto';
+
+// Webhook Deduplication
+export * from './webhook-stores';
+
+// Webhook Router
+export {
+  WebhookRouter,
+  matchesPattern,
+  type WebhookPattern,
+  type EventsMatching,
+  type WebhookContext,
+  type WebhookMiddleware,
+  type WebhookRouteHandler,
+  type WebhookRouteOptions,
+  type WebhookErrorPolicy,
+  type WebhookDispatchResult,
+} from './webhook-router';
+
+// Webhook Queue
+export * from './webhook-queue';
+
+// Webhook Adapters (framework-neutral core)
+export {
+  handleWebhookRequest,
+  getSignatureHeader,
+  readWebhookBody,
+  readRequestStream,
+  WEBHOOK_SIGNATURE_HEADERS,
+  type WebhookAdapterConfig,
+  type WebhookRequestHeaders,
+  type WebhookRequestInput,
+  type WebhookHttpResponse,
+} from './frameworks/core';
+
 export {
   processWebhook,
+  processPayload,
+  getWebhookEventId,
   type WebhookHandlers,
   type WebhookHandlerConfig,
   type WebhookResult,
@@ -4,6 +4,8 @@
  * Allows modifying requests before they're sent and responses after they're received
  */
 
+import type { CircuitStateChange } from './circuit-breaker';
+
 export interface RequestConfig {
   method: string;
   url: string;
@@ -22,6 +24,7 @@ export interface ResponseData {
 export type RequestInterceptor = (config: RequestConfig) => RequestConfig | Promise<RequestConfig>;
 export type ResponseInterceptor = (response: ResponseData) => ResponseData | Promise<ResponseData>;
 export type ErrorInterceptor = (error: Error) => Error | Promise<Error>;
+export type CircuitStateInterceptor = (change: CircuitStateChange) => void | Promise<void>;
 
 /**
  * Interceptor Manager
@@ -61,6 +64,20 @@ export class InterceptorManager<T extends (...args: any[]) => any> {
     return result;
   }
 
+  /**
+   * Notify all interceptors without chaining results (used for events)
+   */
+  emit(value: Parameters<T>[0]): void {
+    for (const handler of this.handlers) {
+      if (handler === null) continue;
+      try {
+        Promise.resolve(handler(value)).catch(() => {});
+      } catch {
+        // Listeners must never break the request that triggered them
+      }
+    }
+  }
+
   /**
    * Check if any interceptors are registered
    */
@@ -83,6 +100,8 @@ export interface Interceptors {
   request: InterceptorManager<RequestInterceptor>;
   response: InterceptorManager<ResponseInterceptor>;
   error: InterceptorManager<ErrorInterceptor>;
+  /** Circuit breaker state changes (only fired when `circuitBreaker` is enabled) */
+  circuit: InterceptorManager<CircuitStateInterceptor>;
 }
 
 /**
@@ -93,5 +112,6 @@ export function createInterceptors(): Interceptors {
     request: new InterceptorManager<RequestInterceptor>(),
     response: new InterceptorManager<ResponseInterceptor>(),
     error: new InterceptorManager<ErrorInterceptor>(),
+    circuit: new InterceptorManager<CircuitStateInterceptor>(),
   };
 }
@@ -0,0 +1,24 @@
+/**
+ * Koa Webhook Handler
+ *
+ * @example
+ * ```typescript
+ * import Router from '@koa/router';
+ * import { createKoaWebhookHandler } from '@zendfi/sdk/koa';
+ *
+ * const router = new Router();
+ *
+ * router.post('/webhooks/zendfi', createKoaWebhookHandler({
+ *   secret: process.env.ZENDFI_WEBHOOK_SECRET!,
+ *   handlers: {
+ *     'payment.confirmed': async (payment) => fulfillOrder(payment.id),
+ *   },
+ * }));
+ * ```
+ */
+
+export {
+  createKoaWebhookHandler,
+  type KoaWebhookContext,
+  type KoaWebhookHandlerConfig,
+} from './frameworks/koa';
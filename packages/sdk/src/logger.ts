@@ -0,0 +1,162 @@
+/**
+ * Structured Logging
+ *
+ * Leveled, structured log output with PII and secret redaction. Accepts any
+ * pino-compatible logger (`logger.info(fields, message)`); `debug: true`
+ * without a logger prints to the console.
+ *
+ * @example
+ * ```typescript
+ * import pino from 'pino';
+ *
+ * const zendfi = new ZendFiClient({
+ *   logger: pino(),
+ *   logLevel: 'debug',
+ *   redact: [...DEFAULT_REDACT_KEYS, 'phone_number'],
+ * });
+ *
+ * // winston (message first) needs a small adapter
+ * const zendfi = new ZendFiClient({
+ *   logger: {
+ *     debug: (fields, msg) => winston.debug(msg, fields),
+ *     info: (fields, msg) => winston.info(msg, fields),
+ *     warn: (fields, msg) => winston.warn(msg, fields),
+ *     error: (fields, msg) => winston.error(msg, fields),
+ *   },
+ * });
+ * ```
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+/**
+ * Structured fields attached to a log entry
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * pino-compatible logger interface
+ */
+export interface Logger {
+  debug(fields: LogFields, message: string): void;
+  info(fields: LogFields, message: string): void;
+  warn(fields: LogFields, message: string): void;
+  error(fields: LogFields, message: string): void;
+}
+
+/**
+ * Keys whose values are replaced with `[REDACTED]` before logging (case-insensitive)
+ */
+export const DEFAULT_REDACT_KEYS: readonly string[] = [
+  'authorization',
+  'api_key',
+  'full_key',
+  'secret',
+  'client_secret',
+  'session_token',
+  'signed_transaction',
+  'delegation_signature',
+  'lit_encrypted_keypair',
+  'email',
+  'customer_email',
+  'wallet',
+  'user_wallet',
+  'customer_wallet',
+  'wallet_address',
+  'merchant_wallet',
+];
+
+const REDACTED = '[REDACTED]';
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 50,
+};
+
+/**
+ * Logger that writes `[ZendFi] message { ...fields }` to the console
+ */
+export const consoleLogger: Logger = {
+  debug: (fields, message) => console.debug(`[ZendFi] ${message}`, fields),
+  info: (fields, message) => console.info(`[ZendFi] ${message}`, fields),
+  warn: (fields, message) => console.warn(`[ZendFi] ${message}`, fields),
+  error: (fields, message) => console.error(`[ZendFi] ${message}`, fields),
+};
+
+/**
+ * Deep-copy a value, replacing the values of redacted keys
+ */
+export function redact<T>(value: T, keys: readonly string[]): T {
+  const lowered = new Set(keys.map((key) => key.toLowerCase()));
+
+  const walk = (input: unknown, depth: number): unknown => {
+    if (depth > 10 || input === null || typeof input !== 'object') {
+      return input;
+    }
+
+    if (Array.isArray(input)) {
+      return input.map((item) => walk(item, depth + 1));
+    }
+
+    const output: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(input as Record<string, unknown>)) {
+      output[key] = lowered.has(key.toLowerCase()) ? REDACTED : walk(item, depth + 1);
+    }
+    return output;
+  };
+
+  return walk(value, 0) as T;
+}
+
+/**
+ * Level-filtering, redacting wrapper used by the client
+ */
+export class SdkLogger implements Logger {
+  private readonly threshold: number;
+
+  constructor(
+    private readonly target: Logger,
+    level: LogLevel,
+    private readonly redactKeys: readonly string[] = DEFAULT_REDACT_KEYS
+  ) {
+    this.threshold = LEVEL_ORDER[level];
+  }
+
+  /**
+   * Whether entries at this level are emitted (use to skip building expensive fields)
+   */
+  isEnabled(level: Exclude<LogLevel, 'silent'>): boolean {
+    return LEVEL_ORDER[level] >= this.threshold;
+  }
+
+  debug(fields: LogFields, message: string): void {
+    this.write('debug', fields, message);
+  }
+
+  info(fields: LogFields, message: string): void {
+    this.write('info', fields, message);
+  }
+
+  warn(fields: LogFields, message: string): void {
+    this.write('warn', fields, message);
+  }
+
+  error(fields: LogFields, message: string): void {
+    this.write('error', fields, message);
+  }
+
+  private write(level: Exclude<LogLevel, 'silent'>, fields: LogFields, message: string): void {
+    if (!this.isEnabled(level)) {
+      return;
+    }
+
+    try {
+      this.target[level](redact(fields, this.redactKeys), message);
+    } catch {
+      // A broken logger must never break an API call
+    }
+  }
+}
@@ -0,0 +1,241 @@
+/**
+ * Normalized Resource Models
+ *
+ * Some endpoints return the same resource in slightly different shapes
+ * (`amount_usd` vs `amount`, `checkout_url` vs `payment_url`, `id` vs
+ * `plan_id`, string amounts). The normalizers below map every variant onto
+ * one canonical model with numeric amounts, a single `id` and parsed dates,
+ * keeping the untouched payload on `raw`. Fields the API didn't send (or
+ * sent unparseable) stay `undefined` rather than getting a made-up value.
+ *
+ * @example
+ * ```typescript
+ * import { normalizePayment, normalizeInstallmentPlan } from '@zendfi/sdk';
+ *
+ * const payment = await zendfi.getPayment(id).transform(normalizePayment);
+ * console.log(payment.amount, payment.checkout_url, payment.expires_at?.toISOString());
+ *
+ * const plan = normalizeInstallmentPlan(await zendfi.createInstallmentPlan(request));
+ * console.log(plan.id); // whichever ID field the endpoint used
+ * ```
+ */
+
+import type {
+  InstallmentPlan,
+  InstallmentPlanStatus,
+  InstallmentScheduleItem,
+  Payment,
+  PaymentLink,
+  PaymentStatus,
+  PaymentToken,
+} from './types';
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Parse an ISO 8601 timestamp; returns `undefined` for missing or invalid values
+ */
+export function parseDate(value: string | number | Date | null | undefined): Date | undefined {
+  if (value === null || value === undefined || value === '') {
+    return undefined;
+  }
+
+  const date = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Parse a numeric or decimal-string amount; returns `undefined` for missing or invalid values
+ */
+export function parseAmount(value: string | number | null | undefined): number | undefined {
+  if (value === null || value === undefined || value === '') {
+    return undefined;
+  }
+
+  const amount = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(amount) ? amount : undefined;
+}
+
+// ============================================
+// Payments
+// ============================================
+
+export interface PaymentModel {
+  id: string;
+  merchant_id: string;
+  /** USD amount (`amount_usd` or `amount`); `undefined` when missing or unparseable */
+  amount?: number;
+  currency: string;
+  token?: PaymentToken;
+  status: PaymentStatus;
+  /** Hosted checkout URL (`checkout_url` or `payment_url`) */
+  checkout_url?: string;
+  qr_code?: string;
+  customer_wallet?: string;
+  customer_email?: string;
+  description?: string;
+  transaction_signature?: string;
+  split_ids: string[];
+  metadata: Record<string, any>;
+  expires_at?: Date;
+  confirmed_at?: Date;
+  created_at?: Date;
+  updated_at?: Date;
+  /** Payload exactly as returned by the API */
+  raw: Payment;
+}
+
+export function normalizePayment(raw: Payment): PaymentModel {
+  return {
+    id: raw.id,
+    merchant_id: raw.merchant_id,
+    amount: parseAmount(raw.amount_usd) ?? parseAmount(raw.amount),
+    currency: raw.currency || 'USD',
+    token: raw.payment_token,
+    status: raw.status,
+    checkout_url: raw.checkout_url || raw.payment_url,
+    qr_code: raw.qr_code,
+    customer_wallet: raw.customer_wallet,
+    customer_email: raw.customer_email,
+    description: raw.description,
+    transaction_signature: raw.transaction_signature,
+    split_ids: raw.split_ids || [],
+    metadata: raw.metadata || {},
+    expires_at: parseDate(raw.expires_at),
+    confirmed_at: parseDate(raw.confirmed_at),
+    created_at: parseDate(raw.created_at),
+    updated_at: parseDate(raw.updated_at),
+    raw,
+  };
+}
+
+// ============================================
+// Payment Links
+// ============================================
+
+export interface PaymentLinkModel {
+  /** Link ID, falling back to the link code */
+  id: string;
+  link_code: string;
+  merchant_id: string;
+  title?: string;
+  description?: string;
+  amount?: number;
+  currency: string;
+  /** Shareable hosted checkout page (`hosted_page_url` or `url`) */
+  url: string;
+  payment_url: string;
+  redirect_url?: string;
+  payment_methods: string[];
+  max_uses?: number;
+  uses_count: number;
+  is_active: boolean;
+  metadata: Record<string, any>;
+  expires_at?: Date;
+  created_at?: Date;
+  updated_at?: Date;
+  /** Payload exactly as returned by the API */
+  raw: PaymentLink;
+}
+
+export function normalizePaymentLink(raw: PaymentLink): PaymentLinkModel {
+  const expiresAt = parseDate(raw.expires_at);
+
+  return {
+    id: raw.id || raw.link_code,
+    link_code: raw.link_code,
+    merchant_id: raw.merchant_id,
+    title: raw.title,
+    description: raw.description,
+    amount: parseAmount(raw.amount),
+    currency: raw.currency || 'USD',
+    url: raw.hosted_page_url || raw.url,
+    payment_url: raw.payment_url,
+    redirect_url: raw.redirect_url,
+    payment_methods: raw.payment_methods || [],
+    max_uses: raw.max_uses,
+    uses_count: raw.uses_count ?? 0,
+    is_active: raw.is_active ?? (!expiresAt || expiresAt.getTime() > Date.now()),
+    metadata: raw.metadata || {},
+    expires_at: expiresAt,
+    created_at: parseDate(raw.created_at),
+    updated_at: parseDate(raw.updated_at),
+    raw,
+  };
+}
+
+// ============================================
+// Installment Plans
+// ============================================
+
+export interface InstallmentModel {
+  installment_number: number;
+  due_date?: Date;
+  amount?: number;
+  status: string;
+  payment_id?: string;
+  paid_at?: Date;
+}
+
+export interface InstallmentPlanModel {
+  /** Plan ID (`id` or `plan_id`), when the API sent either */
+  id?: string;
+  status: InstallmentPlanStatus | string;
+  merchant_id?: string;
+  customer_wallet?: string;
+  customer_email?: string;
+  description?: string;
+  total_amount?: number;
+  installment_count?: number;
+  amount_per_installment?: number;
+  paid_count: number;
+  late_fee_amount?: number;
+  grace_period_days?: number;
+  payment_schedule: InstallmentModel[];
+  metadata: Record<string, any>;
+  created_at?: Date;
+  updated_at?: Date;
+  completed_at?: Date;
+  defaulted_at?: Date;
+  /** Payload exactly as returned by the API */
+  raw: InstallmentPlan;
+}
+
+export function normalizeInstallment(raw: InstallmentScheduleItem): InstallmentModel {
+  return {
+    installment_number: raw.installment_number,
+    due_date: parseDate(raw.due_date),
+    amount: parseAmount(raw.amount),
+    status: raw.status,
+    payment_id: raw.payment_id,
+    paid_at: parseDate(raw.paid_at),
+  };
+}
+
+export function normalizeInstallmentPlan(raw: InstallmentPlan): InstallmentPlanModel {
+  const schedule = (raw.payment_schedule || []).map(normalizeInstallment);
+
+  return {
+    id: raw.id || raw.plan_id,
+    status: raw.status,
+    merchant_id: raw.merchant_id,
+    customer_wallet: raw.customer_wallet,
+    customer_email: raw.customer_email,
+    description: raw.description,
+    total_amount: parseAmount(raw.total_amount),
+    installment_count: raw.installment_count,
+    amount_per_installment: parseAmount(raw.amount_per_installment),
+    paid_count: raw.paid_count ?? schedule.filter((item) => item.status === 'paid').length,
+    late_fee_amount: parseAmount(raw.late_fee_amount),
+    grace_period_days: raw.grace_period_days,
+    payment_schedule: schedule,
+    metadata: raw.metadata || {},
+    created_at: parseDate(raw.created_at),
+    updated_at: parseDate(raw.updated_at),
+    completed_at: parseDate(raw.completed_at),
+    defaulted_at: parseDate(raw.defaulted_at),
+    raw,
+  };
+}
@@ -0,0 +1,32 @@
+/**
+ * NestJS Webhook Handler
+ *
+ * @example
+ * ```typescript
+ * // main.ts
+ * const app = await NestFactory.create(AppModule, { rawBody: true });
+ *
+ * // webhooks.controller.ts
+ * import { createNestWebhookHandler } from '@zendfi/sdk/nestjs';
+ *
+ * const handleWebhook = createNestWebhookHandler({
+ *   secret: process.env.ZENDFI_WEBHOOK_SECRET!,
+ *   handlers: {
+ *     'payment.confirmed': async (payment) => fulfillOrder(payment.id),
+ *   },
+ * });
+ *
+ * @Post('zendfi')
+ * async zendfi(@Req() req: RawBodyRequest<Request>, @Res({ passthrough: true }) res: Response) {
+ *   const { status, body } = await handleWebhook(req);
+ *   res.status(status);
+ *   return body;
+ * }
+ * ```
+ */
+
+export {
+  createNestWebhookHandler,
+  type NestWebhookHandlerConfig,
+  type NestWebhookRequest,
+} from './frameworks/nestjs';
@@ -0,0 +1,15 @@
+/**
+ * Node.js-only Helpers
+ *
+ * Exports that need Node built-ins (`fs`, `path`), kept out of the main
+ * entry so it stays loadable on edge runtimes and in browsers.
+ *
+ * @example
+ * ```typescript
+ * import { FileWebhookStore } from '@zendfi/sdk/node';
+ *
+ * const store = new FileWebhookStore({ path: './data/zendfi-webhooks.json' });
+ * ```
+ */
+
+export { FileWebhookStore, type FileWebhookStoreOptions } from './webhook-stores/file';
@@ -0,0 +1,172 @@
+/**
+ * Auto-Pagination
+ *
+ * Uniform async iteration over list endpoints, regardless of whether the
+ * backend pages by page number, by limit/offset, or returns everything at once
+ *
+ * @example
+ * ```typescript
+ * // Walk every confirmed payment, fetching pages on demand
+ * for await (const payment of zendfi.payments.iterate({ status: 'confirmed' })) {
+ *   await reconcile(payment);
+ * }
+ *
+ * // Or collect into an array (with a safety cap)
+ * const escrows = await zendfi.escrows.iterate().toArray({ max: 500 });
+ * ```
+ */
+
+import type { RequestOptions } from './types';
+
+/**
+ * A single fetched page
+ */
+export interface PageResult<T> {
+  items: T[];
+  hasMore: boolean;
+}
+
+/**
+ * Fetches the page at the given zero-based index
+ */
+export type PageFetcher<T> = (pageIndex: number) => Promise<PageResult<T>>;
+
+/**
+ * Options for collecting a paginator into an array
+ */
+export interface ToArrayOptions {
+  /** Stop after this many items (no further pages are fetched) */
+  max?: number;
+}
+
+/**
+ * Common options accepted by every `iterate()` method
+ */
+export interface IterateOptions {
+  /** Number of items requested per page (default: 50) */
+  pageSize?: number;
+}
+
+/**
+ * A resource namespace that can be walked page by page
+ */
+export interface IterableResource<T, P extends IterateOptions = IterateOptions> {
+  iterate(params?: P, options?: RequestOptions): Paginator<T>;
+}
+
+/**
+ * `iterate()` params for list endpoints that return everything in one
+ * response, so there is no page size to choose
+ */
+export type UnpagedIterateOptions = Record<string, never>;
+
+export const DEFAULT_PAGE_SIZE = 50;
+
+/**
+ * Lazily walks all pages of a list endpoint
+ */
+export class Paginator<T> implements AsyncIterable<T> {
+  constructor(private readonly fetchPage: PageFetcher<T>) {}
+
+  /**
+   * Iterate page by page
+   */
+  async *pages(): AsyncGenerator<T[], void, undefined> {
+    let pageIndex = 0;
+
+    while (true) {
+      const page = await this.fetchPage(pageIndex);
+
+      if (page.items.length > 0) {
+        yield page.items;
+      }
+
+      if (!page.hasMore || page.items.length === 0) {
+        return;
+      }
+
+      pageIndex++;
+    }
+  }
+
+  /**
+   * Iterate item by item
+   */
+  async *[Symbol.asyncIterator](): AsyncGenerator<T, void, undefined> {
+    for await (const items of this.pages()) {
+      yield* items;
+    }
+  }
+
+  /**
+   * Collect all items into an array
+   */
+  async toArray(options: ToArrayOptions = {}): Promise<T[]> {
+    const max = options.max ?? Infinity;
+    const result: T[] = [];
+
+    if (max <= 0) {
+      return result;
+    }
+
+    for await (const item of this) {
+      result.push(item);
+      if (result.length >= max) {
+        break;
+      }
+    }
+
+    return result;
+  }
+}
+
+/**
+ * Pages through endpoints that use 1-based `page` numbers and report `total_pages`
+ */
+export function pageNumberPaginator<T>(
+  pageSize: number,
+  fetch: (page: number, limit: number) => Promise<{
+    data: T[];
+    pagination?: { page: number; total_pages: number };
+  }>
+): Paginator<T> {
+  return new Paginator<T>(async (pageIndex) => {
+    const page = pageIndex + 1;
+    const response = await fetch(page, pageSize);
+    const items = response.data || [];
+
+    return {
+      items,
+      hasMore: response.pagination
+        ? page < response.pagination.total_pages
+        : items.length >= pageSize,
+    };
+  });
+}
+
+/**
+ * Pages through endpoints that use `limit` and `offset` and return plain arrays
+ */
+export function offsetPaginator<T>(
+  pageSize: number,
+  fetch: (limit: number, offset: number) => Promise<T[]>
+): Paginator<T> {
+  return new Paginator<T>(async (pageIndex) => {
+    const items = await fetch(pageSize, pageIndex * pageSize);
+
+    return {
+      items,
+      hasMore: items.length >= pageSize,
+    };
+  });
+}
+
+/**
+ * Wraps endpoints that return the full collection in one response
+ */
+export function singlePagePaginator<T>(fetch: () => Promise<T[]>): Paginator<T> {
+  return new Paginator<T>(async () => ({
+    items: await fetch(),
+    hasMore: false,
+  }));
+}
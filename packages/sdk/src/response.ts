@@ -0,0 +1,136 @@
+/**
+ * Raw Response Access
+ *
+ * Every SDK method returns an `ApiPromise`: await it for the parsed data as
+ * usual, or call `.withResponse()` to also get the HTTP status, headers,
+ * ZendFi request ID and rate-limit quota of the underlying call.
+ *
+ * @example
+ * ```typescript
+ * const { data: payment, requestId, rateLimit } = await zendfi
+ *   .createPayment({ amount: 50 })
+ *   .withResponse();
+ *
+ * logger.info({ requestId, remaining: rateLimit?.remaining }, 'payment created');
+ * ```
+ */
+
+/**
+ * Rate-limit quota reported by the API (`X-RateLimit-*` headers)
+ */
+export interface RateLimitInfo {
+  /** Requests allowed in the current window */
+  limit?: number;
+  /** Requests left in the current window */
+  remaining?: number;
+  /** When the current window resets */
+  resetAt?: Date;
+}
+
+/**
+ * Parsed data together with the HTTP response it came from
+ */
+export interface ApiResponse<T> {
+  data: T;
+  status: number;
+  /** Response headers with lower-cased names */
+  headers: Record<string, string>;
+  /** ZendFi request ID (`X-Request-Id`), quote it in support tickets */
+  requestId?: string;
+  rateLimit?: RateLimitInfo;
+}
+
+/**
+ * Read the ZendFi request ID from response headers
+ */
+export function getRequestId(headers: Record<string, string>): string | undefined {
+  return headers['x-request-id'] || undefined;
+}
+
+/**
+ * Parse `X-RateLimit-Limit`, `X-RateLimit-Remaining` and `X-RateLimit-Reset`
+ *
+ * The reset header may be a Unix timestamp or a number of seconds from now.
+ * Returns `undefined` when the response carries no rate-limit headers.
+ */
+export function parseRateLimit(headers: Record<string, string>): RateLimitInfo | undefined {
+  const limit = toNumber(headers['x-ratelimit-limit']);
+  const remaining = toNumber(headers['x-ratelimit-remaining']);
+  const reset = toNumber(headers['x-ratelimit-reset']);
+
+  if (limit === undefined && remaining === undefined && reset === undefined) {
+    return undefined;
+  }
+
+  let resetAt: Date | undefined;
+  if (reset !== undefined) {
+    // Anything past 2001-09-09 is an epoch timestamp, smaller values are deltas
+    resetAt = new Date(reset > 1e9 ? reset * 1000 : Date.now() + reset * 1000);
+  }
+
+  return { limit, remaining, resetAt };
+}
+
+function toNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Promise of an SDK call's data that also exposes the raw response
+ *
+ * The request starts as soon as the method is called; awaiting the promise,
+ * `.withResponse()` and any `.transform()` derived from it share that request.
+ */
+export class ApiPromise<T> extends Promise<T> {
+  private dataPromise?: Promise<T>;
+
+  constructor(
+    private readonly responsePromise: Promise<ApiResponse<unknown>>,
+    private readonly parse: (data: unknown) => T | Promise<T> = (data) => data as T
+  ) {
+    super((resolve) => resolve(null as unknown as T));
+  }
+
+  /**
+   * Resolve with the parsed data plus status, headers, request ID and rate limit
+   */
+  async withResponse(): Promise<ApiResponse<T>> {
+    const response = await this.responsePromise;
+    return { ...response, data: await this.parse(response.data) };
+  }
+
+  /**
+   * Derive a promise with post-processed data that keeps the same raw response
+   */
+  transform<U>(fn: (data: T) => U | Promise<U>): ApiPromise<U> {
+    return new ApiPromise<U>(this.responsePromise, async (data) => fn(await this.parse(data)));
+  }
+
+  override then<TResult1 = T, TResult2 = never>(
+    onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): Promise<TResult1 | TResult2> {
+    return this.getData().then(onfulfilled, onrejected);
+  }
+
+  override catch<TResult = never>(
+    onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | null
+  ): Promise<T | TResult> {
+    return this.getData().catch(onrejected);
+  }
+
+  override finally(onfinally?: (() => void) | null): Promise<T> {
+    return this.getData().finally(onfinally);
+  }
+
+  private getData(): Promise<T> {
+    if (!this.dataPromise) {
+      this.dataPromise = this.responsePromise.then((response) => this.parse(response.data));
+    }
+    return this.dataPromise;
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Retry Policy
+ *
+ * Exponential backoff with full jitter, configurable retryable status codes
+ * and support for server-provided `Retry-After` hints
+ *
+ * @example
+ * ```typescript
+ * const zendfi = new ZendFiClient({
+ *   retryPolicy: {
+ *     maxAttempts: 5,
+ *     baseDelayMs: 250,
+ *     maxDelayMs: 10_000,
+ *   },
+ * });
+ *
+ * // Per-call override (or `retry: false` to disable)
+ * await zendfi.getPayment(id, { retry: { maxAttempts: 1 } });
+ * ```
+ */
+
+export interface RetryPolicy {
+  /** Total attempts including the first one (default: `retries` config, 3) */
+  maxAttempts: number;
+  /** Base delay for exponential backoff in milliseconds (default: 500) */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff delay in milliseconds (default: 30000) */
+  maxDelayMs: number;
+  /** `full` picks a random delay in [0, backoff]; `none` uses the backoff as-is (default: 'full') */
+  jitter: 'full' | 'none';
+  /** HTTP status codes that are safe to retry (default: 408, 429, 500, 502, 503, 504) */
+  retryableStatuses: number[];
+  /** Retry when the transport fails before a response is received (default: true) */
+  retryOnNetworkError: boolean;
+  /** Wait for the `Retry-After` hint on 429/503 responses (default: true) */
+  respectRetryAfter: boolean;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+  jitter: 'full',
+  retryableStatuses: [408, 429, 500, 502, 503, 504],
+  retryOnNetworkError: true,
+  respectRetryAfter: true,
+};
+
+/**
+ * Merge partial policies on top of the defaults (later layers win)
+ */
+export function resolveRetryPolicy(
+  ...layers: Array<Partial<RetryPolicy> | undefined>
+): RetryPolicy {
+  const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY };
+
+  for (const layer of layers) {
+    if (!layer) continue;
+    for (const key of RETRY_POLICY_KEYS) {
+      applyLayer(policy, layer, key);
+    }
+  }
+
+  policy.maxAttempts = Math.max(1, Math.floor(policy.maxAttempts));
+  return policy;
+}
+
+const RETRY_POLICY_KEYS = Object.keys(DEFAULT_RETRY_POLICY) as Array<keyof RetryPolicy>;
+
+/**
+ * Copy one field from a layer when it is set; keys outside `RetryPolicy` never are
+ */
+function applyLayer<K extends keyof RetryPolicy>(
+  policy: RetryPolicy,
+  layer: Partial<RetryPolicy>,
+  key: K
+): void {
+  const value = layer[key];
+  if (value !== undefined) {
+    policy[key] = value;
+  }
+}
+
+/**
+ * Parse a `Retry-After` header (delta-seconds or HTTP-date) into milliseconds
+ */
+export function parseRetryAfter(value: string | number | undefined | null): number | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(value));
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+/**
+ * Compute the delay before the next attempt
+ *
+ * @param policy - Effective retry policy
+ * @param attempt - The attempt that just failed (1-based)
+ * @param retryAfterMs - Server-provided delay hint, if any
+ * @returns Delay in milliseconds, or `null` when the server asks to wait
+ * longer than `maxDelayMs` (retrying would not help)
+ */
+export function computeRetryDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  retryAfterMs?: number
+): number | null {
+  if (policy.respectRetryAfter && retryAfterMs !== undefined) {
+    return retryAfterMs <= policy.maxDelayMs ? retryAfterMs : null;
+  }
+
+  const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt - 1));
+
+  return policy.jitter === 'full' ? Math.floor(Math.random() * backoff) : backoff;
+}
@@ -0,0 +1,552 @@
+/**
+ * Response Schemas
+ *
+ * Runtime counterparts of the response types in `types.ts`, plus the route
+ * table the client uses to pick a schema for each endpoint. Each schema is
+ * annotated with its interface, so the compiler flags any drift between the
+ * two when a type changes.
+ */
+
+import { s, type Schema } from './validation';
+import type {
+  AgentAnalytics,
+  AgentApiKey,
+  AgentSession,
+  AutonomousDelegate,
+  AutonomyStatus,
+  CreateInstallmentPlanResponse,
+  EnableAutonomyResponse,
+  Escrow,
+  InstallmentPlan,
+  InstallmentScheduleItem,
+  Invoice,
+  Payment,
+  PaymentIntent,
+  PaymentIntentEvent,
+  PaymentLink,
+  PPPFactor,
+  PricingSuggestion,
+  ReleaseCondition,
+  SmartPaymentResponse,
+  Subscription,
+  SubscriptionPlan,
+} from './types';
+
+const metadata = () => s.record(s.unknown()).optional();
+const currency = () => s.enum(['USD', 'EUR', 'GBP']);
+const token = () => s.enum(['SOL', 'USDC', 'USDT']);
+
+// ============================================
+// Payments
+// ============================================
+
+export const PaymentSchema: Schema<Payment> = s.object({
+  id: s.string(),
+  merchant_id: s.string(),
+  amount_usd: s.number().optional(),
+  amount: s.number().optional(),
+  currency: s.string().optional(),
+  payment_token: token().optional(),
+  status: s.enum(['pending', 'confirmed', 'failed', 'expired']),
+  customer_wallet: s.string().optional(),
+  customer_email: s.string().optional(),
+  description: s.string().optional(),
+  checkout_url: s.string().optional(),
+  payment_url: s.string().optional(),
+  qr_code: s.string().optional(),
+  expires_at: s.string(),
+  confirmed_at: s.string().optional(),
+  transaction_signature: s.string().optional(),
+  metadata: metadata(),
+  split_ids: s.array(s.string()).optional(),
+  created_at: s.string().optional(),
+  updated_at: s.string().optional(),
+});
+
+export const PaginatedPaymentsSchema = s.object({
+  data: s.array(PaymentSchema),
+  pagination: s.object({
+    page: s.number(),
+    limit: s.number(),
+    total: s.number(),
+    total_pages: s.number(),
+  }),
+});
+
+/** Raw payment link as returned by the API (before the `url` alias is added) */
+export const PaymentLinkSchema: Schema<Omit<PaymentLink, 'url'>> = s.object({
+  link_code: s.string(),
+  merchant_id: s.string(),
+  title: s.string().optional(),
+  description: s.string().optional(),
+  amount: s.number(),
+  currency: s.string(),
+  payment_methods: s.array(s.string()).optional(),
+  redirect_url: s.string().optional(),
+  expires_at: s.string().optional(),
+  metadata: metadata(),
+  payment_url: s.string(),
+  hosted_page_url: s.string(),
+  created_at: s.string(),
+  updated_at: s.string(),
+  id: s.string().optional(),
+  token: s.string().optional(),
+  max_uses: s.number().optional(),
+  uses_count: s.number().optional(),
+  is_active: s.boolean().optional(),
+});
+
+// ============================================
+// Subscriptions
+// ============================================
+
+export const SubscriptionPlanSchema: Schema<SubscriptionPlan> = s.object({
+  id: s.string(),
+  merchant_id: s.string(),
+  name: s.string(),
+  description: s.string().optional(),
+  amount: s.number(),
+  currency: currency(),
+  interval: s.string(),
+  interval_count: s.number(),
+  trial_days: s.number(),
+  is_active: s.boolean(),
+  metadata: metadata(),
+  created_at: s.string(),
+  updated_at: s.string(),
+});
+
+export const SubscriptionSchema: Schema<Subscription> = s.object({
+  id: s.string(),
+  plan_id: s.string(),
+  merchant_id: s.string(),
+  customer_email: s.string(),
+  customer_wallet: s.string().optional(),
+  status: s.enum(['active', 'canceled', 'past_due', 'paused']),
+  current_period_start: s.string(),
+  current_period_end: s.string(),
+  trial_end: s.string().optional(),
+  canceled_at: s.string().optional(),
+  metadata: metadata(),
+  created_at: s.string(),
+  updated_at: s.string(),
+});
+
+// ============================================
+// Installment Plans
+// ============================================
+
+export const InstallmentScheduleItemSchema: Schema<InstallmentScheduleItem> = s.object({
+  installment_number: s.number(),
+  due_date: s.string(),
+  amount: s.string(),
+  status: s.string(),
+  payment_id: s.string().optional(),
+  paid_at: s.string().optional(),
+});
+
+export const CreateInstallmentPlanResponseSchema: Schema<CreateInstallmentPlanResponse> = s.object({
+  plan_id: s.string(),
+  status: s.string(),
+});
+
+export const InstallmentPlanSchema: Schema<InstallmentPlan> = s.object({
+  id: s.string().optional(),
+  plan_id: s.string().optional(),
+  merchant_id: s.string().optional(),
+  customer_wallet: s.string().optional(),
+  customer_email: s.string().optional(),
+  total_amount: s.string().optional(),
+  installment_count: s.number().optional(),
+  amount_per_installment: s.string().optional(),
+  payment_schedule: s.array(InstallmentScheduleItemSchema).optional(),
+  paid_count: s.number().optional(),
+  status: s.string(),
+  description: s.string().optional(),
+  late_fee_amount: s.string().optional(),
+  grace_period_days: s.number().optional(),
+  metadata: metadata(),
+  created_at: s.string().optional(),
+  updated_at: s.string().optional(),
+  completed_at: s.string().optional(),
+  defaulted_at: s.string().optional(),
+});
+
+// ============================================
+// Escrows
+// ============================================
+
+export const ReleaseConditionSchema: Schema<ReleaseCondition> = s.object({
+  type: s.enum(['manual_approval', 'time_based', 'confirmation_required', 'milestone']),
+  approver: s.string().optional(),
+  approved: s.boolean().optional(),
+  release_after: s.string().optional(),
+  confirmations_needed: s.number().optional(),
+  confirmed_by: s.array(s.string()).optional(),
+  description: s.string().optional(),
+  approved_by: s.string().optional(),
+});
+
+export const EscrowSchema: Schema<Escrow> = s.object({
+  id: s.string(),
+  payment_id: s.string(),
+  merchant_id: s.string(),
+  buyer_wallet: s.string(),
+  seller_wallet: s.string(),
+  escrow_wallet: s.string(),
+  amount: s.number(),
+  currency: currency(),
+  token: token(),
+  release_conditions: ReleaseConditionSchema,
+  status: s.enum(['pending', 'funded', 'released', 'refunded', 'disputed', 'cancelled']),
+  payment_url: s.string().optional(),
+  qr_code: s.string().optional(),
+  funded_at: s.string().optional(),
+  released_at: s.string().optional(),
+  refunded_at: s.string().optional(),
+  disputed_at: s.string().optional(),
+  dispute_reason: s.string().optional(),
+  release_transaction_signature: s.string().optional(),
+  refund_transaction_signature: s.string().optional(),
+  metadata: metadata(),
+  created_at: s.string(),
+  updated_at: s.string(),
+});
+
+// ============================================
+// Invoices
+// ============================================
+
+export const InvoiceSchema: Schema<Invoice> = s.object({
+  id: s.string(),
+  invoice_number: s.string(),
+  merchant_id: s.string(),
+  customer_email: s.string(),
+  customer_name: s.string().optional(),
+  amount_usd: s.number(),
+  token: token(),
+  description: s.string(),
+  line_items: s
+    .array(s.object({ description: s.string(), quantity: s.number(), unit_price: s.number() }))
+    .optional(),
+  status: s.enum(['draft', 'sent', 'paid']),
+  payment_url: s.string().optional(),
+  due_date: s.string().optional(),
+  sent_at: s.string().optional(),
+  paid_at: s.string().optional(),
+  metadata: metadata(),
+  created_at: s.string(),
+  updated_at: s.string(),
+});
+
+// ============================================
+// Agentic Intent Protocol
+// ============================================
+
+export const AgentApiKeySchema: Schema<AgentApiKey> = s.object({
+  id: s.string(),
+  key_prefix: s.string(),
+  full_key: s.string().optional(),
+  name: s.string(),
+  scopes: s.array(
+    s.enum([
+      'full',
+      'read_only',
+      'create_payments',
+      'manage_escrow',
+      'create_subscriptions',
+      'manage_installments',
+      'read_analytics',
+    ])
+  ),
+  rate_limit_per_hour: s.number(),
+  agent_metadata: s.record(s.unknown()),
+  created_at: s.string(),
+});
+
+export const AgentSessionSchema: Schema<AgentSession> = s.object({
+  id: s.string(),
+  session_token: s.string(),
+  agent_id: s.string(),
+  agent_name: s.string().optional(),
+  user_wallet: s.string(),
+  limits: s.object({
+    max_per_transaction: s.number().optional(),
+    max_per_day: s.number().optional(),
+    max_per_week: s.number().optional(),
+    max_per_month: s.number().optional(),
+    require_approval_above: s.number().optional(),
+  }),
+  is_active: s.boolean(),
+  created_at: s.string(),
+  expires_at: s.string(),
+  remaining_today: s.number(),
+  remaining_this_week: s.number(),
+  remaining_this_month: s.number(),
+});
+
+export const PaymentIntentSchema: Schema<PaymentIntent> = s.object({
+  id: s.string(),
+  client_secret: s.string(),
+  amount: s.number(),
+  currency: s.string(),
+  description: s.string().optional(),
+  status: s.enum(['requires_payment', 'processing', 'succeeded', 'canceled', 'failed']),
+  capture_method: s.enum(['automatic', 'manual']),
+  agent_id: s.string().optional(),
+  payment_id: s.string().optional(),
+  created_at: s.string(),
+  expires_at: s.string(),
+});
+
+export const PaymentIntentEventSchema: Schema<PaymentIntentEvent> = s.object({
+  id: s.string(),
+  payment_intent_id: s.string(),
+  event_type: s.string(),
+  data: s.record(s.unknown()),
+  created_at: s.string(),
+});
+
+export const PPPFactorSchema: Schema<PPPFactor> = s.object({
+  country_code: s.string(),
+  country_name: s.string(),
+  ppp_factor: s.number(),
+  currency_code: s.string(),
+  adjustment_percentage: s.number(),
+});
+
+export const PricingSuggestionSchema: Schema<PricingSuggestion> = s.object({
+  suggested_amount: s.number(),
+  min_amount: s.number(),
+  max_amount: s.number(),
+  currency: s.string(),
+  reasoning: s.string(),
+  ppp_adjusted: s.boolean(),
+  adjustment_factor: s.number().optional(),
+});
+
+export const AutonomousDelegateSchema: Schema<AutonomousDelegate> = s.object({
+  id: s.string(),
+  session_key_id: s.string(),
+  is_active: s.boolean(),
+  max_amount_usd: s.number(),
+  used_amount_usd: s.number(),
+  remaining_usd: s.number(),
+  expires_at: s.string(),
+  created_at: s.string(),
+  revoked_at: s.string().optional(),
+  last_used_at: s.string().optional(),
+});
+
+export const EnableAutonomyResponseSchema: Schema<EnableAutonomyResponse> = s.object({
+  delegate_id: s.string(),
+  session_key_id: s.string(),
+  max_amount_usd: s.number(),
+  expires_at: s.string(),
+  delegate_public_key: s.string(),
+  autonomous_mode_enabled: s.boolean(),
+  lit_protocol_enabled: s.boolean(),
+  requires_lit_for_auto_sign: s.boolean().optional(),
+});
+
+export const AutonomyStatusSchema: Schema<AutonomyStatus> = s.object({
+  autonomous_mode_enabled: s.boolean(),
+  delegate: AutonomousDelegateSchema.optional(),
+});
+
+export const SmartPaymentResponseSchema: Schema<SmartPaymentResponse> = s.object({
+  payment_id: s.string(),
+  status: s.enum(['pending', 'confirmed', 'awaiting_signature', 'failed']),
+  amount_usd: s.number(),
+  gasless_used: s.boolean(),
+  settlement_complete: s.boolean(),
+  escrow_id: s.string().optional(),
+  unsigned_transaction: s.string().optional(),
+  requires_signature: s.boolean(),
+  transaction_signature: s.string().optional(),
+  confirmed_in_ms: s.number().optional(),
+  receipt_url: s.string(),
+  receipt_nft: s.string().optional(),
+  next_steps: s.string(),
+  submit_url: s.string().optional(),
+  created_at: s.string(),
+});
+
+export const AgentAnalyticsSchema: Schema<AgentAnalytics> = s.object({
+  total_payments: s.number(),
+  total_volume_usd: s.number(),
+  average_payment_usd: s.number(),
+  success_rate: s.number(),
+  active_sessions: s.number(),
+  active_delegates: s.number(),
+  ppp_savings_usd: s.number(),
+  payments_by_token: s.object({ SOL: s.number(), USDC: s.number(), USDT: s.number() }),
+  payments_by_day: s.array(
+    s.object({ date: s.string(), count: s.number(), volume_usd: s.number() })
+  ),
+});
+
+// ============================================
+// Route table
+// ============================================
+
+/** List endpoints that return either a bare array or `{ [key]: [...] }` */
+const listOf = <T>(item: Schema<T>, key: string) =>
+  s.union([s.array(item), s.object({ [key]: s.array(item) })]);
+
+const success = s.object({ success: s.boolean().optional() });
+
+export interface ResponseRoute {
+  method: string;
+  /** Endpoint path with `:param` placeholders, without query string */
+  pattern: string;
+  schema: Schema<unknown>;
+}
+
+export const RESPONSE_ROUTES: ResponseRoute[] = [
+  { method: 'POST', pattern: '/api/v1/payments', schema: PaymentSchema },
+  { method: 'GET', pattern: '/api/v1/payments', schema: PaginatedPaymentsSchema },
+  { method: 'GET', pattern: '/api/v1/payments/:id', schema: PaymentSchema },
+
+  { method: 'POST', pattern: '/api/v1/subscriptions/plans', schema: SubscriptionPlanSchema },
+  { method: 'GET', pattern: '/api/v1/subscriptions/plans/:id', schema: SubscriptionPlanSchema },
+  { method: 'POST', pattern: '/api/v1/subscriptions', schema: SubscriptionSchema },
+  { method: 'GET', pattern: '/api/v1/subscriptions/:id', schema: SubscriptionSchema },
+  { method: 'POST', pattern: '/api/v1/subscriptions/:id/cancel', schema: SubscriptionSchema },
+
+  { method: 'POST', pattern: '/api/v1/payment-links', schema: PaymentLinkSchema },
+  { method: 'GET', pattern: '/api/v1/payment-links', schema: s.array(PaymentLinkSchema) },
+  { method: 'GET', pattern: '/api/v1/payment-links/:code', schema: PaymentLinkSchema },
+
+  {
+    method: 'POST',
+    pattern: '/api/v1/installment-plans',
+    schema: CreateInstallmentPlanResponseSchema,
+  },
+  { method: 'GET', pattern: '/api/v1/installment-plans', schema: s.array(InstallmentPlanSchema) },
+  { method: 'GET', pattern: '/api/v1/installment-plans/:id', schema: InstallmentPlanSchema },
+  {
+    method: 'GET',
+    pattern: '/api/v1/customers/:wallet/installment-plans',
+    schema: s.array(InstallmentPlanSchema),
+  },
+  {
+    method: 'POST',
+    pattern: '/api/v1/installment-plans/:id/cancel',
+    schema: s.object({ message: s.string(), plan_id: s.string() }),
+  },
+
+  { method: 'POST', pattern: '/api/v1/escrows', schema: EscrowSchema },
+  { method: 'GET', pattern: '/api/v1/escrows', schema: s.array(EscrowSchema) },
+  { method: 'GET', pattern: '/api/v1/escrows/:id', schema: EscrowSchema },
+  {
+    method: 'POST',
+    pattern: '/api/v1/escrows/:id/approve',
+    schema: s.object({
+      status: s.string(),
+      transaction_signature: s.string().optional(),
+      message: s.string(),
+    }),
+  },
+  {
+    method: 'POST',
+    pattern: '/api/v1/escrows/:id/refund',
+    schema: s.object({
+      status: s.string(),
+      transaction_signature: s.string(),
+      message: s.string(),
+      reason: s.string(),
+    }),
+  },
+  {
+    method: 'POST',
+    pattern: '/api/v1/escrows/:id/dispute',
+    schema: s.object({
+      status: s.string(),
+      message: s.string(),
+      dispute_id: s.string(),
+      created_at: s.string(),
+    }),
+  },
+
+  { method: 'POST', pattern: '/api/v1/invoices', schema: InvoiceSchema },
+  { method: 'GET', pattern: '/api/v1/invoices', schema: s.array(InvoiceSchema) },
+  { method: 'GET', pattern: '/api/v1/invoices/:id', schema: InvoiceSchema },
+  {
+    method: 'POST',
+    pattern: '/api/v1/invoices/:id/send',
+    schema: s.object({
+      success: s.boolean(),
+      invoice_id: s.string(),
+      invoice_number: s.string(),
+      sent_to: s.string(),
+      payment_url: s.string(),
+      status: s.string(),
+    }),
+  },
+
+  { method: 'POST', pattern: '/api/v1/agent-keys', schema: AgentApiKeySchema },
+  { method: 'GET', pattern: '/api/v1/agent-keys', schema: listOf(AgentApiKeySchema, 'keys') },
+  { method: 'POST', pattern: '/api/v1/agent-keys/:id/revoke', schema: success },
+  { method: 'POST', pattern: '/api/v1/ai/sessions', schema: AgentSessionSchema },
+  { method: 'GET', pattern: '/api/v1/ai/sessions', schema: listOf(AgentSessionSchema, 'sessions') },
+  { method: 'GET', pattern: '/api/v1/ai/sessions/:id', schema: AgentSessionSchema },
+  { method: 'POST', pattern: '/api/v1/ai/sessions/:id/revoke', schema: success },
+  { method: 'GET', pattern: '/api/v1/analytics/agents', schema: AgentAnalyticsSchema },
+
+  { method: 'POST', pattern: '/api/v1/payment-intents', schema: PaymentIntentSchema },
+  {
+    method: 'GET',
+    pattern: '/api/v1/payment-intents',
+    schema: listOf(PaymentIntentSchema, 'intents'),
+  },
+  { method: 'GET', pattern: '/api/v1/payment-intents/:id', schema: PaymentIntentSchema },
+  { method: 'POST', pattern: '/api/v1/payment-intents/:id/confirm', schema: PaymentIntentSchema },
+  { method: 'POST', pattern: '/api/v1/payment-intents/:id/cancel', schema: PaymentIntentSchema },
+  {
+    method: 'GET',
+    pattern: '/api/v1/payment-intents/:id/events',
+    schema: listOf(PaymentIntentEventSchema, 'events'),
+  },
+
+  { method: 'POST', pattern: '/api/v1/ai/pricing/ppp-factor', schema: PPPFactorSchema },
+  {
+    method: 'GET',
+    pattern: '/api/v1/ai/pricing/ppp-factors',
+    schema: listOf(PPPFactorSchema, 'factors'),
+  },
+  { method: 'POST', pattern: '/api/v1/ai/pricing/suggest', schema: PricingSuggestionSchema },
+
+  {
+    method: 'POST',
+    pattern: '/api/v1/ai/session-keys/:id/enable-autonomy',
+    schema: EnableAutonomyResponseSchema,
+  },
+  { method: 'POST', pattern: '/api/v1/ai/session-keys/:id/revoke-autonomy', schema: success },
+  {
+    method: 'GET',
+    pattern: '/api/v1/ai/session-keys/:id/autonomy-status',
+    schema: AutonomyStatusSchema,
+  },
+
+  { method: 'POST', pattern: '/api/v1/ai/smart-payment', schema: SmartPaymentResponseSchema },
+  {
+    method: 'POST',
+    pattern: '/api/v1/ai/payments/:id/submit-signed',
+    schema: SmartPaymentResponseSchema,
+  },
+];
+
+const compiledRoutes = RESPONSE_ROUTES.map((route) => ({
+  route,
+  regex: new RegExp(`^${route.pattern.replace(/:[^/]+/g, '[^/]+')}$`),
+}));
+
+/**
+ * Find the response schema registered for a request
+ */
+export function findResponseRoute(method: string, endpoint: string): ResponseRoute | undefined {
+  const path = endpoint.split('?')[0] || endpoint;
+  return compiledRoutes.find(({ route, regex }) => route.method === method && regex.test(path))
+    ?.route;
+}
@@ -0,0 +1,307 @@
+/**
+ * Spending Policy
+ *
+ * Checks a smart payment against its agent session's limits before it is
+ * sent, so an agent learns that a payment is over budget (or needs the
+ * user's approval) without a round trip, and can explain why.
+ *
+ * The engine starts from the allowance the API reports for the session
+ * (`remaining_today`, `remaining_this_week`, `remaining_this_month`) and
+ * subtracts payments recorded since. The API still enforces the limits;
+ * this is an early, explainable check.
+ *
+ * @example
+ * ```typescript
+ * import { SpendingPolicyEngine } from '@zendfi/sdk';
+ *
+ * const policy = new SpendingPolicyEngine(zendfi.agent);
+ *
+ * const decision = await policy.evaluate(session.id, request);
+ * if (decision.decision !== 'allow') {
+ *   return explain(decision.reasons.map((reason) => reason.message));
+ * }
+ *
+ * const payment = await zendfi.smart.execute(request);
+ * policy.recordSpend(session.id, payment.amount_usd);
+ * ```
+ */
+
+import type { AgentSession, SmartPaymentRequest } from './types';
+import type { AgentAPI } from './api/agent';
+import { SpendingPolicyError } from './errors';
+
+export type SpendingDecision = 'allow' | 'deny' | 'needs_approval';
+
+export type SpendingReasonCode =
+  | 'session_inactive'
+  | 'session_expired'
+  | 'session_mismatch'
+  | 'invalid_amount'
+  | 'merchant_not_allowed'
+  | 'per_transaction_limit'
+  | 'daily_limit'
+  | 'weekly_limit'
+  | 'monthly_limit'
+  | 'approval_required';
+
+export interface SpendingReason {
+  code: SpendingReasonCode;
+  /** Human-readable explanation an agent can relay to the user */
+  message: string;
+  /** The limit that applies, in USD */
+  limit?: number;
+  /** Allowance left before this payment, in USD */
+  remaining?: number;
+}
+
+export interface SpendingAllowance {
+  today: number;
+  this_week: number;
+  this_month: number;
+}
+
+export interface SpendingPolicyDecision {
+  decision: SpendingDecision;
+  /** Every rule the payment breaks; empty when allowed */
+  reasons: SpendingReason[];
+  amount_usd: number;
+  /** Allowance left if the payment goes ahead */
+  remaining: SpendingAllowance;
+}
+
+export interface SpendingPolicyCheckOptions {
+  /** Merchant allow-list, for sessions that don't report `allowed_merchants` */
+  allowedMerchants?: string[];
+  /** Evaluation time (default: now) */
+  now?: Date;
+}
+
+/**
+ * Evaluate a payment against a session snapshot
+ *
+ * Any breached limit denies the payment; otherwise an amount above
+ * `require_approval_above` needs approval.
+ */
+export function evaluateSpendingPolicy(
+  session: AgentSession,
+  request: SmartPaymentRequest,
+  options: SpendingPolicyCheckOptions = {}
+): SpendingPolicyDecision {
+  const amount = request.amount_usd;
+  const limits = session.limits ?? {};
+  const now = options.now ?? new Date();
+  const reasons: SpendingReason[] = [];
+
+  if (!session.is_active) {
+    reasons.push({ code: 'session_inactive', message: 'The agent session has been revoked' });
+  }
+  if (new Date(session.expires_at).getTime() <= now.getTime()) {
+    reasons.push({
+      code: 'session_expired',
+      message: `The agent session expired at ${session.expires_at}`,
+    });
+  }
+  if (request.session_token && request.session_token !== session.session_token) {
+    reasons.push({
+      code: 'session_mismatch',
+      message: 'The payment uses a different session token than the session being checked',
+    });
+  }
+  if (!Number.isFinite(amount) || amount <= 0) {
+    reasons.push({ code: 'invalid_amount', message: 'The amount must be greater than $0' });
+  }
+
+  const allowedMerchants = session.allowed_merchants ?? options.allowedMerchants;
+  if (
+    allowedMerchants?.length &&
+    (!request.merchant_id || !allowedMerchants.includes(request.merchant_id))
+  ) {
+    reasons.push({
+      code: 'merchant_not_allowed',
+      message: request.merchant_id
+        ? `Merchant ${request.merchant_id} is not on this session's allow-list`
+        : 'This session can only pay specific merchants, but no merchant was given',
+    });
+  }
+
+  if (limits.max_per_transaction !== undefined && amount > limits.max_per_transaction) {
+    reasons.push({
+      code: 'per_transaction_limit',
+      message: `${usd(amount)} is above the ${usd(limits.max_per_transaction)} per-payment limit`,
+      limit: limits.max_per_transaction,
+    });
+  }
+
+  const windows: Array<[SpendingReasonCode, string, number, number | undefined]> = [
+    ['daily_limit', 'today', session.remaining_today, limits.max_per_day],
+    ['weekly_limit', 'this week', session.remaining_this_week, limits.max_per_week],
+    ['monthly_limit', 'this month', session.remaining_this_month, limits.max_per_month],
+  ];
+  for (const [code, period, remaining, limit] of windows) {
+    if (amount > remaining) {
+      reasons.push({
+        code,
+        message: `${usd(amount)} is more than the ${usd(Math.max(0, remaining))} left ${period}`,
+        limit,
+        remaining: Math.max(0, remaining),
+      });
+    }
+  }
+
+  let decision: SpendingDecision = reasons.length > 0 ? 'deny' : 'allow';
+
+  if (
+    decision === 'allow' &&
+    limits.require_approval_above !== undefined &&
+    amount > limits.require_approval_above
+  ) {
+    decision = 'needs_approval';
+    reasons.push({
+      code: 'approval_required',
+      message: `Payments above ${usd(limits.require_approval_above)} need the user's approval`,
+      limit: limits.require_approval_above,
+    });
+  }
+
+  const spend = decision === 'deny' ? 0 : amount;
+  return {
+    decision,
+    reasons,
+    amount_usd: amount,
+    remaining: {
+      today: Math.max(0, session.remaining_today - spend),
+      this_week: Math.max(0, session.remaining_this_week - spend),
+      this_month: Math.max(0, session.remaining_this_month - spend),
+    },
+  };
+}
+
+// ============================================
+// Engine
+// ============================================
+
+export interface SpendingPolicyEngineOptions {
+  /** Re-fetch a session once its snapshot is older than this, in ms (default: 60000) */
+  maxStalenessMs?: number;
+}
+
+export interface TrackSessionOptions {
+  /** Merchant allow-list, for sessions that don't report `allowed_merchants` */
+  allowedMerchants?: string[];
+}
+
+interface TrackedSession {
+  snapshot: AgentSession;
+  fetchedAt: number;
+  /** Recorded since the snapshot was fetched */
+  spent: number;
+  allowedMerchants?: string[];
+}
+
+export class SpendingPolicyEngine {
+  private readonly sessions = new Map<string, TrackedSession>();
+  private readonly maxStalenessMs: number;
+
+  constructor(
+    private readonly agent: Pick<AgentAPI, 'getSession'>,
+    options: SpendingPolicyEngineOptions = {}
+  ) {
+    this.maxStalenessMs = options.maxStalenessMs ?? 60_000;
+  }
+
+  /**
+   * Start tracking a session from a snapshot you already have
+   * (e.g. the result of `agent.createSession`)
+   */
+  track(session: AgentSession, options: TrackSessionOptions = {}): void {
+    const existing = this.sessions.get(session.id);
+    this.sessions.set(session.id, {
+      snapshot: session,
+      fetchedAt: Date.now(),
+      spent: 0,
+      allowedMerchants: options.allowedMerchants ?? existing?.allowedMerchants,
+    });
+  }
+
+  /**
+   * Stop tracking a session
+   */
+  forget(sessionId: string): void {
+    this.sessions.delete(sessionId);
+  }
+
+  /**
+   * Re-fetch a session; payments recorded so far are assumed to be
+   * reflected in the new allowance
+   */
+  async refresh(sessionId: string): Promise<AgentSession> {
+    const session = await this.agent.getSession(sessionId);
+    this.track(session);
+    return session;
+  }
+
+  /**
+   * The session as the policy currently sees it: the last snapshot minus
+   * payments recorded since
+   */
+  async getSession(sessionId: string): Promise<AgentSession> {
+    const tracked = this.sessions.get(sessionId);
+    if (!tracked || Date.now() - tracked.fetchedAt > this.maxStalenessMs) {
+      await this.refresh(sessionId);
+    }
+    return this.effectiveSession(this.sessions.get(sessionId)!);
+  }
+
+  /**
+   * Evaluate a proposed payment
+   */
+  async evaluate(
+    sessionId: string,
+    request: SmartPaymentRequest
+  ): Promise<SpendingPolicyDecision> {
+    const session = await this.getSession(sessionId);
+    return evaluateSpendingPolicy(session, request, {
+      allowedMerchants: this.sessions.get(sessionId)?.allowedMerchants,
+    });
+  }
+
+  /**
+   * Evaluate a payment and throw unless it is allowed
+   *
+   * @throws {SpendingPolicyError} When the decision is `deny` or `needs_approval`
+   */
+  async assertAllowed(
+    sessionId: string,
+    request: SmartPaymentRequest
+  ): Promise<SpendingPolicyDecision> {
+    const decision = await this.evaluate(sessionId, request);
+    if (decision.decision !== 'allow') {
+      throw new SpendingPolicyError(decision);
+    }
+    return decision;
+  }
+
+  /**
+   * Count a completed payment against the session's allowance
+   */
+  recordSpend(sessionId: string, amountUsd: number): void {
+    const tracked = this.sessions.get(sessionId);
+    if (tracked) {
+      tracked.spent += amountUsd;
+    }
+  }
+
+  private effectiveSession(tracked: TrackedSession): AgentSession {
+    const { snapshot, spent } = tracked;
+    return {
+      ...snapshot,
+      remaining_today: snapshot.remaining_today - spent,
+      remaining_this_week: snapshot.remaining_this_week - spent,
+      remaining_this_month: snapshot.remaining_this_month - spent,
+    };
+  }
+}
+
+function usd(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
@@ -0,0 +1,289 @@
+/**
+ * OpenTelemetry Instrumentation
+ *
+ * Optional tracing and metrics for SDK calls. The SDK only relies on the
+ * shape of the OpenTelemetry API, so `@opentelemetry/api` stays an
+ * application dependency: pass in your own tracer and meter.
+ *
+ * - `zendfi.<namespace>.<method>` spans for `agent`, `intents`, `pricing`,
+ *   `autonomy` and `smart` operations
+ * - `zendfi.request` client spans for every HTTP request, with retries
+ *   recorded as events and the idempotency key as an attribute
+ * - `zendfi.client.request.duration` histogram and
+ *   `zendfi.client.request.errors` / `zendfi.client.retries` counters
+ *
+ * @example
+ * ```typescript
+ * import { trace, metrics } from '@opentelemetry/api';
+ *
+ * const zendfi = new ZendFiClient({
+ *   telemetry: {
+ *     tracer: trace.getTracer('@zendfi/sdk'),
+ *     meter: metrics.getMeter('@zendfi/sdk'),
+ *   },
+ * });
+ * ```
+ */
+
+import { defaultCircuitGroup } from './circuit-breaker';
+import type { ApiResponse } from './response';
+
+// ============================================
+// Structural OpenTelemetry API subset
+// ============================================
+
+export type AttributeValue = string | number | boolean;
+export type Attributes = Record<string, AttributeValue>;
+
+/** Subset of `Span` from `@opentelemetry/api` */
+export interface SpanLike {
+  setAttribute(key: string, value: AttributeValue): unknown;
+  addEvent(name: string, attributes?: Attributes): unknown;
+  recordException(exception: Error | string): void;
+  setStatus(status: { code: number; message?: string }): unknown;
+  end(): void;
+}
+
+/** Subset of `Tracer` from `@opentelemetry/api` */
+export interface TracerLike {
+  startActiveSpan<R>(
+    name: string,
+    options: { kind?: number; attributes?: Attributes },
+    fn: (span: SpanLike) => R
+  ): R;
+}
+
+/** Subset of `Meter` from `@opentelemetry/api` */
+export interface MeterLike {
+  createHistogram(
+    name: string,
+    options?: { description?: string; unit?: string }
+  ): { record(value: number, attributes?: Attributes): void };
+  createCounter(
+    name: string,
+    options?: { description?: string; unit?: string }
+  ): { add(value: number, attributes?: Attributes): void };
+}
+
+export interface TelemetryConfig {
+  /** Tracer used for operation and request spans */
+  tracer?: TracerLike;
+  /** Meter used for latency and error metrics */
+  meter?: MeterLike;
+}
+
+// Numeric values of SpanKind and SpanStatusCode from @opentelemetry/api
+const SPAN_KIND_INTERNAL = 0;
+const SPAN_KIND_CLIENT = 2;
+const STATUS_OK = 1;
+const STATUS_ERROR = 2;
+
+/**
+ * Per-request hooks used by the client while retrying
+ */
+export interface RequestTrace {
+  setIdempotencyKey(key: string | undefined): void;
+  recordRetry(details: { attempt: number; delayMs: number; status?: number; reason: string }): void;
+}
+
+/**
+ * Creates spans and records metrics for SDK calls
+ */
+export class Telemetry {
+  private readonly tracer?: TracerLike;
+  private readonly duration?: ReturnType<MeterLike['createHistogram']>;
+  private readonly errors?: ReturnType<MeterLike['createCounter']>;
+  private readonly retries?: ReturnType<MeterLike['createCounter']>;
+
+  constructor(config: TelemetryConfig) {
+    this.tracer = config.tracer;
+
+    if (config.meter) {
+      this.duration = config.meter.createHistogram('zendfi.client.request.duration', {
+        description: 'Duration of ZendFi API requests, including retries',
+        unit: 'ms',
+      });
+      this.errors = config.meter.createCounter('zendfi.client.request.errors', {
+        description: 'ZendFi API requests that ended in an error',
+      });
+      this.retries = config.meter.createCounter('zendfi.client.retries', {
+        description: 'Retried ZendFi API attempts',
+      });
+    }
+  }
+
+  /**
+   * Run an SDK operation inside a `zendfi.<name>` span
+   *
+   * The operation's return value is passed through untouched so an
+   * `ApiPromise` keeps its `withResponse()` method.
+   */
+  traceOperation<R>(name: string, fn: () => R): R {
+    if (!this.tracer) {
+      return fn();
+    }
+
+    return this.tracer.startActiveSpan(
+      `zendfi.${name}`,
+      { kind: SPAN_KIND_INTERNAL, attributes: { 'zendfi.operation': name } },
+      (span) => {
+        let result: R;
+        try {
+          result = fn();
+        } catch (error) {
+          endWithError(span, error);
+          throw error;
+        }
+
+        if (isThenable(result)) {
+          result.then(
+            () => endWithSuccess(span),
+            (error: unknown) => endWithError(span, error)
+          );
+        } else {
+          endWithSuccess(span);
+        }
+
+        return result;
+      }
+    );
+  }
+
+  /**
+   * Run an HTTP request (all attempts) inside a `zendfi.request` span and record metrics
+   */
+  traceRequest<T>(
+    method: string,
+    endpoint: string,
+    fn: (trace: RequestTrace) => Promise<ApiResponse<T>>
+  ): Promise<ApiResponse<T>> {
+    const group = defaultCircuitGroup(endpoint);
+    const metricAttributes: Attributes = {
+      'http.request.method': method,
+      'zendfi.endpoint_group': group,
+    };
+
+    const run = async (span?: SpanLike): Promise<ApiResponse<T>> => {
+      const startTime = Date.now();
+      let retryCount = 0;
+
+      const trace: RequestTrace = {
+        setIdempotencyKey: (key) => {
+          if (key) span?.setAttribute('zendfi.idempotency_key', key);
+        },
+        recordRetry: ({ attempt, delayMs, status, reason }) => {
+          retryCount++;
+          span?.addEvent('zendfi.retry', {
+            'zendfi.attempt': attempt,
+            'zendfi.retry.delay_ms': delayMs,
+            'zendfi.retry.reason': reason,
+            ...(status !== undefined && { 'http.response.status_code': status }),
+          });
+          this.retries?.add(1, { ...metricAttributes, 'zendfi.retry.reason': reason });
+        },
+      };
+
+      try {
+        const response = await fn(trace);
+
+        span?.setAttribute('http.response.status_code', response.status);
+        if (response.requestId) {
+          span?.setAttribute('zendfi.request_id', response.requestId);
+        }
+        this.duration?.record(Date.now() - startTime, {
+          ...metricAttributes,
+          'http.response.status_code': response.status,
+        });
+        return response;
+      } catch (error: any) {
+        const statusCode = typeof error?.statusCode === 'number' ? error.statusCode : undefined;
+        const errorAttributes: Attributes = {
+          ...metricAttributes,
+          ...(statusCode && { 'http.response.status_code': statusCode }),
+          'error.type': error?.code || error?.name || 'unknown',
+        };
+
+        if (statusCode) span?.setAttribute('http.response.status_code', statusCode);
+        if (error?.requestId) span?.setAttribute('zendfi.request_id', error.requestId);
+        this.duration?.record(Date.now() - startTime, errorAttributes);
+        this.errors?.add(1, errorAttributes);
+        throw error;
+      } finally {
+        span?.setAttribute('zendfi.retry_count', retryCount);
+      }
+    };
+
+    if (!this.tracer) {
+      return run();
+    }
+
+    return this.tracer.startActiveSpan(
+      'zendfi.request',
+      {
+        kind: SPAN_KIND_CLIENT,
+        attributes: { ...metricAttributes, 'url.path': endpoint.split('?')[0] || endpoint },
+      },
+      (span) =>
+        run(span).then(
+          (response) => {
+            endWithSuccess(span);
+            return response;
+          },
+          (error: unknown) => {
+            endWithError(span, error);
+            throw error;
+          }
+        )
+    );
+  }
+}
+
+/**
+ * Wrap the listed methods of a namespaced API in operation spans; other
+ * properties (sync helpers, `iterate()`) pass through untouched
+ */
+export function instrumentApi<T extends object>(
+  api: T,
+  namespace: string,
+  telemetry: Telemetry,
+  methods: ReadonlyArray<keyof T & string>
+): T {
+  const traced = new Set<string>(methods);
+  const wrappers = new Map<string, unknown>();
+
+  return new Proxy(api, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver);
+      if (typeof value !== 'function' || typeof property !== 'string' || !traced.has(property)) {
+        return value;
+      }
+
+      let wrapper = wrappers.get(property);
+      if (!wrapper) {
+        wrapper = (...args: unknown[]) =>
+          telemetry.traceOperation(`${namespace}.${property}`, () => value.apply(target, args));
+        wrappers.set(property, wrapper);
+      }
+      return wrapper;
+    },
+  });
+}
+
+function isThenable(value: unknown): value is PromiseLike<unknown> {
+  return typeof (value as PromiseLike<unknown> | undefined)?.then === 'function';
+}
+
+function endWithSuccess(span: SpanLike): void {
+  span.setStatus({ code: STATUS_OK });
+  span.end();
+}
+
+function endWithError(span: SpanLike, error: unknown): void {
+  const exception = error instanceof Error ? error : String(error);
+  span.recordException(exception);
+  span.setStatus({
+    code: STATUS_ERROR,
+    message: error instanceof Error ? error.message : String(error),
+  });
+  span.end();
+}
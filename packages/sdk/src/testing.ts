@@ -0,0 +1,398 @@
+/**
+ * Webhook Testing Helpers
+ *
+ * Typed factories for every webhook event and a signer that produces the
+ * same `x-zendfi-signature` header ZendFi sends, so webhook routes can be
+ * tested end-to-end without hand-building JSON or HMACs.
+ *
+ * @example
+ * ```typescript
+ * import request from 'supertest';
+ * import { createWebhookEvent, signWebhook, createWebhookRequest } from '@zendfi/sdk/testing';
+ *
+ * const event = createWebhookEvent('payment.confirmed', {
+ *   data: { amount_usd: 49.99, metadata: { orderId: 'ord_1' } },
+ * });
+ *
+ * // Express + supertest
+ * const { body, headers } = signWebhook(event, 'whsec_test');
+ * await request(app).post('/webhooks/zendfi').set(headers).send(body).expect(200);
+ *
+ * // Next.js App Router / Hono / any Fetch handler
+ * const response = await POST(createWebhookRequest(event, 'whsec_test'));
+ * ```
+ */
+
+import type {
+  Escrow,
+  InstallmentPlan,
+  Invoice,
+  Payment,
+  PaymentSplit,
+  Subscription,
+  WebhookEvent,
+  WebhookEventDataMap,
+  WebhookPayload,
+} from './types';
+import { generateWebhookSignatureHeader } from './webhook-signature';
+
+// ============================================
+// Fixtures
+// ============================================
+
+/** Merchant ID used when none is given */
+export const TEST_MERCHANT_ID = 'mer_test_7Yq2';
+
+// Base58 strings shaped like Solana addresses and signatures
+const TEST_WALLETS = {
+  customer: '7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU',
+  merchant: '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM',
+  escrow: 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB',
+};
+const TEST_TRANSACTION_SIGNATURE =
+  '5VERv8NMvzbJMEkV8xnrLkEaWRtSz9CosKDYjCJjBRnbJLgp8uirBgmQpjKhoR4tjF3ZpRzrFmBV6UjKdiSZkQUW';
+
+let sequence = 0;
+
+function nextId(prefix: string): string {
+  sequence++;
+  return `${prefix}_test_${String(sequence).padStart(4, '0')}`;
+}
+
+/**
+ * Restart generated IDs (`pay_test_0001`, ...) for deterministic snapshots
+ */
+export function resetTestIds(): void {
+  sequence = 0;
+}
+
+function isoDate(offsetMs = 0): string {
+  return new Date(Date.now() + offsetMs).toISOString();
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================
+// Resource factories
+// ============================================
+
+export function createTestPayment(overrides: Partial<Payment> = {}): Payment {
+  const id = overrides.id ?? nextId('pay');
+  return {
+    id,
+    merchant_id: TEST_MERCHANT_ID,
+    amount_usd: 25,
+    amount: 25,
+    currency: 'USD',
+    payment_token: 'USDC',
+    status: 'pending',
+    customer_wallet: TEST_WALLETS.customer,
+    customer_email: 'customer@example.com',
+    description: 'Test order',
+    checkout_url: `https://checkout.zendfi.tech/pay/${id}`,
+    expires_at: isoDate(15 * 60 * 1000),
+    metadata: {},
+    created_at: isoDate(),
+    updated_at: isoDate(),
+    ...overrides,
+  };
+}
+
+export function createTestSubscription(overrides: Partial<Subscription> = {}): Subscription {
+  return {
+    id: nextId('sub'),
+    plan_id: 'plan_test_monthly',
+    merchant_id: TEST_MERCHANT_ID,
+    customer_email: 'customer@example.com',
+    customer_wallet: TEST_WALLETS.customer,
+    status: 'active',
+    current_period_start: isoDate(),
+    current_period_end: isoDate(30 * DAY_MS),
+    metadata: {},
+    created_at: isoDate(),
+    updated_at: isoDate(),
+    ...overrides,
+  };
+}
+
+export function createTestPaymentSplit(overrides: Partial<PaymentSplit> = {}): PaymentSplit {
+  return {
+    id: nextId('split'),
+    payment_id: nextId('pay'),
+    recipient_wallet: TEST_WALLETS.merchant,
+    recipient_name: 'Marketplace seller',
+    percentage: 80,
+    amount_usd: 20,
+    status: 'completed',
+    split_order: 1,
+    transaction_signature: TEST_TRANSACTION_SIGNATURE,
+    created_at: isoDate(),
+    completed_at: isoDate(),
+    ...overrides,
+  };
+}
+
+export function createTestInstallmentPlan(
+  overrides: Partial<InstallmentPlan> = {}
+): InstallmentPlan {
+  return {
+    id: nextId('inst'),
+    merchant_id: TEST_MERCHANT_ID,
+    customer_wallet: TEST_WALLETS.customer,
+    customer_email: 'customer@example.com',
+    total_amount: '300.00',
+    installment_count: 3,
+    amount_per_installment: '100.00',
+    payment_schedule: [0, 1, 2].map((index) => ({
+      installment_number: index + 1,
+      due_date: isoDate(index * 30 * DAY_MS).slice(0, 10),
+      amount: '100.00',
+      status: 'pending',
+    })),
+    paid_count: 0,
+    status: 'active',
+    description: 'Test installment plan',
+    grace_period_days: 7,
+    metadata: {},
+    created_at: isoDate(),
+    updated_at: isoDate(),
+    ...overrides,
+  };
+}
+
+export function createTestEscrow(overrides: Partial<Escrow> = {}): Escrow {
+  return {
+    id: nextId('esc'),
+    payment_id: nextId('pay'),
+    merchant_id: TEST_MERCHANT_ID,
+    buyer_wallet: TEST_WALLETS.customer,
+    seller_wallet: TEST_WALLETS.merchant,
+    escrow_wallet: TEST_WALLETS.escrow,
+    amount: 500,
+    currency: 'USD',
+    token: 'USDC',
+    release_conditions: { type: 'manual_approval', approver: TEST_WALLETS.customer },
+    status: 'funded',
+    funded_at: isoDate(),
+    metadata: {},
+    created_at: isoDate(),
+    updated_at: isoDate(),
+    ...overrides,
+  };
+}
+
+export function createTestInvoice(overrides: Partial<Invoice> = {}): Invoice {
+  const id = overrides.id ?? nextId('inv');
+  return {
+    id,
+    invoice_number: `INV-${id.slice(-4)}`,
+    merchant_id: TEST_MERCHANT_ID,
+    customer_email: 'customer@example.com',
+    customer_name: 'Test Customer',
+    amount_usd: 150,
+    token: 'USDC',
+    description: 'Consulting services',
+    line_items: [{ description: 'Consulting (hours)', quantity: 3, unit_price: 50 }],
+    status: 'sent',
+    payment_url: `https://checkout.zendfi.tech/invoice/${id}`,
+    due_date: isoDate(14 * DAY_MS),
+    sent_at: isoDate(),
+    metadata: {},
+    created_at: isoDate(),
+    updated_at: isoDate(),
+    ...overrides,
+  };
+}
+
+// ============================================
+// Event factories
+// ============================================
+
+/** Event namespace (`payment`, `escrow`, ...), derived from the event names */
+type WebhookEventNamespace = WebhookEvent extends `${infer N}.${string}` ? N : never;
+
+/** The resource carried by every event in a namespace */
+type NamespaceResource<N extends WebhookEventNamespace> =
+  WebhookEventDataMap[Extract<WebhookEvent, `${N}.${string}`>];
+
+type ResourceFactory<R> = (overrides: Partial<R>, merchantId: string) => R;
+
+/**
+ * One factory per event namespace; an event in a new namespace won't compile
+ * until it has one
+ */
+const RESOURCE_FACTORIES: {
+  [N in WebhookEventNamespace]: ResourceFactory<NamespaceResource<N>>;
+} = {
+  payment: (overrides, merchantId) => createTestPayment({ merchant_id: merchantId, ...overrides }),
+  subscription: (overrides, merchantId) =>
+    createTestSubscription({ merchant_id: merchantId, ...overrides }),
+  // Splits don't carry a merchant ID
+  split: (overrides) => createTestPaymentSplit(overrides),
+  installment: (overrides, merchantId) =>
+    createTestInstallmentPlan({ merchant_id: merchantId, ...overrides }),
+  escrow: (overrides, merchantId) => createTestEscrow({ merchant_id: merchantId, ...overrides }),
+  invoice: (overrides, merchantId) => createTestInvoice({ merchant_id: merchantId, ...overrides }),
+};
+
+/**
+ * A namespace's resource factory with event-specific defaults layered on
+ * top, e.g. a confirmed payment has a transaction signature
+ */
+function eventFactory<N extends WebhookEventNamespace>(
+  namespace: N,
+  defaults: () => Partial<NamespaceResource<N>>
+): ResourceFactory<NamespaceResource<N>> {
+  return (overrides, merchantId) =>
+    RESOURCE_FACTORIES[namespace]({ ...defaults(), ...overrides }, merchantId);
+}
+
+const EVENT_FACTORIES: { [E in WebhookEvent]: ResourceFactory<WebhookEventDataMap[E]> } = {
+  'payment.created': eventFactory('payment', () => ({ status: 'pending' })),
+  'payment.confirmed': eventFactory('payment', () => ({
+    status: 'confirmed',
+    confirmed_at: isoDate(),
+    transaction_signature: TEST_TRANSACTION_SIGNATURE,
+  })),
+  'payment.failed': eventFactory('payment', () => ({ status: 'failed' })),
+  'payment.expired': eventFactory('payment', () => ({
+    status: 'expired',
+    expires_at: isoDate(-60 * 1000),
+  })),
+  'subscription.created': eventFactory('subscription', () => ({
+    status: 'active',
+    trial_end: isoDate(7 * DAY_MS),
+  })),
+  'subscription.activated': eventFactory('subscription', () => ({ status: 'active' })),
+  'subscription.canceled': eventFactory('subscription', () => ({
+    status: 'canceled',
+    canceled_at: isoDate(),
+  })),
+  'subscription.payment_failed': eventFactory('subscription', () => ({ status: 'past_due' })),
+  'split.completed': eventFactory('split', () => ({ status: 'completed' })),
+  'split.failed': eventFactory('split', () => ({
+    status: 'failed',
+    transaction_signature: undefined,
+    completed_at: undefined,
+    failure_reason: 'Recipient token account not found',
+  })),
+  'installment.due': eventFactory('installment', () => ({ status: 'active' })),
+  'installment.paid': eventFactory('installment', () => ({ status: 'active', paid_count: 1 })),
+  'installment.late': eventFactory('installment', () => ({
+    status: 'active',
+    late_fee_amount: '10.00',
+  })),
+  'escrow.funded': eventFactory('escrow', () => ({ status: 'funded' })),
+  'escrow.released': eventFactory('escrow', () => ({
+    status: 'released',
+    released_at: isoDate(),
+    release_transaction_signature: TEST_TRANSACTION_SIGNATURE,
+  })),
+  'escrow.refunded': eventFactory('escrow', () => ({
+    status: 'refunded',
+    refunded_at: isoDate(),
+    refund_transaction_signature: TEST_TRANSACTION_SIGNATURE,
+  })),
+  'escrow.disputed': eventFactory('escrow', () => ({
+    status: 'disputed',
+    disputed_at: isoDate(),
+    dispute_reason: 'Item not received',
+  })),
+  'invoice.sent': eventFactory('invoice', () => ({ status: 'sent' })),
+  'invoice.paid': eventFactory('invoice', () => ({ status: 'paid', paid_at: isoDate() })),
+};
+
+export interface WebhookEventOptions<E extends WebhookEvent> {
+  /** Event ID (default: a generated `evt_test_...` ID) */
+  id?: string;
+  /** Default: `TEST_MERCHANT_ID` */
+  merchantId?: string;
+  /** Default: now */
+  timestamp?: string | Date;
+  /** Fields to override on the generated resource */
+  data?: Partial<WebhookEventDataMap[E]>;
+}
+
+/**
+ * Build a realistic payload for any webhook event
+ */
+export function createWebhookEvent<E extends WebhookEvent>(
+  event: E,
+  options: WebhookEventOptions<E> = {}
+): WebhookPayload<E> {
+  const merchantId = options.merchantId ?? TEST_MERCHANT_ID;
+  const data = EVENT_FACTORIES[event](options.data ?? {}, merchantId);
+
+  const timestamp = options.timestamp ?? new Date();
+
+  return {
+    id: options.id ?? nextId('evt'),
+    event,
+    timestamp: typeof timestamp === 'string' ? timestamp : timestamp.toISOString(),
+    merchant_id: merchantId,
+    data,
+  } as WebhookPayload<E>;
+}
+
+// ============================================
+// Signing
+// ============================================
+
+export interface SignWebhookOptions {
+  /** Signed timestamp in Unix seconds (default: now); use an old one to test replay protection */
+  timestamp?: number;
+}
+
+export interface SignedWebhook {
+  /** The exact body that was signed; send it unchanged */
+  body: string;
+  /** The `x-zendfi-signature` value */
+  signature: string;
+  timestamp: number;
+  /** Headers to send with the body */
+  headers: Record<string, string>;
+}
+
+/**
+ * Serialize and sign a payload the way ZendFi does
+ */
+export function signWebhook(
+  payload: WebhookPayload | string,
+  secret: string,
+  options: SignWebhookOptions = {}
+): SignedWebhook {
+  const body = typeof payload === 'string' ? payload : JSON.stringify(payload);
+  const timestamp = options.timestamp ?? Math.floor(Date.now() / 1000);
+  const signature = generateWebhookSignatureHeader(body, secret, timestamp);
+
+  return {
+    body,
+    signature,
+    timestamp,
+    headers: {
+      'content-type': 'application/json',
+      'x-zendfi-signature': signature,
+    },
+  };
+}
+
+export interface WebhookRequestOptions extends SignWebhookOptions {
+  /** Default: `http://localhost/api/webhooks/zendfi` */
+  url?: string;
+}
+
+/**
+ * Build a signed Fetch `Request` for App Router, Hono or other Web handlers
+ */
+export function createWebhookRequest(
+  payload: WebhookPayload | string,
+  secret: string,
+  options: WebhookRequestOptions = {}
+): Request {
+  const { body, headers } = signWebhook(payload, secret, options);
+  return new Request(options.url ?? 'http://localhost/api/webhooks/zendfi', {
+    method: 'POST',
+    headers,
+    body,
+  });
+}
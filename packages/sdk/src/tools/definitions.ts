@@ -0,0 +1,236 @@
+/**
+ * Agent Tool Definitions
+ *
+ * Each tool pairs an `s` schema for its arguments with the SDK call it makes.
+ * Anything that identifies the agent or user (session token, agent ID,
+ * wallet) comes from the toolkit's session, never from the model, and calls
+ * authenticate as the session when its token is known.
+ */
+
+import type { ZendFiClient } from '../client';
+import type { ApprovalManager } from '../approvals/manager';
+import type { PaymentIntent, RequestOptions, SmartPaymentRequest } from '../types';
+import { ValidationError } from '../errors';
+import { s, type Infer, type Schema } from '../validation';
+
+/**
+ * Who the tools act for. Fill in what the tools you expose need: budget
+ * checks need `id`, smart payments need `userWallet`.
+ */
+export interface ToolSession {
+  /** Agent identifier, attached to intents and payments */
+  agentId: string;
+  /** Agent session ID (`agent.createSession().id`) */
+  id?: string;
+  /**
+   * Session token. Tool calls authenticate with it instead of the client's
+   * API key, so the API holds them to the session's limits.
+   */
+  token?: string;
+  /** Wallet that pays for smart payments */
+  userWallet?: string;
+}
+
+export interface ToolContext {
+  client: Pick<ZendFiClient, 'agent' | 'intents' | 'pricing' | 'smart'>;
+  session: ToolSession;
+  /** Routes smart payments through human approval when set */
+  approvals?: Pick<ApprovalManager, 'requestPayment'>;
+}
+
+export interface ZendFiTool<S extends Schema<any> = Schema<any>, N extends string = string> {
+  name: N;
+  /** Shown to the model; says when to use the tool */
+  description: string;
+  parameters: S;
+  run(args: Infer<S>, context: ToolContext): Promise<unknown>;
+}
+
+function defineTool<const N extends string, S extends Schema<any>>(
+  tool: ZendFiTool<S, N>
+): ZendFiTool<S, N> {
+  return tool;
+}
+
+const createPaymentIntent = defineTool({
+  name: 'create_payment_intent',
+  description:
+    'Create a payment intent that reserves an amount for the user to confirm later. ' +
+    'Returns the intent ID and status.',
+  parameters: s.object({
+    amount: s.number().describe('Amount in USD, greater than 0'),
+    description: s.string().describe('What the payment is for').optional(),
+    capture_method: s
+      .enum(['automatic', 'manual'])
+      .describe('"manual" only authorizes the payment; capture it later')
+      .optional(),
+    expires_in_seconds: s.number().describe('Seconds until the intent expires').optional(),
+  }),
+  async run(args, { client, session }) {
+    requirePositive(args.amount, 'amount');
+    const intent = await client.intents.create(
+      {
+        amount: args.amount,
+        description: args.description,
+        capture_method: args.capture_method,
+        expires_in_seconds: args.expires_in_seconds,
+        agent_id: session.agentId,
+      },
+      sessionAuth(session)
+    );
+    return summarizeIntent(intent);
+  },
+});
+
+const getPaymentIntent = defineTool({
+  name: 'get_payment_intent',
+  description: 'Look up a payment intent to check whether it has been paid.',
+  parameters: s.object({
+    intent_id: s.string().describe('ID returned by create_payment_intent'),
+  }),
+  async run(args, { client, session }) {
+    return summarizeIntent(await client.intents.get(args.intent_id, sessionAuth(session)));
+  },
+});
+
+const checkSessionBudget = defineTool({
+  name: 'check_session_budget',
+  description:
+    "Check how much the agent may still spend in this session, and above which amount the user's " +
+    'approval is needed. Use before suggesting or making a purchase.',
+  parameters: s.object({}),
+  async run(_args, { client, session }) {
+    const current = await client.agent.getSession(
+      requireSession(session, 'id'),
+      sessionAuth(session)
+    );
+    return {
+      is_active: current.is_active,
+      expires_at: current.expires_at,
+      remaining_today: current.remaining_today,
+      remaining_this_week: current.remaining_this_week,
+      remaining_this_month: current.remaining_this_month,
+      max_per_transaction: current.limits?.max_per_transaction,
+      require_approval_above: current.limits?.require_approval_above,
+    };
+  },
+});
+
+const getPPPPrice = defineTool({
+  name: 'get_ppp_price',
+  description:
+    "Adjust a USD price for purchasing power parity in the buyer's country. " +
+    'Returns the original and adjusted price.',
+  parameters: s.object({
+    base_price: s.number().describe('Price in USD'),
+    country_code: s.string().describe('ISO 3166-1 alpha-2 country code, e.g. "BR"'),
+  }),
+  async run(args, { client, session }) {
+    requirePositive(args.base_price, 'base_price');
+    return client.pricing.calculateLocalPrice(
+      args.base_price,
+      args.country_code,
+      sessionAuth(session)
+    );
+  },
+});
+
+const executeSmartPayment = defineTool({
+  name: 'execute_smart_payment',
+  description:
+    "Pay from the user's wallet within the session's spending limits. Payments above the " +
+    'approval threshold wait for the user to approve them.',
+  parameters: s.object({
+    amount_usd: s.number().describe('Amount in USD, greater than 0'),
+    merchant_id: s.string().describe('Merchant to pay').optional(),
+    description: s.string().describe('What the payment is for').optional(),
+    token: s.enum(['USDC', 'USDT', 'SOL']).describe('Token to pay with (default: USDC)').optional(),
+  }),
+  async run(args, { client, session, approvals }) {
+    requirePositive(args.amount_usd, 'amount_usd');
+    const request: SmartPaymentRequest = {
+      amount_usd: args.amount_usd,
+      merchant_id: args.merchant_id,
+      description: args.description,
+      token: args.token,
+      agent_id: session.agentId,
+      user_wallet: requireSession(session, 'userWallet'),
+      session_token: session.token,
+    };
+
+    if (approvals) {
+      const result = await approvals.requestPayment(
+        requireSession(session, 'id'),
+        request,
+        sessionAuth(session)
+      );
+      if (result.status !== 'executed') {
+        return {
+          status: result.status,
+          approval_id: result.approval.id,
+          expires_at: result.approval.expires_at,
+          reasons: result.approval.reasons.map((reason) => reason.message),
+        };
+      }
+      return result.payment;
+    }
+
+    return client.smart.execute(request, sessionAuth(session));
+  },
+});
+
+/**
+ * Every built-in tool, in the order they are offered to the model
+ */
+export const ZENDFI_TOOLS = [
+  createPaymentIntent,
+  getPaymentIntent,
+  checkSessionBudget,
+  getPPPPrice,
+  executeSmartPayment,
+] as const;
+
+export type ZendFiToolName = (typeof ZENDFI_TOOLS)[number]['name'];
+
+/**
+ * What the model sees of an intent; the client secret stays out of the transcript
+ */
+function summarizeIntent(intent: PaymentIntent) {
+  return {
+    id: intent.id,
+    status: intent.status,
+    amount: intent.amount,
+    currency: intent.currency,
+    description: intent.description,
+    payment_id: intent.payment_id,
+    expires_at: intent.expires_at,
+  };
+}
+
+/**
+ * Authenticate as the session when the toolkit has its token
+ */
+function sessionAuth(session: ToolSession): RequestOptions | undefined {
+  return session.token ? { headers: { Authorization: `Bearer ${session.token}` } } : undefined;
+}
+
+function requirePositive(value: number, field: string): void {
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new ValidationError(`${field} must be greater than 0`, 'invalid_amount');
+  }
+}
+
+function requireSession<K extends keyof ToolSession>(
+  session: ToolSession,
+  key: K
+): NonNullable<ToolSession[K]> {
+  const value = session[key];
+  if (!value) {
+    throw new ValidationError(
+      `The toolkit session has no ${key}`,
+      'missing_required_field',
+      `Pass session.${key} when creating the toolkit`
+    );
+  }
+  return value as NonNullable<ToolSession[K]>;
+}
@@ -0,0 +1,25 @@
+/**
+ * Agent Tools
+ *
+ * ZendFi operations as tools for LLM agents:
+ * - ZENDFI_TOOLS: the built-in tools, each an `s` schema plus the SDK call
+ * - ZendFiToolkit: JSON Schema definitions for OpenAI, Anthropic, LangChain
+ *   and the Vercel AI SDK, and a dispatcher for the model's tool calls
+ */
+
+export {
+  ZENDFI_TOOLS,
+  type ToolContext,
+  type ToolSession,
+  type ZendFiTool,
+  type ZendFiToolName,
+} from './definitions';
+export {
+  ZendFiToolkit,
+  type AnthropicToolUse,
+  type OpenAIToolCall,
+  type ToolCallResult,
+  type ToolDefinition,
+  type VercelAITool,
+  type ZendFiToolkitOptions,
+} from './toolkit';
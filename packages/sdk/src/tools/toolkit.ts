@@ -0,0 +1,274 @@
+/**
+ * Agent Toolkit
+ *
+ * Exposes the agent-facing APIs (`agent`, `intents`, `pricing`, `smart`) as
+ * tools for OpenAI function calling, Anthropic tool use, LangChain and the
+ * Vercel AI SDK, and dispatches the model's tool calls back to the SDK.
+ *
+ * @example
+ * ```typescript
+ * import { ZendFiToolkit } from '@zendfi/sdk';
+ *
+ * const toolkit = new ZendFiToolkit(zendfi, {
+ *   session: {
+ *     agentId: 'shopping-assistant',
+ *     id: session.id,
+ *     token: session.session_token,
+ *     userWallet: session.user_wallet,
+ *   },
+ * });
+ *
+ * const completion = await openai.chat.completions.create({
+ *   model,
+ *   messages,
+ *   tools: toolkit.toOpenAITools(),
+ * });
+ *
+ * for (const call of completion.choices[0].message.tool_calls ?? []) {
+ *   messages.push(await toolkit.handleOpenAIToolCall(call));
+ * }
+ * ```
+ */
+
+import { isZendFiError } from '../errors';
+import { toJSONSchema, type JSONSchema, type ValidationIssue } from '../validation';
+import {
+  ZENDFI_TOOLS,
+  type ToolContext,
+  type ToolSession,
+  type ZendFiTool,
+  type ZendFiToolName,
+} from './definitions';
+
+export interface ZendFiToolkitOptions {
+  session: ToolSession;
+  /** Only offer these tools (default: all) */
+  tools?: ZendFiToolName[];
+  /** Routes `execute_smart_payment` through human approval */
+  approvals?: ToolContext['approvals'];
+}
+
+/**
+ * A tool definition with JSON Schema parameters, framework-neutral
+ */
+export interface ToolDefinition {
+  name: ZendFiToolName;
+  description: string;
+  parameters: JSONSchema;
+}
+
+/**
+ * Outcome of a tool call. Failures are returned rather than thrown so the
+ * model can read them and correct itself.
+ */
+export type ToolCallResult =
+  | { ok: true; tool: string; result: unknown }
+  | {
+      ok: false;
+      tool: string;
+      error: { code: string; message: string; issues?: ValidationIssue[] };
+    };
+
+export interface OpenAIToolCall {
+  id: string;
+  function: { name: string; arguments: string };
+}
+
+export interface AnthropicToolUse {
+  id: string;
+  name: string;
+  input: unknown;
+}
+
+export interface VercelAITool<P> {
+  description: string;
+  inputSchema: P;
+  parameters: P;
+  execute: (input: unknown) => Promise<unknown>;
+}
+
+export class ZendFiToolkit {
+  private readonly tools: ZendFiTool[];
+  private readonly context: ToolContext;
+
+  constructor(client: ToolContext['client'], options: ZendFiToolkitOptions) {
+    const only = options.tools;
+    this.tools = ZENDFI_TOOLS.filter((tool) => !only || only.includes(tool.name));
+    this.context = { client, session: options.session, approvals: options.approvals };
+  }
+
+  /**
+   * Tool definitions with JSON Schema parameters
+   */
+  definitions(): ToolDefinition[] {
+    return this.tools.map((tool) => ({
+      name: tool.name as ZendFiToolName,
+      description: tool.description,
+      parameters: toJSONSchema(tool.parameters),
+    }));
+  }
+
+  /**
+   * Validate the model's arguments and run the tool
+   *
+   * @param args - Parsed arguments, or the raw JSON string the model produced
+   */
+  async execute(name: string, args: unknown): Promise<ToolCallResult> {
+    const tool = this.tools.find((candidate) => candidate.name === name);
+    if (!tool) {
+      return failure(name, 'unknown_tool', `Unknown tool "${name}"`);
+    }
+
+    let input = args ?? {};
+    if (typeof input === 'string') {
+      try {
+        input = input.trim() ? JSON.parse(input) : {};
+      } catch {
+        return failure(name, 'invalid_arguments', 'Arguments are not valid JSON');
+      }
+    }
+
+    const parsed = tool.parameters.safeParse(input);
+    if (!parsed.success) {
+      const { issues } = parsed;
+      const message = issues.map((i) => `${i.path}: expected ${i.expected}`).join('; ');
+      return { ok: false, tool: name, error: { code: 'invalid_arguments', message, issues } };
+    }
+
+    try {
+      return { ok: true, tool: name, result: await tool.run(parsed.data, this.context) };
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      return failure(name, isZendFiError(err) ? err.code : 'tool_failed', err.message);
+    }
+  }
+
+  // ============================================
+  // OpenAI
+  // ============================================
+
+  /**
+   * `tools` for the Chat Completions API
+   */
+  toOpenAITools(): Array<{
+    type: 'function';
+    function: { name: string; description: string; parameters: JSONSchema };
+  }> {
+    return this.definitions().map((definition) => ({ type: 'function', function: definition }));
+  }
+
+  /**
+   * Run a tool call and build the `tool` message to send back
+   */
+  async handleOpenAIToolCall(
+    call: OpenAIToolCall
+  ): Promise<{ role: 'tool'; tool_call_id: string; content: string }> {
+    const result = await this.execute(call.function.name, call.function.arguments);
+    return { role: 'tool', tool_call_id: call.id, content: toContent(result) };
+  }
+
+  // ============================================
+  // Anthropic
+  // ============================================
+
+  /**
+   * `tools` for the Messages API
+   */
+  toAnthropicTools(): Array<{ name: string; description: string; input_schema: JSONSchema }> {
+    return this.definitions().map(({ name, description, parameters }) => ({
+      name,
+      description,
+      input_schema: parameters,
+    }));
+  }
+
+  /**
+   * Run a `tool_use` block and build the matching `tool_result` block
+   */
+  async handleAnthropicToolUse(block: AnthropicToolUse): Promise<{
+    type: 'tool_result';
+    tool_use_id: string;
+    content: string;
+    is_error?: boolean;
+  }> {
+    const result = await this.execute(block.name, block.input);
+    return {
+      type: 'tool_result',
+      tool_use_id: block.id,
+      content: toContent(result),
+      ...(result.ok ? {} : { is_error: true }),
+    };
+  }
+
+  // ============================================
+  // LangChain
+  // ============================================
+
+  /**
+   * Fields for LangChain's `DynamicStructuredTool` (JSON Schema `schema`)
+   *
+   * @example
+   * ```typescript
+   * import { DynamicStructuredTool } from '@langchain/core/tools';
+   * const tools = toolkit.toLangChainTools().map((t) => new DynamicStructuredTool(t));
+   * ```
+   */
+  toLangChainTools(): Array<{
+    name: string;
+    description: string;
+    schema: JSONSchema;
+    func: (input: unknown) => Promise<string>;
+  }> {
+    return this.definitions().map(({ name, description, parameters }) => ({
+      name,
+      description,
+      schema: parameters,
+      func: async (input: unknown) => toContent(await this.execute(name, input)),
+    }));
+  }
+
+  // ============================================
+  // Vercel AI SDK
+  // ============================================
+
+  /**
+   * A tool set for `generateText`/`streamText`
+   *
+   * @param jsonSchema - The `jsonSchema` helper from `ai`, which wraps plain
+   *   JSON Schema for the SDK
+   *
+   * @example
+   * ```typescript
+   * import { generateText, jsonSchema } from 'ai';
+   * await generateText({ model, prompt, tools: toolkit.toVercelAITools(jsonSchema) });
+   * ```
+   */
+  toVercelAITools<P>(jsonSchema: (schema: JSONSchema) => P): Record<string, VercelAITool<P>> {
+    const tools: Record<string, VercelAITool<P>> = {};
+    for (const { name, description, parameters } of this.definitions()) {
+      const schema = jsonSchema(parameters);
+      tools[name] = {
+        description,
+        // `inputSchema` for AI SDK 5+, `parameters` for earlier versions
+        inputSchema: schema,
+        parameters: schema,
+        execute: async (input: unknown) => {
+          const result = await this.execute(name, input);
+          return result.ok ? result.result : { error: result.error };
+        },
+      };
+    }
+    return tools;
+  }
+}
+
+function failure(tool: string, code: string, message: string): ToolCallResult {
+  return { ok: false, tool, error: { code, message } };
+}
+
+/**
+ * Tool output as text for the model
+ */
+function toContent(result: ToolCallResult): string {
+  return JSON.stringify(result.ok ? result.result : { error: result.error });
+}
@@ -0,0 +1,232 @@
+/**
+ * HTTP Transport Layer
+ *
+ * The wire layer used by ZendFiClient. Retries, interceptors, idempotency and
+ * error mapping all live in the client; a transport only moves bytes.
+ *
+ * @example
+ * ```typescript
+ * import { ZendFiClient, UndiciTransport } from '@zendfi/sdk';
+ *
+ * // Pooled keep-alive connections on Node.js (requires `npm install undici`)
+ * const zendfi = new ZendFiClient({
+ *   transport: new UndiciTransport({ connections: 20 }),
+ * });
+ *
+ * // Or a fully custom transport (proxies, recording in tests, ...)
+ * const zendfi = new ZendFiClient({
+ *   transport: {
+ *     async request(req) {
+ *       return { status: 200, statusText: 'OK', headers: {}, body: '{}' };
+ *     },
+ *   },
+ * });
+ * ```
+ */
+
+import crossFetch from 'cross-fetch';
+
+/**
+ * Outgoing request handed to a transport
+ */
+export interface TransportRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  /** Serialized request body */
+  body?: string;
+  /** Aborted when the request times out */
+  signal?: AbortSignal;
+}
+
+/**
+ * Raw response returned by a transport
+ */
+export interface TransportResponse {
+  status: number;
+  statusText: string;
+  /** Response headers with lower-cased names */
+  headers: Record<string, string>;
+  /** Raw response body */
+  body: string;
+}
+
+/**
+ * Pluggable HTTP transport
+ *
+ * Implementations must reject with an error named `AbortError` when the
+ * request signal is aborted, and must NOT reject on non-2xx status codes.
+ */
+export interface HttpTransport {
+  request(request: TransportRequest): Promise<TransportResponse>;
+}
+
+type FetchLike = (url: string, init: {
+  method: string;
+  headers: Record<string, string>;
+  body?: string;
+  signal?: AbortSignal;
+}) => Promise<{
+  status: number;
+  statusText: string;
+  headers: { forEach(callback: (value: string, key: string) => void): void };
+  text(): Promise<string>;
+}>;
+
+/**
+ * Default transport built on the Fetch API
+ */
+export class FetchTransport implements HttpTransport {
+  private readonly fetch: FetchLike;
+
+  /**
+   * @param fetchImpl - Custom fetch implementation (defaults to cross-fetch)
+   */
+  constructor(fetchImpl?: FetchLike) {
+    this.fetch = fetchImpl || (crossFetch as unknown as FetchLike);
+  }
+
+  async request(request: TransportRequest): Promise<TransportResponse> {
+    const response = await this.fetch(request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: request.body,
+      signal: request.signal,
+    });
+
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, key) => {
+      headers[key.toLowerCase()] = value;
+    });
+
+    return {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+      body: await response.text(),
+    };
+  }
+}
+
+/**
+ * Minimal subset of the `undici` module used by UndiciTransport
+ */
+export interface UndiciModule {
+  Agent: new (options?: Record<string, unknown>) => UndiciDispatcher;
+  ProxyAgent: new (options: Record<string, unknown>) => UndiciDispatcher;
+  request(
+    url: string,
+    options: {
+      method: string;
+      headers: Record<string, string>;
+      body?: string;
+      signal?: AbortSignal;
+      dispatcher?: UndiciDispatcher;
+    }
+  ): Promise<{
+    statusCode: number;
+    headers: Record<string, string | string[] | undefined>;
+    body: { text(): Promise<string> };
+  }>;
+}
+
+export interface UndiciDispatcher {
+  close(): Promise<void>;
+}
+
+export interface UndiciTransportOptions {
+  /** Pre-loaded undici module (loaded lazily via dynamic import if omitted) */
+  undici?: UndiciModule;
+  /** Maximum sockets per origin (default: 10) */
+  connections?: number;
+  /** Idle keep-alive timeout in milliseconds (default: 4000) */
+  keepAliveTimeout?: number;
+  /** HTTP/1.1 pipelining depth (default: 1) */
+  pipelining?: number;
+  /** TLS/socket options forwarded to undici's `connect` (ca, cert, key, rejectUnauthorized, ...) */
+  connect?: Record<string, unknown>;
+  /** Route requests through this HTTP(S) proxy URL */
+  proxy?: string;
+}
+
+/**
+ * Node.js transport using undici connection pools
+ *
+ * `undici` is an optional peer dependency: install it alongside the SDK
+ * to use this transport.
+ */
+export class UndiciTransport implements HttpTransport {
+  private undici?: UndiciModule;
+  private dispatcher?: UndiciDispatcher;
+
+  constructor(private readonly options: UndiciTransportOptions = {}) {
+    this.undici = options.undici;
+  }
+
+  async request(request: TransportRequest): Promise<TransportResponse> {
+    const undici = await this.load();
+    const dispatcher = this.getDispatcher(undici);
+
+    const response = await undici.request(request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: request.body,
+      signal: request.signal,
+      dispatcher,
+    });
+
+    const headers: Record<string, string> = {};
+    for (const [key, value] of Object.entries(response.headers)) {
+      if (value !== undefined) {
+        headers[key.toLowerCase()] = Array.isArray(value) ? value.join(', ') : value;
+      }
+    }
+
+    return {
+      status: response.statusCode,
+      statusText: '',
+      headers,
+      body: await response.body.text(),
+    };
+  }
+
+  /**
+   * Close pooled connections
+   */
+  async close(): Promise<void> {
+    if (this.dispatcher) {
+      await this.dispatcher.close();
+      this.dispatcher = undefined;
+    }
+  }
+
+  private async load(): Promise<UndiciModule> {
+    if (!this.undici) {
+      const moduleName = 'undici';
+      try {
+        this.undici = (await import(moduleName)) as UndiciModule;
+      } catch {
+        throw new Error(
+          'UndiciTransport requires the "undici" package. Install it with: npm install undici'
+        );
+      }
+    }
+    return this.undici;
+  }
+
+  private getDispatcher(undici: UndiciModule): UndiciDispatcher {
+    if (!this.dispatcher) {
+      const poolOptions = {
+        connections: this.options.connections ?? 10,
+        keepAliveTimeout: this.options.keepAliveTimeout ?? 4000,
+        pipelining: this.options.pipelining ?? 1,
+        connect: this.options.connect,
+      };
+
+      this.dispatcher = this.options.proxy
+        ? new undici.ProxyAgent({ uri: this.options.proxy, ...poolOptions })
+        : new undici.Agent(poolOptions);
+    }
+    return this.dispatcher;
+  }
+}
@@ -3,6 +3,14 @@
  * Complete type definitions for the ZendFi API
  */
 
+import type { HttpTransport } from './transport';
+import type { RetryPolicy } from './retry';
+import type { CircuitBreakerConfig } from './circuit-breaker';
+import type { Logger, LogLevel } from './logger';
+import type { TelemetryConfig } from './telemetry';
+import type { ValidationMode } from './validation';
+import type { WebhookSecret, WebhookSignatureOptions } from './webhook-signature';
+
 export type Environment = 'development' | 'staging' | 'production';
 
 export type ApiKeyMode = 'test' | 'live';
@@ -51,8 +59,34 @@ export interface ZendFiConfig {
   mode?: ApiKeyMode;
   timeout?: number;
   retries?: number;
+  retryPolicy?: Partial<RetryPolicy>; // Backoff, jitter and retryable statuses
   idempotencyEnabled?: boolean;
-  debug?: boolean; // Enable request/response logging
+  debug?: boolean; // Shortcut for logLevel 'debug' (console output unless `logger` is set)
+  logger?: Logger; // pino-compatible structured logger (defaults to the console)
+  logLevel?: LogLevel; // Minimum level to emit (default depends on debug/logger/environment)
+  redact?: string[]; // Keys redacted from logged fields (default: DEFAULT_REDACT_KEYS)
+  transport?: HttpTransport; // Wire layer (defaults to FetchTransport)
+  circuitBreaker?: CircuitBreakerConfig | false; // Opt-in fail-fast when the API degrades
+  telemetry?: TelemetryConfig | false; // OpenTelemetry tracer/meter for spans and metrics
+  validation?: ValidationMode; // Check responses against their schemas (default: 'off')
+}
+
+/**
+ * Per-call options accepted as the trailing argument of every SDK method
+ */
+export interface RequestOptions {
+  /** Override the client's retry policy for this call (`false` disables retries) */
+  retry?: Partial<RetryPolicy> | false;
+  /** Cancel the call (including pending retries) when this signal aborts */
+  signal?: AbortSignal;
+  /** Per-attempt timeout in milliseconds (defaults to the client `timeout`) */
+  timeout?: number;
+  /** Idempotency key to send instead of an auto-generated one (reused across retries) */
+  idempotencyKey?: string;
+  /** Extra headers merged into the request */
+  headers?: Record<string, string>;
+  /** Override the client's response validation mode for this call */
+  validation?: ValidationMode;
 }
 
 export interface SplitRecipient {
@@ -144,6 +178,14 @@ export interface ListPaymentsRequest {
   to_date?: string;
 }
 
+export interface IteratePaymentsRequest {
+  status?: PaymentStatus;
+  from_date?: string;
+  to_date?: string;
+  /** Number of payments requested per page (default: 50) */
+  pageSize?: number;
+}
+
 export interface PaginatedResponse<T> {
   data: T[];
   pagination: {
@@ -204,19 +246,80 @@ export interface Subscription {
   updated_at: string;
 }
 
-export interface WebhookPayload {
-  event: WebhookEvent;
-  timestamp: string;
-  merchant_id: string;
-  data: Payment | Subscription;
+/**
+ * A single recipient's share of a split payment, as delivered by `split.*` webhooks
+ */
+export interface PaymentSplit {
+  id: string;
+  payment_id: string;
+  recipient_wallet: string;
+  recipient_name?: string;
+  percentage?: number;
+  amount_usd: number;
+  status: SplitStatus;
+  split_order?: number;
+  transaction_signature?: string;
+  failure_reason?: string;
+  created_at: string;
+  completed_at?: string;
+}
+
+/**
+ * Shape of `data` for each webhook event
+ */
+export interface WebhookEventDataMap {
+  'payment.created': Payment;
+  'payment.confirmed': Payment;
+  'payment.failed': Payment;
+  'payment.expired': Payment;
+  'subscription.created': Subscription;
+  'subscription.activated': Subscription;
+  'subscription.canceled': Subscription;
+  'subscription.payment_failed': Subscription;
+  'split.completed': PaymentSplit;
+  'split.failed': PaymentSplit;
+  'installment.due': InstallmentPlan;
+  'installment.paid': InstallmentPlan;
+  'installment.late': InstallmentPlan;
+  'escrow.funded': Escrow;
+  'escrow.released': Escrow;
+  'escrow.refunded': Escrow;
+  'escrow.disputed': Escrow;
+  'invoice.sent': Invoice;
+  'invoice.paid': Invoice;
 }
 
-export interface VerifyWebhookRequest {
+/**
+ * Webhook payload, discriminated on `event`
+ *
+ * Narrowing on `event` types `data` accordingly:
+ * ```typescript
+ * if (payload.event === 'escrow.funded') {
+ *   payload.data.buyer_wallet; // Escrow
+ * }
+ * ```
+ *
+ * Pass an event (or union of events) to get the payload for just those events,
+ * e.g. `WebhookPayload<'invoice.paid'>`.
+ */
+export type WebhookPayload<E extends WebhookEvent = WebhookEvent> = {
+  [K in E]: {
+    /** Unique event ID, stable across redeliveries */
+    id?: string;
+    event: K;
+    timestamp: string;
+    merchant_id: string;
+    data: WebhookEventDataMap[K];
+  };
+}[E];
+
+export interface VerifyWebhookRequest extends WebhookSignatureOptions {
   // Allow either the raw JSON string body or the already-parsed object.
   // The SDK will handle both cases.
   payload: string | object;
   signature: string;
-  secret: string;
+  /** Webhook secret, or all active secrets (newest first) while rotating */
+  secret: WebhookSecret;
 }
 
 export class ZendFiError extends Error {
@@ -516,6 +619,8 @@ export interface AgentSession {
   remaining_this_week: number;
   /** Remaining monthly spending allowance */
   remaining_this_month: number;
+  /** Merchants the session may pay (UUIDs), when restricted */
+  allowed_merchants?: string[];
 }
 
 /**
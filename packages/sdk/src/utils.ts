@@ -2,6 +2,10 @@ import type {
   Environment,
   ZendFiConfig,
 } from './types';
+import { FetchTransport } from './transport';
+import { resolveRetryPolicy } from './retry';
+import { randomUUID } from './crypto';
+import { consoleLogger, DEFAULT_REDACT_KEYS, type LogLevel } from './logger';
 import {
   ZendFiError,
   AuthenticationError,
@@ -20,8 +24,10 @@ export class ConfigLoader {
   static load(options?: Partial<ZendFiConfig>): Required<ZendFiConfig> {
     const environment = this.detectEnvironment();
     const apiKey = this.loadApiKey(options?.apiKey);
-    const mode = this.detectMode(apiKey);
+    // The key's prefix wins; `mode` only fills in for credentials without one (session tokens)
+    const mode = this.detectMode(apiKey) ?? options?.mode ?? 'live';
     const baseURL = this.getBaseURL(environment, mode, options?.baseURL);
+    const debug = options?.debug ?? false;
 
     return {
       apiKey,
@@ -30,23 +36,43 @@ export class ConfigLoader {
       mode,
       timeout: options?.timeout ?? 30000,
       retries: options?.retries ?? 3,
+      retryPolicy: resolveRetryPolicy(
+        { maxAttempts: options?.retries ?? 3 },
+        options?.retryPolicy
+      ),
       idempotencyEnabled: options?.idempotencyEnabled ?? true,
-      debug: options?.debug ?? false,
+      debug,
+      logger: options?.logger ?? consoleLogger,
+      logLevel: options?.logLevel ?? this.defaultLogLevel(debug, !!options?.logger),
+      redact: options?.redact ?? [...DEFAULT_REDACT_KEYS],
+      transport: options?.transport ?? new FetchTransport(),
+      circuitBreaker: options?.circuitBreaker ?? false,
+      telemetry: options?.telemetry ?? false,
+      validation: options?.validation ?? 'off',
     };
   }
 
   /**
-   * Detect mode (test/live) from API key prefix
+   * Debug mode logs everything; otherwise a custom logger gets warnings and
+   * errors, and the console stays quiet unless `debug` is set
+   */
+  private static defaultLogLevel(debug: boolean, hasLogger: boolean): LogLevel {
+    if (debug) return 'debug';
+    if (hasLogger) return 'warn';
+    return 'silent';
+  }
+
+  /**
+   * Detect mode (test/live) from API key prefix (merchant `zfi_` or agent `zai_` keys)
    */
-  private static detectMode(apiKey: string): 'test' | 'live' {
-    if (apiKey.startsWith('zfi_test_')) {
+  private static detectMode(apiKey: string): 'test' | 'live' | undefined {
+    if (apiKey.startsWith('zfi_test_') || apiKey.startsWith('zai_test_')) {
       return 'test';
     }
-    if (apiKey.startsWith('zfi_live_')) {
+    if (apiKey.startsWith('zfi_live_') || apiKey.startsWith('zai_live_')) {
       return 'live';
     }
-    // Fallback to live if no prefix detected
-    return 'live';
+    return undefined;
   }
 
   /**
@@ -152,12 +178,14 @@ export class ConfigLoader {
   }
 
   /**
-   * Validate API key format
+   * Validate API key format; agent keys (`zai_test_`/`zai_live_`) are accepted
+   * too, and the API limits them to their scopes
    */
   static validateApiKey(apiKey: string): void {
-    if (!apiKey.startsWith('zfi_test_') && !apiKey.startsWith('zfi_live_')) {
+    if (!/^(zfi|zai)_(test|live)_/.test(apiKey)) {
       throw new Error(
-        'Invalid API key format. ZendFi API keys should start with "zfi_test_" or "zfi_live_"'
+        'Invalid API key format. ZendFi API keys should start with "zfi_test_" or "zfi_live_" ' +
+          '(agent keys with "zai_test_" or "zai_live_")'
       );
     }
 
@@ -221,8 +249,29 @@ export function generateIdempotencyKey(): string {
 }
 
 /**
- * Sleep utility for retry backoff
+ * Random token identifying one holder of a lease (queue job or webhook claim)
  */
-export function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+export function generateLeaseToken(): string {
+  return randomUUID();
+}
+
+/**
+ * Sleep utility for retry backoff (resolves early if the signal aborts)
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 }
@@ -0,0 +1,350 @@
+/**
+ * Schema Validation
+ *
+ * A small, dependency-free schema builder used to check API responses at
+ * runtime. Object schemas ignore unknown keys, so new fields added by the
+ * API never fail validation; only missing or mistyped fields do. `safeParse`
+ * returns a copy holding only the declared fields, so input checked with it
+ * (e.g. a model's tool arguments) can be passed on without smuggling in more.
+ *
+ * @example
+ * ```typescript
+ * import { s } from '@zendfi/sdk';
+ *
+ * const OrderSchema = s.object({
+ *   id: s.string(),
+ *   amount: s.number(),
+ *   status: s.enum(['open', 'paid']),
+ *   note: s.string().optional(),
+ * });
+ *
+ * const result = OrderSchema.safeParse(json);
+ * if (!result.success) console.error(result.issues);
+ * ```
+ */
+
+/**
+ * How the client treats responses that don't match their schema
+ * - `strict`: throw `ResponseValidationError`
+ * - `warn`: log a warning and return the data as-is
+ * - `off`: skip validation
+ */
+export type ValidationMode = 'strict' | 'warn' | 'off';
+
+export type SchemaDef =
+  | { kind: 'string' }
+  | { kind: 'number' }
+  | { kind: 'boolean' }
+  | { kind: 'unknown' }
+  | { kind: 'enum'; values: readonly (string | number | boolean)[] }
+  | { kind: 'array'; items: Schema<unknown> }
+  | { kind: 'object'; shape: Record<string, Schema<unknown>> }
+  | { kind: 'record'; values: Schema<unknown> }
+  | { kind: 'union'; options: readonly Schema<unknown>[] };
+
+/**
+ * A single mismatch between a value and its schema
+ */
+export interface ValidationIssue {
+  /** Dotted path to the offending field (e.g. `payment_schedule[0].amount`) */
+  path: string;
+  /** What the schema expected */
+  expected: string;
+  /** What was actually received */
+  received: string;
+}
+
+export type SafeParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: ValidationIssue[] };
+
+/**
+ * Runtime schema for values of type `T`
+ */
+export class Schema<T> {
+  /** Phantom field carrying the static type (never set at runtime) */
+  declare readonly _type: T;
+
+  constructor(
+    readonly def: SchemaDef,
+    /** Accepts `undefined` and `null` (the API serializes absent fields as null) */
+    readonly isOptional = false,
+    /** Carried into JSON Schema output (e.g. for agent tool parameters) */
+    readonly description?: string
+  ) {}
+
+  /**
+   * Allow the value to be missing or null
+   */
+  optional(): Schema<T | undefined> {
+    return new Schema<T | undefined>(this.def, true, this.description);
+  }
+
+  /**
+   * Attach a description
+   */
+  describe(description: string): Schema<T> {
+    return new Schema<T>(this.def, this.isOptional, description);
+  }
+
+  /**
+   * Check a value and return every issue found (empty when valid)
+   */
+  validate(value: unknown, path = ''): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    check(this, value, path, issues);
+    return issues;
+  }
+
+  /**
+   * Validate without throwing; on success `data` keeps only the fields the
+   * object schemas declare
+   */
+  safeParse(value: unknown): SafeParseResult<T> {
+    const issues = this.validate(value);
+    return issues.length === 0
+      ? { success: true, data: pick(this, value) as T }
+      : { success: false, issues };
+  }
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type OptionalKeys<S> = {
+  [K in keyof S]: undefined extends Infer<S[K]> ? K : never;
+}[keyof S];
+
+type ObjectType<S extends Record<string, Schema<any>>> = {
+  [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]>;
+} & {
+  [K in OptionalKeys<S>]?: Infer<S[K]>;
+};
+
+/**
+ * Schema builders
+ */
+export const s = {
+  string: (): Schema<string> => new Schema({ kind: 'string' }),
+  number: (): Schema<number> => new Schema({ kind: 'number' }),
+  boolean: (): Schema<boolean> => new Schema({ kind: 'boolean' }),
+  unknown: (): Schema<unknown> => new Schema({ kind: 'unknown' }),
+
+  enum: <const V extends readonly (string | number | boolean)[]>(values: V): Schema<V[number]> =>
+    new Schema({ kind: 'enum', values }),
+
+  array: <T>(items: Schema<T>): Schema<T[]> =>
+    new Schema({ kind: 'array', items: items as Schema<unknown> }),
+
+  object: <S extends Record<string, Schema<any>>>(shape: S): Schema<ObjectType<S>> =>
+    new Schema({ kind: 'object', shape }),
+
+  record: <T>(values: Schema<T>): Schema<Record<string, T>> =>
+    new Schema({ kind: 'record', values: values as Schema<unknown> }),
+
+  union: <O extends readonly Schema<any>[]>(options: O): Schema<Infer<O[number]>> =>
+    new Schema({ kind: 'union', options }),
+};
+
+// ============================================
+// JSON Schema
+// ============================================
+
+/**
+ * The subset of JSON Schema that `toJSONSchema` produces
+ */
+export interface JSONSchema {
+  type?: 'string' | 'number' | 'boolean' | 'array' | 'object';
+  description?: string;
+  enum?: readonly (string | number | boolean)[];
+  items?: JSONSchema;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: JSONSchema | boolean;
+  anyOf?: JSONSchema[];
+}
+
+/**
+ * Convert a schema to JSON Schema; optional object fields are left out of
+ * `required`, and objects don't allow undeclared properties
+ */
+export function toJSONSchema(schema: Schema<unknown>): JSONSchema {
+  const json = jsonSchemaFor(schema.def);
+  if (schema.description) {
+    json.description = schema.description;
+  }
+  return json;
+}
+
+function jsonSchemaFor(def: SchemaDef): JSONSchema {
+  switch (def.kind) {
+    case 'unknown':
+      return {};
+    case 'string':
+    case 'number':
+    case 'boolean':
+      return { type: def.kind };
+    case 'enum':
+      return { enum: def.values };
+    case 'array':
+      return { type: 'array', items: toJSONSchema(def.items) };
+    case 'object': {
+      const properties: Record<string, JSONSchema> = {};
+      const required: string[] = [];
+      for (const [key, field] of Object.entries(def.shape)) {
+        properties[key] = toJSONSchema(field);
+        if (!field.isOptional) required.push(key);
+      }
+      return { type: 'object', properties, required, additionalProperties: false };
+    }
+    case 'record':
+      return { type: 'object', additionalProperties: toJSONSchema(def.values) };
+    case 'union':
+      return { anyOf: def.options.map(toJSONSchema) };
+  }
+}
+
+// ============================================
+// Validation
+// ============================================
+
+function check(
+  schema: Schema<unknown>,
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[]
+): void {
+  const fail = () =>
+    issues.push({
+      path: path || '(root)',
+      expected: describe(schema),
+      received: describeValue(value),
+    });
+
+  if (value === undefined || value === null) {
+    if (!schema.isOptional && schema.def.kind !== 'unknown') {
+      fail();
+    }
+    return;
+  }
+
+  const def = schema.def;
+
+  switch (def.kind) {
+    case 'unknown':
+      return;
+    case 'string':
+    case 'boolean':
+      if (typeof value !== def.kind) fail();
+      return;
+    case 'number':
+      if (typeof value !== 'number' || Number.isNaN(value)) fail();
+      return;
+    case 'enum':
+      if (!def.values.includes(value as string | number | boolean)) fail();
+      return;
+    case 'array':
+      if (!Array.isArray(value)) {
+        fail();
+        return;
+      }
+      value.forEach((item, index) => check(def.items, item, `${path}[${index}]`, issues));
+      return;
+    case 'object':
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        fail();
+        return;
+      }
+      for (const [key, field] of Object.entries(def.shape)) {
+        check(field, (value as Record<string, unknown>)[key], joinPath(path, key), issues);
+      }
+      return;
+    case 'record':
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        fail();
+        return;
+      }
+      for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+        check(def.values, item, joinPath(path, key), issues);
+      }
+      return;
+    case 'union': {
+      // Report the closest option's issues rather than a generic mismatch
+      let best: ValidationIssue[] | undefined;
+      for (const option of def.options) {
+        const optionIssues: ValidationIssue[] = [];
+        check(option, value, path, optionIssues);
+        if (optionIssues.length === 0) return;
+        if (!best || optionIssues.length < best.length) best = optionIssues;
+      }
+      issues.push(...(best ?? []));
+      return;
+    }
+  }
+}
+
+/**
+ * Copy a valid value, dropping keys its object schemas don't declare
+ */
+function pick(schema: Schema<unknown>, value: unknown): unknown {
+  if (value === undefined || value === null) {
+    return value;
+  }
+
+  const def = schema.def;
+  switch (def.kind) {
+    case 'array':
+      return (value as unknown[]).map((item) => pick(def.items, item));
+    case 'object': {
+      const source = value as Record<string, unknown>;
+      const result: Record<string, unknown> = {};
+      for (const [key, field] of Object.entries(def.shape)) {
+        if (source[key] !== undefined) result[key] = pick(field, source[key]);
+      }
+      return result;
+    }
+    case 'record': {
+      const result: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+        result[key] = pick(def.values, item);
+      }
+      return result;
+    }
+    case 'union': {
+      const option = def.options.find((candidate) => candidate.validate(value).length === 0);
+      return option ? pick(option, value) : value;
+    }
+    default:
+      return value;
+  }
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function describe(schema: Schema<unknown>): string {
+  const def = schema.def;
+  switch (def.kind) {
+    case 'enum':
+      return `one of ${def.values.map((v) => JSON.stringify(v)).join(' | ')}`;
+    case 'array':
+      return `array of ${describe(def.items)}`;
+    case 'record':
+      return 'object';
+    case 'union':
+      return def.options.map(describe).join(' or ');
+    default:
+      return def.kind;
+  }
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (value === undefined) return 'undefined';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') {
+    return JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}…` : value);
+  }
+  if (typeof value === 'object') return 'object';
+  return `${typeof value} ${String(value)}`;
+}
@@ -0,0 +1,26 @@
+/**
+ * Web-standard Webhook Handler
+ *
+ * @example
+ * ```typescript
+ * // Cloudflare Workers
+ * import { createWebWebhookHandler } from '@zendfi/sdk/web';
+ *
+ * export default {
+ *   async fetch(request: Request, env: Env) {
+ *     const handleWebhook = createWebWebhookHandler({
+ *       secret: env.ZENDFI_WEBHOOK_SECRET,
+ *       handlers: {
+ *         'payment.confirmed': async (payment) => fulfillOrder(payment.id),
+ *       },
+ *     });
+ *     return handleWebhook(request);
+ *   },
+ * };
+ * ```
+ */
+
+export {
+  createWebWebhookHandler,
+  type WebRequestLike,
+} from './frameworks/web';
@@ -3,15 +3,35 @@
  * Type-safe webhook handlers with automatic verification and deduplication
  */
 
-import type { WebhookPayload, WebhookEvent } from './types';
-import { createHmac, timingSafeEqual } from 'crypto';
+import type { WebhookPayload, WebhookEvent, WebhookEventDataMap } from './types';
+import { ERROR_CODES, type WebhookError } from './errors';
+import { WebhookRouter } from './webhook-router';
+import {
+  verifyWebhookHeaderAsync,
+  type WebhookSecret,
+  type WebhookSignatureOptions,
+  type WebhookVerification,
+} from './webhook-signature';
+import {
+  DEFAULT_WEBHOOK_DEDUP_TTL_SECONDS,
+  DEFAULT_WEBHOOK_LEASE_SECONDS,
+  type WebhookIdempotencyStore,
+} from './webhook-stores/store';
+// Not the barrel: the file store needs Node's `fs`, which edge runtimes lack
+import { MemoryWebhookStore } from './webhook-stores/memory';
 
 /**
  * Webhook handler configuration
  */
-export interface WebhookHandlerConfig {
-  /** Your webhook secret from ZendFi dashboard */
-  secret: string;
+export interface WebhookHandlerConfig extends WebhookSignatureOptions {
+  /** Your webhook secret from ZendFi dashboard (or every active secret, newest first) */
+  secret: WebhookSecret;
+  /** Optional: Store for processed event IDs; enables deduplication (see `webhook-stores`) */
+  store?: WebhookIdempotencyStore;
+  /** Optional: How long processed event IDs are kept, in seconds (default: 86400) */
+  dedupTtlSeconds?: number;
+  /** Optional: How long a claim lasts while the handler runs, in seconds (default: 300) */
+  leaseSeconds?: number;
   /** Optional: Path to store processed webhook IDs (for deduplication) */
   onProcessed?: (webhookId: string) => Promise<void>;
   /** Optional: Check if webhook was already processed */
@@ -23,34 +43,16 @@ export interface WebhookHandlerConfig {
 /**
  * Event handler function type
  */
-export type WebhookEventHandler<T = any> = (
+export type WebhookEventHandler<T = any, P = WebhookPayload> = (
   data: T,
-  event: WebhookPayload
+  event: P
 ) => void | Promise<void>;
 
 /**
- * Webhook handlers map - type-safe event handlers
+ * Webhook handlers map - each handler receives the data type for its event
  */
 export type WebhookHandlers = Partial<{
-  'payment.created': WebhookEventHandler;
-  'payment.confirmed': WebhookEventHandler;
-  'payment.failed': WebhookEventHandler;
-  'payment.expired': WebhookEventHandler;
-  'subscription.created': WebhookEventHandler;
-  'subscription.activated': WebhookEventHandler;
-  'subscription.canceled': WebhookEventHandler;
-  'subscription.payment_failed': WebhookEventHandler;
-  'split.completed': WebhookEventHandler;
-  'split.failed': WebhookEventHandler;
-  'installment.due': WebhookEventHandler;
-  'installment.paid': WebhookEventHandler;
-  'installment.late': WebhookEventHandler;
-  'escrow.funded': WebhookEventHandler;
-  'escrow.released': WebhookEventHandler;
-  'escrow.refunded': WebhookEventHandler;
-  'escrow.disputed': WebhookEventHandler;
-  'invoice.sent': WebhookEventHandler;
-  'invoice.paid': WebhookEventHandler;
+  [E in WebhookEvent]: WebhookEventHandler<WebhookEventDataMap[E], WebhookPayload<E>>;
 }>;
 
 /**
@@ -60,73 +62,58 @@ export interface WebhookResult {
   success: boolean;
   processed: boolean;
   error?: string;
+  /** Error code, e.g. `webhook_timestamp_too_old` */
+  code?: string;
+  /** Position of the secret that verified the delivery (0 = current secret) */
+  secretIndex?: number;
   event?: WebhookEvent;
   statusCode?: number;
 }
 
 /**
- * In-memory deduplication cache (replace with Redis/DB in production)
+ * In-memory deduplication store, used when no store is configured
+ * (use Redis/SQL in production)
  */
-const processedWebhooks = new Set<string>();
+const defaultStore = new MemoryWebhookStore();
 
 /**
- * Default deduplication handlers
+ * Event ID used for deduplication
+ *
+ * Uses the event's own `id` when the payload carries one. Older payloads
+ * without an ID fall back to a key that includes the resource ID, so two
+ * payments confirmed in the same second don't collide.
  */
-const defaultIsProcessed = async (webhookId: string): Promise<boolean> => {
-  return processedWebhooks.has(webhookId);
-};
-
-const defaultOnProcessed = async (webhookId: string): Promise<void> => {
-  processedWebhooks.add(webhookId);
-  if (processedWebhooks.size > 10000) {
-    const iterator = processedWebhooks.values();
-    for (let i = 0; i < 1000; i++) {
-      const { value } = iterator.next();
-      if (value) processedWebhooks.delete(value);
-    }
+export function getWebhookEventId(payload: WebhookPayload): string {
+  if (payload.id) {
+    return payload.id;
   }
-};
 
-/**
- * Generate webhook ID for deduplication
- */
-function generateWebhookId(payload: WebhookPayload): string {
-  return `${payload.merchant_id}:${payload.event}:${payload.timestamp}`;
+  const resourceId = (payload.data as { id?: string } | undefined)?.id ?? '';
+  return `${payload.merchant_id}:${payload.event}:${resourceId}:${payload.timestamp}`;
 }
 
 /**
- * Process webhook with handlers
+ * Run handlers for an already-verified payload, with deduplication
+ * (used by `processWebhook` and `WebhookWorker`)
  */
-async function processPayload(
+export async function processPayload(
   payload: WebhookPayload,
-  handlers: WebhookHandlers,
-  config: WebhookHandlerConfig
+  handlers: WebhookHandlers | WebhookRouter,
+  config: Omit<WebhookHandlerConfig, 'secret'>
 ): Promise<WebhookResult> {
+  const webhookId = getWebhookEventId(payload);
+  let claimed: { store: WebhookIdempotencyStore; token: string } | undefined;
+
   try {
-    const webhookId = generateWebhookId(payload);
+    const ttlSeconds = config.dedupTtlSeconds ?? DEFAULT_WEBHOOK_DEDUP_TTL_SECONDS;
 
     // Support alternate option names for backward compatibility/tests
-    const isProcessed =
-      config.isProcessed || (config as any).checkDuplicate || defaultIsProcessed;
-    const onProcessed =
-      config.onProcessed || (config as any).markProcessed || defaultOnProcessed;
-
-    const dedupEnabled =
-      !!((config as any).enableDeduplication || config.isProcessed || (config as any).checkDuplicate);
-
-    if (dedupEnabled && (await isProcessed(webhookId))) {
-      // When deduplication is explicitly enabled, return a failure so callers
-      // can know this webhook was already processed.
-      return {
-        success: false,
-        processed: false,
-        event: payload.event,
-        error: 'Duplicate webhook',
-        statusCode: 409,
-      };
-    }
+    const isProcessed: ((webhookId: string) => Promise<boolean>) | undefined =
+      config.isProcessed || (config as any).checkDuplicate;
+    const onProcessed: ((webhookId: string) => Promise<void>) | undefined =
+      config.onProcessed || (config as any).markProcessed;
 
-    const handler = handlers[payload.event];
+    const handler = resolveHandler(handlers, payload.event);
 
     if (!handler) {
       return {
@@ -137,9 +124,44 @@ async function processPayload(
       };
     }
 
+    if (isProcessed) {
+      // Custom check/mark hooks: single-phase, no lease
+      if (await isProcessed(webhookId)) {
+        return duplicateResult(payload);
+      }
+    } else if (config.store || (config as any).enableDeduplication) {
+      const store = config.store || defaultStore;
+      const leaseSeconds = config.leaseSeconds ?? DEFAULT_WEBHOOK_LEASE_SECONDS;
+      const claim = await store.claim(webhookId, leaseSeconds);
+
+      if (claim.status === 'processed') {
+        return duplicateResult(payload);
+      }
+      if (claim.status === 'in_progress') {
+        // Another worker holds the lease; a later redelivery succeeds if it crashes
+        return {
+          success: false,
+          processed: false,
+          event: payload.event,
+          error: 'Webhook is already being processed',
+          code: ERROR_CODES.WEBHOOK_IN_PROGRESS,
+          statusCode: 409,
+        };
+      }
+      claimed = { store, token: claim.token };
+    }
+
     await handler(payload.data, payload);
 
-    await onProcessed(webhookId);
+    // Commit
+    if (claimed) {
+      await claimed.store.set(webhookId, ttlSeconds, claimed.token);
+    }
+    if (onProcessed) {
+      await onProcessed(webhookId);
+    } else if (!claimed) {
+      await defaultStore.set(webhookId, ttlSeconds);
+    }
 
     return {
       success: true,
@@ -147,6 +169,11 @@ async function processPayload(
       event: payload.event,
     };
   } catch (error) {
+    // Release the claim so a redelivery can retry the handler
+    if (claimed) {
+      await claimed.store.delete(webhookId, claimed.token).catch(() => undefined);
+    }
+
     const err = error as Error;
     if (config?.onError) {
       await config.onError(err, (error as any)?.event);
@@ -162,6 +189,40 @@ async function processPayload(
   }
 }
 
+/**
+ * Find what should run for an event: a mounted router or the mapped handler
+ */
+function resolveHandler(
+  handlers: WebhookHandlers | WebhookRouter,
+  event: WebhookEvent
+): WebhookEventHandler | undefined {
+  if (handlers instanceof WebhookRouter) {
+    return handlers.handles(event)
+      ? async (_data, payload) => {
+          await handlers.dispatch(payload);
+        }
+      : undefined;
+  }
+
+  // The handler's data type is correlated with the event, which TS can't follow here
+  return handlers[event] as WebhookEventHandler | undefined;
+}
+
+/**
+ * When deduplication is enabled, duplicates are reported as failures so
+ * callers can tell the webhook was already processed
+ */
+function duplicateResult(payload: WebhookPayload): WebhookResult {
+  return {
+    success: false,
+    processed: false,
+    event: payload.event,
+    error: 'Duplicate webhook',
+    code: ERROR_CODES.WEBHOOK_DUPLICATE,
+    statusCode: 409,
+  };
+}
+
 export async function processWebhook(
   a: any,
   b?: any,
@@ -174,8 +235,8 @@ export async function processWebhook(
   const opts = a as {
     signature?: string;
     body?: string;
-    handlers?: WebhookHandlers;
-    config?: Partial<WebhookHandlerConfig> & { webhookSecret?: string; secret?: string };
+    handlers?: WebhookHandlers | WebhookRouter;
+    config?: Partial<WebhookHandlerConfig> & { webhookSecret?: WebhookSecret };
   };
 
   if (!opts || (!opts.signature && !opts.body && !opts.handlers)) {
@@ -190,7 +251,7 @@ export async function processWebhook(
   const signature = opts.signature;
   const body = opts.body;
   const handlers = opts.handlers || {};
-  const cfg = (opts.config || {}) as WebhookHandlerConfig & { webhookSecret?: string; secret?: string };
+  const cfg = (opts.config || {}) as WebhookHandlerConfig & { webhookSecret?: WebhookSecret };
 
   const secret = cfg.webhookSecret || cfg.secret;
   if (!secret) {
@@ -211,36 +272,25 @@ export async function processWebhook(
     };
   }
 
+  let verification: WebhookVerification;
   try {
-    // Support signatures that may be prefixed like `sha256=<hex>`
-    const sig = typeof signature === 'string' && signature.startsWith('sha256=')
-      ? signature.slice('sha256='.length)
-      : String(signature);
-
-    const hmac = createHmac('sha256', secret).update(body, 'utf8').digest('hex');
-
-    // Compare raw hex bytes to avoid encoding differences
-    let ok = false;
-    try {
-      const sigBuf = Buffer.from(sig, 'hex');
-      const hmacBuf = Buffer.from(hmac, 'hex');
-      if (sigBuf.length === hmacBuf.length) {
-        ok = timingSafeEqual(sigBuf, hmacBuf);
-      }
-    } catch (e) {
-      // If signature isn't valid hex, fall back to utf8-safe compare
-      ok = timingSafeEqual(Buffer.from(String(sig), 'utf8'), Buffer.from(hmac, 'utf8'));
+    verification = await verifyWebhookHeaderAsync(body, signature, secret, cfg);
+  } catch (error) {
+    const err = error as WebhookError;
+    if (cfg.onError) {
+      await cfg.onError(err);
     }
 
-    if (!ok) {
-      return {
-        success: false,
-        processed: false,
-        error: 'Invalid signature',
-        statusCode: 401,
-      };
-    }
+    return {
+      success: false,
+      processed: false,
+      error: err.message,
+      code: err.code,
+      statusCode: 401,
+    };
+  }
 
+  try {
     const payload = JSON.parse(body) as WebhookPayload;
 
     const fullConfig: WebhookHandlerConfig & any = {
@@ -248,13 +298,19 @@ export async function processWebhook(
       isProcessed: cfg.isProcessed,
       onProcessed: cfg.onProcessed,
       onError: cfg.onError,
+      store: cfg.store,
+      dedupTtlSeconds: cfg.dedupTtlSeconds,
+      leaseSeconds: cfg.leaseSeconds,
+      toleranceSeconds: cfg.toleranceSeconds,
+      requireTimestamp: cfg.requireTimestamp,
       // Forward compatibility for alternate names and flags
       enableDeduplication: (cfg as any).enableDeduplication,
       checkDuplicate: (cfg as any).checkDuplicate,
       markProcessed: (cfg as any).markProcessed,
     };
 
-    return await processPayload(payload, handlers, fullConfig);
+    const result = await processPayload(payload, handlers, fullConfig);
+    return { ...result, secretIndex: verification.secretIndex };
   } catch (err: any) {
     return {
       success: false,
@@ -0,0 +1,43 @@
+/**
+ * Webhook Queue
+ *
+ * Acknowledge deliveries immediately and process them in the background:
+ * - MemoryWebhookQueue / MemoryDeadLetterStore: in-process
+ * - SqlWebhookQueue / SqlDeadLetterStore: PostgreSQL or SQLite tables
+ * - RedisWebhookQueue / RedisDeadLetterStore: Redis sorted set and hashes
+ * - WebhookWorker: runs handlers with retries and dead-lettering
+ */
+
+export {
+  MemoryDeadLetterStore,
+  MemoryWebhookQueue,
+  createQueuedWebhook,
+  type DeadLetter,
+  type DeadLetterStore,
+  type LeasedWebhook,
+  type QueuedWebhook,
+  type WebhookDeliveryTarget,
+  type WebhookJobUpdate,
+  type WebhookQueue,
+} from './queue';
+export {
+  SqlDeadLetterStore,
+  SqlWebhookQueue,
+  type SqlDeadLetterStoreOptions,
+  type SqlQueueDialect,
+  type SqlWebhookQueueOptions,
+} from './sql';
+export {
+  RedisDeadLetterStore,
+  RedisWebhookQueue,
+  type RedisDeadLetterStoreOptions,
+  type RedisHashLike,
+  type RedisScriptLike,
+  type RedisWebhookQueueOptions,
+} from './redis';
+export {
+  DEFAULT_WEBHOOK_WORKER_RETRY,
+  WebhookWorker,
+  type WebhookJobOutcome,
+  type WebhookWorkerOptions,
+} from './worker';
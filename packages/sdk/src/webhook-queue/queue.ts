@@ -0,0 +1,187 @@
+/**
+ * Webhook Queue
+ *
+ * Lets webhook endpoints acknowledge a delivery as soon as it is verified
+ * and persisted, while a `WebhookWorker` runs the handlers in the
+ * background with its own retries. Jobs that keep failing move to a
+ * dead-letter store where they can be inspected and replayed.
+ *
+ * A worker leases a job rather than removing it: the job stays in the
+ * queue, hidden from other workers until the lease runs out, and is only
+ * acknowledged (deleted) or rescheduled once the handlers' outcome has been
+ * recorded. If the worker dies mid-job, the job reappears when its lease
+ * expires.
+ */
+
+import type { WebhookPayload } from '../types';
+import type { WebhookHandlers } from '../webhook-handler';
+import type { WebhookRouter } from '../webhook-router';
+import { getWebhookEventId } from '../webhook-handler';
+import { generateLeaseToken } from '../utils';
+
+export interface QueuedWebhook {
+  /** Event ID (see `getWebhookEventId`) */
+  id: string;
+  payload: WebhookPayload;
+  /** Failed processing attempts so far */
+  attempts: number;
+  /** Epoch milliseconds when the delivery was received */
+  enqueuedAt: number;
+  /** Epoch milliseconds before which the job must not be processed */
+  availableAt: number;
+  /** Error from the most recent failed attempt */
+  lastError?: string;
+}
+
+export interface DeadLetter extends QueuedWebhook {
+  /** Epoch milliseconds when the job gave up */
+  failedAt: number;
+  /** Error from the final attempt */
+  error: string;
+}
+
+/**
+ * A job handed to a worker by `dequeue`; its `availableAt` is when the lease runs out
+ */
+export interface LeasedWebhook extends QueuedWebhook {
+  /** Identifies this lease; `ack` and `reschedule` fail once it has passed to another worker */
+  lease: string;
+}
+
+/**
+ * What changes when a leased job is rescheduled
+ */
+export type WebhookJobUpdate = Pick<QueuedWebhook, 'attempts' | 'availableAt' | 'lastError'>;
+
+export interface WebhookQueue {
+  /** Add a job (a job with the same ID already waiting may be kept instead) */
+  enqueue(job: QueuedWebhook): Promise<void>;
+  /**
+   * Lease the next job whose `availableAt` has passed, if any. The job stays
+   * queued but is hidden for `leaseMs`, then handed out again unless it was
+   * acknowledged or rescheduled.
+   */
+  dequeue(leaseMs: number): Promise<LeasedWebhook | undefined>;
+  /**
+   * Remove a leased job once its outcome has been recorded
+   *
+   * @returns `false` when the lease had already expired and passed to another worker
+   */
+  ack(job: LeasedWebhook): Promise<boolean>;
+  /**
+   * End a lease and schedule the job's next attempt
+   *
+   * @returns `false` when the lease had already expired and passed to another worker
+   */
+  reschedule(job: LeasedWebhook, update: WebhookJobUpdate): Promise<boolean>;
+}
+
+export interface DeadLetterStore {
+  add(letter: DeadLetter): Promise<void>;
+  list(): Promise<DeadLetter[]>;
+  get(id: string): Promise<DeadLetter | undefined>;
+  remove(id: string): Promise<void>;
+}
+
+/**
+ * Where a framework adapter sends verified deliveries: handlers run inline,
+ * or a queue for a `WebhookWorker` to process
+ */
+export type WebhookDeliveryTarget =
+  | { handlers: WebhookHandlers | WebhookRouter; queue?: undefined }
+  | { queue: WebhookQueue; handlers?: undefined };
+
+/**
+ * Wrap a verified payload as a new queue job
+ */
+export function createQueuedWebhook(payload: WebhookPayload): QueuedWebhook {
+  const now = Date.now();
+  return {
+    id: getWebhookEventId(payload),
+    payload,
+    attempts: 0,
+    enqueuedAt: now,
+    availableAt: now,
+  };
+}
+
+// ============================================
+// In-memory implementations
+// ============================================
+
+interface MemoryJob extends QueuedWebhook {
+  lease?: string;
+}
+
+/**
+ * In-process queue for development and tests; jobs are lost on restart
+ */
+export class MemoryWebhookQueue implements WebhookQueue {
+  private readonly jobs: MemoryJob[] = [];
+
+  async enqueue(job: QueuedWebhook): Promise<void> {
+    if (!this.jobs.some((queued) => queued.id === job.id)) {
+      this.jobs.push({ ...job });
+    }
+  }
+
+  async dequeue(leaseMs: number): Promise<LeasedWebhook | undefined> {
+    const now = Date.now();
+    let next: MemoryJob | undefined;
+    for (const job of this.jobs) {
+      if (job.availableAt <= now && (!next || job.availableAt < next.availableAt)) {
+        next = job;
+      }
+    }
+    if (!next) {
+      return undefined;
+    }
+
+    next.lease = generateLeaseToken();
+    next.availableAt = now + leaseMs;
+    return { ...next, lease: next.lease };
+  }
+
+  async ack(job: LeasedWebhook): Promise<boolean> {
+    const index = this.jobs.findIndex((queued) => queued.lease === job.lease);
+    if (index === -1) {
+      return false;
+    }
+    this.jobs.splice(index, 1);
+    return true;
+  }
+
+  async reschedule(job: LeasedWebhook, update: WebhookJobUpdate): Promise<boolean> {
+    const queued = this.jobs.find((candidate) => candidate.lease === job.lease);
+    if (!queued) {
+      return false;
+    }
+    Object.assign(queued, update, { lease: undefined });
+    return true;
+  }
+
+  /** Number of jobs in the queue, including leased ones */
+  get size(): number {
+    return this.jobs.length;
+  }
+}
+
+export class MemoryDeadLetterStore implements DeadLetterStore {
+  private readonly letters = new Map<string, DeadLetter>();
+
+  async add(letter: DeadLetter): Promise<void> {
+    this.letters.set(letter.id, letter);
+  }
+
+  async list(): Promise<DeadLetter[]> {
+    return [...this.letters.values()];
+  }
+
+  async get(id: string): Promise<DeadLetter | undefined> {
+    return this.letters.get(id);
+  }
+
+  async remove(id: string): Promise<void> {
+    this.letters.delete(id);
+  }
+}
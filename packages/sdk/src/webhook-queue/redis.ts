@@ -0,0 +1,170 @@
+/**
+ * Redis Webhook Queue
+ *
+ * Keeps queued deliveries in Redis, so API instances can enqueue and a
+ * separate worker process can drain them: a sorted set orders job IDs by
+ * `availableAt`, a hash holds the jobs and another the lease tokens. Each
+ * operation is a Lua script, so leasing, acknowledging and rescheduling are
+ * atomic. Dead letters live in a hash. Works with `ioredis` clients directly.
+ *
+ * @example
+ * ```typescript
+ * import Redis from 'ioredis';
+ * import { RedisWebhookQueue, RedisDeadLetterStore } from '@zendfi/sdk';
+ *
+ * const redis = new Redis(process.env.REDIS_URL);
+ * const queue = new RedisWebhookQueue(redis);
+ * const deadLetters = new RedisDeadLetterStore(redis);
+ * ```
+ */
+
+import { generateLeaseToken } from '../utils';
+import type {
+  DeadLetter,
+  DeadLetterStore,
+  LeasedWebhook,
+  QueuedWebhook,
+  WebhookJobUpdate,
+  WebhookQueue,
+} from './queue';
+
+/** Subset of the ioredis client used by the queue */
+export interface RedisScriptLike {
+  eval(script: string, numKeys: number, ...args: Array<string | number>): Promise<unknown>;
+}
+
+/** Subset of the ioredis client used by the dead-letter store */
+export interface RedisHashLike {
+  hset(key: string, field: string, value: string): Promise<number>;
+  hget(key: string, field: string): Promise<string | null>;
+  hgetall(key: string): Promise<Record<string, string>>;
+  hdel(key: string, field: string): Promise<number>;
+}
+
+export interface RedisWebhookQueueOptions {
+  /**
+   * Sorted-set key; jobs and leases go in `<key>:jobs` and `<key>:leases`
+   * (default: `zendfi:webhook-queue`)
+   */
+  key?: string;
+}
+
+export interface RedisDeadLetterStoreOptions {
+  /** Hash key (default: `zendfi:webhook-dead-letters`) */
+  key?: string;
+}
+
+/**
+ * Lua scripts run by `RedisWebhookQueue`; KEYS are the schedule (sorted
+ * set), jobs (hash) and leases (hash)
+ */
+export const REDIS_QUEUE_SCRIPTS = {
+  /** ARGV: id, availableAt, job JSON. A job with the same ID already queued is kept. */
+  enqueue: `
+if redis.call('HSETNX', KEYS[2], ARGV[1], ARGV[3]) == 1 then
+  redis.call('ZADD', KEYS[1], ARGV[2], ARGV[1])
+end
+return 1`,
+  /** ARGV: now, lease end, lease token. Returns the job JSON, or nil. */
+  dequeue: `
+local ids = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1], 'LIMIT', 0, 1)
+if #ids == 0 then
+  return nil
+end
+redis.call('ZADD', KEYS[1], ARGV[2], ids[1])
+redis.call('HSET', KEYS[3], ids[1], ARGV[3])
+return redis.call('HGET', KEYS[2], ids[1])`,
+  /** ARGV: id, lease token. Returns 1 when the job was removed. */
+  ack: `
+if redis.call('HGET', KEYS[3], ARGV[1]) ~= ARGV[2] then
+  return 0
+end
+redis.call('ZREM', KEYS[1], ARGV[1])
+redis.call('HDEL', KEYS[2], ARGV[1])
+redis.call('HDEL', KEYS[3], ARGV[1])
+return 1`,
+  /** ARGV: id, lease token, availableAt, job JSON. Returns 1 when the job was rescheduled. */
+  reschedule: `
+if redis.call('HGET', KEYS[3], ARGV[1]) ~= ARGV[2] then
+  return 0
+end
+redis.call('HSET', KEYS[2], ARGV[1], ARGV[4])
+redis.call('ZADD', KEYS[1], ARGV[3], ARGV[1])
+redis.call('HDEL', KEYS[3], ARGV[1])
+return 1`,
+} as const;
+
+export class RedisWebhookQueue implements WebhookQueue {
+  private readonly keys: [string, string, string];
+
+  constructor(
+    private readonly redis: RedisScriptLike,
+    options: RedisWebhookQueueOptions = {}
+  ) {
+    const key = options.key ?? 'zendfi:webhook-queue';
+    this.keys = [key, `${key}:jobs`, `${key}:leases`];
+  }
+
+  async enqueue(job: QueuedWebhook): Promise<void> {
+    await this.run('enqueue', job.id, job.availableAt, JSON.stringify(job));
+  }
+
+  async dequeue(leaseMs: number): Promise<LeasedWebhook | undefined> {
+    const now = Date.now();
+    const lease = generateLeaseToken();
+    const value = await this.run('dequeue', now, now + leaseMs, lease);
+    if (typeof value !== 'string') {
+      return undefined;
+    }
+    return { ...(JSON.parse(value) as QueuedWebhook), availableAt: now + leaseMs, lease };
+  }
+
+  async ack(job: LeasedWebhook): Promise<boolean> {
+    return Number(await this.run('ack', job.id, job.lease)) === 1;
+  }
+
+  async reschedule(job: LeasedWebhook, update: WebhookJobUpdate): Promise<boolean> {
+    const { lease, ...queued } = job;
+    const next: QueuedWebhook = { ...queued, ...update };
+    const json = JSON.stringify(next);
+    return Number(await this.run('reschedule', job.id, lease, next.availableAt, json)) === 1;
+  }
+
+  private run(
+    script: keyof typeof REDIS_QUEUE_SCRIPTS,
+    ...args: Array<string | number>
+  ): Promise<unknown> {
+    return this.redis.eval(REDIS_QUEUE_SCRIPTS[script], this.keys.length, ...this.keys, ...args);
+  }
+}
+
+export class RedisDeadLetterStore implements DeadLetterStore {
+  private readonly key: string;
+
+  constructor(
+    private readonly redis: RedisHashLike,
+    options: RedisDeadLetterStoreOptions = {}
+  ) {
+    this.key = options.key ?? 'zendfi:webhook-dead-letters';
+  }
+
+  async add(letter: DeadLetter): Promise<void> {
+    await this.redis.hset(this.key, letter.id, JSON.stringify(letter));
+  }
+
+  async list(): Promise<DeadLetter[]> {
+    const values = Object.values(await this.redis.hgetall(this.key));
+    return values
+      .map((value) => JSON.parse(value) as DeadLetter)
+      .sort((a, b) => a.failedAt - b.failedAt);
+  }
+
+  async get(id: string): Promise<DeadLetter | undefined> {
+    const value = await this.redis.hget(this.key, id);
+    return value === null ? undefined : (JSON.parse(value) as DeadLetter);
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.redis.hdel(this.key, id);
+  }
+}
@@ -0,0 +1,265 @@
+/**
+ * SQL Webhook Queue
+ *
+ * Persists queued deliveries and dead letters in database tables, so they
+ * survive restarts and can be shared by several workers. Leasing a job uses
+ * `UPDATE ... RETURNING` (PostgreSQL, SQLite 3.35+): the row's
+ * `available_at` moves past the lease and its `lease_token` is set, and the
+ * row is only deleted or rescheduled by the worker holding that token.
+ *
+ * @example
+ * ```typescript
+ * import Database from 'better-sqlite3';
+ * import { SqlWebhookQueue, SqlDeadLetterStore } from '@zendfi/sdk';
+ *
+ * const db = new Database('webhooks.db');
+ * const query = async (sql: string, params: unknown[]) => {
+ *   const statement = db.prepare(sql);
+ *   return statement.reader ? statement.all(...params) : statement.run(...params);
+ * };
+ *
+ * const queue = new SqlWebhookQueue({ query, dialect: 'sqlite' });
+ * const deadLetters = new SqlDeadLetterStore({ query, dialect: 'sqlite' });
+ * await queue.createTable();
+ * await deadLetters.createTable();
+ * ```
+ */
+
+import type { WebhookPayload } from '../types';
+import { toRows, type SqlQueryFn } from '../webhook-stores/sql';
+import { generateLeaseToken } from '../utils';
+import type {
+  DeadLetter,
+  DeadLetterStore,
+  LeasedWebhook,
+  QueuedWebhook,
+  WebhookJobUpdate,
+  WebhookQueue,
+} from './queue';
+
+export type SqlQueueDialect = 'postgres' | 'sqlite';
+
+export interface SqlWebhookQueueOptions {
+  /** Executes SQL against your database */
+  query: SqlQueryFn;
+  /** Table name (default: `zendfi_webhook_queue`) */
+  table?: string;
+  /** SQL dialect, used for placeholders and locking (default: `postgres`) */
+  dialect?: SqlQueueDialect;
+}
+
+export interface SqlDeadLetterStoreOptions {
+  /** Executes SQL against your database */
+  query: SqlQueryFn;
+  /** Table name (default: `zendfi_webhook_dead_letters`) */
+  table?: string;
+  /** SQL dialect, used for placeholders (default: `postgres`) */
+  dialect?: SqlQueueDialect;
+}
+
+interface QueueRow {
+  id: string;
+  payload: string | WebhookPayload;
+  attempts: number | string;
+  enqueued_at: number | string;
+  available_at: number | string;
+  last_error?: string | null;
+  lease_token?: string | null;
+}
+
+interface DeadLetterRow extends Omit<QueueRow, 'available_at'> {
+  available_at?: number | string;
+  failed_at: number | string;
+  error: string;
+}
+
+const QUEUE_COLUMNS = 'id, payload, attempts, enqueued_at, available_at, last_error';
+
+export class SqlWebhookQueue implements WebhookQueue {
+  private readonly query: SqlQueryFn;
+  private readonly table: string;
+  private readonly dialect: SqlQueueDialect;
+
+  constructor(options: SqlWebhookQueueOptions) {
+    this.query = options.query;
+    this.table = checkTableName(options.table ?? 'zendfi_webhook_queue');
+    this.dialect = options.dialect ?? 'postgres';
+  }
+
+  /**
+   * DDL for the backing table; times are epoch milliseconds
+   */
+  createTableSql(): string {
+    return (
+      `CREATE TABLE IF NOT EXISTS ${this.table} (` +
+      `id TEXT PRIMARY KEY, ` +
+      `payload TEXT NOT NULL, ` +
+      `attempts INTEGER NOT NULL, ` +
+      `enqueued_at BIGINT NOT NULL, ` +
+      `available_at BIGINT NOT NULL, ` +
+      `last_error TEXT, ` +
+      `lease_token TEXT)`
+    );
+  }
+
+  async createTable(): Promise<void> {
+    await this.query(this.createTableSql(), []);
+  }
+
+  async enqueue(job: QueuedWebhook): Promise<void> {
+    const p = placeholders(this.dialect);
+    // A redelivery of an event that is still waiting is dropped
+    await this.query(
+      `INSERT INTO ${this.table} (${QUEUE_COLUMNS}) ` +
+        `VALUES (${p(1)}, ${p(2)}, ${p(3)}, ${p(4)}, ${p(5)}, ${p(6)}) ` +
+        `ON CONFLICT (id) DO NOTHING`,
+      [
+        job.id,
+        JSON.stringify(job.payload),
+        job.attempts,
+        job.enqueuedAt,
+        job.availableAt,
+        job.lastError ?? null,
+      ]
+    );
+  }
+
+  async dequeue(leaseMs: number): Promise<LeasedWebhook | undefined> {
+    const p = placeholders(this.dialect);
+    const now = Date.now();
+    const lease = generateLeaseToken();
+    // SKIP LOCKED lets concurrent PostgreSQL workers take different jobs
+    const lock = this.dialect === 'postgres' ? ' FOR UPDATE SKIP LOCKED' : '';
+    const rows = toRows(
+      await this.query(
+        `UPDATE ${this.table} SET available_at = ${p(1)}, lease_token = ${p(2)} WHERE id = (` +
+          `SELECT id FROM ${this.table} WHERE available_at <= ${p(3)} ` +
+          `ORDER BY available_at LIMIT 1${lock}) ` +
+          `RETURNING ${QUEUE_COLUMNS}`,
+        [now + leaseMs, lease, now]
+      )
+    );
+    const row = rows[0] as QueueRow | undefined;
+    return row ? { ...fromRow(row), lease } : undefined;
+  }
+
+  async ack(job: LeasedWebhook): Promise<boolean> {
+    const p = placeholders(this.dialect);
+    const rows = toRows(
+      await this.query(
+        `DELETE FROM ${this.table} WHERE id = ${p(1)} AND lease_token = ${p(2)} RETURNING id`,
+        [job.id, job.lease]
+      )
+    );
+    return rows.length > 0;
+  }
+
+  async reschedule(job: LeasedWebhook, update: WebhookJobUpdate): Promise<boolean> {
+    const p = placeholders(this.dialect);
+    const rows = toRows(
+      await this.query(
+        `UPDATE ${this.table} SET attempts = ${p(1)}, available_at = ${p(2)}, ` +
+          `last_error = ${p(3)}, lease_token = NULL ` +
+          `WHERE id = ${p(4)} AND lease_token = ${p(5)} RETURNING id`,
+        [update.attempts, update.availableAt, update.lastError ?? null, job.id, job.lease]
+      )
+    );
+    return rows.length > 0;
+  }
+}
+
+export class SqlDeadLetterStore implements DeadLetterStore {
+  private readonly query: SqlQueryFn;
+  private readonly table: string;
+  private readonly dialect: SqlQueueDialect;
+
+  constructor(options: SqlDeadLetterStoreOptions) {
+    this.query = options.query;
+    this.table = checkTableName(options.table ?? 'zendfi_webhook_dead_letters');
+    this.dialect = options.dialect ?? 'postgres';
+  }
+
+  createTableSql(): string {
+    return (
+      `CREATE TABLE IF NOT EXISTS ${this.table} (` +
+      `id TEXT PRIMARY KEY, ` +
+      `payload TEXT NOT NULL, ` +
+      `attempts INTEGER NOT NULL, ` +
+      `enqueued_at BIGINT NOT NULL, ` +
+      `failed_at BIGINT NOT NULL, ` +
+      `error TEXT NOT NULL)`
+    );
+  }
+
+  async createTable(): Promise<void> {
+    await this.query(this.createTableSql(), []);
+  }
+
+  async add(letter: DeadLetter): Promise<void> {
+    const p = placeholders(this.dialect);
+    await this.query(
+      `INSERT INTO ${this.table} (id, payload, attempts, enqueued_at, failed_at, error) ` +
+        `VALUES (${p(1)}, ${p(2)}, ${p(3)}, ${p(4)}, ${p(5)}, ${p(6)}) ` +
+        `ON CONFLICT (id) DO UPDATE SET payload = excluded.payload, ` +
+        `attempts = excluded.attempts, failed_at = excluded.failed_at, error = excluded.error`,
+      [
+        letter.id,
+        JSON.stringify(letter.payload),
+        letter.attempts,
+        letter.enqueuedAt,
+        letter.failedAt,
+        letter.error,
+      ]
+    );
+  }
+
+  async list(): Promise<DeadLetter[]> {
+    const rows = toRows(await this.query(`SELECT * FROM ${this.table} ORDER BY failed_at`, []));
+    return (rows as DeadLetterRow[]).map(fromDeadLetterRow);
+  }
+
+  async get(id: string): Promise<DeadLetter | undefined> {
+    const p = placeholders(this.dialect);
+    const rows = toRows(await this.query(`SELECT * FROM ${this.table} WHERE id = ${p(1)}`, [id]));
+    const row = rows[0] as DeadLetterRow | undefined;
+    return row ? fromDeadLetterRow(row) : undefined;
+  }
+
+  async remove(id: string): Promise<void> {
+    const p = placeholders(this.dialect);
+    await this.query(`DELETE FROM ${this.table} WHERE id = ${p(1)}`, [id]);
+  }
+}
+
+function placeholders(dialect: SqlQueueDialect): (index: number) => string {
+  return (index) => (dialect === 'postgres' ? `$${index}` : '?');
+}
+
+function checkTableName(table: string): string {
+  if (!/^[A-Za-z_][A-Za-z0-9_.]*$/.test(table)) {
+    throw new Error(`Invalid table name: ${table}`);
+  }
+  return table;
+}
+
+function fromRow(row: QueueRow): QueuedWebhook {
+  return {
+    id: row.id,
+    // JSON columns may come back already parsed
+    payload: typeof row.payload === 'string' ? JSON.parse(row.payload) : row.payload,
+    attempts: Number(row.attempts),
+    enqueuedAt: Number(row.enqueued_at),
+    availableAt: Number(row.available_at),
+    ...(row.last_error && { lastError: row.last_error }),
+  };
+}
+
+function fromDeadLetterRow(row: DeadLetterRow): DeadLetter {
+  const failedAt = Number(row.failed_at);
+  return {
+    ...fromRow({ ...row, available_at: row.available_at ?? failedAt }),
+    failedAt,
+    error: row.error,
+    lastError: row.error,
+  };
+}
@@ -0,0 +1,277 @@
+/**
+ * Webhook Worker
+ *
+ * Drains a `WebhookQueue`, running handlers with deduplication. A failed
+ * job is rescheduled with exponential backoff; once it runs out of
+ * attempts it moves to the dead-letter store, where it can be inspected
+ * and replayed. Jobs are leased while their handlers run and only leave the
+ * queue once the outcome is recorded, so a worker that crashes mid-job
+ * loses nothing: the job is handed out again when its lease expires.
+ *
+ * @example
+ * ```typescript
+ * import { WebhookWorker, SqlWebhookQueue, SqlDeadLetterStore } from '@zendfi/sdk';
+ *
+ * const worker = new WebhookWorker({
+ *   queue,
+ *   deadLetters,
+ *   handlers: {
+ *     'payment.confirmed': async (payment) => fulfillOrder(payment.id),
+ *   },
+ *   retry: { maxAttempts: 8 },
+ *   onDeadLetter: (letter) => alerts.notify(`Webhook ${letter.id} failed: ${letter.error}`),
+ * });
+ *
+ * worker.start();
+ * process.on('SIGTERM', () => worker.stop());
+ *
+ * // Later: inspect and replay failures
+ * for (const letter of await deadLetters.list()) {
+ *   await worker.replay(letter.id);
+ * }
+ * ```
+ */
+
+import { ERROR_CODES } from '../errors';
+import { computeRetryDelay, resolveRetryPolicy, type RetryPolicy } from '../retry';
+import { sleep } from '../utils';
+import { processPayload, type WebhookHandlers } from '../webhook-handler';
+import type { WebhookRouter } from '../webhook-router';
+import { MemoryWebhookStore } from '../webhook-stores/memory';
+import {
+  DEFAULT_WEBHOOK_LEASE_SECONDS,
+  type WebhookIdempotencyStore,
+} from '../webhook-stores/store';
+import {
+  MemoryDeadLetterStore,
+  type DeadLetter,
+  type DeadLetterStore,
+  type QueuedWebhook,
+  type WebhookQueue,
+} from './queue';
+
+/** Backoff used by workers unless overridden: 5 attempts, 1s doubling up to 5 minutes */
+export const DEFAULT_WEBHOOK_WORKER_RETRY: Partial<RetryPolicy> = {
+  maxAttempts: 5,
+  baseDelayMs: 1000,
+  maxDelayMs: 300_000,
+};
+
+export interface WebhookWorkerOptions {
+  queue: WebhookQueue;
+  handlers: WebhookHandlers | WebhookRouter;
+  /** Where jobs go after their last failed attempt (default: in-memory) */
+  deadLetters?: DeadLetterStore;
+  /** Attempts and backoff for failed jobs; only the backoff fields are used */
+  retry?: Partial<RetryPolicy>;
+  /** How long to wait when the queue is empty, in milliseconds (default: 1000) */
+  pollIntervalMs?: number;
+  /** Store used to skip events that were already processed (default: in-memory) */
+  store?: WebhookIdempotencyStore;
+  /** How long processed event IDs are kept, in seconds (default: 86400) */
+  dedupTtlSeconds?: number;
+  /**
+   * How long a job stays leased (and its event claimed) while the handler
+   * runs, in seconds (default: 300); longer-running handlers may run twice
+   */
+  leaseSeconds?: number;
+  /** Called for every failed attempt, after the retry has been scheduled */
+  onError?: (error: Error, job: QueuedWebhook) => void | Promise<void>;
+  /** Called when a job moves to the dead-letter store */
+  onDeadLetter?: (letter: DeadLetter) => void | Promise<void>;
+}
+
+/**
+ * What happened to a job in `processNext`
+ */
+export type WebhookJobOutcome = 'processed' | 'duplicate' | 'retrying' | 'dead_lettered';
+
+export class WebhookWorker {
+  readonly deadLetters: DeadLetterStore;
+
+  private readonly queue: WebhookQueue;
+  private readonly handlers: WebhookHandlers | WebhookRouter;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly pollIntervalMs: number;
+  private readonly leaseSeconds: number;
+  private readonly store: WebhookIdempotencyStore;
+  private running = false;
+  private loop?: Promise<void>;
+  private abort?: AbortController;
+
+  constructor(private readonly options: WebhookWorkerOptions) {
+    this.queue = options.queue;
+    this.handlers = options.handlers;
+    this.deadLetters = options.deadLetters ?? new MemoryDeadLetterStore();
+    this.retryPolicy = resolveRetryPolicy(DEFAULT_WEBHOOK_WORKER_RETRY, options.retry);
+    this.pollIntervalMs = options.pollIntervalMs ?? 1000;
+    this.leaseSeconds = options.leaseSeconds ?? DEFAULT_WEBHOOK_LEASE_SECONDS;
+    this.store = options.store ?? new MemoryWebhookStore();
+  }
+
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Poll the queue in the background until `stop()` is called
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.abort = new AbortController();
+    const signal = this.abort.signal;
+
+    this.loop = (async () => {
+      while (this.running) {
+        let outcome: WebhookJobOutcome | undefined;
+        try {
+          outcome = await this.processNext();
+        } catch {
+          // Queue unavailable or a callback failed; a job left leased is
+          // handed out again when its lease expires. Back off and poll again.
+        }
+        if (!outcome && this.running) {
+          await sleep(this.pollIntervalMs, signal);
+        }
+      }
+    })();
+  }
+
+  /**
+   * Stop polling; resolves once the job in progress (if any) has finished
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    this.abort?.abort();
+    await this.loop;
+    this.loop = undefined;
+  }
+
+  /**
+   * Take one available job and run its handlers
+   *
+   * @returns What happened to the job, or `undefined` when none was available
+   */
+  async processNext(): Promise<WebhookJobOutcome | undefined> {
+    const job = await this.queue.dequeue(this.leaseSeconds * 1000);
+    if (!job) {
+      return undefined;
+    }
+
+    const result = await processPayload(job.payload, this.handlers, {
+      store: this.store,
+      dedupTtlSeconds: this.options.dedupTtlSeconds,
+      leaseSeconds: this.leaseSeconds,
+    });
+
+    if (result.success) {
+      await this.queue.ack(job);
+      return 'processed';
+    }
+    if (result.code === ERROR_CODES.WEBHOOK_DUPLICATE) {
+      await this.queue.ack(job);
+      return 'duplicate';
+    }
+    if (result.code === ERROR_CODES.WEBHOOK_IN_PROGRESS) {
+      // Another worker holds the claim; check back later without using an attempt
+      await this.queue.reschedule(job, {
+        attempts: job.attempts,
+        availableAt: Date.now() + this.pollIntervalMs,
+        lastError: job.lastError,
+      });
+      return 'retrying';
+    }
+
+    const error = result.error ?? 'Webhook handler failed';
+    const attempts = job.attempts + 1;
+    const { lease: _lease, ...queued } = job;
+
+    if (attempts >= this.retryPolicy.maxAttempts) {
+      const letter: DeadLetter = {
+        ...queued,
+        attempts,
+        lastError: error,
+        failedAt: Date.now(),
+        error,
+      };
+      // Dead-letter before acknowledging: a crash in between leaves the job
+      // queued rather than lost
+      await this.deadLetters.add(letter);
+      await this.queue.ack(job);
+      await this.notifyFailure(error, queued);
+      if (this.options.onDeadLetter) {
+        await this.options.onDeadLetter(letter);
+      }
+      return 'dead_lettered';
+    }
+
+    const delay = computeRetryDelay(this.retryPolicy, attempts) ?? this.retryPolicy.maxDelayMs;
+    await this.queue.reschedule(job, {
+      attempts,
+      availableAt: Date.now() + delay,
+      lastError: error,
+    });
+    await this.notifyFailure(error, queued);
+    return 'retrying';
+  }
+
+  private async notifyFailure(error: string, job: QueuedWebhook): Promise<void> {
+    if (this.options.onError) {
+      await this.options.onError(new Error(error), job);
+    }
+  }
+
+  /**
+   * Process jobs until none is available (jobs waiting for a retry delay are left)
+   *
+   * @returns Number of jobs taken from the queue
+   */
+  async drain(): Promise<number> {
+    let count = 0;
+    while (await this.processNext()) {
+      count++;
+    }
+    return count;
+  }
+
+  /**
+   * Move a dead letter back to the queue with a fresh set of attempts
+   *
+   * @returns `false` when no dead letter has this ID
+   */
+  async replay(id: string): Promise<boolean> {
+    const letter = await this.deadLetters.get(id);
+    if (!letter) {
+      return false;
+    }
+
+    await this.queue.enqueue({
+      id: letter.id,
+      payload: letter.payload,
+      attempts: 0,
+      enqueuedAt: letter.enqueuedAt,
+      availableAt: Date.now(),
+      lastError: letter.error,
+    });
+    await this.deadLetters.remove(id);
+    return true;
+  }
+
+  /**
+   * Replay every dead letter
+   *
+   * @returns Number of jobs re-enqueued
+   */
+  async replayAll(): Promise<number> {
+    let count = 0;
+    for (const letter of await this.deadLetters.list()) {
+      if (await this.replay(letter.id)) {
+        count++;
+      }
+    }
+    return count;
+  }
+}
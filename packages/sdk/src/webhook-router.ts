@@ -0,0 +1,211 @@
+/**
+ * Webhook Router
+ *
+ * Composable alternative to a flat `WebhookHandlers` map:
+ * - middleware that wraps every dispatch (logging, tenant lookup, metrics)
+ * - wildcard subscriptions (`escrow.*`, `*`)
+ * - several handlers per event, ordered by priority then registration
+ * - a per-handler error policy
+ *
+ * A router can be passed anywhere `handlers` is accepted, so the Express and
+ * Next.js adapters mount it directly.
+ *
+ * @example
+ * ```typescript
+ * import { WebhookRouter } from '@zendfi/sdk';
+ * import { createWebhookHandler } from '@zendfi/sdk/nextjs';
+ *
+ * const router = new WebhookRouter()
+ *   .use(async (ctx, next) => {
+ *     ctx.state.tenant = await tenants.byMerchant(ctx.payload.merchant_id);
+ *     await next();
+ *   })
+ *   .on('payment.confirmed', (payment) => fulfillOrder(payment.id), { priority: 10 })
+ *   .on('payment.confirmed', (payment) => sendReceipt(payment), { onError: 'continue' })
+ *   .on('escrow.*', (escrow, ctx) => audit(ctx.event, escrow.id))
+ *   .on('*', (_data, ctx) => metrics.increment(`webhook.${ctx.event}`));
+ *
+ * export const POST = createWebhookHandler({
+ *   secret: process.env.ZENDFI_WEBHOOK_SECRET!,
+ *   handlers: router,
+ * });
+ * ```
+ */
+
+import type { WebhookEvent, WebhookEventDataMap, WebhookPayload } from './types';
+
+/**
+ * An exact event name, a namespace wildcard like `escrow.*`, or `*` for every event
+ */
+export type WebhookPattern = WebhookEvent | `${WebhookNamespace}.*` | '*';
+
+type WebhookNamespace = WebhookEvent extends `${infer N}.${string}` ? N : never;
+
+/**
+ * Events matched by a pattern
+ */
+export type EventsMatching<P extends WebhookPattern> = P extends '*'
+  ? WebhookEvent
+  : P extends `${infer N}.*`
+    ? Extract<WebhookEvent, `${N}.${string}`>
+    : Extract<P, WebhookEvent>;
+
+/**
+ * Per-dispatch context shared by middleware and handlers
+ */
+export interface WebhookContext<E extends WebhookEvent = WebhookEvent> {
+  event: E;
+  payload: WebhookPayload<E>;
+  /** Scratch space for middleware to pass values (e.g. a tenant) to handlers */
+  state: Record<string, unknown>;
+}
+
+export type WebhookMiddleware = (
+  ctx: WebhookContext,
+  next: () => Promise<void>
+) => void | Promise<void>;
+
+export type WebhookRouteHandler<E extends WebhookEvent> = (
+  data: WebhookEventDataMap[E],
+  ctx: WebhookContext<E>
+) => void | Promise<void>;
+
+/**
+ * What happens when a handler throws
+ * - `throw`: stop and fail the delivery so ZendFi redelivers it (default)
+ * - `continue`: record the error and run the remaining handlers
+ * - function: called with the error, then the remaining handlers run
+ */
+export type WebhookErrorPolicy =
+  | 'throw'
+  | 'continue'
+  | ((error: Error, ctx: WebhookContext) => void | Promise<void>);
+
+export interface WebhookRouteOptions {
+  /** Higher runs first; equal priorities run in registration order (default: 0) */
+  priority?: number;
+  /** Error policy for this handler (default: `throw`) */
+  onError?: WebhookErrorPolicy;
+  /** Name used in dispatch results */
+  name?: string;
+}
+
+export interface WebhookDispatchResult {
+  /** Number of handlers that ran to completion */
+  handled: number;
+  /** Errors from handlers whose policy let dispatch continue */
+  errors: Array<{ pattern: WebhookPattern; name?: string; error: Error }>;
+}
+
+interface Route {
+  pattern: WebhookPattern;
+  handler: WebhookRouteHandler<WebhookEvent>;
+  priority: number;
+  onError: WebhookErrorPolicy;
+  name?: string;
+  order: number;
+}
+
+export class WebhookRouter {
+  private readonly middleware: WebhookMiddleware[] = [];
+  private readonly routes: Route[] = [];
+
+  /**
+   * Add middleware; it runs in registration order around the matching handlers
+   * and can skip them by not calling `next()`
+   */
+  use(middleware: WebhookMiddleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Subscribe a handler to an event or wildcard pattern
+   */
+  on<P extends WebhookPattern>(
+    pattern: P,
+    handler: WebhookRouteHandler<EventsMatching<P>>,
+    options: WebhookRouteOptions = {}
+  ): this {
+    this.routes.push({
+      pattern,
+      handler: handler as WebhookRouteHandler<WebhookEvent>,
+      priority: options.priority ?? 0,
+      onError: options.onError ?? 'throw',
+      name: options.name,
+      order: this.routes.length,
+    });
+    return this;
+  }
+
+  /**
+   * Whether any handler is subscribed to the event
+   */
+  handles(event: WebhookEvent): boolean {
+    return this.routes.some((route) => matchesPattern(route.pattern, event));
+  }
+
+  /**
+   * Run middleware and every matching handler for a payload
+   *
+   * @throws The handler's error when its policy is `throw`
+   */
+  async dispatch(payload: WebhookPayload): Promise<WebhookDispatchResult> {
+    const routes = this.routes
+      .filter((route) => matchesPattern(route.pattern, payload.event))
+      .sort((a, b) => b.priority - a.priority || a.order - b.order);
+
+    const ctx: WebhookContext = { event: payload.event, payload, state: {} };
+    const result: WebhookDispatchResult = { handled: 0, errors: [] };
+
+    const runHandlers = async () => {
+      for (const route of routes) {
+        try {
+          await route.handler(payload.data, ctx);
+          result.handled++;
+        } catch (error) {
+          const err = error instanceof Error ? error : new Error(String(error));
+          if (route.onError === 'throw') {
+            throw err;
+          }
+          if (typeof route.onError === 'function') {
+            await route.onError(err, ctx);
+          }
+          result.errors.push({ pattern: route.pattern, name: route.name, error: err });
+        }
+      }
+    };
+
+    const run = async (index: number): Promise<void> => {
+      const middleware = this.middleware[index];
+      if (!middleware) {
+        return runHandlers();
+      }
+
+      let called = false;
+      await middleware(ctx, () => {
+        if (called) {
+          return Promise.reject(new Error('next() called multiple times'));
+        }
+        called = true;
+        return run(index + 1);
+      });
+    };
+
+    await run(0);
+    return result;
+  }
+}
+
+/**
+ * Check an event name against a pattern
+ */
+export function matchesPattern(pattern: WebhookPattern, event: string): boolean {
+  if (pattern === '*') {
+    return true;
+  }
+  if (pattern.endsWith('.*')) {
+    return event.startsWith(pattern.slice(0, -1));
+  }
+  return pattern === event;
+}
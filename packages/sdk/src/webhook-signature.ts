@@ -0,0 +1,278 @@
+/**
+ * Webhook Signatures
+ *
+ * ZendFi signs each delivery with a timestamped signature header:
+ *
+ * ```
+ * x-zendfi-signature: t=1730203200,v1=5257a869e7ecebeda32affa62cdca3fa51cad7e77a0e56ff536d0ce8e108d8bd
+ * ```
+ *
+ * `v1` is the hex HMAC-SHA256 of `${t}.${body}`, so the timestamp can't be
+ * changed without invalidating the signature. Deliveries whose timestamp is
+ * further than the tolerance window from the current time are rejected,
+ * which stops captured requests from being replayed later.
+ *
+ * Legacy signatures (hex HMAC of the body alone, optionally prefixed with
+ * `sha256=`) are still accepted unless `requireTimestamp` is set.
+ *
+ * To rotate the webhook secret without failing deliveries, pass every active
+ * secret, newest first. A match on any secret but the first calls
+ * `onDeprecatedSecret`, so you know when the old one can be removed.
+ *
+ * The synchronous functions need Node's `crypto` module. Their `Async`
+ * counterparts fall back to Web Crypto, so they also run on Vercel Edge,
+ * Cloudflare Workers and Deno.
+ *
+ * @example
+ * ```typescript
+ * import { verifyWebhookHeader, WebhookError, ERROR_CODES } from '@zendfi/sdk';
+ *
+ * try {
+ *   verifyWebhookHeader(rawBody, req.headers['x-zendfi-signature'], secret, {
+ *     toleranceSeconds: 300,
+ *   });
+ * } catch (error) {
+ *   if (error instanceof WebhookError && error.code === ERROR_CODES.WEBHOOK_TIMESTAMP_TOO_OLD) {
+ *     // Replayed or badly delayed delivery
+ *   }
+ * }
+ * ```
+ */
+
+import { ERROR_CODES, WebhookError } from './errors';
+import { constantTimeEqual, hmacSha256Hex, hmacSha256HexSync } from './crypto';
+
+/** Default tolerance window: 5 minutes */
+export const DEFAULT_WEBHOOK_TOLERANCE_SECONDS = 300;
+
+/**
+ * A webhook secret, or a list of active secrets ordered newest first
+ */
+export type WebhookSecret = string | readonly string[];
+
+/**
+ * Details passed to `onDeprecatedSecret`
+ */
+export interface DeprecatedSecretInfo {
+  /** Position of the matching secret in the configured list (always > 0) */
+  secretIndex: number;
+  /** Signed timestamp of the delivery, when present */
+  timestamp?: number;
+}
+
+export interface WebhookSignatureOptions {
+  /** Maximum age (and clock skew) of a timestamped delivery, in seconds (default: 300) */
+  toleranceSeconds?: number;
+  /** Reject legacy signatures that carry no timestamp (default: false) */
+  requireTimestamp?: boolean;
+  /** Called when a delivery was signed with a secret other than the first (newest) one */
+  onDeprecatedSecret?: (info: DeprecatedSecretInfo) => void;
+}
+
+/**
+ * Result of a successful verification
+ */
+export interface WebhookVerification {
+  /** Signed timestamp (seconds), or `undefined` for legacy signatures */
+  timestamp?: number;
+  /** Position of the secret that matched (0 = current secret) */
+  secretIndex: number;
+}
+
+export interface ParsedSignatureHeader {
+  /** Unix timestamp in seconds, when the header uses the timestamped scheme */
+  timestamp?: number;
+  /** Candidate hex signatures */
+  signatures: string[];
+}
+
+/**
+ * Split a signature header into its timestamp and signatures
+ *
+ * Accepts `t=<seconds>,v1=<hex>[,v1=<hex>...]`, `sha256=<hex>` and bare hex.
+ */
+export function parseSignatureHeader(header: string): ParsedSignatureHeader {
+  const value = header.trim();
+
+  if (!value.includes('=') || value.startsWith('sha256=')) {
+    return { signatures: [value.replace(/^sha256=/, '')] };
+  }
+
+  let timestamp: number | undefined;
+  const signatures: string[] = [];
+
+  for (const part of value.split(',')) {
+    const [key, ...rest] = part.trim().split('=');
+    const item = rest.join('=');
+
+    if (key === 't') {
+      const parsed = Number(item);
+      timestamp = Number.isInteger(parsed) ? parsed : undefined;
+    } else if (key === 'v1' && item) {
+      signatures.push(item);
+    }
+  }
+
+  return { timestamp, signatures };
+}
+
+/**
+ * Compute the hex signature for a body, including the timestamp when given
+ */
+export function computeWebhookSignature(body: string, secret: string, timestamp?: number): string {
+  return hmacSha256HexSync(secret, signedContent(body, timestamp));
+}
+
+/**
+ * Async `computeWebhookSignature` that also works without Node's `crypto`
+ */
+export function computeWebhookSignatureAsync(
+  body: string,
+  secret: string,
+  timestamp?: number
+): Promise<string> {
+  return hmacSha256Hex(secret, signedContent(body, timestamp));
+}
+
+/**
+ * Build a timestamped signature header, e.g. for testing your webhook endpoint
+ */
+export function generateWebhookSignatureHeader(
+  body: string,
+  secret: string,
+  timestamp = Math.floor(Date.now() / 1000)
+): string {
+  return `t=${timestamp},v1=${computeWebhookSignature(body, secret, timestamp)}`;
+}
+
+/**
+ * Async `generateWebhookSignatureHeader` that also works without Node's `crypto`
+ */
+export async function generateWebhookSignatureHeaderAsync(
+  body: string,
+  secret: string,
+  timestamp = Math.floor(Date.now() / 1000)
+): Promise<string> {
+  return `t=${timestamp},v1=${await computeWebhookSignatureAsync(body, secret, timestamp)}`;
+}
+
+/**
+ * Verify a signature header against the raw request body
+ *
+ * @returns The signed timestamp and which secret matched
+ * @throws {WebhookError} `webhook_signature_invalid` when no signature matches,
+ *   `webhook_timestamp_too_old` when the timestamp is outside the tolerance window
+ */
+export function verifyWebhookHeader(
+  body: string,
+  header: string | null | undefined,
+  secret: WebhookSecret,
+  options: WebhookSignatureOptions = {}
+): WebhookVerification {
+  const { secrets, timestamp, signatures } = prepareVerification(header, secret, options);
+
+  const secretIndex = secrets.findIndex((candidate) => {
+    const expected = computeWebhookSignature(body, candidate, timestamp);
+    return signatures.some((signature) => constantTimeEqual(signature.toLowerCase(), expected));
+  });
+
+  return completeVerification(secretIndex, timestamp, options);
+}
+
+/**
+ * Async `verifyWebhookHeader` for edge runtimes; uses Node's `crypto` when
+ * available and Web Crypto (`crypto.subtle`) otherwise
+ *
+ * @throws {WebhookError} Same cases as `verifyWebhookHeader`
+ */
+export async function verifyWebhookHeaderAsync(
+  body: string,
+  header: string | null | undefined,
+  secret: WebhookSecret,
+  options: WebhookSignatureOptions = {}
+): Promise<WebhookVerification> {
+  const { secrets, timestamp, signatures } = prepareVerification(header, secret, options);
+
+  let secretIndex = -1;
+  for (let i = 0; i < secrets.length && secretIndex === -1; i++) {
+    const expected = await computeWebhookSignatureAsync(body, secrets[i]!, timestamp);
+    if (signatures.some((signature) => constantTimeEqual(signature.toLowerCase(), expected))) {
+      secretIndex = i;
+    }
+  }
+
+  return completeVerification(secretIndex, timestamp, options);
+}
+
+function signedContent(body: string, timestamp?: number): string {
+  return timestamp === undefined ? body : `${timestamp}.${body}`;
+}
+
+/**
+ * Checks that don't need a signature to be computed
+ */
+function prepareVerification(
+  header: string | null | undefined,
+  secret: WebhookSecret,
+  options: WebhookSignatureOptions
+): ParsedSignatureHeader & { secrets: string[] } {
+  if (!header) {
+    throw new WebhookError('Missing webhook signature', ERROR_CODES.WEBHOOK_SIGNATURE_INVALID);
+  }
+
+  const secrets = (typeof secret === 'string' ? [secret] : secret).filter(Boolean);
+  if (secrets.length === 0) {
+    throw new WebhookError(
+      'Webhook secret not configured',
+      ERROR_CODES.WEBHOOK_SIGNATURE_INVALID
+    );
+  }
+
+  const { timestamp, signatures } = parseSignatureHeader(header);
+
+  if (timestamp === undefined && options.requireTimestamp) {
+    throw new WebhookError(
+      'Webhook signature has no timestamp',
+      ERROR_CODES.WEBHOOK_SIGNATURE_INVALID,
+      'Timestamped signatures are required; make sure your endpoint receives the x-zendfi-signature header unmodified'
+    );
+  }
+
+  return { secrets, timestamp, signatures };
+}
+
+/**
+ * Checks that run once the matching secret (if any) is known
+ */
+function completeVerification(
+  secretIndex: number,
+  timestamp: number | undefined,
+  options: WebhookSignatureOptions
+): WebhookVerification {
+  if (secretIndex === -1) {
+    throw new WebhookError('Invalid webhook signature', ERROR_CODES.WEBHOOK_SIGNATURE_INVALID);
+  }
+
+  if (timestamp !== undefined) {
+    const tolerance = options.toleranceSeconds ?? DEFAULT_WEBHOOK_TOLERANCE_SECONDS;
+    const age = Math.floor(Date.now() / 1000) - timestamp;
+
+    if (Math.abs(age) > tolerance) {
+      throw new WebhookError(
+        `Webhook timestamp is outside the ${tolerance}s tolerance window (age: ${age}s)`,
+        ERROR_CODES.WEBHOOK_TIMESTAMP_TOO_OLD,
+        'The delivery may be a replay. If your server clock is wrong, sync it with NTP'
+      );
+    }
+  }
+
+  if (secretIndex > 0 && options.onDeprecatedSecret) {
+    try {
+      options.onDeprecatedSecret({ secretIndex, timestamp });
+    } catch {
+      // A failing notification must not reject a valid delivery
+    }
+  }
+
+  return { timestamp, secretIndex };
+}
@@ -0,0 +1,140 @@
+/**
+ * File Webhook Store
+ *
+ * Persists processed event IDs to a local JSON file so they survive
+ * restarts. Meant for single-instance deployments (a VPS, a long-running
+ * worker); use the Redis or SQL store when several instances share traffic.
+ *
+ * @example
+ * ```typescript
+ * import { FileWebhookStore } from '@zendfi/sdk/node';
+ *
+ * const store = new FileWebhookStore({ path: './data/zendfi-webhooks.json' });
+ * ```
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { generateLeaseToken } from '../utils';
+import type { WebhookClaimResult, WebhookIdempotencyStore } from './store';
+
+export interface FileWebhookStoreOptions {
+  /** Path of the JSON file (created if missing) */
+  path: string;
+}
+
+interface Entry {
+  state: 'in_progress' | 'processed';
+  expiresAt: number;
+  /** Claim token while `in_progress` */
+  token?: string;
+}
+
+export class FileWebhookStore implements WebhookIdempotencyStore {
+  private readonly path: string;
+  private entries?: Map<string, Entry>;
+  /** Serializes loads and writes so concurrent deliveries don't clobber the file */
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(options: FileWebhookStoreOptions) {
+    this.path = options.path;
+  }
+
+  has(eventId: string): Promise<boolean> {
+    return this.enqueue(async () => {
+      const entry = (await this.load()).get(eventId);
+      return entry !== undefined && entry.expiresAt > Date.now();
+    });
+  }
+
+  claim(eventId: string, leaseSeconds: number): Promise<WebhookClaimResult> {
+    return this.enqueue(async () => {
+      const entries = await this.load();
+      const entry = live(entries.get(eventId));
+      if (entry) {
+        return { status: entry.state };
+      }
+
+      const token = generateLeaseToken();
+      entries.set(eventId, {
+        state: 'in_progress',
+        expiresAt: Date.now() + leaseSeconds * 1000,
+        token,
+      });
+      await this.save(entries);
+      return { status: 'claimed', token };
+    });
+  }
+
+  set(eventId: string, ttlSeconds: number, token?: string): Promise<void> {
+    return this.enqueue(async () => {
+      const entries = await this.load();
+      const entry = live(entries.get(eventId));
+      if (token !== undefined && entry?.state === 'in_progress' && entry.token !== token) {
+        // Another worker claimed the event after this claim's lease ran out
+        return;
+      }
+      entries.set(eventId, { state: 'processed', expiresAt: Date.now() + ttlSeconds * 1000 });
+      await this.save(entries);
+    });
+  }
+
+  delete(eventId: string, token?: string): Promise<void> {
+    return this.enqueue(async () => {
+      const entries = await this.load();
+      if (token !== undefined && live(entries.get(eventId))?.token !== token) {
+        return;
+      }
+      if (entries.delete(eventId)) {
+        await this.save(entries);
+      }
+    });
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async load(): Promise<Map<string, Entry>> {
+    if (this.entries) {
+      return this.entries;
+    }
+
+    let data: Record<string, Entry> = {};
+    try {
+      data = JSON.parse(await readFile(this.path, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    this.entries = new Map(Object.entries(data));
+    return this.entries;
+  }
+
+  private async save(entries: Map<string, Entry>): Promise<void> {
+    // Drop expired IDs on every write so the file doesn't grow unbounded
+    const now = Date.now();
+    const data: Record<string, Entry> = {};
+    for (const [eventId, entry] of entries) {
+      if (entry.expiresAt > now) {
+        data[eventId] = entry;
+      } else {
+        entries.delete(eventId);
+      }
+    }
+
+    // Write to a temp file and rename so a crash never leaves a partial file
+    const tempPath = `${this.path}.${process.pid}.tmp`;
+    await mkdir(dirname(this.path), { recursive: true });
+    await writeFile(tempPath, JSON.stringify(data), 'utf8');
+    await rename(tempPath, this.path);
+  }
+}
+
+function live(entry: Entry | undefined): Entry | undefined {
+  return entry && entry.expiresAt > Date.now() ? entry : undefined;
+}
@@ -0,0 +1,25 @@
+/**
+ * Webhook Idempotency Stores
+ *
+ * Pluggable storage for processed webhook event IDs:
+ * - MemoryWebhookStore: in-process (default)
+ * - RedisWebhookStore: shared across instances via Redis
+ * - SqlWebhookStore: shared across instances via a database table
+ * - FileWebhookStore: persisted to a local JSON file (Node only, from
+ *   `@zendfi/sdk/node`)
+ */
+
+export {
+  DEFAULT_WEBHOOK_DEDUP_TTL_SECONDS,
+  DEFAULT_WEBHOOK_LEASE_SECONDS,
+  type WebhookClaimResult,
+  type WebhookIdempotencyStore,
+} from './store';
+export { MemoryWebhookStore, type MemoryWebhookStoreOptions } from './memory';
+export { RedisWebhookStore, type RedisLike, type RedisWebhookStoreOptions } from './redis';
+export {
+  SqlWebhookStore,
+  type SqlDialect,
+  type SqlQueryFn,
+  type SqlWebhookStoreOptions,
+} from './sql';
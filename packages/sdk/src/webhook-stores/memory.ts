@@ -0,0 +1,91 @@
+/**
+ * In-Memory Webhook Store
+ *
+ * Default store for development and single-instance deployments. Entries
+ * are lost on restart and are not shared between processes.
+ */
+
+import { generateLeaseToken } from '../utils';
+import type { WebhookClaimResult, WebhookIdempotencyStore } from './store';
+
+export interface MemoryWebhookStoreOptions {
+  /** Maximum number of IDs kept; the oldest are evicted first (default: 10000) */
+  maxEntries?: number;
+}
+
+interface Entry {
+  state: 'in_progress' | 'processed';
+  expiresAt: number;
+  /** Claim token while `in_progress` */
+  token?: string;
+}
+
+export class MemoryWebhookStore implements WebhookIdempotencyStore {
+  private readonly entries = new Map<string, Entry>();
+  private readonly maxEntries: number;
+
+  constructor(options: MemoryWebhookStoreOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 10000;
+  }
+
+  async has(eventId: string): Promise<boolean> {
+    return this.get(eventId) !== undefined;
+  }
+
+  async claim(eventId: string, leaseSeconds: number): Promise<WebhookClaimResult> {
+    const entry = this.get(eventId);
+    if (entry) {
+      return { status: entry.state };
+    }
+
+    const token = generateLeaseToken();
+    this.put(eventId, {
+      state: 'in_progress',
+      expiresAt: Date.now() + leaseSeconds * 1000,
+      token,
+    });
+    return { status: 'claimed', token };
+  }
+
+  async set(eventId: string, ttlSeconds: number, token?: string): Promise<void> {
+    const entry = this.get(eventId);
+    if (token !== undefined && entry?.state === 'in_progress' && entry.token !== token) {
+      // Another worker claimed the event after this claim's lease ran out
+      return;
+    }
+    this.put(eventId, { state: 'processed', expiresAt: Date.now() + ttlSeconds * 1000 });
+  }
+
+  async delete(eventId: string, token?: string): Promise<void> {
+    if (token === undefined || this.get(eventId)?.token === token) {
+      this.entries.delete(eventId);
+    }
+  }
+
+  private get(eventId: string): Entry | undefined {
+    const entry = this.entries.get(eventId);
+    if (entry && entry.expiresAt <= Date.now()) {
+      this.entries.delete(eventId);
+      return undefined;
+    }
+    return entry;
+  }
+
+  private put(eventId: string, entry: Entry): void {
+    // Re-insert so the Map's insertion order stays oldest-first
+    this.entries.delete(eventId);
+    this.entries.set(eventId, entry);
+    this.evict();
+  }
+
+  private evict(): void {
+    const now = Date.now();
+    for (const [eventId, entry] of this.entries) {
+      if (this.entries.size <= this.maxEntries && entry.expiresAt > now) {
+        break;
+      }
+      this.entries.delete(eventId);
+    }
+  }
+}
+
@@ -0,0 +1,141 @@
+/**
+ * Redis Webhook Store
+ *
+ * Shares processed event IDs across instances using Redis keys with an
+ * expiry. A claim stores its token in the key, and commit and release
+ * compare it in a Lua script. Works with `ioredis` clients directly; for
+ * `node-redis` v4+ pass a small wrapper (see example).
+ *
+ * @example
+ * ```typescript
+ * import Redis from 'ioredis';
+ * import { RedisWebhookStore } from '@zendfi/sdk';
+ *
+ * const store = new RedisWebhookStore(new Redis(process.env.REDIS_URL));
+ *
+ * // node-redis
+ * const store = new RedisWebhookStore({
+ *   get: (key) => client.get(key),
+ *   exists: (key) => client.exists(key),
+ *   set: (key, value, _mode, seconds, condition) =>
+ *     client.set(key, value, { EX: seconds, NX: condition === 'NX' }),
+ *   del: (key) => client.del(key),
+ *   eval: (script, numKeys, ...args) =>
+ *     client.eval(script, {
+ *       keys: args.slice(0, numKeys).map(String),
+ *       arguments: args.slice(numKeys).map(String),
+ *     }),
+ * });
+ * ```
+ */
+
+import { generateLeaseToken } from '../utils';
+import type { WebhookClaimResult, WebhookIdempotencyStore } from './store';
+
+/** Subset of the ioredis client used by the store */
+export interface RedisLike {
+  get(key: string): Promise<string | null>;
+  exists(key: string): Promise<number>;
+  /** Resolves to `'OK'` when the key was written (`null` when `NX` prevented it) */
+  set(
+    key: string,
+    value: string,
+    expiryMode: 'EX',
+    seconds: number,
+    condition?: 'NX'
+  ): Promise<unknown>;
+  del(key: string): Promise<number>;
+  eval(script: string, numKeys: number, ...args: Array<string | number>): Promise<unknown>;
+}
+
+/** Claimed keys hold `in_progress:<token>` */
+const IN_PROGRESS = 'in_progress';
+const PROCESSED = 'processed';
+
+/**
+ * Lua scripts run by `RedisWebhookStore`; KEYS is the event key and ARGV
+ * starts with the claimed value (`in_progress:<token>`)
+ */
+export const REDIS_STORE_SCRIPTS = {
+  /** ARGV: claimed value, TTL seconds. Commits unless another worker has claimed it since. */
+  commit: `
+local value = redis.call('GET', KEYS[1])
+if value and value ~= ARGV[1] and value ~= '${PROCESSED}' then
+  return 0
+end
+redis.call('SET', KEYS[1], '${PROCESSED}', 'EX', ARGV[2])
+return 1`,
+  /** ARGV: claimed value. Releases the claim only while it is still held. */
+  release: `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0`,
+} as const;
+
+export interface RedisWebhookStoreOptions {
+  /** Key prefix (default: `zendfi:webhook:`) */
+  prefix?: string;
+}
+
+export class RedisWebhookStore implements WebhookIdempotencyStore {
+  private readonly prefix: string;
+
+  constructor(
+    private readonly redis: RedisLike,
+    options: RedisWebhookStoreOptions = {}
+  ) {
+    this.prefix = options.prefix ?? 'zendfi:webhook:';
+  }
+
+  async has(eventId: string): Promise<boolean> {
+    return (await this.redis.exists(this.prefix + eventId)) > 0;
+  }
+
+  async claim(eventId: string, leaseSeconds: number): Promise<WebhookClaimResult> {
+    const key = this.prefix + eventId;
+    const token = generateLeaseToken();
+    const result = await this.redis.set(
+      key,
+      claimedValue(token),
+      'EX',
+      toSeconds(leaseSeconds),
+      'NX'
+    );
+    if (result === 'OK') {
+      return { status: 'claimed', token };
+    }
+
+    // A key that expired between the two calls is treated as still in progress;
+    // the redelivery after it will claim it.
+    const state = await this.redis.get(key);
+    return { status: state === PROCESSED ? 'processed' : 'in_progress' };
+  }
+
+  async set(eventId: string, ttlSeconds: number, token?: string): Promise<void> {
+    const key = this.prefix + eventId;
+    if (token === undefined) {
+      await this.redis.set(key, PROCESSED, 'EX', toSeconds(ttlSeconds));
+      return;
+    }
+    const ttl = toSeconds(ttlSeconds);
+    await this.redis.eval(REDIS_STORE_SCRIPTS.commit, 1, key, claimedValue(token), ttl);
+  }
+
+  async delete(eventId: string, token?: string): Promise<void> {
+    const key = this.prefix + eventId;
+    if (token === undefined) {
+      await this.redis.del(key);
+      return;
+    }
+    await this.redis.eval(REDIS_STORE_SCRIPTS.release, 1, key, claimedValue(token));
+  }
+}
+
+function claimedValue(token: string): string {
+  return `${IN_PROGRESS}:${token}`;
+}
+
+function toSeconds(seconds: number): number {
+  return Math.max(1, Math.ceil(seconds));
+}
@@ -0,0 +1,201 @@
+/**
+ * SQL Webhook Store
+ *
+ * Keeps processed event IDs in a database table, shared by every instance
+ * that uses the same database. The store only needs a function that runs a
+ * parameterized query, so it works with Prisma, `pg`, `mysql2` or
+ * `better-sqlite3` wrappers.
+ *
+ * @example
+ * ```typescript
+ * import { SqlWebhookStore } from '@zendfi/sdk';
+ *
+ * // Prisma (PostgreSQL)
+ * const store = new SqlWebhookStore({
+ *   query: (sql, params) => prisma.$queryRawUnsafe(sql, ...params),
+ * });
+ *
+ * // pg
+ * const store = new SqlWebhookStore({
+ *   query: async (sql, params) => (await pool.query(sql, params)).rows,
+ * });
+ *
+ * // Run once, e.g. in a migration
+ * await store.createTable();
+ * ```
+ */
+
+import { generateLeaseToken } from '../utils';
+import type { WebhookClaimResult, WebhookIdempotencyStore } from './store';
+
+export type SqlDialect = 'postgres' | 'mysql' | 'sqlite';
+
+/**
+ * Run a parameterized statement and return its rows (empty for writes)
+ */
+export type SqlQueryFn = (sql: string, params: unknown[]) => Promise<unknown>;
+
+export interface SqlWebhookStoreOptions {
+  /** Executes SQL against your database */
+  query: SqlQueryFn;
+  /** Table name (default: `zendfi_webhook_events`) */
+  table?: string;
+  /** SQL dialect, used for placeholders and upserts (default: `postgres`) */
+  dialect?: SqlDialect;
+}
+
+export class SqlWebhookStore implements WebhookIdempotencyStore {
+  private readonly query: SqlQueryFn;
+  private readonly table: string;
+  private readonly dialect: SqlDialect;
+
+  constructor(options: SqlWebhookStoreOptions) {
+    this.query = options.query;
+    this.table = options.table ?? 'zendfi_webhook_events';
+    this.dialect = options.dialect ?? 'postgres';
+
+    if (!/^[A-Za-z_][A-Za-z0-9_.]*$/.test(this.table)) {
+      throw new Error(`Invalid table name: ${this.table}`);
+    }
+  }
+
+  /**
+   * DDL for the backing table. `expires_at` holds epoch milliseconds so the
+   * same schema works across dialects.
+   */
+  createTableSql(): string {
+    const idType = this.dialect === 'mysql' ? 'VARCHAR(255)' : 'TEXT';
+    return (
+      `CREATE TABLE IF NOT EXISTS ${this.table} (` +
+      `event_id ${idType} PRIMARY KEY, ` +
+      `status VARCHAR(16) NOT NULL, ` +
+      `expires_at BIGINT NOT NULL, ` +
+      `claim_token VARCHAR(64))`
+    );
+  }
+
+  async createTable(): Promise<void> {
+    await this.query(this.createTableSql(), []);
+  }
+
+  async has(eventId: string): Promise<boolean> {
+    const rows = await this.query(
+      `SELECT event_id FROM ${this.table} ` +
+        `WHERE event_id = ${this.param(1)} AND expires_at > ${this.param(2)}`,
+      [eventId, Date.now()]
+    );
+    return toRows(rows).length > 0;
+  }
+
+  async claim(eventId: string, leaseSeconds: number): Promise<WebhookClaimResult> {
+    const now = Date.now();
+
+    // Clear an expired lease (e.g. from a crashed worker) so it can be re-claimed
+    await this.query(
+      `DELETE FROM ${this.table} ` +
+        `WHERE event_id = ${this.param(1)} AND expires_at <= ${this.param(2)}`,
+      [eventId, now]
+    );
+
+    const token = generateLeaseToken();
+    try {
+      await this.query(
+        `INSERT INTO ${this.table} (event_id, status, expires_at, claim_token) ` +
+          `VALUES (${this.param(1)}, ${this.param(2)}, ${this.param(3)}, ${this.param(4)})`,
+        [eventId, 'in_progress', now + leaseSeconds * 1000, token]
+      );
+      return { status: 'claimed', token };
+    } catch (error) {
+      // The primary key rejected the insert: another worker claimed or processed the event
+      const rows = toRows(
+        await this.query(`SELECT status FROM ${this.table} WHERE event_id = ${this.param(1)}`, [
+          eventId,
+        ])
+      );
+      const row = rows[0] as { status?: string } | undefined;
+      if (!row) {
+        throw error;
+      }
+      return { status: row.status === 'processed' ? 'processed' : 'in_progress' };
+    }
+  }
+
+  async set(eventId: string, ttlSeconds: number, token?: string): Promise<void> {
+    const now = Date.now();
+    const values = [eventId, 'processed', now + ttlSeconds * 1000];
+
+    if (token === undefined) {
+      const upsert =
+        this.dialect === 'mysql'
+          ? 'ON DUPLICATE KEY UPDATE status = VALUES(status), expires_at = VALUES(expires_at)'
+          : 'ON CONFLICT (event_id) DO UPDATE SET ' +
+            'status = excluded.status, expires_at = excluded.expires_at';
+      await this.query(
+        `INSERT INTO ${this.table} (event_id, status, expires_at) ` +
+          `VALUES (${this.param(1)}, ${this.param(2)}, ${this.param(3)}) ${upsert}`,
+        values
+      );
+      return;
+    }
+
+    // Commit unless another worker's unexpired claim replaced this one
+    if (this.dialect === 'mysql') {
+      const committable = `(status = 'processed' OR claim_token = ? OR expires_at <= ?)`;
+      await this.query(
+        `INSERT INTO ${this.table} (event_id, status, expires_at) VALUES (?, ?, ?) ` +
+          `ON DUPLICATE KEY UPDATE ` +
+          `status = IF(${committable}, VALUES(status), status), ` +
+          `expires_at = IF(${committable}, VALUES(expires_at), expires_at)`,
+        [...values, token, now, token, now]
+      );
+      return;
+    }
+
+    await this.query(
+      `INSERT INTO ${this.table} AS existing (event_id, status, expires_at) ` +
+        `VALUES (${this.param(1)}, ${this.param(2)}, ${this.param(3)}) ` +
+        `ON CONFLICT (event_id) DO UPDATE SET ` +
+        `status = excluded.status, expires_at = excluded.expires_at ` +
+        `WHERE existing.status = 'processed' OR existing.claim_token = ${this.param(4)} ` +
+        `OR existing.expires_at <= ${this.param(5)}`,
+      [...values, token, now]
+    );
+  }
+
+  async delete(eventId: string, token?: string): Promise<void> {
+    if (token === undefined) {
+      await this.query(`DELETE FROM ${this.table} WHERE event_id = ${this.param(1)}`, [eventId]);
+      return;
+    }
+
+    await this.query(
+      `DELETE FROM ${this.table} WHERE event_id = ${this.param(1)} ` +
+        `AND status = 'in_progress' AND claim_token = ${this.param(2)}`,
+      [eventId, token]
+    );
+  }
+
+  /**
+   * Delete expired rows; run periodically to keep the table small
+   */
+  async purgeExpired(): Promise<void> {
+    await this.query(`DELETE FROM ${this.table} WHERE expires_at <= ${this.param(1)}`, [
+      Date.now(),
+    ]);
+  }
+
+  private param(index: number): string {
+    return this.dialect === 'postgres' ? `$${index}` : '?';
+  }
+}
+
+/**
+ * Accept both bare row arrays and `{ rows }` results (pg)
+ */
+export function toRows(result: unknown): unknown[] {
+  if (Array.isArray(result)) {
+    return result;
+  }
+  const rows = (result as { rows?: unknown } | null | undefined)?.rows;
+  return Array.isArray(rows) ? rows : [];
+}
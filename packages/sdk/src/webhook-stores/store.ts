@@ -0,0 +1,53 @@
+/**
+ * Webhook Idempotency Store
+ *
+ * Records which webhook events have been processed so redeliveries (and
+ * deliveries to other instances) are skipped. Entries expire after a TTL,
+ * which only needs to outlast ZendFi's redelivery window.
+ *
+ * Processing is two-phase: a worker first `claim`s the event with a short
+ * lease, runs the handler, then commits (`set`) on success or releases
+ * (`delete`) on failure. Only one worker can hold the claim, and if it
+ * crashes the lease expires so a redelivery can process the event. Commit
+ * and release pass the claim's token, so a worker whose lease ran out (and
+ * passed to another worker) can't release or overwrite the new claim.
+ */
+
+/** Default retention for processed event IDs: 24 hours */
+export const DEFAULT_WEBHOOK_DEDUP_TTL_SECONDS = 24 * 60 * 60;
+
+/** Default lease while a handler runs: 5 minutes */
+export const DEFAULT_WEBHOOK_LEASE_SECONDS = 5 * 60;
+
+/**
+ * Outcome of a claim attempt
+ * - `claimed`: this worker now holds the lease (identified by `token`) and
+ *   should process the event
+ * - `in_progress`: another worker holds an unexpired lease
+ * - `processed`: the event was already committed
+ */
+export type WebhookClaimResult =
+  | { status: 'claimed'; token: string }
+  | { status: 'in_progress' }
+  | { status: 'processed' };
+
+export interface WebhookIdempotencyStore {
+  /** Whether the event ID is claimed or processed (and hasn't expired) */
+  has(eventId: string): Promise<boolean>;
+  /**
+   * Atomically claim the event for `leaseSeconds`, unless it is already
+   * claimed or processed
+   */
+  claim(eventId: string, leaseSeconds: number): Promise<WebhookClaimResult>;
+  /**
+   * Record the event ID as processed for `ttlSeconds`. With a claim's
+   * `token` this commits the claim, and does nothing if another worker has
+   * claimed the event since.
+   */
+  set(eventId: string, ttlSeconds: number, token?: string): Promise<void>;
+  /**
+   * Forget an event ID so it can be processed again. With a claim's `token`
+   * this releases the claim, and only while that claim is still held.
+   */
+  delete(eventId: string, token?: string): Promise<void>;
+}
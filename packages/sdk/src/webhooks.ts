@@ -3,8 +3,34 @@
  * Convenience functions for common frameworks
  */
 
-import { zendfi } from './client';
 import type { WebhookPayload } from './types';
+import { ERROR_CODES, WebhookError } from './errors';
+import {
+  verifyWebhookHeader,
+  verifyWebhookHeaderAsync,
+  type WebhookSecret,
+  type WebhookSignatureOptions,
+} from './webhook-signature';
+
+/**
+ * A verified delivery, with the position of the secret that verified it
+ * (0 = current secret; higher means the sender still uses an older one)
+ */
+export type VerifiedWebhook = WebhookPayload & { secretIndex: number };
+
+/**
+ * Read ZENDFI_WEBHOOK_SECRET, which may hold several comma-separated secrets
+ * (newest first) while rotating
+ */
+function secretsFromEnv(): string[] | undefined {
+  const value =
+    typeof process === 'undefined' ? undefined : process.env?.ZENDFI_WEBHOOK_SECRET;
+  if (!value) {
+    return undefined;
+  }
+
+  return value.split(',').map((secret) => secret.trim()).filter(Boolean);
+}
 
 /**
  * Verify and parse webhook for Next.js API routes
@@ -21,6 +47,10 @@ import type { WebhookPayload } from './types';
  *     return new Response('Invalid signature', { status: 401 });
  *   }
  *   
+ *   if (webhook.secretIndex > 0) {
+ *     console.warn('Delivery signed with an old webhook secret');
+ *   }
+ *   
  *   // Process webhook
  *   switch (webhook.event) {
  *     case 'payment.confirmed':
@@ -34,8 +64,9 @@ import type { WebhookPayload } from './types';
  */
 export async function verifyNextWebhook(
   request: Request,
-  secret?: string
-): Promise<WebhookPayload | null> {
+  secret?: WebhookSecret,
+  options?: WebhookSignatureOptions
+): Promise<VerifiedWebhook | null> {
   try {
     const payload = await request.text();
     const signature = request.headers.get('x-zendfi-signature');
@@ -44,23 +75,20 @@ export async function verifyNextWebhook(
       return null;
     }
 
-    const webhookSecret = secret || process.env.ZENDFI_WEBHOOK_SECRET;
+    const webhookSecret = secret || secretsFromEnv();
 
     if (!webhookSecret) {
       throw new Error('ZENDFI_WEBHOOK_SECRET not configured');
     }
 
-    const isValid = zendfi.verifyWebhook({
+    const { secretIndex } = await verifyWebhookHeaderAsync(
       payload,
       signature,
-      secret: webhookSecret,
-    });
+      webhookSecret,
+      options
+    );
 
-    if (!isValid) {
-      return null;
-    }
-
-    return JSON.parse(payload) as WebhookPayload;
+    return { ...(JSON.parse(payload) as WebhookPayload), secretIndex };
   } catch {
     return null;
   }
@@ -89,8 +117,9 @@ export async function verifyNextWebhook(
  */
 export async function verifyExpressWebhook(
   request: any,
-  secret?: string
-): Promise<WebhookPayload | null> {
+  secret?: WebhookSecret,
+  options?: WebhookSignatureOptions
+): Promise<VerifiedWebhook | null> {
   try {
     // Express should have raw body for signature verification
     const payload = request.rawBody || JSON.stringify(request.body);
@@ -100,23 +129,20 @@ export async function verifyExpressWebhook(
       return null;
     }
 
-    const webhookSecret = secret || process.env.ZENDFI_WEBHOOK_SECRET;
+    const webhookSecret = secret || secretsFromEnv();
 
     if (!webhookSecret) {
       throw new Error('ZENDFI_WEBHOOK_SECRET not configured');
     }
 
-    const isValid = zendfi.verifyWebhook({
+    const { secretIndex } = await verifyWebhookHeaderAsync(
       payload,
       signature,
-      secret: webhookSecret,
-    });
-
-    if (!isValid) {
-      return null;
-    }
+      webhookSecret,
+      options
+    );
 
-    return JSON.parse(payload) as WebhookPayload;
+    return { ...(JSON.parse(payload) as WebhookPayload), secretIndex };
   } catch {
     return null;
   }
@@ -126,6 +152,13 @@ export async function verifyExpressWebhook(
  * Verify webhook signature manually
  * Use this for custom integrations
  * 
+ * Returns `false` when the signature doesn't match. A correctly signed
+ * delivery whose timestamp is outside the tolerance window throws a
+ * `WebhookError` with code `webhook_timestamp_too_old`, so replays can be
+ * told apart from forgeries. Without Node's `crypto` module (edge runtimes,
+ * ES modules on Node before 20.16) it throws rather than rejecting every
+ * delivery; use `verifyWebhookSignatureAsync` there.
+ * 
  * @example
  * ```typescript
  * import { verifyWebhookSignature } from '@zendfi/sdk/webhooks';
@@ -133,18 +166,48 @@ export async function verifyExpressWebhook(
  * const isValid = verifyWebhookSignature(
  *   payloadString,
  *   signatureHeader,
- *   process.env.ZENDFI_WEBHOOK_SECRET
+ *   process.env.ZENDFI_WEBHOOK_SECRET,
+ *   { toleranceSeconds: 300 }
  * );
  * ```
  */
 export function verifyWebhookSignature(
   payload: string,
   signature: string,
-  secret: string
+  secret: WebhookSecret,
+  options?: WebhookSignatureOptions
 ): boolean {
-  return zendfi.verifyWebhook({
-    payload,
-    signature,
-    secret,
-  });
+  try {
+    verifyWebhookHeader(payload, signature, secret, options);
+    return true;
+  } catch (error) {
+    if (
+      !(error instanceof WebhookError) ||
+      error.code === ERROR_CODES.WEBHOOK_TIMESTAMP_TOO_OLD
+    ) {
+      throw error;
+    }
+    return false;
+  }
+}
+
+/**
+ * Async `verifyWebhookSignature` for edge runtimes (Web Crypto when Node's
+ * `crypto` module is unavailable)
+ */
+export async function verifyWebhookSignatureAsync(
+  payload: string,
+  signature: string,
+  secret: WebhookSecret,
+  options?: WebhookSignatureOptions
+): Promise<boolean> {
+  try {
+    await verifyWebhookHeaderAsync(payload, signature, secret, options);
+    return true;
+  } catch (error) {
+    if (error instanceof WebhookError && error.code === ERROR_CODES.WEBHOOK_TIMESTAMP_TOO_OLD) {
+      throw error;
+    }
+    return false;
+  }
 }